@@ -13,24 +13,56 @@ import type * as auth0RoleMappings from "../auth0RoleMappings.js";
 import type * as crons from "../crons.js";
 import type * as customerMapping from "../customerMapping.js";
 import type * as departmentMapping from "../departmentMapping.js";
+import type * as fieldMappings from "../fieldMappings.js";
 import type * as functions from "../functions.js";
 import type * as integrationSchedules from "../integrationSchedules.js";
 import type * as invitations from "../invitations.js";
 import type * as invoiceMapping from "../invoiceMapping.js";
+import type * as invoiceSkips from "../invoiceSkips.js";
 import type * as lib_auth from "../lib/auth.js";
 import type * as lib_auth0Management from "../lib/auth0Management.js";
+import type * as lib_countries from "../lib/countries.js";
+import type * as lib_credentialCrypto from "../lib/credentialCrypto.js";
+import type * as lib_creditNotes from "../lib/creditNotes.js";
+import type * as lib_cron from "../lib/cron.js";
+import type * as lib_departments from "../lib/departments.js";
+import type * as lib_dryRun from "../lib/dryRun.js";
+import type * as lib_fieldMapping from "../lib/fieldMapping.js";
+import type * as lib_http from "../lib/http.js";
 import type * as lib_mappers from "../lib/mappers.js";
+import type * as lib_paymentFees from "../lib/paymentFees.js";
+import type * as lib_paymentTypes from "../lib/paymentTypes.js";
+import type * as lib_pipeline from "../lib/pipeline.js";
+import type * as lib_promotion from "../lib/promotion.js";
+import type * as lib_reconciliation from "../lib/reconciliation.js";
 import type * as lib_rubicClient from "../lib/rubicClient.js";
+import type * as lib_runTimeout from "../lib/runTimeout.js";
+import type * as lib_staleMappings from "../lib/staleMappings.js";
+import type * as lib_syncCursor from "../lib/syncCursor.js";
+import type * as lib_syncErrors from "../lib/syncErrors.js";
 import type * as lib_tripletexClient from "../lib/tripletexClient.js";
 import type * as lib_urlValidation from "../lib/urlValidation.js";
+import type * as lib_vatMapping from "../lib/vatMapping.js";
+import type * as memberMapping from "../memberMapping.js";
 import type * as organizations from "../organizations.js";
+import type * as paymentMapping from "../paymentMapping.js";
+import type * as paymentTypeMapping from "../paymentTypeMapping.js";
 import type * as productMapping from "../productMapping.js";
+import type * as promotion from "../promotion.js";
+import type * as reconciliation from "../reconciliation.js";
 import type * as scheduler from "../scheduler.js";
 import type * as sync from "../sync.js";
+import type * as syncErrors from "../syncErrors.js";
+import type * as syncLocks from "../syncLocks.js";
+import type * as syncPlannedActions from "../syncPlannedActions.js";
 import type * as syncPublic from "../syncPublic.js";
+import type * as syncRetries from "../syncRetries.js";
+import type * as syncSettings from "../syncSettings.js";
 import type * as syncState from "../syncState.js";
+import type * as syncWatermarks from "../syncWatermarks.js";
 import type * as users from "../users.js";
 import type * as validators from "../validators.js";
+import type * as vatMapping from "../vatMapping.js";
 
 import type {
   ApiFromModules,
@@ -44,24 +76,56 @@ declare const fullApi: ApiFromModules<{
   crons: typeof crons;
   customerMapping: typeof customerMapping;
   departmentMapping: typeof departmentMapping;
+  fieldMappings: typeof fieldMappings;
   functions: typeof functions;
   integrationSchedules: typeof integrationSchedules;
   invitations: typeof invitations;
   invoiceMapping: typeof invoiceMapping;
+  invoiceSkips: typeof invoiceSkips;
   "lib/auth": typeof lib_auth;
   "lib/auth0Management": typeof lib_auth0Management;
+  "lib/countries": typeof lib_countries;
+  "lib/credentialCrypto": typeof lib_credentialCrypto;
+  "lib/creditNotes": typeof lib_creditNotes;
+  "lib/cron": typeof lib_cron;
+  "lib/departments": typeof lib_departments;
+  "lib/dryRun": typeof lib_dryRun;
+  "lib/fieldMapping": typeof lib_fieldMapping;
+  "lib/http": typeof lib_http;
   "lib/mappers": typeof lib_mappers;
+  "lib/paymentFees": typeof lib_paymentFees;
+  "lib/paymentTypes": typeof lib_paymentTypes;
+  "lib/pipeline": typeof lib_pipeline;
+  "lib/promotion": typeof lib_promotion;
+  "lib/reconciliation": typeof lib_reconciliation;
   "lib/rubicClient": typeof lib_rubicClient;
+  "lib/runTimeout": typeof lib_runTimeout;
+  "lib/staleMappings": typeof lib_staleMappings;
+  "lib/syncCursor": typeof lib_syncCursor;
+  "lib/syncErrors": typeof lib_syncErrors;
   "lib/tripletexClient": typeof lib_tripletexClient;
   "lib/urlValidation": typeof lib_urlValidation;
+  "lib/vatMapping": typeof lib_vatMapping;
+  memberMapping: typeof memberMapping;
   organizations: typeof organizations;
+  paymentMapping: typeof paymentMapping;
+  paymentTypeMapping: typeof paymentTypeMapping;
   productMapping: typeof productMapping;
+  promotion: typeof promotion;
+  reconciliation: typeof reconciliation;
   scheduler: typeof scheduler;
   sync: typeof sync;
+  syncErrors: typeof syncErrors;
+  syncLocks: typeof syncLocks;
+  syncPlannedActions: typeof syncPlannedActions;
   syncPublic: typeof syncPublic;
+  syncRetries: typeof syncRetries;
+  syncSettings: typeof syncSettings;
   syncState: typeof syncState;
+  syncWatermarks: typeof syncWatermarks;
   users: typeof users;
   validators: typeof validators;
+  vatMapping: typeof vatMapping;
 }>;
 
 /**
@@ -23,7 +23,7 @@ export const list = query({
 	},
 });
 
-/** Get unmasked credentials — internal only (used by sync actions). */
+/** Get credentials (still encrypted) — internal only (used by sync actions). */
 export const getForSync = internalQuery({
 	args: {
 		organizationId: v.id("organizations"),
@@ -43,33 +43,24 @@ export const getForSync = internalQuery({
 	},
 });
 
-/** Get Rubic credentials — internal only (used by sync actions). */
-export const getRubicCredentials = internalQuery({
-	args: { organizationId: v.id("organizations") },
-	handler: async (ctx, args) => {
-		// Rubic credentials are stored with environment "production" as default
-		const creds = await ctx.db
-			.query("apiCredentials")
-			.withIndex("by_org_and_provider", (q) =>
-				q.eq("organizationId", args.organizationId).eq("provider", "rubic"),
-			)
-			.first();
-		return creds;
-	},
-});
-
-/** Create or update API credentials (requires admin). */
-export const upsert = mutation({
+/**
+ * Create or update API credentials — internal only (used by sync actions).
+ * `credentials` must already be encrypted; callers check admin access.
+ * Saving resets the verification state to `verifiedAt` (unset when the
+ * credentials were saved without verification).
+ */
+export const upsert = internalMutation({
 	args: {
 		organizationId: v.id("organizations"),
 		provider: providerType,
 		environment: tripletexEnv,
 		baseUrl: v.string(),
 		credentials: v.string(),
+		keyVersion: v.number(),
 		isEnabled: v.boolean(),
+		verifiedAt: v.optional(v.number()),
 	},
 	handler: async (ctx, args) => {
-		await requireOrgAdmin(ctx, args.organizationId);
 		validateBaseUrl(args.baseUrl, args.provider);
 
 		const existing = await ctx.db
@@ -86,7 +77,10 @@ export const upsert = mutation({
 			await ctx.db.patch(existing._id, {
 				baseUrl: args.baseUrl,
 				credentials: args.credentials,
+				keyVersion: args.keyVersion,
 				isEnabled: args.isEnabled,
+				lastVerifiedAt: args.verifiedAt,
+				lastVerificationError: undefined,
 			});
 			return existing._id;
 		}
@@ -97,7 +91,9 @@ export const upsert = mutation({
 			environment: args.environment,
 			baseUrl: args.baseUrl,
 			credentials: args.credentials,
+			keyVersion: args.keyVersion,
 			isEnabled: args.isEnabled,
+			lastVerifiedAt: args.verifiedAt,
 		});
 	},
 });
@@ -121,6 +117,65 @@ export const markVerified = internalMutation({
 	handler: async (ctx, args) => {
 		await ctx.db.patch(args.credentialId, {
 			lastVerifiedAt: Date.now(),
+			lastVerificationError: undefined,
+		});
+	},
+});
+
+/** Flag credentials as failing verification — internal only (used by sync actions). */
+export const markVerificationFailed = internalMutation({
+	args: { credentialId: v.id("apiCredentials"), error: v.string() },
+	handler: async (ctx, args) => {
+		await ctx.db.patch(args.credentialId, { lastVerificationError: args.error });
+	},
+});
+
+/**
+ * Enabled credentials across all organizations (still encrypted) — internal
+ * only (used by the credential health check).
+ */
+export const listEnabled = internalQuery({
+	args: {},
+	handler: async (ctx) => {
+		const creds = await ctx.db.query("apiCredentials").collect();
+		return creds.filter((c) => c.isEnabled);
+	},
+});
+
+/**
+ * Credentials not yet encrypted with the given key version, across all
+ * organizations — internal only (used by the re-encryption action).
+ */
+export const listForReencryption = internalQuery({
+	args: { keyVersion: v.number() },
+	handler: async (ctx, args) => {
+		const creds = await ctx.db.query("apiCredentials").collect();
+		return creds
+			.filter((c) => c.keyVersion !== args.keyVersion)
+			.map((c) => ({ _id: c._id, credentials: c.credentials, keyVersion: c.keyVersion }));
+	},
+});
+
+/**
+ * Replace a row's credentials with a re-encrypted copy — internal only (used
+ * by the re-encryption action). Skipped when the row changed since it was
+ * read, so a save made in between is never overwritten.
+ */
+export const reencrypt = internalMutation({
+	args: {
+		credentialId: v.id("apiCredentials"),
+		previousCredentials: v.string(),
+		credentials: v.string(),
+		keyVersion: v.number(),
+	},
+	handler: async (ctx, args) => {
+		const cred = await ctx.db.get(args.credentialId);
+		if (!cred || cred.credentials !== args.previousCredentials) return false;
+
+		await ctx.db.patch(args.credentialId, {
+			credentials: args.credentials,
+			keyVersion: args.keyVersion,
 		});
+		return true;
 	},
 });
@@ -9,4 +9,19 @@ const crons = cronJobs();
  */
 crons.interval("checkSchedules", { minutes: 5 }, internal.scheduler.checkAndDispatch);
 
+/**
+ * Janitor: mark sync runs left in "running" by a crashed or timed-out action as failed.
+ */
+crons.interval("recoverStuckSyncRuns", { minutes: 5 }, internal.syncState.recoverStuckRuns);
+
+/**
+ * Re-verify all enabled API credentials daily so expired or revoked ones are
+ * flagged before the next sync fails on them.
+ */
+crons.daily(
+	"checkCredentialHealth",
+	{ hourUTC: 3, minuteUTC: 0 },
+	internal.sync.checkCredentialHealth,
+);
+
 export default crons;
@@ -1,3 +1,4 @@
+import { paginationOptsValidator } from "convex/server";
 import { v } from "convex/values";
 import { internalMutation, internalQuery, query } from "./_generated/server";
 import { requireOrgMembership } from "./lib/auth";
@@ -41,6 +42,23 @@ export const listInternal = internalQuery({
 	},
 });
 
+/** One page of customer mappings — internal only (used to walk every mapping). */
+export const listPageInternal = internalQuery({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnv,
+		paginationOpts: paginationOptsValidator,
+	},
+	handler: async (ctx, args) => {
+		return await ctx.db
+			.query("customerMapping")
+			.withIndex("by_org_and_env", (q) =>
+				q.eq("organizationId", args.organizationId).eq("tripletexEnv", args.tripletexEnv),
+			)
+			.paginate(args.paginationOpts);
+	},
+});
+
 /** Get a specific customer mapping by Rubic customer number — internal only. */
 export const getByRubicNo = internalQuery({
 	args: {
@@ -86,6 +104,7 @@ export const upsert = internalMutation({
 				tripletexCustomerId: args.tripletexCustomerId,
 				hash: args.hash,
 				lastSyncedAt: Date.now(),
+				staleAt: undefined,
 			});
 			return existing._id;
 		}
@@ -100,3 +119,17 @@ export const upsert = internalMutation({
 		});
 	},
 });
+
+/**
+ * Flag mappings whose Tripletex customer is gone, or clear the flag — internal
+ * only (used by sync and mapping verification).
+ */
+export const setStale = internalMutation({
+	args: { ids: v.array(v.id("customerMapping")), stale: v.boolean() },
+	handler: async (ctx, args) => {
+		const staleAt = args.stale ? Date.now() : undefined;
+		for (const id of args.ids) {
+			await ctx.db.patch(id, { staleAt });
+		}
+	},
+});
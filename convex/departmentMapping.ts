@@ -1,5 +1,5 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { internalQuery, mutation, query } from "./_generated/server";
 import { requireOrgMembership, requireOrgOperator } from "./lib/auth";
 import { tripletexEnv } from "./validators";
 
@@ -28,6 +28,22 @@ export const list = query({
 	},
 });
 
+/** List department mappings for an org and environment — internal only (used by sync actions). */
+export const listInternal = internalQuery({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnv,
+	},
+	handler: async (ctx, args) => {
+		return await ctx.db
+			.query("departmentMapping")
+			.withIndex("by_org_and_env", (q) =>
+				q.eq("organizationId", args.organizationId).eq("tripletexEnv", args.tripletexEnv),
+			)
+			.collect();
+	},
+});
+
 /** Create or update a department mapping (requires operator). */
 export const upsert = mutation({
 	args: {
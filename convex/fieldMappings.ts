@@ -0,0 +1,127 @@
+import { v } from "convex/values";
+import { internalQuery, mutation, query } from "./_generated/server";
+import { requireOrgMembership, requireOrgOperator } from "./lib/auth";
+import { validateFieldRules } from "./lib/fieldMapping";
+import {
+	mapRubicCustomerToTripletex,
+	mapRubicInvoiceToTripletexOrder,
+	mapRubicProductToTripletex,
+} from "./lib/mappers";
+import type {
+	RubicCustomer,
+	RubicInvoice,
+	RubicInvoiceLine,
+	RubicProduct,
+} from "./lib/rubicClient";
+import {
+	type FieldMappingEntity,
+	type FieldRule,
+	fieldMappingEntity,
+	fieldRule,
+} from "./validators";
+
+/** List the field mapping rules of an org, one entry per configured entity (requires membership). */
+export const list = query({
+	args: { organizationId: v.id("organizations") },
+	handler: async (ctx, args) => {
+		await requireOrgMembership(ctx, args.organizationId);
+
+		return await ctx.db
+			.query("fieldMappings")
+			.withIndex("by_org_and_entity", (q) => q.eq("organizationId", args.organizationId))
+			.collect();
+	},
+});
+
+/** List the field mapping rules of an org — internal only (used by sync actions). */
+export const listInternal = internalQuery({
+	args: { organizationId: v.id("organizations") },
+	handler: async (ctx, args) => {
+		return await ctx.db
+			.query("fieldMappings")
+			.withIndex("by_org_and_entity", (q) => q.eq("organizationId", args.organizationId))
+			.collect();
+	},
+});
+
+/**
+ * Replace the field mapping rules of one entity (requires operator).
+ * Saving an empty list restores the built-in mapping.
+ */
+export const save = mutation({
+	args: {
+		organizationId: v.id("organizations"),
+		entity: fieldMappingEntity,
+		rules: v.array(fieldRule),
+	},
+	handler: async (ctx, args) => {
+		await requireOrgOperator(ctx, args.organizationId);
+		validateFieldRules(args.entity, args.rules);
+
+		const existing = await ctx.db
+			.query("fieldMappings")
+			.withIndex("by_org_and_entity", (q) =>
+				q.eq("organizationId", args.organizationId).eq("entity", args.entity),
+			)
+			.unique();
+
+		if (existing) {
+			await ctx.db.patch(existing._id, { rules: args.rules, updatedAt: Date.now() });
+			return existing._id;
+		}
+
+		return await ctx.db.insert("fieldMappings", {
+			organizationId: args.organizationId,
+			entity: args.entity,
+			rules: args.rules,
+			updatedAt: Date.now(),
+		});
+	},
+});
+
+function mapSample(entity: FieldMappingEntity, sample: object, rules: FieldRule[]): object {
+	switch (entity) {
+		case "customer":
+			return mapRubicCustomerToTripletex(sample as RubicCustomer, { fieldRules: rules });
+		case "product":
+			return mapRubicProductToTripletex(sample as RubicProduct, { fieldRules: rules });
+		case "invoiceLine": {
+			// The sample holds the line's fields plus its invoice's number and dates
+			const line = { ...sample, productCode: "sample" } as RubicInvoiceLine;
+			const invoice = { ...sample, invoiceLines: [line] } as unknown as RubicInvoice;
+			const order = mapRubicInvoiceToTripletexOrder(invoice, 1, new Map([["sample", 1]]), {
+				lineFieldRules: rules,
+			});
+			return order.orderLines?.[0] ?? {};
+		}
+	}
+}
+
+/**
+ * Map a sample Rubic record with the built-in mapping and with draft rules,
+ * for the live preview in the settings UI (requires membership).
+ */
+export const preview = query({
+	args: {
+		organizationId: v.id("organizations"),
+		entity: fieldMappingEntity,
+		rules: v.array(fieldRule),
+		sample: v.any(),
+	},
+	handler: async (ctx, args) => {
+		await requireOrgMembership(ctx, args.organizationId);
+
+		if (typeof args.sample !== "object" || args.sample === null || Array.isArray(args.sample)) {
+			return { error: "The sample must be a JSON object" };
+		}
+		try {
+			validateFieldRules(args.entity, args.rules);
+			return {
+				builtIn: mapSample(args.entity, args.sample, []),
+				mapped: mapSample(args.entity, args.sample, args.rules),
+			};
+		} catch (error) {
+			return { error: error instanceof Error ? error.message : String(error) };
+		}
+	},
+});
@@ -1,6 +1,7 @@
 import { v } from "convex/values";
 import { internalMutation, internalQuery, mutation, query } from "./_generated/server";
 import { requireOrgMembership, requireOrgOperator } from "./lib/auth";
+import { getCronExpressionError, isValidTimeZone } from "./lib/cron";
 import { syncType, tripletexEnv } from "./validators";
 
 /** List schedules for an organization (requires membership). */
@@ -33,11 +34,21 @@ export const upsert = mutation({
 		syncType: syncType,
 		tripletexEnv: tripletexEnv,
 		cronExpression: v.string(),
+		timezone: v.optional(v.string()),
 		isEnabled: v.boolean(),
 	},
 	handler: async (ctx, args) => {
 		await requireOrgOperator(ctx, args.organizationId);
 
+		const cronExpression = args.cronExpression.trim();
+		const cronError = getCronExpressionError(cronExpression);
+		if (cronError) {
+			throw new Error(`Invalid cron expression: ${cronError}`);
+		}
+		if (args.timezone !== undefined && !isValidTimeZone(args.timezone)) {
+			throw new Error(`Invalid timezone "${args.timezone}".`);
+		}
+
 		// Find existing schedule for this org + type + env
 		const schedules = await ctx.db
 			.query("integrationSchedules")
@@ -50,7 +61,8 @@ export const upsert = mutation({
 
 		if (existing) {
 			await ctx.db.patch(existing._id, {
-				cronExpression: args.cronExpression,
+				cronExpression,
+				timezone: args.timezone ?? existing.timezone,
 				isEnabled: args.isEnabled,
 			});
 			return existing._id;
@@ -60,7 +72,8 @@ export const upsert = mutation({
 			organizationId: args.organizationId,
 			syncType: args.syncType,
 			tripletexEnv: args.tripletexEnv,
-			cronExpression: args.cronExpression,
+			cronExpression,
+			timezone: args.timezone,
 			isEnabled: args.isEnabled,
 		});
 	},
@@ -1,4 +1,6 @@
+import { paginationOptsValidator } from "convex/server";
 import { v } from "convex/values";
+import type { Doc } from "./_generated/dataModel";
 import { internalMutation, internalQuery, query } from "./_generated/server";
 import { requireOrgMembership } from "./lib/auth";
 import { tripletexEnv } from "./validators";
@@ -41,6 +43,23 @@ export const listInternal = internalQuery({
 	},
 });
 
+/** One page of invoice mappings — internal only (used to walk every mapping). */
+export const listPageInternal = internalQuery({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnv,
+		paginationOpts: paginationOptsValidator,
+	},
+	handler: async (ctx, args) => {
+		return await ctx.db
+			.query("invoiceMapping")
+			.withIndex("by_org_and_env", (q) =>
+				q.eq("organizationId", args.organizationId).eq("tripletexEnv", args.tripletexEnv),
+			)
+			.paginate(args.paginationOpts);
+	},
+});
+
 /** Get a specific invoice mapping by Rubic invoice ID — internal only. */
 export const getByRubicId = internalQuery({
 	args: {
@@ -61,20 +80,44 @@ export const getByRubicId = internalQuery({
 	},
 });
 
-/** Get all unsynced payments for an org and environment — internal only. */
-export const getUnsyncedPayments = internalQuery({
+/**
+ * Invoice mappings for the given Rubic invoice ids or Tripletex invoice ids —
+ * internal only. Each id is an index lookup, so callers pass a bounded batch.
+ */
+export const listByIdsInternal = internalQuery({
 	args: {
 		organizationId: v.id("organizations"),
 		tripletexEnv: tripletexEnv,
+		rubicInvoiceIds: v.array(v.number()),
+		tripletexInvoiceIds: v.array(v.number()),
 	},
 	handler: async (ctx, args) => {
-		const all = await ctx.db
-			.query("invoiceMapping")
-			.withIndex("by_org_and_env", (q) =>
-				q.eq("organizationId", args.organizationId).eq("tripletexEnv", args.tripletexEnv),
-			)
-			.collect();
-		return all.filter((m) => !m.paymentSynced);
+		const mappings = new Map<string, Doc<"invoiceMapping">>();
+		for (const rubicInvoiceId of args.rubicInvoiceIds) {
+			const mapping = await ctx.db
+				.query("invoiceMapping")
+				.withIndex("by_org_rubic_env", (q) =>
+					q
+						.eq("organizationId", args.organizationId)
+						.eq("rubicInvoiceId", rubicInvoiceId)
+						.eq("tripletexEnv", args.tripletexEnv),
+				)
+				.unique();
+			if (mapping) mappings.set(mapping._id, mapping);
+		}
+		for (const tripletexInvoiceId of args.tripletexInvoiceIds) {
+			const matches = await ctx.db
+				.query("invoiceMapping")
+				.withIndex("by_org_env_tripletex", (q) =>
+					q
+						.eq("organizationId", args.organizationId)
+						.eq("tripletexEnv", args.tripletexEnv)
+						.eq("tripletexInvoiceId", tripletexInvoiceId),
+				)
+				.collect();
+			for (const mapping of matches) mappings.set(mapping._id, mapping);
+		}
+		return [...mappings.values()];
 	},
 });
 
@@ -87,6 +130,7 @@ export const upsert = internalMutation({
 		rubicInvoiceNumber: v.number(),
 		tripletexInvoiceId: v.number(),
 		paymentSynced: v.optional(v.boolean()),
+		droppedProductCodes: v.optional(v.array(v.string())),
 	},
 	handler: async (ctx, args) => {
 		const existing = await ctx.db
@@ -104,6 +148,7 @@ export const upsert = internalMutation({
 				rubicInvoiceNumber: args.rubicInvoiceNumber,
 				tripletexInvoiceId: args.tripletexInvoiceId,
 				paymentSynced: args.paymentSynced ?? existing.paymentSynced,
+				droppedProductCodes: args.droppedProductCodes,
 				lastSyncedAt: Date.now(),
 			});
 			return existing._id;
@@ -117,17 +162,82 @@ export const upsert = internalMutation({
 			tripletexInvoiceId: args.tripletexInvoiceId,
 			lastSyncedAt: Date.now(),
 			paymentSynced: args.paymentSynced ?? false,
+			droppedProductCodes: args.droppedProductCodes,
 		});
 	},
 });
 
-/** Mark an invoice's payment as synced — internal only (used by sync). */
-export const markPaymentSynced = internalMutation({
+/**
+ * Note a credit about to be written to Tripletex — internal only (used by
+ * sync). Kept until `recordCreditNote`, so an interrupted attempt can be
+ * matched to what it created instead of crediting twice.
+ */
+export const beginCredit = internalMutation({
+	args: {
+		invoiceMappingId: v.id("invoiceMapping"),
+		amount: v.number(),
+		full: v.boolean(),
+		creditDate: v.string(),
+		orderId: v.optional(v.number()),
+	},
+	handler: async (ctx, args) => {
+		const { invoiceMappingId, ...pendingCredit } = args;
+		await ctx.db.patch(invoiceMappingId, { pendingCredit });
+	},
+});
+
+/** Record a Tripletex credit note created for a mapped invoice — internal only (used by sync). */
+export const recordCreditNote = internalMutation({
+	args: {
+		invoiceMappingId: v.id("invoiceMapping"),
+		tripletexInvoiceId: v.number(),
+		amount: v.number(),
+		full: v.boolean(),
+	},
+	handler: async (ctx, args) => {
+		const mapping = await ctx.db.get(args.invoiceMappingId);
+		if (!mapping) throw new Error("Invoice mapping not found");
+
+		const now = Date.now();
+		await ctx.db.patch(args.invoiceMappingId, {
+			creditedAmount: (mapping.creditedAmount ?? 0) + args.amount,
+			creditNotes: [
+				...(mapping.creditNotes ?? []),
+				{
+					tripletexInvoiceId: args.tripletexInvoiceId,
+					amount: args.amount,
+					full: args.full,
+					createdAt: now,
+				},
+			],
+			pendingCredit: undefined,
+			lastSyncedAt: now,
+		});
+	},
+});
+
+/** Mark an invoice as settled once Rubic's balance is zero — internal only (used by sync). */
+export const markSettled = internalMutation({
 	args: { invoiceMappingId: v.id("invoiceMapping") },
 	handler: async (ctx, args) => {
+		const now = Date.now();
 		await ctx.db.patch(args.invoiceMappingId, {
-			paymentSynced: true,
-			lastSyncedAt: Date.now(),
+			settledAt: now,
+			lastSyncedAt: now,
 		});
 	},
 });
+
+/**
+ * Flag mappings whose Tripletex invoice is gone, or clear the flag — internal
+ * only (used by sync and mapping verification).
+ */
+export const setStale = internalMutation({
+	args: { ids: v.array(v.id("invoiceMapping")), stale: v.boolean() },
+	handler: async (ctx, args) => {
+		const staleAt = args.stale ? Date.now() : undefined;
+		for (const id of args.ids) {
+			await ctx.db.patch(id, { staleAt });
+		}
+	},
+});
@@ -0,0 +1,105 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery, query } from "./_generated/server";
+import { requireOrgMembership } from "./lib/auth";
+import { invoiceSkipReason, tripletexEnv } from "./validators";
+
+/** List skipped invoices for an org and environment (requires membership). */
+export const list = query({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnv,
+		limit: v.optional(v.number()),
+	},
+	handler: async (ctx, args) => {
+		await requireOrgMembership(ctx, args.organizationId);
+
+		const limit = args.limit ?? 100;
+		return await ctx.db
+			.query("invoiceSkips")
+			.withIndex("by_org_and_env", (q) =>
+				q.eq("organizationId", args.organizationId).eq("tripletexEnv", args.tripletexEnv),
+			)
+			.order("desc")
+			.take(limit);
+	},
+});
+
+/** List skipped invoices — internal only (used by sync actions). */
+export const listInternal = internalQuery({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnv,
+	},
+	handler: async (ctx, args) => {
+		return await ctx.db
+			.query("invoiceSkips")
+			.withIndex("by_org_and_env", (q) =>
+				q.eq("organizationId", args.organizationId).eq("tripletexEnv", args.tripletexEnv),
+			)
+			.collect();
+	},
+});
+
+/** Record why an invoice was skipped — internal only (used by sync). */
+export const upsert = internalMutation({
+	args: {
+		organizationId: v.id("organizations"),
+		rubicInvoiceId: v.number(),
+		tripletexEnv: tripletexEnv,
+		rubicInvoiceNumber: v.number(),
+		reason: invoiceSkipReason,
+		details: v.string(),
+		syncStateId: v.id("syncState"),
+	},
+	handler: async (ctx, args) => {
+		const existing = await ctx.db
+			.query("invoiceSkips")
+			.withIndex("by_org_rubic_env", (q) =>
+				q
+					.eq("organizationId", args.organizationId)
+					.eq("rubicInvoiceId", args.rubicInvoiceId)
+					.eq("tripletexEnv", args.tripletexEnv),
+			)
+			.unique();
+
+		if (existing) {
+			await ctx.db.patch(existing._id, {
+				rubicInvoiceNumber: args.rubicInvoiceNumber,
+				reason: args.reason,
+				details: args.details,
+				syncStateId: args.syncStateId,
+				lastSeenAt: Date.now(),
+			});
+			return existing._id;
+		}
+
+		return await ctx.db.insert("invoiceSkips", {
+			...args,
+			lastSeenAt: Date.now(),
+		});
+	},
+});
+
+/** Clear the skip record once an invoice has been synced — internal only (used by sync). */
+export const clear = internalMutation({
+	args: {
+		organizationId: v.id("organizations"),
+		rubicInvoiceId: v.number(),
+		tripletexEnv: tripletexEnv,
+	},
+	handler: async (ctx, args) => {
+		const existing = await ctx.db
+			.query("invoiceSkips")
+			.withIndex("by_org_rubic_env", (q) =>
+				q
+					.eq("organizationId", args.organizationId)
+					.eq("rubicInvoiceId", args.rubicInvoiceId)
+					.eq("tripletexEnv", args.tripletexEnv),
+			)
+			.unique();
+
+		if (existing) {
+			await ctx.db.delete(existing._id);
+		}
+	},
+});
@@ -0,0 +1,24 @@
+import { describe, expect, test } from "bun:test";
+import { createCountryResolver } from "./countries";
+
+const resolveCountryId = createCountryResolver([
+	{ id: 161, isoAlpha2Code: "NO", isoAlpha3Code: "NOR", name: "Norge" },
+	{ id: 208, isoAlpha2Code: "SE", isoAlpha3Code: "SWE", name: "Sverige" },
+]);
+
+describe("createCountryResolver", () => {
+	test("resolves ISO alpha-2 and alpha-3 codes case-insensitively", () => {
+		expect(resolveCountryId({ countryCode: "no" })).toBe(161);
+		expect(resolveCountryId({ countryCode: " SWE " })).toBe(208);
+	});
+
+	test("falls back to the country name when the code is missing or unknown", () => {
+		expect(resolveCountryId({ countryCode: null, countryName: "Sverige" })).toBe(208);
+		expect(resolveCountryId({ countryCode: "+47", countryName: "norge" })).toBe(161);
+	});
+
+	test("returns undefined for unknown countries", () => {
+		expect(resolveCountryId({ countryCode: "XX", countryName: "Atlantis" })).toBeUndefined();
+		expect(resolveCountryId({})).toBeUndefined();
+	});
+});
@@ -0,0 +1,38 @@
+/**
+ * Resolution of Tripletex country ids for Rubic addresses.
+ *
+ * Tripletex addresses reference a country by its Tripletex id, while Rubic
+ * sends a `countryCode` (ISO 3166 alpha-2 or alpha-3) and a `countryName`.
+ * The code wins; the name is only used when the code is missing or unknown.
+ */
+import type { TripletexCountry } from "./tripletexClient";
+
+export interface CountryLookup {
+	countryCode?: string | null;
+	countryName?: string | null;
+}
+
+export type CountryResolver = (lookup: CountryLookup) => number | undefined;
+
+function normalize(value: string): string {
+	return value.trim().toUpperCase();
+}
+
+/** Build a resolver over the countries of a Tripletex company. */
+export function createCountryResolver(countries: TripletexCountry[]): CountryResolver {
+	const byCode = new Map<string, number>();
+	const byName = new Map<string, number>();
+	for (const country of countries) {
+		if (country.isoAlpha2Code) byCode.set(normalize(country.isoAlpha2Code), country.id);
+		if (country.isoAlpha3Code) byCode.set(normalize(country.isoAlpha3Code), country.id);
+		if (country.name) byName.set(normalize(country.name), country.id);
+	}
+
+	return (lookup) => {
+		const byCountryCode = lookup.countryCode
+			? byCode.get(normalize(lookup.countryCode))
+			: undefined;
+		if (byCountryCode !== undefined) return byCountryCode;
+		return lookup.countryName ? byName.get(normalize(lookup.countryName)) : undefined;
+	};
+}
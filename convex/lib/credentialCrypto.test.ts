@@ -0,0 +1,69 @@
+import { describe, expect, test } from "bun:test";
+import { decryptCredentials, encryptCredentials, parseCredentialKeyring } from "./credentialCrypto";
+
+const KEY_1 = btoa("a".repeat(32));
+const KEY_2 = btoa("b".repeat(32));
+const SECRET = JSON.stringify({ consumerToken: "consumer", employeeToken: "employee" });
+
+describe("parseCredentialKeyring", () => {
+	test("uses the highest version as the current key", () => {
+		const keyring = parseCredentialKeyring(`2:${KEY_2}, 1:${KEY_1}`);
+
+		expect(keyring.currentVersion).toBe(2);
+		expect([...keyring.keys.keys()]).toEqual([2, 1]);
+	});
+
+	test("rejects missing, malformed and short keys", () => {
+		expect(() => parseCredentialKeyring(undefined)).toThrow("not configured");
+		expect(() => parseCredentialKeyring(KEY_1)).toThrow("<version>:<base64 key>");
+		expect(() => parseCredentialKeyring(`1:${btoa("short")}`)).toThrow("32 bytes");
+		expect(() => parseCredentialKeyring(`1:${KEY_1},1:${KEY_2}`)).toThrow("twice");
+	});
+});
+
+describe("encryptCredentials / decryptCredentials", () => {
+	test("round-trips without exposing the plaintext", async () => {
+		const keyring = parseCredentialKeyring(`1:${KEY_1}`);
+		const encrypted = await encryptCredentials(SECRET, keyring);
+
+		expect(encrypted.keyVersion).toBe(1);
+		expect(encrypted.ciphertext).not.toContain("employee");
+		expect(await decryptCredentials(encrypted.ciphertext, keyring)).toBe(SECRET);
+	});
+
+	test("uses a fresh data key for every encryption", async () => {
+		const keyring = parseCredentialKeyring(`1:${KEY_1}`);
+		const first = await encryptCredentials(SECRET, keyring);
+		const second = await encryptCredentials(SECRET, keyring);
+
+		expect(first.ciphertext).not.toBe(second.ciphertext);
+	});
+
+	test("decrypts rows written under an older key after rotation", async () => {
+		const encrypted = await encryptCredentials(SECRET, parseCredentialKeyring(`1:${KEY_1}`));
+		const rotated = parseCredentialKeyring(`1:${KEY_1},2:${KEY_2}`);
+
+		expect(await decryptCredentials(encrypted.ciphertext, rotated)).toBe(SECRET);
+		expect((await encryptCredentials(SECRET, rotated)).keyVersion).toBe(2);
+	});
+
+	test("fails when the key version has been removed", async () => {
+		const encrypted = await encryptCredentials(SECRET, parseCredentialKeyring(`1:${KEY_1}`));
+
+		await expect(
+			decryptCredentials(encrypted.ciphertext, parseCredentialKeyring(`2:${KEY_2}`)),
+		).rejects.toThrow("no key version 1");
+	});
+
+	test("fails on tampered or unencrypted values", async () => {
+		const keyring = parseCredentialKeyring(`1:${KEY_1}`);
+		const { ciphertext } = await encryptCredentials(SECRET, keyring);
+		const parts = ciphertext.split(".");
+		parts[5] = btoa("tampered");
+
+		await expect(decryptCredentials(parts.join("."), keyring)).rejects.toThrow(
+			"could not be decrypted",
+		);
+		await expect(decryptCredentials(SECRET, keyring)).rejects.toThrow("expected encrypted format");
+	});
+});
@@ -0,0 +1,153 @@
+/**
+ * Envelope encryption for stored API credentials.
+ *
+ * Each credential row is encrypted with its own random AES-256-GCM data key.
+ * The data key is wrapped (encrypted) with a master key from the
+ * `CREDENTIALS_ENCRYPTION_KEYS` Convex environment variable, and the wrapped
+ * key travels with the ciphertext. Master keys are versioned: the variable
+ * holds `version:base64Key` pairs separated by commas, the highest version
+ * encrypts, and older versions stay available for decryption until every row
+ * has been re-encrypted with the current key.
+ *
+ * Uses Web Crypto only, so it runs in both the Convex and Node runtimes.
+ */
+
+const ENVELOPE_PREFIX = "enc1";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+export const CREDENTIALS_KEYS_ENV = "CREDENTIALS_ENCRYPTION_KEYS";
+
+type Bytes = Uint8Array<ArrayBuffer>;
+
+export interface CredentialKeyring {
+	/** Version used for new encryptions (the highest configured). */
+	currentVersion: number;
+	keys: Map<number, Bytes>;
+}
+
+export interface EncryptedCredentials {
+	/** Serialized envelope, stored in `apiCredentials.credentials`. */
+	ciphertext: string;
+	keyVersion: number;
+}
+
+/**
+ * Parse a keyring such as `1:base64Key,2:base64Key`.
+ * Throws when the value is missing or any key is not 32 bytes.
+ */
+export function parseCredentialKeyring(raw: string | undefined): CredentialKeyring {
+	if (!raw?.trim()) {
+		throw new Error(`${CREDENTIALS_KEYS_ENV} is not configured`);
+	}
+
+	const keys = new Map<number, Bytes>();
+	for (const entry of raw.split(",")) {
+		const separator = entry.indexOf(":");
+		const version = Number(entry.slice(0, separator).trim());
+		if (separator < 0 || !Number.isInteger(version) || version < 1) {
+			throw new Error(`${CREDENTIALS_KEYS_ENV} entries must look like "<version>:<base64 key>"`);
+		}
+		const key = fromBase64(entry.slice(separator + 1).trim());
+		if (key.length !== KEY_BYTES) {
+			throw new Error(`${CREDENTIALS_KEYS_ENV} key version ${version} must be ${KEY_BYTES} bytes`);
+		}
+		if (keys.has(version)) {
+			throw new Error(`${CREDENTIALS_KEYS_ENV} lists key version ${version} twice`);
+		}
+		keys.set(version, key);
+	}
+
+	return { currentVersion: Math.max(...keys.keys()), keys };
+}
+
+/** Load the keyring from the Convex environment. */
+export function loadCredentialKeyring(): CredentialKeyring {
+	return parseCredentialKeyring(process.env[CREDENTIALS_KEYS_ENV]);
+}
+
+/** Encrypt a credentials JSON string with a fresh data key under the current master key. */
+export async function encryptCredentials(
+	plaintext: string,
+	keyring: CredentialKeyring,
+): Promise<EncryptedCredentials> {
+	const keyVersion = keyring.currentVersion;
+	const masterKey = await importKey(getMasterKey(keyring, keyVersion));
+
+	const dataKey = crypto.getRandomValues(new Uint8Array(KEY_BYTES));
+	const wrapIv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+	const wrappedKey = await crypto.subtle.encrypt(
+		{ name: "AES-GCM", iv: wrapIv },
+		masterKey,
+		dataKey,
+	);
+
+	const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+	const ciphertext = await crypto.subtle.encrypt(
+		{ name: "AES-GCM", iv },
+		await importKey(dataKey),
+		new TextEncoder().encode(plaintext),
+	);
+
+	return {
+		ciphertext: [
+			ENVELOPE_PREFIX,
+			keyVersion,
+			toBase64(wrapIv),
+			toBase64(new Uint8Array(wrappedKey)),
+			toBase64(iv),
+			toBase64(new Uint8Array(ciphertext)),
+		].join("."),
+		keyVersion,
+	};
+}
+
+/** Decrypt an envelope produced by `encryptCredentials`. Throws if it was tampered with. */
+export async function decryptCredentials(
+	envelope: string,
+	keyring: CredentialKeyring,
+): Promise<string> {
+	const parts = envelope.split(".");
+	if (parts.length !== 6 || parts[0] !== ENVELOPE_PREFIX) {
+		throw new Error("Stored credentials are not in the expected encrypted format");
+	}
+	const [, version, wrapIv, wrappedKey, iv, ciphertext] = parts;
+
+	try {
+		const masterKey = await importKey(getMasterKey(keyring, Number(version)));
+		const dataKey = await crypto.subtle.decrypt(
+			{ name: "AES-GCM", iv: fromBase64(wrapIv) },
+			masterKey,
+			fromBase64(wrappedKey),
+		);
+		const plaintext = await crypto.subtle.decrypt(
+			{ name: "AES-GCM", iv: fromBase64(iv) },
+			await importKey(new Uint8Array(dataKey)),
+			fromBase64(ciphertext),
+		);
+		return new TextDecoder().decode(plaintext);
+	} catch (error) {
+		if (error instanceof Error && error.message.startsWith(CREDENTIALS_KEYS_ENV)) throw error;
+		throw new Error("Stored credentials could not be decrypted");
+	}
+}
+
+function getMasterKey(keyring: CredentialKeyring, version: number): Bytes {
+	const key = keyring.keys.get(version);
+	if (!key) {
+		throw new Error(`${CREDENTIALS_KEYS_ENV} has no key version ${version}`);
+	}
+	return key;
+}
+
+function importKey(raw: Bytes): Promise<CryptoKey> {
+	return crypto.subtle.importKey("raw", raw, "AES-GCM", false, ["encrypt", "decrypt"]);
+}
+
+function toBase64(bytes: Uint8Array): string {
+	return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Bytes {
+	return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
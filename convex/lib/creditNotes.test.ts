@@ -0,0 +1,169 @@
+import { describe, expect, test } from "bun:test";
+import {
+	checkCreditsUntil,
+	findCreatedCredit,
+	getAverageTaxPercent,
+	getCreditedTotal,
+	mapPartialCreditToTripletexOrder,
+	planCredit,
+} from "./creditNotes";
+import type { RubicInvoice } from "./rubicClient";
+
+function makeInvoice(overrides?: Partial<RubicInvoice>): RubicInvoice {
+	return {
+		customer: {
+			customerNo: "100",
+			customerName: "Test Customer",
+		} as RubicInvoice["customer"],
+		invoiceID: 1001,
+		invoiceNumber: 5001,
+		orderID: 2001,
+		invoiceDate: "2025-06-01",
+		sentDate: "2025-06-01",
+		dueDate: "2025-07-01",
+		netTotal: 1000,
+		taxTotal: 250,
+		grossTotal: 1250,
+		balance: 1250,
+		paidAmount: 0,
+		creditedAmount: 0,
+		correctedAmount: 0,
+		creditNoteAmount: 0,
+		totalAmount: 1250,
+		invoiceLines: null,
+		...overrides,
+	};
+}
+
+describe("getCreditedTotal", () => {
+	test("adds credited and corrected amounts", () => {
+		expect(getCreditedTotal(makeInvoice({ creditedAmount: 100, correctedAmount: 50 }))).toBe(150);
+	});
+});
+
+describe("planCredit", () => {
+	test("returns null when nothing new is credited", () => {
+		expect(planCredit(makeInvoice(), 0)).toBeNull();
+		expect(planCredit(makeInvoice({ creditedAmount: 300 }), 300)).toBeNull();
+	});
+
+	test("plans a full credit when the whole invoice is credited at once", () => {
+		expect(planCredit(makeInvoice({ creditedAmount: 1250 }), 0)).toEqual({
+			amount: 1250,
+			full: true,
+		});
+	});
+
+	test("plans a partial credit for the newly credited difference", () => {
+		expect(planCredit(makeInvoice({ creditedAmount: 300, correctedAmount: 200 }), 300)).toEqual({
+			amount: 200,
+			full: false,
+		});
+	});
+
+	test("credits the remainder partially once a partial credit exists", () => {
+		expect(planCredit(makeInvoice({ creditedAmount: 1250 }), 500)).toEqual({
+			amount: 750,
+			full: false,
+		});
+	});
+
+	test("never credits more than the invoice total", () => {
+		expect(planCredit(makeInvoice({ creditedAmount: 1250, correctedAmount: 100 }), 0)).toEqual({
+			amount: 1250,
+			full: true,
+		});
+	});
+
+	test("ignores rounding noise", () => {
+		expect(planCredit(makeInvoice({ creditedAmount: 300.004 }), 300)).toBeNull();
+	});
+});
+
+describe("mapPartialCreditToTripletexOrder", () => {
+	test("builds one negative line excluding VAT", () => {
+		const order = mapPartialCreditToTripletexOrder(makeInvoice(), 42, 125, "2025-07-15", {
+			vatTypeId: 3,
+			departmentId: 7,
+		});
+
+		expect(order.customer).toEqual({ id: 42 });
+		expect(order.orderDate).toBe("2025-07-15");
+		expect(order.department).toEqual({ id: 7 });
+		expect(order.orderLines).toEqual([
+			{
+				description: "Credit for invoice 5001",
+				count: 1,
+				unitPriceExcludingVatCurrency: -100,
+				vatType: { id: 3 },
+			},
+		]);
+	});
+
+	test("uses the gross amount when the invoice total is zero", () => {
+		const invoice = makeInvoice({ netTotal: 0, taxTotal: 0, grossTotal: 0 });
+		const order = mapPartialCreditToTripletexOrder(invoice, 42, 50, "2025-07-15");
+
+		expect(order.orderLines?.[0].unitPriceExcludingVatCurrency).toBe(-50);
+		expect(order.department).toBeUndefined();
+	});
+});
+
+describe("findCreatedCredit", () => {
+	const candidates = [
+		{ id: 1, isCreditNote: false, orders: [{ id: 300 }] },
+		{ id: 2, isCreditNote: true, creditedInvoice: 77 },
+		{ id: 3, isCreditNote: true, creditedInvoice: 88 },
+	];
+
+	test("finds the credit note of the invoice for a full credit", () => {
+		expect(findCreatedCredit(candidates, 88, { full: true })).toBe(3);
+		expect(findCreatedCredit(candidates, 99, { full: true })).toBeUndefined();
+	});
+
+	test("finds the invoice of the credit order for a partial credit", () => {
+		expect(findCreatedCredit(candidates, 88, { full: false, orderId: 300 })).toBe(1);
+		expect(findCreatedCredit(candidates, 88, { full: false })).toBeUndefined();
+	});
+});
+
+describe("getAverageTaxPercent", () => {
+	test("derives the rate from the invoice totals", () => {
+		expect(getAverageTaxPercent(makeInvoice())).toBe(25);
+		expect(getAverageTaxPercent(makeInvoice({ netTotal: 0 }))).toBeUndefined();
+	});
+});
+
+describe("checkCreditsUntil", () => {
+	test("checks every invoice while time remains", async () => {
+		const checked: number[] = [];
+		const unchecked = await checkCreditsUntil(
+			[1, 2, 3],
+			1000,
+			async (id) => {
+				checked.push(id);
+			},
+			() => 0,
+		);
+
+		expect(checked).toEqual([1, 2, 3]);
+		expect(unchecked).toEqual([]);
+	});
+
+	test("returns the invoices it did not reach by the deadline", async () => {
+		let now = 0;
+		const checked: number[] = [];
+		const unchecked = await checkCreditsUntil(
+			[1, 2, 3, 4],
+			1000,
+			async (id) => {
+				checked.push(id);
+				now += 600;
+			},
+			() => now,
+		);
+
+		expect(checked).toEqual([1, 2]);
+		expect(unchecked).toEqual([3, 4]);
+	});
+});
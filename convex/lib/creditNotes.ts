@@ -0,0 +1,121 @@
+/**
+ * Detection and mapping of credits on invoices that are already in Tripletex.
+ *
+ * Rubic reduces an invoice through credit notes (`creditedAmount`) and
+ * corrections (`correctedAmount`); both are gross amounts. The invoice
+ * mapping remembers how much has already been mirrored to Tripletex, so each
+ * sync only credits the difference. A credit covering the whole invoice in
+ * one go becomes a Tripletex credit note of the invoice itself; anything
+ * smaller becomes a negative order invoiced on its own.
+ */
+import type { RubicInvoice } from "./rubicClient";
+import type { TripletexInvoice, TripletexOrder } from "./tripletexClient";
+
+/** Differences below this are rounding noise (amounts are in NOK with øre). */
+const AMOUNT_TOLERANCE = 0.005;
+
+export interface PlannedCredit {
+	/** Gross amount to credit now. */
+	amount: number;
+	/** Credit the whole Tripletex invoice instead of creating a partial credit. */
+	full: boolean;
+}
+
+/** Total gross amount Rubic has credited or corrected on an invoice. */
+export function getCreditedTotal(invoice: RubicInvoice): number {
+	return invoice.creditedAmount + invoice.correctedAmount;
+}
+
+/**
+ * Work out the credit still to mirror to Tripletex, or null when there is none.
+ * `alreadyCredited` is the gross amount recorded on the invoice mapping.
+ */
+export function planCredit(invoice: RubicInvoice, alreadyCredited: number): PlannedCredit | null {
+	const creditedTotal = Math.min(getCreditedTotal(invoice), invoice.grossTotal);
+	const amount = roundAmount(creditedTotal - alreadyCredited);
+	if (amount <= AMOUNT_TOLERANCE) return null;
+
+	const full =
+		alreadyCredited <= AMOUNT_TOLERANCE && invoice.grossTotal - amount <= AMOUNT_TOLERANCE;
+	return { amount, full };
+}
+
+/**
+ * Build the Tripletex order for a partial credit: one negative line for the
+ * credited amount, excluding VAT at the invoice's average rate.
+ */
+export function mapPartialCreditToTripletexOrder(
+	invoice: RubicInvoice,
+	tripletexCustomerId: number,
+	amount: number,
+	creditDate: string,
+	options: { vatTypeId?: number; departmentId?: number } = {},
+): TripletexOrder {
+	const netShare = invoice.grossTotal !== 0 ? invoice.netTotal / invoice.grossTotal : 1;
+
+	const order: TripletexOrder = {
+		customer: { id: tripletexCustomerId },
+		deliveryDate: creditDate,
+		orderDate: creditDate,
+		orderLines: [
+			{
+				description: `Credit for invoice ${invoice.invoiceNumber}`,
+				count: 1,
+				unitPriceExcludingVatCurrency: -roundAmount(amount * netShare),
+				vatType: options.vatTypeId !== undefined ? { id: options.vatTypeId } : undefined,
+			},
+		],
+	};
+
+	if (options.departmentId !== undefined) {
+		order.department = { id: options.departmentId };
+	}
+
+	return order;
+}
+
+/**
+ * Find the Tripletex credit an interrupted attempt already created: the credit
+ * note of the invoice for a full credit, or the invoice of the credit order for
+ * a partial one. `candidates` are the Tripletex invoices of the credit date.
+ */
+export function findCreatedCredit(
+	candidates: TripletexInvoice[],
+	creditedInvoiceId: number,
+	pending: { full: boolean; orderId?: number },
+): number | undefined {
+	const match = candidates.find((invoice) =>
+		pending.full
+			? invoice.isCreditNote === true && invoice.creditedInvoice === creditedInvoiceId
+			: pending.orderId !== undefined &&
+				(invoice.orders ?? []).some((order) => order.id === pending.orderId),
+	);
+	return match?.id;
+}
+
+/**
+ * Check invoices for new credits one by one until the deadline. Returns the ids
+ * it did not get to, so the caller can queue them for a later run.
+ */
+export async function checkCreditsUntil(
+	invoiceIds: number[],
+	deadline: number,
+	check: (invoiceId: number) => Promise<void>,
+	now: () => number = Date.now,
+): Promise<number[]> {
+	for (let i = 0; i < invoiceIds.length; i++) {
+		if (now() >= deadline) return invoiceIds.slice(i);
+		await check(invoiceIds[i]);
+	}
+	return [];
+}
+
+/** The invoice's average VAT rate in percent, used to pick a VAT type for partial credits. */
+export function getAverageTaxPercent(invoice: RubicInvoice): number | undefined {
+	if (invoice.netTotal === 0) return undefined;
+	return roundAmount((invoice.taxTotal / invoice.netTotal) * 100);
+}
+
+function roundAmount(value: number): number {
+	return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,150 @@
+import { describe, expect, test } from "bun:test";
+import {
+	getCronExpressionError,
+	getNextCronTime,
+	isValidTimeZone,
+	parseCronExpression,
+} from "./cron";
+
+describe("parseCronExpression", () => {
+	test("expands wildcards to the full field range", () => {
+		const schedule = parseCronExpression("* * * * *");
+
+		expect(schedule.minutes.size).toBe(60);
+		expect(schedule.hours.size).toBe(24);
+		expect(schedule.daysOfMonth.size).toBe(31);
+		expect(schedule.months.size).toBe(12);
+		expect(schedule.daysOfWeek.size).toBe(7);
+		expect(schedule.daysOfMonthRestricted).toBe(false);
+		expect(schedule.daysOfWeekRestricted).toBe(false);
+	});
+
+	test("parses ranges, lists and steps", () => {
+		const schedule = parseCronExpression("*/15 8-10,14 1 */3 1-5");
+
+		expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+		expect([...schedule.hours]).toEqual([8, 9, 10, 14]);
+		expect([...schedule.months]).toEqual([1, 4, 7, 10]);
+		expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+	});
+
+	test("parses stepped ranges and start/step pairs", () => {
+		expect([...parseCronExpression("10-50/20 * * * *").minutes]).toEqual([10, 30, 50]);
+		expect([...parseCronExpression("45/5 * * * *").minutes]).toEqual([45, 50, 55]);
+	});
+
+	test("accepts month and weekday names", () => {
+		const schedule = parseCronExpression("0 6 * jan,DEC MON-FRI");
+
+		expect([...schedule.months]).toEqual([1, 12]);
+		expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+	});
+
+	test("treats 7 as Sunday", () => {
+		const schedule = parseCronExpression("0 0 * * 7");
+
+		expect([...schedule.daysOfWeek]).toEqual([0]);
+	});
+
+	test("rejects malformed expressions", () => {
+		expect(() => parseCronExpression("")).toThrow();
+		expect(() => parseCronExpression("0 * * *")).toThrow();
+		expect(() => parseCronExpression("0 * * * * *")).toThrow();
+		expect(() => parseCronExpression("60 * * * *")).toThrow();
+		expect(() => parseCronExpression("0 24 * * *")).toThrow();
+		expect(() => parseCronExpression("0 0 0 * *")).toThrow();
+		expect(() => parseCronExpression("*/0 * * * *")).toThrow();
+		expect(() => parseCronExpression("5-1 * * * *")).toThrow();
+		expect(() => parseCronExpression("1,,2 * * * *")).toThrow();
+		expect(() => parseCronExpression("daily * * * *")).toThrow();
+	});
+});
+
+describe("getCronExpressionError", () => {
+	test("returns null for valid expressions", () => {
+		expect(getCronExpressionError("30 2 * * 1-5")).toBeNull();
+	});
+
+	test("returns a message for invalid expressions", () => {
+		expect(getCronExpressionError("every hour")).toContain("5 fields");
+	});
+});
+
+describe("isValidTimeZone", () => {
+	test("accepts IANA zones and rejects unknown ones", () => {
+		expect(isValidTimeZone("Europe/Oslo")).toBe(true);
+		expect(isValidTimeZone("UTC")).toBe(true);
+		expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+	});
+});
+
+describe("getNextCronTime", () => {
+	test("returns the next matching minute strictly after the reference time", () => {
+		const after = Date.parse("2025-06-02T10:00:00Z");
+		const next = getNextCronTime("*/15 * * * *", after, "UTC");
+
+		expect(next).toBe(Date.parse("2025-06-02T10:15:00Z"));
+	});
+
+	test("evaluates hours in the configured timezone", () => {
+		// Oslo is UTC+2 in June, so 06:00 local is 04:00 UTC
+		const after = Date.parse("2025-06-02T00:00:00Z");
+		const next = getNextCronTime("0 6 * * *", after, "Europe/Oslo");
+
+		expect(next).toBe(Date.parse("2025-06-02T04:00:00Z"));
+	});
+
+	test("skips weekends for weekday-only schedules", () => {
+		// Saturday 2025-06-07 → next run is Monday 2025-06-09 02:30 Oslo (00:30 UTC)
+		const after = Date.parse("2025-06-07T12:00:00Z");
+		const next = getNextCronTime("30 2 * * 1-5", after, "Europe/Oslo");
+
+		expect(next).toBe(Date.parse("2025-06-09T00:30:00Z"));
+	});
+
+	test("matches either day-of-month or day-of-week when both are restricted", () => {
+		// 1st of the month OR Friday; Tuesday 2025-07-01 is the 1st
+		const after = Date.parse("2025-06-28T12:00:00Z");
+		const next = getNextCronTime("0 12 1 * 5", after, "UTC");
+
+		expect(next).toBe(Date.parse("2025-07-01T12:00:00Z"));
+	});
+
+	test("does not skip midnight after a DST spring-forward day", () => {
+		// Oslo springs forward on Sunday 2025-03-30; Monday 00:00 local is 22:00 UTC Sunday
+		const after = Date.parse("2025-03-29T23:00:00Z");
+		const next = getNextCronTime("0 0 * * 1", after, "Europe/Oslo");
+
+		expect(next).toBe(Date.parse("2025-03-30T22:00:00Z"));
+	});
+
+	test("fires once in the hour a DST fall-back repeats", () => {
+		// Oslo falls back on Sunday 2025-10-26: 02:30 local is 00:30 UTC, then again at 01:30 UTC
+		const schedule = "30 2 * * *";
+		const first = getNextCronTime(schedule, Date.parse("2025-10-25T23:00:00Z"), "Europe/Oslo");
+
+		expect(first).toBe(Date.parse("2025-10-26T00:30:00Z"));
+		expect(getNextCronTime(schedule, first as number, "Europe/Oslo")).toBe(
+			Date.parse("2025-10-27T01:30:00Z"),
+		);
+	});
+
+	test("fires a time skipped by a DST spring-forward at the end of the gap", () => {
+		// Oslo jumps from 02:00 to 03:00 on Sunday 2025-03-30 (01:00 UTC)
+		const schedule = "30 2 * * *";
+		const shifted = getNextCronTime(schedule, Date.parse("2025-03-29T12:00:00Z"), "Europe/Oslo");
+
+		expect(shifted).toBe(Date.parse("2025-03-30T01:00:00Z"));
+		expect(getNextCronTime(schedule, shifted as number, "Europe/Oslo")).toBe(
+			Date.parse("2025-03-31T00:30:00Z"),
+		);
+		// Times outside the gap are unaffected
+		expect(getNextCronTime("0 3 * * *", Date.parse("2025-03-29T12:00:00Z"), "Europe/Oslo")).toBe(
+			Date.parse("2025-03-30T01:00:00Z"),
+		);
+	});
+
+	test("returns null for expressions that can never fire", () => {
+		expect(getNextCronTime("0 0 31 2 *", Date.parse("2025-01-01T00:00:00Z"), "UTC")).toBeNull();
+	});
+});
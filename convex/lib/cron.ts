@@ -0,0 +1,372 @@
+/**
+ * Five-field cron expression evaluator for integration schedules.
+ *
+ * Supports the standard `minute hour day-of-month month day-of-week` syntax:
+ * wildcards, ranges (`1-5`), lists (`1,15`), steps (`*\/15`, `10-50/10`) and
+ * month/weekday names (`JAN`, `MON-FRI`). Day-of-week accepts both 0 and 7 for
+ * Sunday. When both day-of-month and day-of-week are restricted, a day matches
+ * if either field matches (classic Vixie cron semantics).
+ *
+ * Next fire times are computed in a configurable IANA timezone so that
+ * "30 2 * * 1-5" means 02:30 local time on weekdays, across DST changes. Each
+ * wall-clock time fires once: in the hour a fall-back repeats only its first
+ * occurrence fires, and a time skipped by a spring-forward gap fires at the
+ * end of the gap.
+ */
+
+/** Timezone used when a schedule does not specify one. */
+export const DEFAULT_SCHEDULE_TIMEZONE = "Europe/Oslo";
+
+export interface CronSchedule {
+	minutes: Set<number>;
+	hours: Set<number>;
+	daysOfMonth: Set<number>;
+	months: Set<number>;
+	daysOfWeek: Set<number>;
+	/** True when the day-of-month field is not `*` (affects DOM/DOW matching). */
+	daysOfMonthRestricted: boolean;
+	/** True when the day-of-week field is not `*` (affects DOM/DOW matching). */
+	daysOfWeekRestricted: boolean;
+}
+
+interface FieldSpec {
+	name: string;
+	min: number;
+	max: number;
+	aliases?: Record<string, number>;
+}
+
+const MONTH_ALIASES: Record<string, number> = {
+	JAN: 1,
+	FEB: 2,
+	MAR: 3,
+	APR: 4,
+	MAY: 5,
+	JUN: 6,
+	JUL: 7,
+	AUG: 8,
+	SEP: 9,
+	OCT: 10,
+	NOV: 11,
+	DEC: 12,
+};
+
+const WEEKDAY_ALIASES: Record<string, number> = {
+	SUN: 0,
+	MON: 1,
+	TUE: 2,
+	WED: 3,
+	THU: 4,
+	FRI: 5,
+	SAT: 6,
+};
+
+const FIELDS: FieldSpec[] = [
+	{ name: "minute", min: 0, max: 59 },
+	{ name: "hour", min: 0, max: 23 },
+	{ name: "day-of-month", min: 1, max: 31 },
+	{ name: "month", min: 1, max: 12, aliases: MONTH_ALIASES },
+	// 7 is accepted as an alias for Sunday and folded to 0 after parsing
+	{ name: "day-of-week", min: 0, max: 7, aliases: WEEKDAY_ALIASES },
+];
+
+/**
+ * How far ahead to search for a fire time. Eight years covers leap-day
+ * schedules ("0 0 29 2 *") and lets unsatisfiable ones ("0 0 31 2 *") terminate.
+ */
+const SEARCH_HORIZON_MS = 8 * 366 * 24 * 60 * 60 * 1000;
+
+function parseValue(raw: string, spec: FieldSpec): number {
+	const alias = spec.aliases?.[raw.toUpperCase()];
+	if (alias !== undefined) return alias;
+
+	if (!/^\d+$/.test(raw)) {
+		throw new Error(`Invalid ${spec.name} value "${raw}"`);
+	}
+	const value = Number.parseInt(raw, 10);
+	if (value < spec.min || value > spec.max) {
+		throw new Error(`${spec.name} value ${value} is out of range (${spec.min}-${spec.max})`);
+	}
+	return value;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+	const values = new Set<number>();
+
+	for (const part of field.split(",")) {
+		if (part === "") {
+			throw new Error(`Empty list item in ${spec.name} field`);
+		}
+
+		const [rangePart, stepPart, ...rest] = part.split("/");
+		if (rest.length > 0) {
+			throw new Error(`Invalid step syntax "${part}" in ${spec.name} field`);
+		}
+
+		let step = 1;
+		if (stepPart !== undefined) {
+			if (!/^\d+$/.test(stepPart) || Number.parseInt(stepPart, 10) === 0) {
+				throw new Error(`Invalid step "${stepPart}" in ${spec.name} field`);
+			}
+			step = Number.parseInt(stepPart, 10);
+		}
+
+		let start: number;
+		let end: number;
+		if (rangePart === "*") {
+			start = spec.min;
+			end = spec.max;
+		} else if (rangePart.includes("-")) {
+			const [from, to, ...extra] = rangePart.split("-");
+			if (extra.length > 0 || from === "" || to === "") {
+				throw new Error(`Invalid range "${rangePart}" in ${spec.name} field`);
+			}
+			start = parseValue(from, spec);
+			end = parseValue(to, spec);
+			if (start > end) {
+				throw new Error(`Invalid range "${rangePart}" in ${spec.name} field: start is after end`);
+			}
+		} else {
+			start = parseValue(rangePart, spec);
+			// "5/15" means "starting at 5, every 15" up to the field maximum
+			end = stepPart !== undefined ? spec.max : start;
+		}
+
+		for (let value = start; value <= end; value += step) {
+			values.add(value);
+		}
+	}
+
+	return values;
+}
+
+/**
+ * Parse a five-field cron expression.
+ * Throws a descriptive error if the expression is malformed.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+	const parts = expression.trim().split(/\s+/);
+	if (parts.length !== 5 || parts[0] === "") {
+		throw new Error(
+			`Cron expression must have 5 fields (minute hour day month weekday), got "${expression}"`,
+		);
+	}
+
+	const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) =>
+		parseField(part, FIELDS[i]),
+	);
+
+	if (daysOfWeek.has(7)) {
+		daysOfWeek.delete(7);
+		daysOfWeek.add(0);
+	}
+
+	return {
+		minutes,
+		hours,
+		daysOfMonth,
+		months,
+		daysOfWeek,
+		daysOfMonthRestricted: parts[2] !== "*",
+		daysOfWeekRestricted: parts[4] !== "*",
+	};
+}
+
+/**
+ * Check whether a cron expression is valid without throwing.
+ * Returns the parse error message, or null when the expression is valid.
+ */
+export function getCronExpressionError(expression: string): string | null {
+	try {
+		parseCronExpression(expression);
+		return null;
+	} catch (error) {
+		return error instanceof Error ? error.message : String(error);
+	}
+}
+
+/** Check whether a string is a timezone the runtime's Intl implementation understands. */
+export function isValidTimeZone(timeZone: string): boolean {
+	try {
+		new Intl.DateTimeFormat("en-US", { timeZone });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+// --- Timezone-aware evaluation ---
+
+interface WallClock {
+	year: number;
+	month: number;
+	day: number;
+	hour: number;
+	minute: number;
+	weekday: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+	let formatter = formatterCache.get(timeZone);
+	if (!formatter) {
+		formatter = new Intl.DateTimeFormat("en-US", {
+			timeZone,
+			hourCycle: "h23",
+			year: "numeric",
+			month: "numeric",
+			day: "numeric",
+			hour: "numeric",
+			minute: "numeric",
+			weekday: "short",
+		});
+		formatterCache.set(timeZone, formatter);
+	}
+	return formatter;
+}
+
+function toWallClock(timestamp: number, timeZone: string): WallClock {
+	const parts = getFormatter(timeZone).formatToParts(new Date(timestamp));
+	const get = (type: Intl.DateTimeFormatPartTypes) =>
+		parts.find((p) => p.type === type)?.value ?? "";
+
+	return {
+		year: Number.parseInt(get("year"), 10),
+		month: Number.parseInt(get("month"), 10),
+		day: Number.parseInt(get("day"), 10),
+		hour: Number.parseInt(get("hour"), 10),
+		minute: Number.parseInt(get("minute"), 10),
+		weekday: WEEKDAY_ALIASES[get("weekday").toUpperCase()],
+	};
+}
+
+function matchesDay(schedule: CronSchedule, wall: WallClock): boolean {
+	const domMatch = schedule.daysOfMonth.has(wall.day);
+	const dowMatch = schedule.daysOfWeek.has(wall.weekday);
+
+	if (schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted) {
+		return domMatch || dowMatch;
+	}
+	return domMatch && dowMatch;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/** How far back to look for a DST fall-back; longer than any real DST shift. */
+const DST_LOOKBACK_MS = 3 * 60 * 60 * 1000;
+
+function matchesTime(schedule: CronSchedule, wall: WallClock): boolean {
+	return (
+		schedule.months.has(wall.month) &&
+		matchesDay(schedule, wall) &&
+		schedule.hours.has(wall.hour) &&
+		schedule.minutes.has(wall.minute)
+	);
+}
+
+/** A wall-clock time read as if it were UTC, for offset arithmetic. */
+function wallClockMs(wall: WallClock): number {
+	return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+}
+
+function wallClockFromMs(ms: number): WallClock {
+	const date = new Date(ms);
+	return {
+		year: date.getUTCFullYear(),
+		month: date.getUTCMonth() + 1,
+		day: date.getUTCDate(),
+		hour: date.getUTCHours(),
+		minute: date.getUTCMinutes(),
+		weekday: date.getUTCDay(),
+	};
+}
+
+/**
+ * True when the wall-clock time at `timestamp` already occurred shortly
+ * before, i.e. it lies in the hour a DST fall-back repeats.
+ */
+function isRepeatedWallClock(timestamp: number, wall: WallClock, timeZone: string): boolean {
+	const earlier = timestamp - DST_LOOKBACK_MS;
+	const earlierOffset = wallClockMs(toWallClock(earlier, timeZone)) - earlier;
+	const shift = earlierOffset - (wallClockMs(wall) - timestamp);
+	if (shift <= 0) return false;
+	return wallClockMs(toWallClock(timestamp - shift, timeZone)) === wallClockMs(wall);
+}
+
+/**
+ * The wall-clock times a DST spring-forward skipped right before `timestamp`.
+ * Empty unless `timestamp` is the first minute after the gap.
+ */
+function getSkippedWallClocks(timestamp: number, wall: WallClock, timeZone: string): WallClock[] {
+	const current = wallClockMs(wall);
+	const previous = wallClockMs(toWallClock(timestamp - MINUTE_MS, timeZone));
+	const skipped: WallClock[] = [];
+	for (let ms = previous + MINUTE_MS; ms < current; ms += MINUTE_MS) {
+		skipped.push(wallClockFromMs(ms));
+	}
+	return skipped;
+}
+
+/**
+ * Compute the next time (epoch ms) strictly after `after` at which the
+ * expression fires, evaluated in the given IANA timezone.
+ *
+ * Returns null when no fire time exists within the search horizon
+ * (e.g. an impossible date such as February 31st).
+ */
+export function getNextCronTime(
+	expression: string | CronSchedule,
+	after: number,
+	timeZone: string = DEFAULT_SCHEDULE_TIMEZONE,
+): number | null {
+	const schedule = typeof expression === "string" ? parseCronExpression(expression) : expression;
+
+	// Start at the next whole minute after `after`
+	let candidate = Math.floor(after / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+	const horizon = after + SEARCH_HORIZON_MS;
+
+	while (candidate <= horizon) {
+		const wall = toWallClock(candidate, timeZone);
+
+		if (!schedule.months.has(wall.month) || !matchesDay(schedule, wall)) {
+			// Jump to the next local midnight
+			const minutesLeftToday = 24 * 60 - (wall.hour * 60 + wall.minute);
+			candidate += minutesLeftToday * MINUTE_MS;
+
+			// A DST spring-forward day is only 23 hours long, so the jump above can
+			// overshoot midnight. Step back to 00:00 so we don't skip hour 0.
+			const landed = toWallClock(candidate, timeZone);
+			if (landed.day !== wall.day) {
+				candidate -= (landed.hour * 60 + landed.minute) * MINUTE_MS;
+			}
+			continue;
+		}
+
+		// A time skipped by a spring-forward gap fires once, when the gap ends
+		if (getSkippedWallClocks(candidate, wall, timeZone).some((w) => matchesTime(schedule, w))) {
+			return candidate;
+		}
+
+		if (!schedule.hours.has(wall.hour)) {
+			// Jump to the start of the next local hour
+			candidate += (60 - wall.minute) * MINUTE_MS;
+			continue;
+		}
+
+		if (!schedule.minutes.has(wall.minute)) {
+			candidate += MINUTE_MS;
+			continue;
+		}
+
+		// The second pass through a fall-back hour does not fire again
+		if (isRepeatedWallClock(candidate, wall, timeZone)) {
+			candidate += MINUTE_MS;
+			continue;
+		}
+
+		return candidate;
+	}
+
+	return null;
+}
@@ -0,0 +1,85 @@
+import { describe, expect, test } from "bun:test";
+import { type DepartmentPolicy, resolveDepartment, resolveInvoiceDepartment } from "./departments";
+import type { RubicInvoiceLine } from "./rubicClient";
+
+function makeLine(departmentID: number | null, netTotal: number): RubicInvoiceLine {
+	return {
+		invoiceLineID: 1,
+		productID: 10,
+		productCode: "PROD-001",
+		productName: "Annual Membership",
+		productGroupName: "Memberships",
+		accountNumber: "3000",
+		departmentID,
+		departmentNumber: null,
+		departmentName: null,
+		price: netTotal,
+		specification: null,
+		quantity: 1,
+		discountPercentage: 0,
+		discount: 0,
+		taxPercentage: 25,
+		netTotal,
+		tax: netTotal * 0.25,
+		grossTotal: netTotal * 1.25,
+	};
+}
+
+const mappings = new Map<number, number>([
+	[5, 105],
+	[6, 106],
+]);
+
+describe("resolveDepartment", () => {
+	test("uses the mapped department", () => {
+		const policy: DepartmentPolicy = { mappings, fallbackDepartmentId: 900, requireMapping: false };
+
+		expect(resolveDepartment(policy, 5)).toEqual({ ok: true, departmentId: 105 });
+	});
+
+	test("falls back for unmapped and missing departments", () => {
+		const policy: DepartmentPolicy = { mappings, fallbackDepartmentId: 900, requireMapping: false };
+
+		expect(resolveDepartment(policy, 42)).toEqual({ ok: true, departmentId: 900 });
+		expect(resolveDepartment(policy, null)).toEqual({ ok: true, departmentId: 900 });
+	});
+
+	test("leaves the department unset without a fallback", () => {
+		const policy: DepartmentPolicy = { mappings, requireMapping: false };
+
+		expect(resolveDepartment(policy, 42)).toEqual({ ok: true, departmentId: undefined });
+	});
+
+	test("refuses unmapped departments when mapping is required", () => {
+		const policy: DepartmentPolicy = { mappings, fallbackDepartmentId: 900, requireMapping: true };
+
+		expect(resolveDepartment(policy, 42)).toEqual({ ok: false, unmappedDepartmentId: 42 });
+		// Records without a Rubic department still use the fallback
+		expect(resolveDepartment(policy, null)).toEqual({ ok: true, departmentId: 900 });
+	});
+});
+
+describe("resolveInvoiceDepartment", () => {
+	test("uses the department of the line with the largest net total", () => {
+		const policy: DepartmentPolicy = { mappings, requireMapping: false };
+		const lines = [makeLine(5, 100), makeLine(6, 400), makeLine(5, -150)];
+
+		expect(resolveInvoiceDepartment(policy, lines)).toEqual({ ok: true, departmentId: 106 });
+	});
+
+	test("fails when any line's department is unmapped and mapping is required", () => {
+		const policy: DepartmentPolicy = { mappings, requireMapping: true };
+		const lines = [makeLine(5, 400), makeLine(42, 100)];
+
+		expect(resolveInvoiceDepartment(policy, lines)).toEqual({
+			ok: false,
+			unmappedDepartmentId: 42,
+		});
+	});
+
+	test("uses the fallback when there are no lines", () => {
+		const policy: DepartmentPolicy = { mappings, fallbackDepartmentId: 900, requireMapping: false };
+
+		expect(resolveInvoiceDepartment(policy, [])).toEqual({ ok: true, departmentId: 900 });
+	});
+});
@@ -0,0 +1,59 @@
+/**
+ * Resolution of Tripletex departments from an org's department mapping.
+ *
+ * Rubic products and invoice lines carry a `departmentID`. A mapped
+ * department is used as-is. An unmapped one falls back to the configured
+ * fallback department, unless the org requires every department to be
+ * mapped, in which case the record is not synced. Records without a Rubic
+ * department always use the fallback (which may itself be unset).
+ */
+import type { RubicInvoiceLine } from "./rubicClient";
+
+export interface DepartmentPolicy {
+	/** Rubic department id → Tripletex department id. */
+	mappings: Map<number, number>;
+	fallbackDepartmentId?: number;
+	/** Refuse records whose Rubic department is not mapped. */
+	requireMapping: boolean;
+}
+
+export type DepartmentResolution =
+	| { ok: true; departmentId?: number }
+	| { ok: false; unmappedDepartmentId: number };
+
+/** Resolve the Tripletex department for a single Rubic department id. */
+export function resolveDepartment(
+	policy: DepartmentPolicy,
+	rubicDepartmentId: number | null,
+): DepartmentResolution {
+	if (rubicDepartmentId !== null) {
+		const mapped = policy.mappings.get(rubicDepartmentId);
+		if (mapped !== undefined) return { ok: true, departmentId: mapped };
+		if (policy.requireMapping) return { ok: false, unmappedDepartmentId: rubicDepartmentId };
+	}
+	return { ok: true, departmentId: policy.fallbackDepartmentId };
+}
+
+/**
+ * Resolve the department for a Tripletex order built from invoice lines.
+ * Tripletex holds the department on the order, so when lines belong to
+ * different departments the one with the largest net total wins.
+ */
+export function resolveInvoiceDepartment(
+	policy: DepartmentPolicy,
+	lines: RubicInvoiceLine[],
+): DepartmentResolution {
+	let best: { departmentId?: number; netTotal: number } | undefined;
+
+	for (const line of lines) {
+		const resolution = resolveDepartment(policy, line.departmentID);
+		if (!resolution.ok) return resolution;
+
+		const netTotal = Math.abs(line.netTotal);
+		if (!best || netTotal > best.netTotal) {
+			best = { departmentId: resolution.departmentId, netTotal };
+		}
+	}
+
+	return { ok: true, departmentId: best?.departmentId ?? policy.fallbackDepartmentId };
+}
@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+import { diffFields, summarizeOrderLines } from "./dryRun";
+
+describe("diffFields", () => {
+	test("lists every set field when there is no current record", () => {
+		expect(diffFields(null, { name: "Acme", email: "post@acme.no", phone: undefined })).toEqual([
+			{ field: "name", from: undefined, to: "Acme" },
+			{ field: "email", from: undefined, to: "post@acme.no" },
+		]);
+	});
+
+	test("compares nested objects per field and ignores id and version", () => {
+		const current = { id: 1, version: 3, name: "Acme", postalAddress: { city: "Oslo" } };
+		const planned = { id: 1, version: 4, name: "Acme", postalAddress: { city: "Bergen" } };
+
+		expect(diffFields(current, planned)).toEqual([
+			{ field: "postalAddress.city", from: "Oslo", to: "Bergen" },
+		]);
+	});
+
+	test("reports price changes and treats empty values as unset", () => {
+		const current = { priceExcludingVatCurrency: 100, description: "" };
+		const planned = { priceExcludingVatCurrency: 120, description: undefined };
+
+		expect(diffFields(current, planned)).toEqual([
+			{ field: "priceExcludingVatCurrency", from: "100", to: "120" },
+		]);
+	});
+
+	test("returns no changes for identical records", () => {
+		expect(diffFields({ name: "Acme" }, { name: "Acme" })).toEqual([]);
+	});
+});
+
+describe("summarizeOrderLines", () => {
+	test("computes line amounts with discounts and the order total", () => {
+		const summary = summarizeOrderLines([
+			{
+				product: { id: 7 },
+				description: "Membership",
+				count: 2,
+				unitPriceExcludingVatCurrency: 500,
+			},
+			{ product: { id: 8 }, count: 1, unitPriceExcludingVatCurrency: 99.99, discount: 10 },
+		]);
+
+		expect(summary.lines).toEqual([
+			{
+				description: "Membership",
+				productId: 7,
+				count: 2,
+				unitPrice: 500,
+				discount: undefined,
+				amount: 1000,
+			},
+			{
+				description: undefined,
+				productId: 8,
+				count: 1,
+				unitPrice: 99.99,
+				discount: 10,
+				amount: 89.99,
+			},
+		]);
+		expect(summary.total).toBe(1089.99);
+	});
+
+	test("handles orders without lines", () => {
+		expect(summarizeOrderLines(undefined)).toEqual({ lines: [], total: 0 });
+	});
+});
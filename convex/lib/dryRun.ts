@@ -0,0 +1,101 @@
+/**
+ * Helpers for dry runs: describe what a sync would change in Tripletex
+ * (field diffs, order lines and totals) without writing anything.
+ */
+import type {
+	PlannedActionType,
+	PlannedFieldChange,
+	PlannedOrderLine,
+	SyncEntityType,
+} from "../validators";
+import type { TripletexOrderLine } from "./tripletexClient";
+
+/** What a dry run would do with one record, as stored in `syncPlannedActions`. */
+export interface PlannedAction {
+	entityType: SyncEntityType;
+	rubicKey: string;
+	label?: string;
+	tripletexId?: number;
+	action: PlannedActionType;
+	changes?: PlannedFieldChange[];
+	lines?: PlannedOrderLine[];
+	amount?: number;
+	message?: string;
+}
+
+/** Fields that identify a Tripletex record rather than describe it. */
+const IGNORED_FIELDS = new Set(["id", "version"]);
+
+function flatten(record: object | null | undefined, prefix = "", out = new Map<string, unknown>()) {
+	if (!record) return out;
+
+	for (const [key, value] of Object.entries(record)) {
+		if (!prefix && IGNORED_FIELDS.has(key)) continue;
+		const field = prefix ? `${prefix}.${key}` : key;
+
+		if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+			flatten(value, field, out);
+		} else {
+			out.set(field, value);
+		}
+	}
+	return out;
+}
+
+function formatValue(value: unknown): string | undefined {
+	if (value === undefined || value === null || value === "") return undefined;
+	return Array.isArray(value) ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * List the fields of `planned` that differ from `current` (null when the record
+ * would be created). Nested objects are compared per field, e.g.
+ * "postalAddress.city". Fields left undefined in `planned` are not sent to
+ * Tripletex, so they never count as changes.
+ */
+export function diffFields(
+	current: object | null | undefined,
+	planned: object,
+): PlannedFieldChange[] {
+	const before = flatten(current);
+	const changes: PlannedFieldChange[] = [];
+
+	for (const [field, value] of flatten(planned)) {
+		if (value === undefined) continue;
+
+		const from = formatValue(before.get(field));
+		const to = formatValue(value);
+		if (from !== to) changes.push({ field, from, to });
+	}
+	return changes;
+}
+
+function roundAmount(amount: number): number {
+	return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Describe the order lines that would be sent to Tripletex, with line amounts
+ * (count × unit price, less the percentage discount) and the order total
+ * excluding VAT.
+ */
+export function summarizeOrderLines(orderLines: TripletexOrderLine[] = []): {
+	lines: PlannedOrderLine[];
+	total: number;
+} {
+	const lines = orderLines.map((line) => {
+		const count = line.count ?? 0;
+		const unitPrice = line.unitPriceExcludingVatCurrency ?? 0;
+		return {
+			description: line.description,
+			productId: line.product?.id,
+			count,
+			unitPrice,
+			discount: line.discount,
+			amount: roundAmount(count * unitPrice * (1 - (line.discount ?? 0) / 100)),
+		};
+	});
+
+	const total = roundAmount(lines.reduce((sum, line) => sum + line.amount, 0));
+	return { lines, total };
+}
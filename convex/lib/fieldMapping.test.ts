@@ -0,0 +1,105 @@
+import { describe, expect, test } from "bun:test";
+import {
+	applyFieldRules,
+	renderTemplate,
+	resolveFieldValue,
+	validateFieldRules,
+} from "./fieldMapping";
+
+const product = {
+	productCode: "PROD-001",
+	productName: "  Annual   Membership ",
+	productDescription: null,
+	price: 499,
+};
+
+describe("renderTemplate", () => {
+	test("fills placeholders and blanks missing fields", () => {
+		expect(renderTemplate("{productCode}: {price} NOK{productDescription}", product)).toBe(
+			"PROD-001: 499 NOK",
+		);
+	});
+});
+
+describe("resolveFieldValue", () => {
+	test("copies the source field through the transforms", () => {
+		expect(
+			resolveFieldValue(
+				{ target: "name", source: "productName", transforms: ["trim", "uppercase"] },
+				product,
+			),
+		).toBe("ANNUAL MEMBERSHIP");
+	});
+
+	test("uses the default value when the result is empty", () => {
+		const rule = { target: "description", source: "productDescription", defaultValue: "n/a" };
+
+		expect(resolveFieldValue(rule, product)).toBe("n/a");
+		expect(resolveFieldValue({ target: "description", defaultValue: "Fixed" }, product)).toBe(
+			"Fixed",
+		);
+	});
+
+	test("returns undefined for omitted and empty fields", () => {
+		expect(resolveFieldValue({ target: "name", source: "productName", omit: true }, product)).toBe(
+			undefined,
+		);
+		expect(
+			resolveFieldValue({ target: "description", source: "productDescription" }, product),
+		).toBe(undefined);
+	});
+});
+
+describe("applyFieldRules", () => {
+	test("overrides, removes and nests fields", () => {
+		const mapped = applyFieldRules(
+			{ name: "Kari", email: "kari@example.no", invoiceEmail: "kari@example.no" } as Record<
+				string,
+				unknown
+			>,
+			{ city: "Oslo", zipCode: "0155" },
+			[
+				{ target: "invoiceEmail", omit: true },
+				{ target: "postalAddress.city", source: "city", transforms: ["uppercase"] },
+			],
+		);
+
+		expect(mapped).toEqual({
+			name: "Kari",
+			email: "kari@example.no",
+			postalAddress: { city: "OSLO" },
+		});
+	});
+
+	test("leaves the record unchanged without rules", () => {
+		expect(applyFieldRules({ name: "Kari" }, {}, undefined)).toEqual({ name: "Kari" });
+	});
+});
+
+describe("validateFieldRules", () => {
+	test("accepts known targets, sources and placeholders", () => {
+		expect(() =>
+			validateFieldRules("invoiceLine", [
+				{ target: "description", template: "{productName} ({invoiceNumber})" },
+			]),
+		).not.toThrow();
+	});
+
+	test("rejects unknown targets, sources, placeholders and duplicates", () => {
+		expect(() => validateFieldRules("product", [{ target: "price", source: "price" }])).toThrow(
+			/not a mappable/,
+		);
+		expect(() => validateFieldRules("product", [{ target: "name", source: "email" }])).toThrow(
+			/not a Rubic product field/,
+		);
+		expect(() =>
+			validateFieldRules("customer", [{ target: "name", template: "{productName}" }]),
+		).toThrow(/Template field/);
+		expect(() =>
+			validateFieldRules("product", [
+				{ target: "name", source: "productName" },
+				{ target: "name", source: "productCode" },
+			]),
+		).toThrow(/more than one rule/);
+	});
+});
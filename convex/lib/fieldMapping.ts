@@ -0,0 +1,163 @@
+/**
+ * Declarative per-org field mapping rules, applied on top of the built-in
+ * Rubic → Tripletex mappers.
+ *
+ * A rule sets one Tripletex field (`target`, dotted for nested fields such as
+ * "postalAddress.city") from a Rubic field (`source`) or a template like
+ * "{productName} ({productCode})", runs the result through `transforms`, and
+ * falls back to `defaultValue` when it comes out empty. A rule with only a
+ * default value sets a constant. `omit` leaves the field out, so Tripletex
+ * keeps whatever it has. Fields without a rule keep the built-in mapping.
+ */
+import type { FieldMappingEntity, FieldRule, FieldTransform } from "../validators";
+
+/** Tripletex fields each entity's rules may set (all string fields). */
+export const FIELD_MAPPING_TARGETS: Record<FieldMappingEntity, readonly string[]> = {
+	customer: [
+		"name",
+		"email",
+		"invoiceEmail",
+		"phoneNumberMobile",
+		"organizationNumber",
+		"postalAddress.addressLine1",
+		"postalAddress.addressLine2",
+		"postalAddress.postalCode",
+		"postalAddress.city",
+		"physicalAddress.addressLine1",
+		"physicalAddress.addressLine2",
+		"physicalAddress.postalCode",
+		"physicalAddress.city",
+	],
+	product: ["name", "number", "description"],
+	invoiceLine: ["description"],
+};
+
+/** Rubic fields available to each entity's rules, as `source` or `{placeholder}`. */
+export const FIELD_MAPPING_SOURCES: Record<FieldMappingEntity, readonly string[]> = {
+	customer: [
+		"customerNo",
+		"customerTypeName",
+		"customerName",
+		"email",
+		"countryCode",
+		"mobile",
+		"address",
+		"address2",
+		"zipCode",
+		"city",
+		"countryName",
+		"ledgerCustomerNo",
+	],
+	product: ["productID", "productCode", "productName", "productDescription", "price"],
+	invoiceLine: [
+		"productCode",
+		"productName",
+		"productGroupName",
+		"departmentName",
+		"specification",
+		"quantity",
+		"price",
+		"invoiceNumber",
+		"invoiceDate",
+		"dueDate",
+	],
+};
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+function formatSourceValue(value: unknown): string {
+	if (value === null || value === undefined) return "";
+	return String(value);
+}
+
+/** Fill `{field}` placeholders from the record; unknown or empty fields become "". */
+export function renderTemplate(template: string, record: object): string {
+	const fields = record as Record<string, unknown>;
+	return template.replace(PLACEHOLDER, (_, field: string) => formatSourceValue(fields[field]));
+}
+
+function applyTransform(value: string, transform: FieldTransform): string {
+	switch (transform) {
+		case "trim":
+			return value.trim().replace(/\s+/g, " ");
+		case "uppercase":
+			return value.toUpperCase();
+		case "lowercase":
+			return value.toLowerCase();
+		case "digitsOnly":
+			return value.replace(/\D/g, "");
+	}
+}
+
+/** The value a rule produces for a record, or undefined when the field is left out. */
+export function resolveFieldValue(rule: FieldRule, record: object): string | undefined {
+	if (rule.omit) return undefined;
+
+	let value =
+		rule.template !== undefined
+			? renderTemplate(rule.template, record)
+			: rule.source !== undefined
+				? formatSourceValue((record as Record<string, unknown>)[rule.source])
+				: "";
+	for (const transform of rule.transforms ?? []) {
+		value = applyTransform(value, transform);
+	}
+
+	if (value.trim() === "") value = rule.defaultValue ?? "";
+	return value === "" ? undefined : value;
+}
+
+function setPath(target: Record<string, unknown>, path: string, value: string | undefined): void {
+	const [head, ...rest] = path.split(".");
+	if (rest.length === 0) {
+		if (value === undefined) delete target[head];
+		else target[head] = value;
+		return;
+	}
+
+	let child = target[head] as Record<string, unknown> | undefined;
+	if (!child) {
+		if (value === undefined) return;
+		child = {};
+		target[head] = child;
+	}
+	setPath(child, rest.join("."), value);
+}
+
+/** Apply rules to a mapped Tripletex record in place and return it. */
+export function applyFieldRules<T extends object>(
+	mapped: T,
+	record: object,
+	rules: FieldRule[] | undefined,
+): T {
+	for (const rule of rules ?? []) {
+		setPath(mapped as Record<string, unknown>, rule.target, resolveFieldValue(rule, record));
+	}
+	return mapped;
+}
+
+/** Throw when rules target unknown fields, read unknown sources or repeat a target. */
+export function validateFieldRules(entity: FieldMappingEntity, rules: FieldRule[]): void {
+	const targets = new Set(FIELD_MAPPING_TARGETS[entity]);
+	const sources = new Set(FIELD_MAPPING_SOURCES[entity]);
+	const seen = new Set<string>();
+
+	for (const rule of rules) {
+		if (!targets.has(rule.target)) {
+			throw new Error(`"${rule.target}" is not a mappable ${entity} field`);
+		}
+		if (seen.has(rule.target)) {
+			throw new Error(`"${rule.target}" has more than one rule`);
+		}
+		seen.add(rule.target);
+
+		if (rule.source !== undefined && !sources.has(rule.source)) {
+			throw new Error(`"${rule.source}" is not a Rubic ${entity} field`);
+		}
+		for (const [, field] of (rule.template ?? "").matchAll(PLACEHOLDER)) {
+			if (!sources.has(field)) {
+				throw new Error(`Template field "{${field}}" is not a Rubic ${entity} field`);
+			}
+		}
+	}
+}
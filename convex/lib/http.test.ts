@@ -0,0 +1,212 @@
+import { describe, expect, test } from "bun:test";
+import {
+	type FetchFn,
+	getBackoffDelay,
+	HttpClient,
+	type HttpClientOptions,
+	parseRetryAfter,
+	TRIPLETEX_RATE_LIMIT_HEADERS,
+} from "./http";
+
+type FakeReply = Response | Error;
+
+/** A fetch that replays canned responses and records what was requested. */
+function fakeFetch(replies: FakeReply[]) {
+	const calls: { url: string; method: string }[] = [];
+	const fetchFn: FetchFn = async (url, init) => {
+		calls.push({ url, method: init?.method ?? "GET" });
+		const reply = replies.shift();
+		if (!reply) throw new Error("No more fake replies");
+		if (reply instanceof Error) throw reply;
+		return reply;
+	};
+	return { fetch: fetchFn, calls };
+}
+
+function createClient(replies: FakeReply[], options: Partial<HttpClientOptions> = {}) {
+	const fake = fakeFetch(replies);
+	const sleeps: number[] = [];
+	let now = Date.parse("2025-06-02T10:00:00Z");
+
+	const client = new HttpClient({
+		name: "Test",
+		fetch: fake.fetch,
+		sleep: async (ms) => {
+			sleeps.push(ms);
+			now += ms;
+		},
+		random: () => 0.5,
+		now: () => now,
+		...options,
+	});
+	return { client, calls: fake.calls, sleeps };
+}
+
+const ok = () => new Response("{}", { status: 200 });
+
+describe("parseRetryAfter", () => {
+	const now = Date.parse("2025-06-02T10:00:00Z");
+
+	test("parses delays in seconds", () => {
+		expect(parseRetryAfter("3", now)).toBe(3000);
+		expect(parseRetryAfter("0.5", now)).toBe(500);
+	});
+
+	test("parses HTTP dates relative to now", () => {
+		expect(parseRetryAfter("Mon, 02 Jun 2025 10:00:10 GMT", now)).toBe(10_000);
+		expect(parseRetryAfter("Mon, 02 Jun 2025 09:00:00 GMT", now)).toBe(0);
+	});
+
+	test("returns null for missing or malformed values", () => {
+		expect(parseRetryAfter(null, now)).toBeNull();
+		expect(parseRetryAfter("", now)).toBeNull();
+		expect(parseRetryAfter("soon", now)).toBeNull();
+	});
+});
+
+describe("getBackoffDelay", () => {
+	const policy = { baseDelayMs: 500, maxDelayMs: 30_000 };
+
+	test("doubles the ceiling with every retry", () => {
+		expect(getBackoffDelay(1, policy, () => 0.999)).toBe(499);
+		expect(getBackoffDelay(2, policy, () => 0.999)).toBe(999);
+		expect(getBackoffDelay(3, policy, () => 0.999)).toBe(1998);
+	});
+
+	test("applies full jitter and caps at the maximum", () => {
+		expect(getBackoffDelay(3, policy, () => 0)).toBe(0);
+		expect(getBackoffDelay(20, policy, () => 0.5)).toBe(15_000);
+	});
+});
+
+describe("HttpClient", () => {
+	test("retries idempotent requests on 5xx and returns the eventual success", async () => {
+		const { client, calls, sleeps } = createClient([
+			new Response("bad gateway", { status: 502 }),
+			new Response("unavailable", { status: 503 }),
+			ok(),
+		]);
+
+		const response = await client.request("https://api.test/items");
+
+		expect(response.status).toBe(200);
+		expect(calls).toHaveLength(3);
+		expect(sleeps).toEqual([250, 500]);
+	});
+
+	test("honours Retry-After on 429", async () => {
+		const { client, sleeps } = createClient([
+			new Response("slow down", { status: 429, headers: { "Retry-After": "7" } }),
+			ok(),
+		]);
+
+		const response = await client.request("https://api.test/items");
+
+		expect(response.status).toBe(200);
+		expect(sleeps).toEqual([7000]);
+	});
+
+	test("retries non-idempotent requests on 429 only", async () => {
+		const rateLimited = createClient([new Response("", { status: 429 }), ok()]);
+		const created = await rateLimited.client.request("https://api.test/order", { method: "POST" });
+		expect(created.status).toBe(200);
+		expect(rateLimited.calls).toHaveLength(2);
+
+		const failing = createClient([new Response("", { status: 500 }), ok()]);
+		const failed = await failing.client.request("https://api.test/order", { method: "POST" });
+		expect(failed.status).toBe(500);
+		expect(failing.calls).toHaveLength(1);
+	});
+
+	test("treats PUTs marked non-idempotent like POSTs", async () => {
+		const { client, calls } = createClient([new Response("", { status: 502 }), ok()]);
+
+		const response = await client.request("https://api.test/invoice/1/:payment", {
+			method: "PUT",
+			idempotent: false,
+		});
+
+		expect(response.status).toBe(502);
+		expect(calls).toHaveLength(1);
+	});
+
+	test("does not retry client errors", async () => {
+		const { client, calls } = createClient([new Response("", { status: 404 }), ok()]);
+
+		const response = await client.request("https://api.test/items/1");
+
+		expect(response.status).toBe(404);
+		expect(calls).toHaveLength(1);
+	});
+
+	test("gives up after the configured number of attempts", async () => {
+		const { client, calls } = createClient(
+			[
+				new Response("", { status: 503 }),
+				new Response("", { status: 503 }),
+				new Response("", { status: 503 }),
+			],
+			{ retry: { maxAttempts: 2 } },
+		);
+
+		const response = await client.request("https://api.test/items");
+
+		expect(response.status).toBe(503);
+		expect(calls).toHaveLength(2);
+	});
+
+	test("does not wait for a Retry-After beyond the limit", async () => {
+		const { client, calls, sleeps } = createClient([
+			new Response("", { status: 429, headers: { "Retry-After": "3600" } }),
+			ok(),
+		]);
+
+		const response = await client.request("https://api.test/items");
+
+		expect(response.status).toBe(429);
+		expect(calls).toHaveLength(1);
+		expect(sleeps).toEqual([]);
+	});
+
+	test("retries network errors for idempotent requests", async () => {
+		const { client, calls } = createClient([new TypeError("fetch failed"), ok()]);
+
+		const response = await client.request("https://api.test/items");
+
+		expect(response.status).toBe(200);
+		expect(calls).toHaveLength(2);
+	});
+
+	test("rejects with a prefixed error when a non-idempotent request cannot be sent", async () => {
+		const { client, calls } = createClient([new TypeError("fetch failed"), ok()]);
+
+		await expect(client.request("https://api.test/order", { method: "POST" })).rejects.toThrow(
+			"Test request failed: fetch failed",
+		);
+		expect(calls).toHaveLength(1);
+	});
+
+	test("holds back requests until the rate limit resets once the quota is nearly used", async () => {
+		const { client, sleeps } = createClient(
+			[
+				new Response("{}", {
+					status: 200,
+					headers: { "X-Rate-Limit-Remaining": "10", "X-Rate-Limit-Reset": "30" },
+				}),
+				new Response("{}", {
+					status: 200,
+					headers: { "X-Rate-Limit-Remaining": "1", "X-Rate-Limit-Reset": "12" },
+				}),
+				ok(),
+			],
+			{ rateLimit: TRIPLETEX_RATE_LIMIT_HEADERS },
+		);
+
+		await client.request("https://api.test/items");
+		await client.request("https://api.test/items");
+		expect(sleeps).toEqual([]);
+
+		await client.request("https://api.test/items");
+		expect(sleeps).toEqual([12_000]);
+	});
+});
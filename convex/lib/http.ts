@@ -0,0 +1,187 @@
+/**
+ * Shared HTTP layer for the Rubic and Tripletex clients.
+ *
+ * Transient failures (429, 408, 5xx, network errors) are retried with
+ * exponential backoff and full jitter, honouring `Retry-After`. A 429 means
+ * the server did not process the request, so it is retried for any method;
+ * 5xx responses and network errors are only retried for idempotent requests,
+ * since a POST that timed out may still have been applied.
+ *
+ * When the API reports its quota through rate limit headers (Tripletex sends
+ * `X-Rate-Limit-Remaining` and `X-Rate-Limit-Reset`), requests are held back
+ * until the quota resets once it is nearly used up, instead of running into 429s.
+ */
+
+export interface RetryPolicy {
+	/** Total attempts including the first one. */
+	maxAttempts: number;
+	/** Backoff ceiling for the first retry; doubles with every further retry. */
+	baseDelayMs: number;
+	/** Upper bound for a single backoff delay. */
+	maxDelayMs: number;
+	/** A `Retry-After` longer than this is not waited for; the response is returned as is. */
+	maxRetryAfterMs: number;
+}
+
+export interface RateLimitHeaders {
+	/** Header with the number of requests left in the current window. */
+	remaining: string;
+	/** Header with the number of seconds until the window resets. */
+	reset: string;
+	/** Hold back further requests once this many or fewer remain. */
+	minRemaining: number;
+}
+
+export type FetchFn = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface HttpClientOptions {
+	/** Prefix for thrown errors, e.g. "Tripletex" (error categorization relies on it). */
+	name: string;
+	retry?: Partial<RetryPolicy>;
+	rateLimit?: RateLimitHeaders;
+	/** Injectable for tests. */
+	fetch?: FetchFn;
+	sleep?: (ms: number) => Promise<void>;
+	random?: () => number;
+	now?: () => number;
+}
+
+export interface HttpRequestInit extends RequestInit {
+	/**
+	 * Whether repeating the request is safe. Defaults to true for GET, HEAD,
+	 * OPTIONS, PUT and DELETE; pass false for PUTs with side effects such as
+	 * registering a payment.
+	 */
+	idempotent?: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	maxAttempts: 4,
+	baseDelayMs: 500,
+	maxDelayMs: 30_000,
+	maxRetryAfterMs: 120_000,
+};
+
+/** Tripletex rate limit headers. */
+export const TRIPLETEX_RATE_LIMIT_HEADERS: RateLimitHeaders = {
+	remaining: "X-Rate-Limit-Remaining",
+	reset: "X-Rate-Limit-Reset",
+	minRemaining: 2,
+};
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Parse a `Retry-After` header (delay in seconds or an HTTP date) into
+ * milliseconds from `now`. Returns null when absent or malformed.
+ */
+export function parseRetryAfter(value: string | null, now: number): number | null {
+	if (value === null || value.trim() === "") return null;
+
+	if (/^\d+(\.\d+)?$/.test(value.trim())) {
+		return Math.round(Number.parseFloat(value) * 1000);
+	}
+
+	const date = Date.parse(value);
+	if (Number.isNaN(date)) return null;
+	return Math.max(0, date - now);
+}
+
+/**
+ * Backoff before retry number `retry` (1-based): a random delay between 0 and
+ * `baseDelayMs * 2^(retry - 1)`, capped at `maxDelayMs` ("full jitter").
+ */
+export function getBackoffDelay(
+	retry: number,
+	policy: Pick<RetryPolicy, "baseDelayMs" | "maxDelayMs">,
+	random: () => number = Math.random,
+): number {
+	const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+	return Math.floor(random() * ceiling);
+}
+
+function defaultSleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class HttpClient {
+	private name: string;
+	private policy: RetryPolicy;
+	private rateLimit: RateLimitHeaders | undefined;
+	private fetchFn: FetchFn;
+	private sleep: (ms: number) => Promise<void>;
+	private random: () => number;
+	private now: () => number;
+	/** Requests wait until this time once the rate limit quota is nearly used up. */
+	private throttledUntil = 0;
+
+	constructor(options: HttpClientOptions) {
+		this.name = options.name;
+		this.policy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+		this.rateLimit = options.rateLimit;
+		this.fetchFn = options.fetch ?? ((url, init) => fetch(url, init));
+		this.sleep = options.sleep ?? defaultSleep;
+		this.random = options.random ?? Math.random;
+		this.now = options.now ?? Date.now;
+	}
+
+	/**
+	 * Send a request, retrying transient failures. Resolves with the final
+	 * response, which may still be an error response for the caller to handle;
+	 * rejects only when the request could not be sent at all.
+	 */
+	async request(url: string, init: HttpRequestInit = {}): Promise<Response> {
+		const { idempotent: idempotentOverride, ...requestInit } = init;
+		const method = (requestInit.method ?? "GET").toUpperCase();
+		const idempotent = idempotentOverride ?? IDEMPOTENT_METHODS.has(method);
+
+		for (let attempt = 1; ; attempt++) {
+			await this.waitForRateLimit();
+			const canRetry = attempt < this.policy.maxAttempts;
+
+			let response: Response;
+			try {
+				response = await this.fetchFn(url, requestInit);
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				if (!idempotent || !canRetry) {
+					throw new Error(`${this.name} request failed: ${message}`);
+				}
+				await this.sleep(getBackoffDelay(attempt, this.policy, this.random));
+				continue;
+			}
+
+			this.trackRateLimit(response);
+
+			const retryable =
+				response.status === 429 || (idempotent && RETRYABLE_STATUSES.has(response.status));
+			if (!retryable || !canRetry) return response;
+
+			const retryAfter = parseRetryAfter(response.headers.get("Retry-After"), this.now());
+			if (retryAfter !== null && retryAfter > this.policy.maxRetryAfterMs) return response;
+
+			// Drain the body so the connection can be reused
+			await response.body?.cancel().catch(() => {});
+			await this.sleep(retryAfter ?? getBackoffDelay(attempt, this.policy, this.random));
+		}
+	}
+
+	private async waitForRateLimit(): Promise<void> {
+		const wait = this.throttledUntil - this.now();
+		if (wait > 0) await this.sleep(wait);
+	}
+
+	private trackRateLimit(response: Response): void {
+		if (!this.rateLimit) return;
+
+		const remaining = Number.parseInt(response.headers.get(this.rateLimit.remaining) ?? "", 10);
+		const reset = Number.parseFloat(response.headers.get(this.rateLimit.reset) ?? "");
+		if (Number.isNaN(remaining) || Number.isNaN(reset)) return;
+
+		if (remaining <= this.rateLimit.minRemaining) {
+			this.throttledUntil = this.now() + reset * 1000;
+		}
+	}
+}
@@ -2,8 +2,18 @@
  * Data mapping and hashing functions for use in Convex actions.
  * Mirrors src/mappers/ but is self-contained within convex/ directory.
  */
-import type { RubicCustomer, RubicInvoice, RubicProduct } from "./rubicClient";
+import type { FieldRule } from "../validators";
+import { applyFieldRules } from "./fieldMapping";
 import type {
+	RubicCompanyMember,
+	RubicCustomer,
+	RubicInvoice,
+	RubicInvoiceLine,
+	RubicMember,
+	RubicProduct,
+} from "./rubicClient";
+import type {
+	TripletexAddress,
 	TripletexCustomer,
 	TripletexOrder,
 	TripletexOrderLine,
@@ -12,17 +22,71 @@ import type {
 
 // --- Customer Mapping ---
 
-export function mapRubicCustomerToTripletex(customer: RubicCustomer): TripletexCustomer {
+/** Rubic `customerType` of private individuals; every other type is a company or organization. */
+export const RUBIC_INDIVIDUAL_CUSTOMER_TYPE = 1;
+
+export interface CustomerMappingOptions {
+	/** Use Rubic's `ledgerCustomerNo` as the Tripletex customer number (falls back to `customerNo`). */
+	useLedgerCustomerNo?: boolean;
+	/** Tripletex country id resolved from the customer's country code or name. */
+	countryId?: number;
+	/** Organization number of a company customer (from its Rubic company member). */
+	organizationNumber?: string;
+	/** The org's customer field mapping rules, applied last. */
+	fieldRules?: FieldRule[];
+}
+
+/** Tripletex customer number for a Rubic customer, or undefined when it is not numeric. */
+export function getCustomerNumber(
+	customer: RubicCustomer,
+	options: CustomerMappingOptions = {},
+): number | undefined {
+	const number =
+		(options.useLedgerCustomerNo ? customer.ledgerCustomerNo : null) || customer.customerNo;
+	if (!number) return undefined;
+	const parsed = Number.parseInt(number, 10);
+	return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+function mapAddress(
+	source: {
+		address: string | null;
+		address2: string | null;
+		zipCode: string | null;
+		city: string | null;
+	},
+	countryId?: number,
+): TripletexAddress | undefined {
+	const hasAddress = source.address || source.address2 || source.zipCode || source.city;
+	if (!hasAddress) return undefined;
+
+	const address: TripletexAddress = {};
+	if (source.address) address.addressLine1 = source.address;
+	if (source.address2) address.addressLine2 = source.address2;
+	if (source.zipCode) address.postalCode = source.zipCode;
+	if (source.city) address.city = source.city;
+	if (countryId !== undefined) address.country = { id: countryId };
+	return address;
+}
+
+export function mapRubicCustomerToTripletex(
+	customer: RubicCustomer,
+	options: CustomerMappingOptions = {},
+): TripletexCustomer {
+	const isIndividual = customer.customerType === RUBIC_INDIVIDUAL_CUSTOMER_TYPE;
 	const result: TripletexCustomer = {
 		name: customer.customerName ?? "",
 		isCustomer: true,
+		isPrivateIndividual: isIndividual,
 	};
 
-	if (customer.customerNo) {
-		const parsed = Number.parseInt(customer.customerNo, 10);
-		if (!Number.isNaN(parsed)) {
-			result.customerNumber = parsed;
-		}
+	const customerNumber = getCustomerNumber(customer, options);
+	if (customerNumber !== undefined) {
+		result.customerNumber = customerNumber;
+	}
+
+	if (!isIndividual && options.organizationNumber) {
+		result.organizationNumber = options.organizationNumber.replace(/\s/g, "");
 	}
 
 	if (customer.email) {
@@ -34,28 +98,128 @@ export function mapRubicCustomerToTripletex(customer: RubicCustomer): TripletexC
 		result.phoneNumberMobile = customer.mobile;
 	}
 
-	const hasAddress = customer.address || customer.address2 || customer.zipCode || customer.city;
-	if (hasAddress) {
-		result.postalAddress = {};
-		if (customer.address) result.postalAddress.addressLine1 = customer.address;
-		if (customer.address2) result.postalAddress.addressLine2 = customer.address2;
-		if (customer.zipCode) result.postalAddress.postalCode = customer.zipCode;
-		if (customer.city) result.postalAddress.city = customer.city;
+	// Rubic keeps a single address; Tripletex gets it as both postal and physical address
+	const address = mapAddress(customer, options.countryId);
+	if (address) {
+		result.postalAddress = address;
+		result.physicalAddress = { ...address };
 	}
 
-	return result;
+	return applyFieldRules(result, customer, options.fieldRules);
 }
 
-export async function computeCustomerHash(customer: RubicCustomer): Promise<string> {
+export async function computeCustomerHash(
+	customer: RubicCustomer,
+	options: CustomerMappingOptions = {},
+): Promise<string> {
 	const keyFields = {
 		customerNo: customer.customerNo,
+		customerType: customer.customerType,
 		customerName: customer.customerName,
+		ledgerCustomerNo: customer.ledgerCustomerNo,
 		email: customer.email,
 		mobile: customer.mobile,
 		address: customer.address,
 		address2: customer.address2,
 		zipCode: customer.zipCode,
 		city: customer.city,
+		countryCode: customer.countryCode,
+		countryName: customer.countryName,
+		useLedgerCustomerNo: options.useLedgerCustomerNo ?? false,
+		countryId: options.countryId,
+		organizationNumber: options.organizationNumber,
+		fieldRules: options.fieldRules?.length ? options.fieldRules : undefined,
+	};
+
+	const data = new TextEncoder().encode(JSON.stringify(keyFields));
+	const hashBuffer = await crypto.subtle.digest("SHA-256", data);
+	const hashArray = Array.from(new Uint8Array(hashBuffer));
+	return hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// --- Member Mapping ---
+
+export type RubicMemberRecord =
+	| { memberType: "person"; member: RubicMember }
+	| { memberType: "company"; member: RubicCompanyMember };
+
+/**
+ * Tripletex customer number for a member: its ledger customer number when that
+ * is numeric, otherwise its member number.
+ */
+export function getMemberCustomerNumber(member: RubicMember | RubicCompanyMember): number {
+	if (member.ledgerCustomerNo) {
+		const parsed = Number.parseInt(member.ledgerCustomerNo, 10);
+		if (!Number.isNaN(parsed)) return parsed;
+	}
+	return member.memberNo;
+}
+
+/** Display name of a person member; first and last name win over the full name. */
+export function getPersonMemberName(member: RubicMember): string {
+	const name = [member.firstName, member.lastName]
+		.map((part) => part?.trim())
+		.filter(Boolean)
+		.join(" ");
+	return name || member.fullName?.trim() || "";
+}
+
+export function mapRubicMemberToTripletex(record: RubicMemberRecord): TripletexCustomer {
+	const { member } = record;
+	const result: TripletexCustomer = {
+		name:
+			record.memberType === "person"
+				? getPersonMemberName(record.member)
+				: (record.member.companyName ?? ""),
+		customerNumber: getMemberCustomerNumber(member),
+		isCustomer: true,
+		isPrivateIndividual: record.memberType === "person",
+	};
+
+	if (record.memberType === "company" && record.member.registrationAuthorityOrganizationNumber) {
+		result.organizationNumber = record.member.registrationAuthorityOrganizationNumber.replace(
+			/\s/g,
+			"",
+		);
+	}
+
+	if (member.email) {
+		result.email = member.email;
+		result.invoiceEmail = member.email;
+	}
+
+	if (member.mobile) {
+		result.phoneNumberMobile = member.mobile;
+	}
+
+	const address = mapAddress(member);
+	if (address) {
+		result.postalAddress = address;
+	}
+
+	return result;
+}
+
+export async function computeMemberHash(record: RubicMemberRecord): Promise<string> {
+	const { member } = record;
+	const keyFields = {
+		memberType: record.memberType,
+		memberNo: member.memberNo,
+		ledgerCustomerNo: member.ledgerCustomerNo,
+		firstName: record.memberType === "person" ? record.member.firstName : undefined,
+		lastName: record.memberType === "person" ? record.member.lastName : undefined,
+		fullName: record.memberType === "person" ? record.member.fullName : undefined,
+		companyName: record.memberType === "company" ? record.member.companyName : undefined,
+		organizationNumber:
+			record.memberType === "company"
+				? record.member.registrationAuthorityOrganizationNumber
+				: undefined,
+		email: member.email,
+		mobile: member.mobile,
+		address: member.address,
+		address2: member.address2,
+		zipCode: member.zipCode,
+		city: member.city,
 	};
 
 	const data = new TextEncoder().encode(JSON.stringify(keyFields));
@@ -66,23 +230,52 @@ export async function computeCustomerHash(customer: RubicCustomer): Promise<stri
 
 // --- Product Mapping ---
 
-export function mapRubicProductToTripletex(product: RubicProduct): TripletexProduct {
-	return {
+export interface ProductMappingOptions {
+	/** Tripletex vatType id from the org's VAT mapping. */
+	vatTypeId?: number;
+	/** Tripletex department id from the org's department mapping. */
+	departmentId?: number;
+	/** The org's product field mapping rules, applied last. */
+	fieldRules?: FieldRule[];
+}
+
+export function mapRubicProductToTripletex(
+	product: RubicProduct,
+	options: ProductMappingOptions = {},
+): TripletexProduct {
+	const result: TripletexProduct = {
 		number: product.productCode ?? undefined,
 		name: product.productName ?? undefined,
 		description: product.productDescription ?? undefined,
 		priceExcludingVatCurrency: product.price,
 		isInactive: false,
 	};
+
+	if (options.vatTypeId !== undefined) {
+		result.vatType = { id: options.vatTypeId };
+	}
+	if (options.departmentId !== undefined) {
+		result.department = { id: options.departmentId };
+	}
+
+	return applyFieldRules(result, product, options.fieldRules);
 }
 
-export async function computeProductHash(product: RubicProduct): Promise<string> {
-	const keyFields = [
+export async function computeProductHash(
+	product: RubicProduct,
+	options: ProductMappingOptions = {},
+): Promise<string> {
+	const fields = [
 		product.productCode ?? "",
 		product.productName ?? "",
 		product.productDescription ?? "",
 		product.price.toString(),
-	].join("|");
+	];
+	// Only appended when set, so hashes of products without VAT/department mappings or rules stay the same
+	if (options.vatTypeId !== undefined) fields.push(`vat:${options.vatTypeId}`);
+	if (options.departmentId !== undefined) fields.push(`dept:${options.departmentId}`);
+	if (options.fieldRules?.length) fields.push(`rules:${JSON.stringify(options.fieldRules)}`);
+	const keyFields = fields.join("|");
 
 	const data = new TextEncoder().encode(keyFields);
 	const hashBuffer = await crypto.subtle.digest("SHA-256", data);
@@ -92,11 +285,52 @@ export async function computeProductHash(product: RubicProduct): Promise<string>
 
 // --- Invoice Mapping ---
 
+export interface InvoiceMappingOptions {
+	/** Throw instead of dropping lines whose product is not mapped. */
+	strict?: boolean;
+	/** Tripletex vatType id for a line; lines without one use the product's default. */
+	vatTypeForLine?: (line: RubicInvoiceLine) => number | undefined;
+	/** Tripletex department id for the order. */
+	departmentId?: number;
+	/** The org's invoice line field mapping rules, applied to each order line. */
+	lineFieldRules?: FieldRule[];
+}
+
+/** Fields an invoice line's mapping rules can read: the line plus its invoice's number and dates. */
+export function getInvoiceLineFields(invoice: RubicInvoice, line: RubicInvoiceLine): object {
+	return {
+		...line,
+		invoiceNumber: invoice.invoiceNumber,
+		invoiceDate: invoice.invoiceDate,
+		dueDate: invoice.dueDate,
+	};
+}
+
+/** Invoice lines that would be left off the order (no product code or no product mapping). */
+export function findUnmappedInvoiceLines(
+	invoice: RubicInvoice,
+	productMappings: Map<string, number>,
+): RubicInvoiceLine[] {
+	return (invoice.invoiceLines ?? []).filter(
+		(line) => !line.productCode || !productMappings.has(line.productCode),
+	);
+}
+
 export function mapRubicInvoiceToTripletexOrder(
 	invoice: RubicInvoice,
 	tripletexCustomerId: number,
 	productMappings: Map<string, number>,
+	options: InvoiceMappingOptions = {},
 ): TripletexOrder {
+	if (options.strict) {
+		const unmapped = findUnmappedInvoiceLines(invoice, productMappings);
+		if (unmapped.length > 0) {
+			throw new Error(
+				`Invoice ${invoice.invoiceID} has ${unmapped.length} line(s) without a mapped product`,
+			);
+		}
+	}
+
 	const orderLines: TripletexOrderLine[] = [];
 
 	if (invoice.invoiceLines && invoice.invoiceLines.length > 0) {
@@ -123,14 +357,26 @@ export function mapRubicInvoiceToTripletexOrder(
 				orderLine.discount = line.discount;
 			}
 
+			const vatTypeId = options.vatTypeForLine?.(line);
+			if (vatTypeId !== undefined) {
+				orderLine.vatType = { id: vatTypeId };
+			}
+
+			applyFieldRules(orderLine, getInvoiceLineFields(invoice, line), options.lineFieldRules);
 			orderLines.push(orderLine);
 		}
 	}
 
-	return {
+	const order: TripletexOrder = {
 		customer: { id: tripletexCustomerId },
 		deliveryDate: invoice.invoiceDate,
 		orderDate: invoice.invoiceDate,
 		orderLines: orderLines.length > 0 ? orderLines : undefined,
 	};
+
+	if (options.departmentId !== undefined) {
+		order.department = { id: options.departmentId };
+	}
+
+	return order;
 }
@@ -0,0 +1,47 @@
+import { describe, expect, test } from "bun:test";
+import { buildPaymentFeeVoucher, getGrossPaymentFee } from "./paymentFees";
+import type { RubicInvoiceTransaction } from "./rubicClient";
+
+function makeTransaction(overrides?: Partial<RubicInvoiceTransaction>): RubicInvoiceTransaction {
+	return {
+		invoiceTransactionID: 9001,
+		invoiceID: 1001,
+		invoiceNumber: 5001,
+		paymentDate: "2025-06-10T12:34:00",
+		expectedPayoutDate: null,
+		transactionTypeID: 2,
+		transactionTypeName: "Vipps",
+		paidAmount: 500,
+		paymentFee: 8,
+		vatPaymentFee: 2,
+		payoutAmount: 490,
+		...overrides,
+	};
+}
+
+const accounts = { expenseAccountId: 7770, counterAccountId: 1920 };
+
+describe("getGrossPaymentFee", () => {
+	test("adds the fee and its VAT", () => {
+		expect(getGrossPaymentFee(makeTransaction({ paymentFee: 1.1, vatPaymentFee: 0.2 }))).toBe(1.3);
+	});
+});
+
+describe("buildPaymentFeeVoucher", () => {
+	test("debits the expense account and credits the counter account", () => {
+		const voucher = buildPaymentFeeVoucher(makeTransaction(), accounts);
+
+		expect(voucher?.date).toBe("2025-06-10");
+		expect(voucher?.postings.map((p) => [p.account.id, p.amountGross])).toEqual([
+			[7770, 10],
+			[1920, -10],
+		]);
+		expect(voucher?.description).toContain("invoice 5001");
+	});
+
+	test("returns null for transactions without a fee", () => {
+		const transaction = makeTransaction({ paymentFee: 0, vatPaymentFee: 0 });
+
+		expect(buildPaymentFeeVoucher(transaction, accounts)).toBeNull();
+	});
+});
@@ -0,0 +1,57 @@
+/**
+ * Expense vouchers for the fees Rubic's payment providers deduct from payouts.
+ *
+ * A Rubic transaction is registered on the Tripletex invoice at its full
+ * `paidAmount`; the provider then pays out `payoutAmount`, keeping
+ * `paymentFee` plus `vatPaymentFee`. When fee posting is enabled, that
+ * difference is posted as a separate voucher: the gross fee is debited to the
+ * expense account and credited to the counter account (typically the bank or
+ * clearing account the payment was registered against).
+ */
+import type { RubicInvoiceTransaction } from "./rubicClient";
+import type { TripletexVoucher } from "./tripletexClient";
+
+export interface FeeVoucherAccounts {
+	expenseAccountId: number;
+	counterAccountId: number;
+}
+
+/** Gross fee deducted from a transaction, rounded to øre. */
+export function getGrossPaymentFee(transaction: RubicInvoiceTransaction): number {
+	return Math.round((transaction.paymentFee + transaction.vatPaymentFee) * 100) / 100;
+}
+
+/** Build the fee voucher for a transaction, or null when it carries no fee. */
+export function buildPaymentFeeVoucher(
+	transaction: RubicInvoiceTransaction,
+	accounts: FeeVoucherAccounts,
+): TripletexVoucher | null {
+	const fee = getGrossPaymentFee(transaction);
+	if (fee <= 0) return null;
+
+	const date = transaction.paymentDate.slice(0, 10);
+	const description = `Payment fee, invoice ${transaction.invoiceNumber} (transaction ${transaction.invoiceTransactionID})`;
+
+	return {
+		date,
+		description,
+		postings: [
+			{
+				row: 1,
+				date,
+				description,
+				account: { id: accounts.expenseAccountId },
+				amountGross: fee,
+				amountGrossCurrency: fee,
+			},
+			{
+				row: 2,
+				date,
+				description,
+				account: { id: accounts.counterAccountId },
+				amountGross: -fee,
+				amountGrossCurrency: -fee,
+			},
+		],
+	};
+}
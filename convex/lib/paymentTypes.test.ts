@@ -0,0 +1,23 @@
+import { describe, expect, test } from "bun:test";
+import { type PaymentTypeRule, resolvePaymentTypeId } from "./paymentTypes";
+
+const rules: PaymentTypeRule[] = [
+	{ rubicTransactionTypeName: "Vipps", tripletexPaymentTypeId: 11 },
+	{ rubicTransactionTypeName: "Kort", tripletexPaymentTypeId: 12 },
+];
+
+describe("resolvePaymentTypeId", () => {
+	test("matches the transaction type name case-insensitively", () => {
+		expect(resolvePaymentTypeId(rules, undefined, "vipps")).toBe(11);
+		expect(resolvePaymentTypeId(rules, undefined, " KORT ")).toBe(12);
+	});
+
+	test("falls back to the default for unmapped or missing types", () => {
+		expect(resolvePaymentTypeId(rules, 99, "AvtaleGiro")).toBe(99);
+		expect(resolvePaymentTypeId(rules, 99, null)).toBe(99);
+	});
+
+	test("returns undefined without a rule or a default", () => {
+		expect(resolvePaymentTypeId(rules, undefined, "AvtaleGiro")).toBeUndefined();
+	});
+});
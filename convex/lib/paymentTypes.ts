@@ -0,0 +1,38 @@
+/**
+ * Choice of the Tripletex payment type a Rubic transaction is registered with.
+ *
+ * Tripletex books a payment against the account of its payment type, so card,
+ * Vipps, AvtaleGiro and bank payments usually need different types. Rules map
+ * Rubic's `transactionTypeName` (matched case-insensitively, ignoring
+ * surrounding whitespace) to a payment type; transactions without a matching
+ * rule use the org's default payment type, if one is set.
+ */
+
+export interface PaymentTypeRule {
+	rubicTransactionTypeName: string;
+	tripletexPaymentTypeId: number;
+}
+
+/** Normalize a transaction type name for matching. */
+export function normalizeTransactionTypeName(name: string): string {
+	return name.trim().toLowerCase();
+}
+
+/**
+ * Resolve the Tripletex payment type for a transaction type, falling back to
+ * the default. Returns undefined when neither applies.
+ */
+export function resolvePaymentTypeId(
+	rules: PaymentTypeRule[],
+	defaultPaymentTypeId: number | undefined,
+	transactionTypeName: string | null | undefined,
+): number | undefined {
+	if (transactionTypeName) {
+		const name = normalizeTransactionTypeName(transactionTypeName);
+		const rule = rules.find(
+			(r) => normalizeTransactionTypeName(r.rubicTransactionTypeName) === name,
+		);
+		if (rule) return rule.tripletexPaymentTypeId;
+	}
+	return defaultPaymentTypeId;
+}
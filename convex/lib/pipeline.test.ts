@@ -0,0 +1,108 @@
+import { describe, expect, test } from "bun:test";
+import {
+	DEFAULT_FULL_SYNC_POLICY,
+	FULL_SYNC_STEPS,
+	type PipelineStepResult,
+	planPipelineAdvance,
+	resolveFullSyncPolicy,
+	summarizePipelineFailures,
+} from "./pipeline";
+
+function result(
+	step: PipelineStepResult["step"],
+	status: PipelineStepResult["status"],
+	error?: string,
+): PipelineStepResult {
+	return { step, status, processed: 0, failed: 0, skipped: 0, error };
+}
+
+describe("FULL_SYNC_STEPS", () => {
+	test("runs steps in dependency order", () => {
+		expect([...FULL_SYNC_STEPS]).toEqual(["customers", "products", "invoices", "payments"]);
+	});
+});
+
+describe("resolveFullSyncPolicy", () => {
+	test("returns the defaults when nothing is stored", () => {
+		expect(resolveFullSyncPolicy(undefined)).toEqual(DEFAULT_FULL_SYNC_POLICY);
+		expect(resolveFullSyncPolicy(null)).toEqual(DEFAULT_FULL_SYNC_POLICY);
+	});
+
+	test("applies per-step overrides and keeps defaults for the rest", () => {
+		const policy = resolveFullSyncPolicy({ products: "continue", invoices: undefined });
+
+		expect(policy.customers).toBe("stop");
+		expect(policy.products).toBe("continue");
+		expect(policy.invoices).toBe(DEFAULT_FULL_SYNC_POLICY.invoices);
+	});
+
+	test("does not mutate the defaults", () => {
+		resolveFullSyncPolicy({ customers: "continue" });
+
+		expect(DEFAULT_FULL_SYNC_POLICY.customers).toBe("stop");
+	});
+});
+
+describe("planPipelineAdvance", () => {
+	test("runs the first pending step", () => {
+		expect(
+			planPipelineAdvance(
+				[result("customers", "success")],
+				["products", "invoices", "payments"],
+				DEFAULT_FULL_SYNC_POLICY,
+			),
+		).toEqual({ next: "products" });
+	});
+
+	test("goes on past a failed step whose policy is continue", () => {
+		expect(
+			planPipelineAdvance(
+				[
+					result("customers", "success"),
+					result("products", "success"),
+					result("invoices", "failed"),
+				],
+				["payments"],
+				DEFAULT_FULL_SYNC_POLICY,
+			),
+		).toEqual({ next: "payments" });
+	});
+
+	test("stops after a failed step whose policy is stop", () => {
+		expect(
+			planPipelineAdvance(
+				[result("customers", "failed")],
+				["products", "invoices", "payments"],
+				DEFAULT_FULL_SYNC_POLICY,
+			),
+		).toEqual({ next: null, notRun: ["products", "invoices", "payments"] });
+	});
+
+	test("finishes when no step is pending", () => {
+		expect(planPipelineAdvance([], [], DEFAULT_FULL_SYNC_POLICY)).toEqual({
+			next: null,
+			notRun: [],
+		});
+	});
+});
+
+describe("summarizePipelineFailures", () => {
+	test("returns null when every step succeeded", () => {
+		const results = FULL_SYNC_STEPS.map((step) => result(step, "success"));
+
+		expect(summarizePipelineFailures(results)).toBeNull();
+	});
+
+	test("lists failed steps and the steps that never ran", () => {
+		const results = [
+			result("customers", "success"),
+			result("products", "failed", "Tripletex API error: 500"),
+			result("invoices", "not_run"),
+			result("payments", "not_run"),
+		];
+
+		expect(summarizePipelineFailures(results)).toBe(
+			"products failed: Tripletex API error: 500; stopped before invoices, payments",
+		);
+	});
+});
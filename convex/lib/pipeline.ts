@@ -0,0 +1,81 @@
+/**
+ * Step ordering and failure policy for the "full" sync pipeline.
+ *
+ * Invoices need customer and product mappings, and payments need invoice
+ * mappings, so the steps always run in dependency order. Whether a failed
+ * step halts the remaining steps is configurable per step.
+ */
+import type { PipelineStepPolicy } from "../validators";
+
+/** Steps of a full sync, in dependency order. */
+export const FULL_SYNC_STEPS = ["customers", "products", "invoices", "payments"] as const;
+
+export type FullSyncStep = (typeof FULL_SYNC_STEPS)[number];
+
+export type FullSyncPolicy = Record<FullSyncStep, PipelineStepPolicy>;
+
+/**
+ * Default policy: without customers or products, invoices would mostly be
+ * skipped, so those steps stop the pipeline. Payments only touch invoices that
+ * are already mapped, so they still run after a failed invoice step.
+ */
+export const DEFAULT_FULL_SYNC_POLICY: FullSyncPolicy = {
+	customers: "stop",
+	products: "stop",
+	invoices: "continue",
+	payments: "continue",
+};
+
+/** Merge stored per-step overrides over the default policy. */
+export function resolveFullSyncPolicy(
+	overrides?: Partial<Record<FullSyncStep, PipelineStepPolicy | undefined>> | null,
+): FullSyncPolicy {
+	const policy = { ...DEFAULT_FULL_SYNC_POLICY };
+	for (const step of FULL_SYNC_STEPS) {
+		const override = overrides?.[step];
+		if (override) policy[step] = override;
+	}
+	return policy;
+}
+
+export interface PipelineStepResult {
+	step: FullSyncStep;
+	status: "success" | "failed" | "not_run";
+	processed: number;
+	failed: number;
+	skipped: number;
+	error?: string;
+}
+
+export type PipelineAdvance = { next: FullSyncStep } | { next: null; notRun: FullSyncStep[] };
+
+/**
+ * Decide how a pipeline goes on once a step has reported: run the first
+ * pending step, or finish because none is left or a failed step's policy is
+ * "stop" (the pending steps then never run).
+ */
+export function planPipelineAdvance(
+	results: PipelineStepResult[],
+	pending: FullSyncStep[],
+	policy: FullSyncPolicy,
+): PipelineAdvance {
+	const stopped = results.some((r) => r.status === "failed" && policy[r.step] === "stop");
+	if (stopped || pending.length === 0) return { next: null, notRun: [...pending] };
+	return { next: pending[0] };
+}
+
+/**
+ * Summarize step results into the parent run's error message.
+ * Returns null when every step succeeded.
+ */
+export function summarizePipelineFailures(results: PipelineStepResult[]): string | null {
+	const failedSteps = results.filter((r) => r.status === "failed");
+	if (failedSteps.length === 0) return null;
+
+	const notRun = results.filter((r) => r.status === "not_run").map((r) => r.step);
+	const parts = failedSteps.map((r) => `${r.step} failed: ${r.error ?? "unknown error"}`);
+	if (notRun.length > 0) {
+		parts.push(`stopped before ${notRun.join(", ")}`);
+	}
+	return parts.join("; ");
+}
@@ -0,0 +1,218 @@
+import { describe, expect, test } from "bun:test";
+import { type EnvironmentConfig, planPromotion, type TripletexCatalog } from "./promotion";
+
+function makeConfig(overrides?: Partial<EnvironmentConfig>): EnvironmentConfig {
+	return {
+		departmentMappings: [],
+		vatMappings: [],
+		paymentTypeMappings: [],
+		productMappings: [],
+		settings: null,
+		schedules: [],
+		...overrides,
+	};
+}
+
+const sandboxCatalog: TripletexCatalog = {
+	departments: [
+		{ id: 11, number: "10", name: "Sales" },
+		{ id: 12, name: "Youth" },
+	],
+	vatTypes: [{ id: 3, number: "3", name: "Utgående mva, høy sats" }],
+	paymentTypes: [{ id: 501, description: "Vipps" }],
+	products: [{ id: 21, number: "P-1", name: "Membership" }],
+};
+
+const productionCatalog: TripletexCatalog = {
+	departments: [
+		{ id: 91, number: "10", name: "Sales dept" },
+		{ id: 92, name: "youth" },
+	],
+	vatTypes: [{ id: 33, number: "3", name: "Utgående mva, høy sats" }],
+	paymentTypes: [{ id: 901, description: "vipps" }],
+	products: [
+		{ id: 81, number: "P-1", name: "Membership" },
+		{ id: 82, number: "P-2", name: "Training fee" },
+	],
+};
+
+describe("planPromotion", () => {
+	test("re-resolves departments by number, then by name", () => {
+		const sandbox = makeConfig({
+			departmentMappings: [
+				{
+					rubicDepartmentId: 1,
+					rubicDepartmentName: "Rubic Sales",
+					tripletexDepartmentId: 11,
+					tripletexDepartmentName: "Sales",
+				},
+				{
+					rubicDepartmentId: 2,
+					rubicDepartmentName: "Rubic Youth",
+					tripletexDepartmentId: 12,
+					tripletexDepartmentName: "Youth",
+				},
+			],
+		});
+
+		const plan = planPromotion(sandbox, makeConfig(), sandboxCatalog, productionCatalog);
+
+		expect(
+			plan.writes.departmentMappings.map((m) => [m.rubicDepartmentId, m.tripletexDepartmentId]),
+		).toEqual([
+			[1, 91],
+			[2, 92],
+		]);
+		expect(plan.changes.map((c) => c.action)).toEqual(["create", "create"]);
+	});
+
+	test("skips unchanged mappings and reports unresolved ones", () => {
+		const sandbox = makeConfig({
+			departmentMappings: [
+				{
+					rubicDepartmentId: 1,
+					rubicDepartmentName: "Rubic Sales",
+					tripletexDepartmentId: 11,
+					tripletexDepartmentName: "Sales",
+				},
+				{
+					rubicDepartmentId: 3,
+					rubicDepartmentName: "Rubic Events",
+					tripletexDepartmentId: 13,
+					tripletexDepartmentName: "Events",
+				},
+			],
+		});
+		const production = makeConfig({
+			departmentMappings: [
+				{
+					rubicDepartmentId: 1,
+					rubicDepartmentName: "Rubic Sales",
+					tripletexDepartmentId: 91,
+					tripletexDepartmentName: "Sales dept",
+				},
+			],
+		});
+
+		const plan = planPromotion(sandbox, production, sandboxCatalog, productionCatalog);
+
+		expect(plan.writes.departmentMappings).toEqual([]);
+		expect(plan.changes.map((c) => [c.key, c.action])).toEqual([
+			["Rubic Sales", "unchanged"],
+			["Rubic Events", "unresolved"],
+		]);
+		expect(plan.changes[1].reason).toContain("Events");
+	});
+
+	test("re-resolves VAT types by number and payment types by description", () => {
+		const sandbox = makeConfig({
+			vatMappings: [
+				{
+					rubicTaxCode: "H",
+					tripletexVatTypeId: 3,
+					tripletexVatTypeName: "Utgående mva, høy sats",
+				},
+			],
+			paymentTypeMappings: [
+				{
+					rubicTransactionTypeName: "Vipps",
+					tripletexPaymentTypeId: 501,
+					tripletexPaymentTypeName: "Vipps",
+				},
+			],
+		});
+		const production = makeConfig({
+			paymentTypeMappings: [
+				{
+					rubicTransactionTypeName: "vipps ",
+					tripletexPaymentTypeId: 900,
+					tripletexPaymentTypeName: "Bank",
+				},
+			],
+		});
+
+		const plan = planPromotion(sandbox, production, sandboxCatalog, productionCatalog);
+
+		expect(plan.writes.vatMappings[0].tripletexVatTypeId).toBe(33);
+		expect(plan.writes.paymentTypeMappings[0].tripletexPaymentTypeId).toBe(901);
+		expect(plan.changes.map((c) => [c.area, c.action])).toEqual([
+			["vat", "create"],
+			["paymentType", "update"],
+		]);
+	});
+
+	test("promotes settings, re-resolving referenced records and keeping unresolved ones", () => {
+		const sandbox = makeConfig({
+			settings: {
+				strictInvoiceLines: true,
+				fallbackDepartment: { id: 11, name: "Sales" },
+				defaultPaymentType: { id: 777, name: "Giro" },
+			},
+		});
+		const production = makeConfig({
+			settings: { defaultPaymentType: { id: 905, name: "Bank" } },
+		});
+
+		const plan = planPromotion(sandbox, production, sandboxCatalog, productionCatalog);
+
+		expect(plan.writes.settings).toEqual({
+			useLedgerCustomerNo: undefined,
+			strictInvoiceLines: true,
+			fallbackDepartment: { id: 91, name: "Sales dept" },
+			requireDepartmentMapping: undefined,
+			paymentFeeVoucher: undefined,
+			defaultPaymentType: { id: 905, name: "Bank" },
+			fullSyncPolicy: undefined,
+			staleMappingPolicy: undefined,
+		});
+		expect(plan.changes.find((c) => c.key === "defaultPaymentType")?.action).toBe("unresolved");
+	});
+
+	test("copies schedules that differ, creating new ones disabled", () => {
+		const sandbox = makeConfig({
+			schedules: [
+				{ syncType: "customers", cronExpression: "0 * * * *", isEnabled: true },
+				{ syncType: "products", cronExpression: "30 * * * *", isEnabled: true },
+				{ syncType: "invoices", cronExpression: "*/15 * * * *", isEnabled: true },
+			],
+		});
+		const production = makeConfig({
+			schedules: [
+				{ syncType: "customers", cronExpression: "0 * * * *", isEnabled: false },
+				{ syncType: "products", cronExpression: "0 * * * *", isEnabled: true },
+			],
+		});
+
+		const plan = planPromotion(sandbox, production, sandboxCatalog, productionCatalog);
+
+		expect(plan.writes.schedules).toEqual([
+			{ syncType: "products", cronExpression: "30 * * * *", isEnabled: true },
+			{ syncType: "invoices", cronExpression: "*/15 * * * *", isEnabled: false },
+		]);
+		expect(plan.changes.map((c) => c.action)).toEqual(["unchanged", "update", "create"]);
+	});
+
+	test("re-resolves product mappings by product number", () => {
+		const sandbox = makeConfig({
+			productMappings: [
+				{ rubicProductCode: "P-1", tripletexProductId: 21 },
+				{ rubicProductCode: "P-2", tripletexProductId: 22 },
+				{ rubicProductCode: "P-3", tripletexProductId: 23 },
+			],
+		});
+		const production = makeConfig({
+			productMappings: [{ rubicProductCode: "P-1", tripletexProductId: 81 }],
+		});
+
+		const plan = planPromotion(sandbox, production, sandboxCatalog, productionCatalog);
+
+		expect(plan.writes.productMappings).toEqual([
+			{ rubicProductCode: "P-2", tripletexProductId: 82 },
+		]);
+		expect(plan.changes.map((c) => [c.key, c.action])).toEqual([
+			["P-1", "unchanged"],
+			["P-2", "create"],
+			["P-3", "unresolved"],
+		]);
+	});
+});
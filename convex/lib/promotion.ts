@@ -0,0 +1,471 @@
+/**
+ * Planning of a sandbox → production promotion of per-environment config.
+ *
+ * Department, VAT, payment type and product mappings, sync settings and
+ * schedules are copied from sandbox to production. Tripletex ids differ
+ * between the two companies, so every referenced Tripletex record is
+ * re-resolved against production: departments by department number, VAT
+ * types by VAT code number (both falling back to the name), payment types by
+ * description and products by product number. A record that cannot be found
+ * in production is reported as unresolved and left as it is there.
+ * Production mappings without a sandbox counterpart are kept. Schedules new
+ * to production are created disabled, so nothing runs until someone turns
+ * them on.
+ */
+
+import type { PipelineStepPolicy, StaleMappingPolicy, SyncType } from "../validators";
+import { normalizeTransactionTypeName } from "./paymentTypes";
+import type { TripletexPaymentType, TripletexVatType } from "./tripletexClient";
+
+export interface PromotedDepartmentMapping {
+	rubicDepartmentId: number;
+	rubicDepartmentName: string;
+	tripletexDepartmentId: number;
+	tripletexDepartmentName: string;
+}
+
+export interface PromotedVatMapping {
+	rubicTaxCode?: string;
+	rubicTaxPercent?: number;
+	tripletexVatTypeId: number;
+	tripletexVatTypeName: string;
+}
+
+export interface PromotedPaymentTypeMapping {
+	rubicTransactionTypeName: string;
+	tripletexPaymentTypeId: number;
+	tripletexPaymentTypeName: string;
+}
+
+export interface PromotedProductMapping {
+	rubicProductCode: string;
+	tripletexProductId: number;
+}
+
+export interface PromotedSchedule {
+	syncType: SyncType;
+	cronExpression: string;
+	timezone?: string;
+	isEnabled: boolean;
+}
+
+/** The `syncSettings` fields that are promoted. */
+export interface PromotedSettings {
+	useLedgerCustomerNo?: boolean;
+	strictInvoiceLines?: boolean;
+	fallbackDepartment?: { id: number; name: string };
+	requireDepartmentMapping?: boolean;
+	paymentFeeVoucher?: { expenseAccountNumber: number; counterAccountNumber: number };
+	defaultPaymentType?: { id: number; name: string };
+	fullSyncPolicy?: {
+		customers?: PipelineStepPolicy;
+		products?: PipelineStepPolicy;
+		invoices?: PipelineStepPolicy;
+	};
+	staleMappingPolicy?: StaleMappingPolicy;
+}
+
+export const PROMOTED_SETTINGS: (keyof PromotedSettings)[] = [
+	"useLedgerCustomerNo",
+	"strictInvoiceLines",
+	"fallbackDepartment",
+	"requireDepartmentMapping",
+	"paymentFeeVoucher",
+	"defaultPaymentType",
+	"fullSyncPolicy",
+	"staleMappingPolicy",
+];
+
+/** Per-environment config of an org, as stored in Convex. */
+export interface EnvironmentConfig {
+	departmentMappings: PromotedDepartmentMapping[];
+	vatMappings: PromotedVatMapping[];
+	paymentTypeMappings: PromotedPaymentTypeMapping[];
+	productMappings: PromotedProductMapping[];
+	settings: PromotedSettings | null;
+	schedules: PromotedSchedule[];
+}
+
+/** Tripletex reference data of one environment. */
+export interface TripletexCatalog {
+	departments: { id: number; number?: string; name?: string }[];
+	vatTypes: TripletexVatType[];
+	paymentTypes: TripletexPaymentType[];
+	products: { id: number; number?: string; name?: string }[];
+}
+
+export type PromotionArea =
+	| "department"
+	| "vat"
+	| "paymentType"
+	| "product"
+	| "setting"
+	| "schedule";
+
+export type PromotionAction = "create" | "update" | "unchanged" | "unresolved";
+
+export interface PromotionChange {
+	area: PromotionArea;
+	/** What is being promoted, e.g. the Rubic department name or the setting name. */
+	key: string;
+	action: PromotionAction;
+	/** Current production value. */
+	from?: string;
+	/** Value production gets (re-resolved), or the sandbox value when unresolved. */
+	to: string;
+	reason?: string;
+}
+
+export interface PromotionPlan {
+	changes: PromotionChange[];
+	/** Production rows to create or update; unchanged and unresolved entries are left out. */
+	writes: {
+		departmentMappings: PromotedDepartmentMapping[];
+		vatMappings: PromotedVatMapping[];
+		paymentTypeMappings: PromotedPaymentTypeMapping[];
+		/** Written without a hash, so the next product sync updates the production product. */
+		productMappings: PromotedProductMapping[];
+		/** Full promoted settings (unresolved fields keep production's value), or null if unchanged. */
+		settings: PromotedSettings | null;
+		schedules: PromotedSchedule[];
+	};
+}
+
+type Resolved = { id: number; name: string } | { reason: string };
+
+function normalizeName(name: string | undefined): string | undefined {
+	const normalized = name?.trim().toLowerCase();
+	return normalized || undefined;
+}
+
+/** Find the production record matching a sandbox record by key, then by name. */
+function resolveAcross<T extends { id: number }>(
+	sandboxItems: T[],
+	productionItems: T[],
+	sandboxId: number,
+	storedName: string,
+	keyOf: (item: T) => string | undefined,
+	nameOf: (item: T) => string | undefined,
+	what: string,
+): Resolved {
+	const sandboxItem = sandboxItems.find((item) => item.id === sandboxId);
+	const key = sandboxItem ? keyOf(sandboxItem) : undefined;
+	if (key !== undefined) {
+		const match = productionItems.find((item) => keyOf(item) === key);
+		if (match) return { id: match.id, name: nameOf(match) ?? storedName };
+	}
+
+	const name =
+		normalizeName(sandboxItem ? nameOf(sandboxItem) : undefined) ?? normalizeName(storedName);
+	const match = name
+		? productionItems.find((item) => normalizeName(nameOf(item)) === name)
+		: undefined;
+	if (match) return { id: match.id, name: nameOf(match) ?? storedName };
+
+	return {
+		reason:
+			key !== undefined
+				? `No production ${what} with number ${key} or name "${storedName}"`
+				: `No production ${what} named "${storedName}"`,
+	};
+}
+
+function resolveDepartment(
+	sandbox: TripletexCatalog,
+	production: TripletexCatalog,
+	id: number,
+	name: string,
+): Resolved {
+	return resolveAcross(
+		sandbox.departments,
+		production.departments,
+		id,
+		name,
+		(d) => d.number?.trim() || undefined,
+		(d) => d.name,
+		"department",
+	);
+}
+
+function resolveVatType(
+	sandbox: TripletexCatalog,
+	production: TripletexCatalog,
+	id: number,
+	name: string,
+): Resolved {
+	return resolveAcross(
+		sandbox.vatTypes,
+		production.vatTypes,
+		id,
+		name,
+		(t) => t.number?.trim() || undefined,
+		(t) => t.name,
+		"VAT type",
+	);
+}
+
+function resolvePaymentType(
+	sandbox: TripletexCatalog,
+	production: TripletexCatalog,
+	id: number,
+	name: string,
+): Resolved {
+	return resolveAcross(
+		sandbox.paymentTypes,
+		production.paymentTypes,
+		id,
+		name,
+		() => undefined,
+		(t) => t.description,
+		"payment type",
+	);
+}
+
+/** Products are numbered by their Rubic product code in both companies. */
+function resolveProduct(production: TripletexCatalog, productCode: string): Resolved {
+	const match = production.products.find((p) => p.number?.trim() === productCode);
+	if (match) return { id: match.id, name: match.name ?? productCode };
+	return { reason: `No production product with number ${productCode}; product sync creates it` };
+}
+
+function describeVatKey(rule: PromotedVatMapping): string {
+	return rule.rubicTaxCode !== undefined
+		? `Tax code ${rule.rubicTaxCode}`
+		: `${rule.rubicTaxPercent ?? "?"}%`;
+}
+
+function formatValue(value: unknown): string {
+	if (value === undefined) return "not set";
+	if (typeof value === "object" && value !== null && "name" in value) return String(value.name);
+	return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Work out what promoting `sandbox` onto `production` would change. Pure:
+ * the caller loads both configs and both Tripletex catalogs.
+ */
+export function planPromotion(
+	sandbox: EnvironmentConfig,
+	production: EnvironmentConfig,
+	sandboxCatalog: TripletexCatalog,
+	productionCatalog: TripletexCatalog,
+): PromotionPlan {
+	const changes: PromotionChange[] = [];
+	const writes: PromotionPlan["writes"] = {
+		departmentMappings: [],
+		vatMappings: [],
+		paymentTypeMappings: [],
+		productMappings: [],
+		settings: null,
+		schedules: [],
+	};
+
+	/** Record a mapping-like change and return whether it needs a write. */
+	const compare = (
+		area: PromotionArea,
+		key: string,
+		resolved: Resolved,
+		storedName: string,
+		existing: { id: number; name: string } | undefined,
+	): resolved is { id: number; name: string } => {
+		if ("reason" in resolved) {
+			changes.push({
+				area,
+				key,
+				action: "unresolved",
+				from: existing?.name,
+				to: storedName,
+				reason: resolved.reason,
+			});
+			return false;
+		}
+		const action = !existing ? "create" : existing.id === resolved.id ? "unchanged" : "update";
+		changes.push({ area, key, action, from: existing?.name, to: resolved.name });
+		return action !== "unchanged";
+	};
+
+	for (const rule of sandbox.departmentMappings) {
+		const resolved = resolveDepartment(
+			sandboxCatalog,
+			productionCatalog,
+			rule.tripletexDepartmentId,
+			rule.tripletexDepartmentName,
+		);
+		const existing = production.departmentMappings.find(
+			(m) => m.rubicDepartmentId === rule.rubicDepartmentId,
+		);
+		if (
+			compare(
+				"department",
+				rule.rubicDepartmentName,
+				resolved,
+				rule.tripletexDepartmentName,
+				existing && { id: existing.tripletexDepartmentId, name: existing.tripletexDepartmentName },
+			)
+		) {
+			writes.departmentMappings.push({
+				rubicDepartmentId: rule.rubicDepartmentId,
+				rubicDepartmentName: rule.rubicDepartmentName,
+				tripletexDepartmentId: resolved.id,
+				tripletexDepartmentName: resolved.name,
+			});
+		}
+	}
+
+	for (const rule of sandbox.vatMappings) {
+		const resolved = resolveVatType(
+			sandboxCatalog,
+			productionCatalog,
+			rule.tripletexVatTypeId,
+			rule.tripletexVatTypeName,
+		);
+		const existing = production.vatMappings.find(
+			(m) => m.rubicTaxCode === rule.rubicTaxCode && m.rubicTaxPercent === rule.rubicTaxPercent,
+		);
+		if (
+			compare(
+				"vat",
+				describeVatKey(rule),
+				resolved,
+				rule.tripletexVatTypeName,
+				existing && { id: existing.tripletexVatTypeId, name: existing.tripletexVatTypeName },
+			)
+		) {
+			writes.vatMappings.push({
+				rubicTaxCode: rule.rubicTaxCode,
+				rubicTaxPercent: rule.rubicTaxPercent,
+				tripletexVatTypeId: resolved.id,
+				tripletexVatTypeName: resolved.name,
+			});
+		}
+	}
+
+	for (const rule of sandbox.paymentTypeMappings) {
+		const resolved = resolvePaymentType(
+			sandboxCatalog,
+			productionCatalog,
+			rule.tripletexPaymentTypeId,
+			rule.tripletexPaymentTypeName,
+		);
+		const typeName = normalizeTransactionTypeName(rule.rubicTransactionTypeName);
+		const existing = production.paymentTypeMappings.find(
+			(m) => normalizeTransactionTypeName(m.rubicTransactionTypeName) === typeName,
+		);
+		if (
+			compare(
+				"paymentType",
+				rule.rubicTransactionTypeName,
+				resolved,
+				rule.tripletexPaymentTypeName,
+				existing && {
+					id: existing.tripletexPaymentTypeId,
+					name: existing.tripletexPaymentTypeName,
+				},
+			)
+		) {
+			writes.paymentTypeMappings.push({
+				rubicTransactionTypeName: rule.rubicTransactionTypeName,
+				tripletexPaymentTypeId: resolved.id,
+				tripletexPaymentTypeName: resolved.name,
+			});
+		}
+	}
+
+	for (const mapping of sandbox.productMappings) {
+		const resolved = resolveProduct(productionCatalog, mapping.rubicProductCode);
+		const existing = production.productMappings.find(
+			(m) => m.rubicProductCode === mapping.rubicProductCode,
+		);
+		const current = existing && {
+			id: existing.tripletexProductId,
+			name:
+				productionCatalog.products.find((p) => p.id === existing.tripletexProductId)?.name ??
+				`Product ${existing.tripletexProductId}`,
+		};
+		if (compare("product", mapping.rubicProductCode, resolved, mapping.rubicProductCode, current)) {
+			writes.productMappings.push({
+				rubicProductCode: mapping.rubicProductCode,
+				tripletexProductId: resolved.id,
+			});
+		}
+	}
+
+	if (sandbox.settings) {
+		const current = production.settings ?? {};
+		const promoted: PromotedSettings = {};
+		let changed = false;
+
+		for (const field of PROMOTED_SETTINGS) {
+			let value: PromotedSettings[typeof field] = sandbox.settings[field];
+
+			// Settings that reference Tripletex records are re-resolved like mappings
+			if ((field === "fallbackDepartment" || field === "defaultPaymentType") && value) {
+				const ref = value as { id: number; name: string };
+				const resolved =
+					field === "fallbackDepartment"
+						? resolveDepartment(sandboxCatalog, productionCatalog, ref.id, ref.name)
+						: resolvePaymentType(sandboxCatalog, productionCatalog, ref.id, ref.name);
+				if ("reason" in resolved) {
+					changes.push({
+						area: "setting",
+						key: field,
+						action: "unresolved",
+						from: formatValue(current[field]),
+						to: ref.name,
+						reason: resolved.reason,
+					});
+					Object.assign(promoted, { [field]: current[field] });
+					continue;
+				}
+				value = { id: resolved.id, name: resolved.name };
+			}
+
+			Object.assign(promoted, { [field]: value });
+			const same = JSON.stringify(value) === JSON.stringify(current[field]);
+			changes.push({
+				area: "setting",
+				key: field,
+				action: same ? "unchanged" : production.settings ? "update" : "create",
+				from: production.settings ? formatValue(current[field]) : undefined,
+				to: formatValue(value),
+			});
+			if (!same) changed = true;
+		}
+
+		if (changed) writes.settings = promoted;
+	}
+
+	for (const sandboxSchedule of sandbox.schedules) {
+		const existing = production.schedules.find((s) => s.syncType === sandboxSchedule.syncType);
+		// Whether a schedule runs is decided in production; new ones start disabled
+		const schedule = { ...sandboxSchedule, isEnabled: existing?.isEnabled ?? false };
+		const describe = (s: PromotedSchedule) =>
+			`${s.cronExpression}${s.timezone ? ` (${s.timezone})` : ""}${s.isEnabled ? "" : ", disabled"}`;
+		const same =
+			existing !== undefined &&
+			existing.cronExpression === schedule.cronExpression &&
+			existing.timezone === schedule.timezone;
+
+		changes.push({
+			area: "schedule",
+			key: schedule.syncType,
+			action: !existing ? "create" : same ? "unchanged" : "update",
+			from: existing && describe(existing),
+			to: describe(schedule),
+		});
+		if (!same) writes.schedules.push(schedule);
+	}
+
+	return { changes, writes };
+}
+
+/**
+ * Fingerprint of a plan. The review screen keeps the hash of the plan it
+ * showed, and promotion refuses to write when the plan has changed since.
+ */
+export async function hashPromotionPlan(plan: PromotionPlan): Promise<string> {
+	const data = new TextEncoder().encode(JSON.stringify(plan));
+	const hashBuffer = await crypto.subtle.digest("SHA-256", data);
+	const hashArray = Array.from(new Uint8Array(hashBuffer));
+	return hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,262 @@
+import { describe, expect, test } from "bun:test";
+import {
+	type ReconciledInvoiceMapping,
+	type ReconciliationInput,
+	reconcile,
+	reconciliationIssuesToCsv,
+} from "./reconciliation";
+import type { RubicInvoice, RubicInvoiceLine, RubicInvoiceTransaction } from "./rubicClient";
+
+function makeInvoice(overrides?: Partial<RubicInvoice>): RubicInvoice {
+	return {
+		customer: { customerNo: "100" } as RubicInvoice["customer"],
+		invoiceID: 1001,
+		invoiceNumber: 5001,
+		orderID: 2001,
+		invoiceDate: "2025-06-01T00:00:00",
+		sentDate: "2025-06-01",
+		dueDate: "2025-07-01",
+		netTotal: 1000,
+		taxTotal: 250,
+		grossTotal: 1250,
+		balance: 1250,
+		paidAmount: 0,
+		creditedAmount: 0,
+		correctedAmount: 0,
+		creditNoteAmount: 0,
+		totalAmount: 1250,
+		invoiceLines: null,
+		...overrides,
+	};
+}
+
+function makeTransaction(overrides?: Partial<RubicInvoiceTransaction>): RubicInvoiceTransaction {
+	return {
+		invoiceTransactionID: 7001,
+		invoiceID: 1001,
+		invoiceNumber: 5001,
+		paymentDate: "2025-06-10T00:00:00",
+		expectedPayoutDate: null,
+		transactionTypeID: 1,
+		transactionTypeName: "Vipps",
+		paidAmount: 1250,
+		paymentFee: 0,
+		vatPaymentFee: 0,
+		payoutAmount: 1250,
+		...overrides,
+	};
+}
+
+const mapping: ReconciledInvoiceMapping = {
+	rubicInvoiceId: 1001,
+	rubicInvoiceNumber: 5001,
+	tripletexInvoiceId: 9001,
+	paymentSynced: false,
+};
+
+function makeInput(overrides?: Partial<ReconciliationInput>): ReconciliationInput {
+	return {
+		periodStart: "2025-06-01",
+		periodEnd: "2025-06-30",
+		rubicInvoices: [makeInvoice()],
+		rubicTransactions: [],
+		invoiceMappings: [mapping],
+		registeredTransactionIds: new Set(),
+		tripletexInvoices: [{ id: 9001, amount: 1250, amountOutstanding: 1250 }],
+		creditNotes: [],
+		...overrides,
+	};
+}
+
+describe("reconcile", () => {
+	test("reports nothing when both systems agree", () => {
+		const result = reconcile(
+			makeInput({
+				rubicInvoices: [makeInvoice({ balance: 0, paidAmount: 1250 })],
+				rubicTransactions: [makeTransaction()],
+				registeredTransactionIds: new Set([7001]),
+				tripletexInvoices: [{ id: 9001, amount: 1250, amountOutstanding: 0 }],
+			}),
+		);
+
+		expect(result.issues).toEqual([]);
+		expect(result.summary).toMatchObject({
+			rubicInvoices: 1,
+			matchedInvoices: 1,
+			rubicGrossTotal: 1250,
+			tripletexGrossTotal: 1250,
+			rubicPayments: 1,
+			registeredPaymentTotal: 1250,
+		});
+	});
+
+	test("flags unsynced invoices with their skip reason", () => {
+		const result = reconcile(
+			makeInput({
+				invoiceMappings: [],
+				tripletexInvoices: [],
+				skipReasons: new Map([[1001, "Customer 100 is not mapped"]]),
+			}),
+		);
+
+		expect(result.issues).toEqual([
+			{
+				kind: "missing_invoice",
+				rubicInvoiceId: 1001,
+				rubicInvoiceNumber: 5001,
+				rubicAmount: 1250,
+				message: "Not in Tripletex: Customer 100 is not mapped",
+			},
+		]);
+	});
+
+	test("flags amount and balance mismatches, allowing for dropped lines and credit notes", () => {
+		const lines = [
+			{ productCode: "A", grossTotal: 1000 },
+			{ productCode: null, grossTotal: 250 },
+		] as RubicInvoiceLine[];
+		const result = reconcile(
+			makeInput({
+				rubicInvoices: [
+					makeInvoice({ invoiceLines: lines, balance: 1050 }),
+					makeInvoice({ invoiceID: 1002, invoiceNumber: 5002 }),
+				],
+				invoiceMappings: [
+					{
+						...mapping,
+						droppedProductCodes: ["(none)"],
+						creditNotes: [{ tripletexInvoiceId: 9003 }],
+					},
+					{ ...mapping, rubicInvoiceId: 1002, rubicInvoiceNumber: 5002, tripletexInvoiceId: 9002 },
+				],
+				tripletexInvoices: [
+					{ id: 9001, amount: 1000, amountOutstanding: 1000 },
+					{ id: 9002, amount: 1200, amountOutstanding: 1250 },
+				],
+				creditNotes: [{ id: 9003, amount: -200, amountOutstanding: -200, isCreditNote: true }],
+			}),
+		);
+
+		expect(result.issues.map((i) => [i.kind, i.rubicInvoiceNumber])).toEqual([
+			["amount_mismatch", 5002],
+		]);
+		expect(result.issues[0]).toMatchObject({ rubicAmount: 1250, tripletexAmount: 1200 });
+	});
+
+	test("counts credit notes dated after the period", () => {
+		const result = reconcile(
+			makeInput({
+				rubicInvoices: [makeInvoice({ balance: 0, creditedAmount: 1250 })],
+				invoiceMappings: [{ ...mapping, creditNotes: [{ tripletexInvoiceId: 9003 }] }],
+				tripletexInvoices: [{ id: 9001, amount: 1250, amountOutstanding: 1250 }],
+				creditNotes: [
+					{
+						id: 9003,
+						invoiceDate: "2025-07-15",
+						amount: -1250,
+						amountOutstanding: -1250,
+						isCreditNote: true,
+					},
+				],
+			}),
+		);
+
+		expect(result.issues).toEqual([]);
+		expect(result.summary.tripletexOpenBalance).toBe(0);
+	});
+
+	test("flags orphan mappings on either side", () => {
+		const result = reconcile(
+			makeInput({
+				rubicInvoices: [makeInvoice()],
+				invoiceMappings: [
+					mapping,
+					{ ...mapping, rubicInvoiceId: 1002, rubicInvoiceNumber: 5002, tripletexInvoiceId: 9002 },
+				],
+				tripletexInvoices: [{ id: 9002, amount: 500, amountOutstanding: 500 }],
+			}),
+		);
+
+		expect(result.issues.map((i) => [i.kind, i.tripletexInvoiceId])).toEqual([
+			["orphan_mapping", 9001],
+			["orphan_mapping", 9002],
+		]);
+	});
+
+	test("flags unregistered payments but not those of the old single-payment flow", () => {
+		const result = reconcile(
+			makeInput({
+				rubicInvoices: [makeInvoice(), makeInvoice({ invoiceID: 1002, invoiceNumber: 5002 })],
+				rubicTransactions: [
+					makeTransaction(),
+					makeTransaction({ invoiceTransactionID: 7002, invoiceID: 1002, invoiceNumber: 5002 }),
+					makeTransaction({ invoiceTransactionID: 7003, paymentDate: "2025-07-01T00:00:00" }),
+				],
+				invoiceMappings: [
+					mapping,
+					{
+						...mapping,
+						rubicInvoiceId: 1002,
+						rubicInvoiceNumber: 5002,
+						tripletexInvoiceId: 9002,
+						paymentSynced: true,
+					},
+				],
+				tripletexInvoices: [
+					{ id: 9001, amount: 1250, amountOutstanding: 1250 },
+					{ id: 9002, amount: 1250, amountOutstanding: 1250 },
+				],
+				legacyPaidAmounts: new Map([[1002, 1250]]),
+			}),
+		);
+
+		expect(result.issues.map((i) => [i.kind, i.rubicTransactionId])).toEqual([
+			["missing_payment", 7001],
+		]);
+		expect(result.summary.rubicPayments).toBe(2);
+	});
+
+	test("flags later payments beyond what the old single-payment flow registered", () => {
+		const result = reconcile(
+			makeInput({
+				rubicInvoices: [makeInvoice({ balance: 0, paidAmount: 1250 })],
+				rubicTransactions: [
+					makeTransaction({
+						invoiceTransactionID: 7002,
+						paidAmount: 250,
+						paymentDate: "2025-06-20T00:00:00",
+					}),
+					makeTransaction({ paidAmount: 1000 }),
+				],
+				invoiceMappings: [{ ...mapping, paymentSynced: true }],
+				tripletexInvoices: [{ id: 9001, amount: 1250, amountOutstanding: 0 }],
+				legacyPaidAmounts: new Map([[1001, 1000]]),
+			}),
+		);
+
+		expect(result.issues.map((i) => [i.kind, i.rubicTransactionId])).toEqual([
+			["missing_payment", 7002],
+		]);
+	});
+});
+
+describe("reconciliationIssuesToCsv", () => {
+	test("writes a header and quotes fields that need it", () => {
+		const csv = reconciliationIssuesToCsv([
+			{
+				kind: "amount_mismatch",
+				rubicInvoiceNumber: 5001,
+				tripletexInvoiceId: 9001,
+				rubicAmount: 1250,
+				tripletexAmount: 1200.5,
+				message: 'Gross total differs, "check lines"',
+			},
+		]);
+
+		expect(csv.split("\r\n")).toEqual([
+			"Kind,Rubic invoice number,Rubic invoice ID,Rubic transaction ID,Tripletex invoice ID,Rubic amount,Tripletex amount,Message",
+			'amount_mismatch,5001,,,9001,1250.00,1200.50,"Gross total differs, ""check lines"""',
+			"",
+		]);
+	});
+});
@@ -0,0 +1,302 @@
+/**
+ * Reconciliation of Rubic invoices and payments against Tripletex.
+ *
+ * Both sides are scoped to one period by invoice date (payments by payment
+ * date). A Rubic invoice is compared with the Tripletex invoice its mapping
+ * points at: the gross amount should match what was sent (the Rubic total
+ * minus lines dropped in non-strict mode), and the open balance should match
+ * what is outstanding on the Tripletex invoice and its credit notes together.
+ * Credit notes are fetched by id, as they may be dated after the period.
+ */
+import type { ReconciliationIssueKind } from "../validators";
+import type { RubicInvoice, RubicInvoiceTransaction } from "./rubicClient";
+import type { TripletexInvoice } from "./tripletexClient";
+
+/** Differences below this are rounding noise (amounts are in NOK with øre). */
+const AMOUNT_TOLERANCE = 0.005;
+
+/** The parts of an `invoiceMapping` row reconciliation needs. */
+export interface ReconciledInvoiceMapping {
+	rubicInvoiceId: number;
+	rubicInvoiceNumber: number;
+	tripletexInvoiceId: number;
+	paymentSynced: boolean;
+	droppedProductCodes?: string[];
+	creditNotes?: { tripletexInvoiceId: number }[];
+}
+
+export interface ReconciliationInput {
+	/** First day of the period, `YYYY-MM-DD`. */
+	periodStart: string;
+	/** Last day of the period (inclusive), `YYYY-MM-DD`. */
+	periodEnd: string;
+	rubicInvoices: RubicInvoice[];
+	rubicTransactions: RubicInvoiceTransaction[];
+	invoiceMappings: ReconciledInvoiceMapping[];
+	/** Rubic transaction ids with a `paymentMapping` row. */
+	registeredTransactionIds: Set<number>;
+	/** Tripletex invoices (and credit notes) dated in the period. */
+	tripletexInvoices: TripletexInvoice[];
+	/** The mappings' credit notes, fetched by id whatever their date. */
+	creditNotes: TripletexInvoice[];
+	/**
+	 * What the old single-payment flow registered on an invoice beyond its
+	 * `paymentMapping` rows, by Rubic invoice id (see `getLegacyPaidAmount`).
+	 */
+	legacyPaidAmounts?: Map<number, number>;
+	/** Why unsynced invoices were skipped, by Rubic invoice id. */
+	skipReasons?: Map<number, string>;
+}
+
+export interface ReconciliationIssue {
+	kind: ReconciliationIssueKind;
+	rubicInvoiceId?: number;
+	rubicInvoiceNumber?: number;
+	rubicTransactionId?: number;
+	tripletexInvoiceId?: number;
+	rubicAmount?: number;
+	tripletexAmount?: number;
+	message: string;
+}
+
+export interface ReconciliationSummary {
+	rubicInvoices: number;
+	matchedInvoices: number;
+	rubicGrossTotal: number;
+	tripletexGrossTotal: number;
+	rubicOpenBalance: number;
+	tripletexOpenBalance: number;
+	rubicPayments: number;
+	rubicPaymentTotal: number;
+	registeredPayments: number;
+	registeredPaymentTotal: number;
+}
+
+export interface ReconciliationResult {
+	summary: ReconciliationSummary;
+	issues: ReconciliationIssue[];
+}
+
+function roundAmount(value: number): number {
+	return Math.round(value * 100) / 100;
+}
+
+function differs(a: number, b: number): boolean {
+	return Math.abs(a - b) > AMOUNT_TOLERANCE;
+}
+
+function inPeriod(date: string, input: ReconciliationInput): boolean {
+	const day = date.slice(0, 10);
+	return day >= input.periodStart && day <= input.periodEnd;
+}
+
+/**
+ * Amount the old single-payment flow registered on a Tripletex invoice without
+ * `paymentMapping` rows: what Tripletex shows as paid less the recorded rows.
+ */
+export function getLegacyPaidAmount(
+	tripletexInvoice: TripletexInvoice,
+	recorded: { amount: number }[],
+): number {
+	return (
+		(tripletexInvoice.amount ?? 0) -
+		(tripletexInvoice.amountOutstanding ?? 0) -
+		recorded.reduce((sum, p) => sum + p.amount, 0)
+	);
+}
+
+/** Gross amount of the lines sync left off the Tripletex order. */
+function getDroppedAmount(invoice: RubicInvoice, mapping: ReconciledInvoiceMapping): number {
+	if (!mapping.droppedProductCodes?.length || !invoice.invoiceLines) return 0;
+	const dropped = new Set(mapping.droppedProductCodes);
+	return invoice.invoiceLines
+		.filter((line) => dropped.has(line.productCode ?? "(none)"))
+		.reduce((sum, line) => sum + line.grossTotal, 0);
+}
+
+/** Compare one period of Rubic invoices and payments with Tripletex. Pure. */
+export function reconcile(input: ReconciliationInput): ReconciliationResult {
+	const issues: ReconciliationIssue[] = [];
+	const summary: ReconciliationSummary = {
+		rubicInvoices: 0,
+		matchedInvoices: 0,
+		rubicGrossTotal: 0,
+		tripletexGrossTotal: 0,
+		rubicOpenBalance: 0,
+		tripletexOpenBalance: 0,
+		rubicPayments: 0,
+		rubicPaymentTotal: 0,
+		registeredPayments: 0,
+		registeredPaymentTotal: 0,
+	};
+
+	const mappingsByRubicId = new Map(input.invoiceMappings.map((m) => [m.rubicInvoiceId, m]));
+	const tripletexById = new Map<number, TripletexInvoice>();
+	for (const invoice of input.tripletexInvoices) {
+		if (invoice.id !== undefined) tripletexById.set(invoice.id, invoice);
+	}
+	const creditNotesById = new Map<number, TripletexInvoice>();
+	for (const note of input.creditNotes) {
+		if (note.id !== undefined) creditNotesById.set(note.id, note);
+	}
+
+	const rubicInvoices = input.rubicInvoices.filter((i) => inPeriod(i.invoiceDate, input));
+	const rubicInvoiceIds = new Set(rubicInvoices.map((i) => i.invoiceID));
+
+	for (const invoice of rubicInvoices) {
+		summary.rubicInvoices++;
+		summary.rubicGrossTotal += invoice.grossTotal;
+		summary.rubicOpenBalance += invoice.balance;
+
+		const mapping = mappingsByRubicId.get(invoice.invoiceID);
+		if (!mapping) {
+			const skipReason = input.skipReasons?.get(invoice.invoiceID);
+			issues.push({
+				kind: "missing_invoice",
+				rubicInvoiceId: invoice.invoiceID,
+				rubicInvoiceNumber: invoice.invoiceNumber,
+				rubicAmount: invoice.grossTotal,
+				message: skipReason
+					? `Not in Tripletex: ${skipReason}`
+					: "Not in Tripletex and not synced yet",
+			});
+			continue;
+		}
+
+		const tripletexInvoice = tripletexById.get(mapping.tripletexInvoiceId);
+		if (!tripletexInvoice) {
+			issues.push({
+				kind: "orphan_mapping",
+				rubicInvoiceId: invoice.invoiceID,
+				rubicInvoiceNumber: invoice.invoiceNumber,
+				tripletexInvoiceId: mapping.tripletexInvoiceId,
+				rubicAmount: invoice.grossTotal,
+				message: `Mapped Tripletex invoice ${mapping.tripletexInvoiceId} was not found for the period`,
+			});
+			continue;
+		}
+
+		summary.matchedInvoices++;
+		const droppedAmount = getDroppedAmount(invoice, mapping);
+		const tripletexAmount = tripletexInvoice.amount ?? 0;
+		summary.tripletexGrossTotal += tripletexAmount;
+
+		const expectedAmount = invoice.grossTotal - droppedAmount;
+		if (differs(expectedAmount, tripletexAmount)) {
+			issues.push({
+				kind: "amount_mismatch",
+				rubicInvoiceId: invoice.invoiceID,
+				rubicInvoiceNumber: invoice.invoiceNumber,
+				tripletexInvoiceId: mapping.tripletexInvoiceId,
+				rubicAmount: roundAmount(expectedAmount),
+				tripletexAmount,
+				message:
+					droppedAmount > 0
+						? `Gross total differs (Rubic total less ${roundAmount(droppedAmount).toFixed(2)} of dropped lines)`
+						: "Gross total differs",
+			});
+		}
+
+		// Credit notes carry the credited part of the balance as negative outstanding
+		const tripletexOutstanding = (mapping.creditNotes ?? []).reduce(
+			(sum, note) => sum + (creditNotesById.get(note.tripletexInvoiceId)?.amountOutstanding ?? 0),
+			tripletexInvoice.amountOutstanding ?? 0,
+		);
+		summary.tripletexOpenBalance += tripletexOutstanding;
+
+		const expectedOutstanding = invoice.balance - droppedAmount;
+		if (differs(expectedOutstanding, tripletexOutstanding)) {
+			issues.push({
+				kind: "balance_mismatch",
+				rubicInvoiceId: invoice.invoiceID,
+				rubicInvoiceNumber: invoice.invoiceNumber,
+				tripletexInvoiceId: mapping.tripletexInvoiceId,
+				rubicAmount: roundAmount(expectedOutstanding),
+				tripletexAmount: roundAmount(tripletexOutstanding),
+				message: "Open balance differs",
+			});
+		}
+	}
+
+	// Tripletex invoices of the period whose Rubic invoice is gone
+	for (const mapping of input.invoiceMappings) {
+		if (rubicInvoiceIds.has(mapping.rubicInvoiceId)) continue;
+		const tripletexInvoice = tripletexById.get(mapping.tripletexInvoiceId);
+		if (!tripletexInvoice) continue;
+		issues.push({
+			kind: "orphan_mapping",
+			rubicInvoiceId: mapping.rubicInvoiceId,
+			rubicInvoiceNumber: mapping.rubicInvoiceNumber,
+			tripletexInvoiceId: mapping.tripletexInvoiceId,
+			tripletexAmount: tripletexInvoice.amount,
+			message: `Rubic invoice ${mapping.rubicInvoiceNumber} was not found for the period`,
+		});
+	}
+
+	// Oldest first, so the legacy payment covers the earliest unrecorded transactions
+	const transactions = input.rubicTransactions
+		.filter((t) => inPeriod(t.paymentDate, input))
+		.sort((a, b) => a.paymentDate.localeCompare(b.paymentDate));
+	const legacyRemaining = new Map(input.legacyPaidAmounts);
+	for (const transaction of transactions) {
+		summary.rubicPayments++;
+		summary.rubicPaymentTotal += transaction.paidAmount;
+
+		if (input.registeredTransactionIds.has(transaction.invoiceTransactionID)) {
+			summary.registeredPayments++;
+			summary.registeredPaymentTotal += transaction.paidAmount;
+			continue;
+		}
+
+		const mapping = mappingsByRubicId.get(transaction.invoiceID);
+		// Covered by what the old single-payment flow registered, as payment sync would record it
+		const legacyPaid = legacyRemaining.get(transaction.invoiceID) ?? 0;
+		if (mapping?.paymentSynced && transaction.paidAmount <= legacyPaid + AMOUNT_TOLERANCE) {
+			legacyRemaining.set(transaction.invoiceID, legacyPaid - transaction.paidAmount);
+			continue;
+		}
+
+		issues.push({
+			kind: "missing_payment",
+			rubicInvoiceId: transaction.invoiceID,
+			rubicInvoiceNumber: transaction.invoiceNumber,
+			rubicTransactionId: transaction.invoiceTransactionID,
+			tripletexInvoiceId: mapping?.tripletexInvoiceId,
+			rubicAmount: transaction.paidAmount,
+			message: mapping
+				? `Payment of ${transaction.paymentDate.slice(0, 10)} is not registered in Tripletex`
+				: `Payment of ${transaction.paymentDate.slice(0, 10)} is on an invoice not in Tripletex`,
+		});
+	}
+
+	for (const key of Object.keys(summary) as (keyof ReconciliationSummary)[]) {
+		summary[key] = roundAmount(summary[key]);
+	}
+	return { summary, issues };
+}
+
+const CSV_COLUMNS: { header: string; value: (issue: ReconciliationIssue) => unknown }[] = [
+	{ header: "Kind", value: (i) => i.kind },
+	{ header: "Rubic invoice number", value: (i) => i.rubicInvoiceNumber },
+	{ header: "Rubic invoice ID", value: (i) => i.rubicInvoiceId },
+	{ header: "Rubic transaction ID", value: (i) => i.rubicTransactionId },
+	{ header: "Tripletex invoice ID", value: (i) => i.tripletexInvoiceId },
+	{ header: "Rubic amount", value: (i) => i.rubicAmount?.toFixed(2) },
+	{ header: "Tripletex amount", value: (i) => i.tripletexAmount?.toFixed(2) },
+	{ header: "Message", value: (i) => i.message },
+];
+
+function csvField(value: unknown): string {
+	if (value === undefined || value === null) return "";
+	const text = String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Render reconciliation issues as CSV (RFC 4180, CRLF line endings). */
+export function reconciliationIssuesToCsv(issues: ReconciliationIssue[]): string {
+	const rows = [
+		CSV_COLUMNS.map((c) => csvField(c.header)).join(","),
+		...issues.map((issue) => CSV_COLUMNS.map((c) => csvField(c.value(issue))).join(",")),
+	];
+	return `${rows.join("\r\n")}\r\n`;
+}
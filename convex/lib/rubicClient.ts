@@ -2,6 +2,7 @@
  * Rubic External API client for use in Convex actions.
  * Mirrors src/clients/rubic.ts but is self-contained within the convex/ directory.
  */
+import { HttpClient } from "./http";
 
 export interface RubicClientConfig {
 	baseUrl: string;
@@ -35,6 +36,21 @@ export interface RubicProduct {
 	price: number;
 }
 
+export interface RubicProductTaxCode {
+	taxCodeID: number;
+	taxCode1: string | null;
+	taxCodeName: string | null;
+	taxPercent: number;
+}
+
+export interface RubicProductGroup {
+	productGroupID: number;
+	productGroupName: string | null;
+	taxCodeID: number;
+	taxCode: RubicProductTaxCode | null;
+	active: boolean;
+}
+
 export interface RubicInvoiceLine {
 	invoiceLineID: number;
 	productID: number;
@@ -69,6 +85,9 @@ export interface RubicInvoice {
 	grossTotal: number;
 	balance: number;
 	paidAmount: number;
+	creditedAmount: number;
+	correctedAmount: number;
+	creditNoteAmount: number;
 	totalAmount: number;
 	invoiceLines: RubicInvoiceLine[] | null;
 }
@@ -78,6 +97,9 @@ export interface RubicInvoiceTransaction {
 	invoiceID: number;
 	invoiceNumber: number;
 	paymentDate: string;
+	expectedPayoutDate: string | null;
+	transactionTypeID: number;
+	transactionTypeName: string | null;
 	paidAmount: number;
 	paymentFee: number;
 	vatPaymentFee: number;
@@ -91,15 +113,70 @@ export interface RubicDepartment {
 	organizationID: number | null;
 }
 
+export interface RubicMember {
+	id: number;
+	personID: number;
+	firstName: string | null;
+	lastName: string | null;
+	fullName: string | null;
+	email: string | null;
+	alternateEmail: string | null;
+	countryCode: string | null;
+	mobile: string | null;
+	address: string | null;
+	address2: string | null;
+	zipCode: string | null;
+	city: string | null;
+	countryName: string | null;
+	memberNo: number;
+	ledgerCustomerNo: string | null;
+	memberStatus: 0 | 1 | 2;
+	created: string;
+	modified: string | null;
+}
+
+export interface RubicCompanyMember {
+	companyID: number;
+	companyName: string | null;
+	registrationAuthorityOrganizationNumber: string | null;
+	email: string | null;
+	alternateEmail: string | null;
+	countryCode: string | null;
+	mobile: string | null;
+	address: string | null;
+	address2: string | null;
+	zipCode: string | null;
+	city: string | null;
+	countryName: string | null;
+	memberNo: number;
+	ledgerCustomerNo: string | null;
+	memberStatus: 0 | 1 | 2;
+	created: string;
+	modified: string | null;
+}
+
+/** A non-2xx response from the Rubic API. */
+export class RubicApiError extends Error {
+	constructor(
+		readonly status: number,
+		statusText: string,
+	) {
+		super(`Rubic API error: ${status} ${statusText}`);
+		this.name = "RubicApiError";
+	}
+}
+
 export class RubicClient {
 	private baseUrl: string;
 	private apiKey: string;
 	private organizationId: number;
+	private http: HttpClient;
 
 	constructor(config: RubicClientConfig) {
 		this.baseUrl = config.baseUrl.replace(/\/$/, "");
 		this.apiKey = config.apiKey;
 		this.organizationId = config.organizationId;
+		this.http = new HttpClient({ name: "Rubic" });
 	}
 
 	private async request<T>(path: string, params?: Record<string, string>): Promise<T> {
@@ -110,7 +187,7 @@ export class RubicClient {
 			}
 		}
 
-		const response = await fetch(url.toString(), {
+		const response = await this.http.request(url.toString(), {
 			method: "GET",
 			headers: {
 				Authorization: `Bearer ${this.apiKey}`,
@@ -119,12 +196,21 @@ export class RubicClient {
 		});
 
 		if (!response.ok) {
-			throw new Error(`Rubic API error: ${response.status} ${response.statusText}`);
+			throw new RubicApiError(response.status, response.statusText);
 		}
 
 		return response.json() as Promise<T>;
 	}
 
+	private async requestOrNull<T>(path: string): Promise<T | null> {
+		try {
+			return await this.request<T>(path);
+		} catch (error) {
+			if (error instanceof RubicApiError && error.status === 404) return null;
+			throw error;
+		}
+	}
+
 	private async fetchAllPages<T>(path: string, pageSize = 1000): Promise<T[]> {
 		const allItems: T[] = [];
 		let pageNo = 1;
@@ -151,56 +237,114 @@ export class RubicClient {
 		return this.fetchAllPages<RubicProduct>(`/accounting/${this.organizationId}/products`);
 	}
 
+	async getProductGroups(): Promise<RubicProductGroup[]> {
+		return this.fetchAllPages<RubicProductGroup>(
+			`/accounting/${this.organizationId}/productgroups`,
+		);
+	}
+
 	async getDepartments(): Promise<RubicDepartment[]> {
 		return this.fetchAllPages<RubicDepartment>(`/accounting/${this.organizationId}/departments`);
 	}
 
+	async getPersonMembers(): Promise<RubicMember[]> {
+		return this.fetchAllPages<RubicMember>(`/members/${this.organizationId}/persons`);
+	}
+
+	async getCompanyMembers(): Promise<RubicCompanyMember[]> {
+		return this.fetchAllPages<RubicCompanyMember>(`/members/${this.organizationId}/companies`);
+	}
+
+	/**
+	 * Fetch a single page of records in a date period.
+	 * Used by chunked syncs that checkpoint between pages.
+	 */
+	private async fetchPeriodPage<T>(
+		path: string,
+		page: { pageNo: number; pageSize: number },
+		startPeriod?: Date,
+		endPeriod?: Date,
+	): Promise<T[]> {
+		const params: Record<string, string> = {
+			pageNo: page.pageNo.toString(),
+			pageSize: page.pageSize.toString(),
+		};
+		if (startPeriod) params.startPeriod = startPeriod.toISOString();
+		if (endPeriod) params.endPeriod = endPeriod.toISOString();
+
+		return this.request<T[]>(path, params);
+	}
+
 	async getInvoices(startPeriod?: Date, endPeriod?: Date): Promise<RubicInvoice[]> {
-		const path = `/accounting/${this.organizationId}/invoices`;
 		const allItems: RubicInvoice[] = [];
-		let pageNo = 1;
 		const pageSize = 1000;
 
-		while (true) {
-			const params: Record<string, string> = {
-				pageNo: pageNo.toString(),
-				pageSize: pageSize.toString(),
-			};
-			if (startPeriod) params.startPeriod = startPeriod.toISOString();
-			if (endPeriod) params.endPeriod = endPeriod.toISOString();
-
-			const items = await this.request<RubicInvoice[]>(path, params);
+		for (let pageNo = 1; ; pageNo++) {
+			const items = await this.getInvoicesPage({ pageNo, pageSize }, startPeriod, endPeriod);
 			allItems.push(...items);
 			if (items.length < pageSize) break;
-			pageNo++;
 		}
 
 		return allItems;
 	}
 
+	/** Fetch one invoice by id; null when Rubic no longer has it. */
+	async getInvoice(invoiceId: number): Promise<RubicInvoice | null> {
+		return this.requestOrNull<RubicInvoice>(
+			`/accounting/${this.organizationId}/invoices/${invoiceId}`,
+		);
+	}
+
+	async getInvoicesPage(
+		page: { pageNo: number; pageSize: number },
+		startPeriod?: Date,
+		endPeriod?: Date,
+	): Promise<RubicInvoice[]> {
+		return this.fetchPeriodPage<RubicInvoice>(
+			`/accounting/${this.organizationId}/invoices`,
+			page,
+			startPeriod,
+			endPeriod,
+		);
+	}
+
 	async getInvoiceTransactions(
 		startPeriod?: Date,
 		endPeriod?: Date,
 	): Promise<RubicInvoiceTransaction[]> {
-		const path = `/accounting/${this.organizationId}/invoices/transactions`;
 		const allItems: RubicInvoiceTransaction[] = [];
-		let pageNo = 1;
 		const pageSize = 1000;
 
-		while (true) {
-			const params: Record<string, string> = {
-				pageNo: pageNo.toString(),
-				pageSize: pageSize.toString(),
-			};
-			if (startPeriod) params.startPeriod = startPeriod.toISOString();
-			if (endPeriod) params.endPeriod = endPeriod.toISOString();
-
-			const items = await this.request<RubicInvoiceTransaction[]>(path, params);
+		for (let pageNo = 1; ; pageNo++) {
+			const items = await this.getInvoiceTransactionsPage(
+				{ pageNo, pageSize },
+				startPeriod,
+				endPeriod,
+			);
 			allItems.push(...items);
 			if (items.length < pageSize) break;
-			pageNo++;
 		}
 
 		return allItems;
 	}
+
+	/** Fetch one invoice transaction by id; null when Rubic no longer has it. */
+	async getInvoiceTransaction(transactionId: number): Promise<RubicInvoiceTransaction | null> {
+		return this.requestOrNull<RubicInvoiceTransaction>(
+			`/accounting/${this.organizationId}/invoices/transactions/${transactionId}`,
+		);
+	}
+
+	async getInvoiceTransactionsPage(
+		page: { pageNo: number; pageSize: number },
+		startPeriod?: Date,
+		endPeriod?: Date,
+	): Promise<RubicInvoiceTransaction[]> {
+		return this.fetchPeriodPage<RubicInvoiceTransaction>(
+			`/accounting/${this.organizationId}/invoices/transactions`,
+			page,
+			startPeriod,
+			endPeriod,
+		);
+	}
 }
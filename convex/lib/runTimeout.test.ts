@@ -0,0 +1,55 @@
+import { describe, expect, test } from "bun:test";
+import {
+	acceptsRunUpdates,
+	DEFAULT_SYNC_RUN_TIMEOUT_MS,
+	getSyncRunTimeoutMs,
+	isRunTimedOut,
+} from "./runTimeout";
+
+const MINUTE = 60 * 1000;
+
+describe("getSyncRunTimeoutMs", () => {
+	test("uses the default when the setting is missing or invalid", () => {
+		expect(getSyncRunTimeoutMs(undefined)).toBe(DEFAULT_SYNC_RUN_TIMEOUT_MS);
+		expect(getSyncRunTimeoutMs("")).toBe(DEFAULT_SYNC_RUN_TIMEOUT_MS);
+		expect(getSyncRunTimeoutMs("soon")).toBe(DEFAULT_SYNC_RUN_TIMEOUT_MS);
+		expect(getSyncRunTimeoutMs("-5")).toBe(DEFAULT_SYNC_RUN_TIMEOUT_MS);
+	});
+
+	test("converts minutes to milliseconds", () => {
+		expect(getSyncRunTimeoutMs("30")).toBe(30 * MINUTE);
+	});
+});
+
+describe("isRunTimedOut", () => {
+	const now = Date.parse("2025-06-02T12:00:00Z");
+
+	test("measures from the last heartbeat when there is one", () => {
+		const run = { startedAt: now - 60 * MINUTE, lastHeartbeatAt: now - 2 * MINUTE };
+
+		expect(isRunTimedOut(run, now, 15 * MINUTE)).toBe(false);
+	});
+
+	test("falls back to the start time for runs without a heartbeat", () => {
+		expect(isRunTimedOut({ startedAt: now - 20 * MINUTE }, now, 15 * MINUTE)).toBe(true);
+		expect(isRunTimedOut({ startedAt: now - 5 * MINUTE }, now, 15 * MINUTE)).toBe(false);
+	});
+
+	test("times out runs whose heartbeat went silent", () => {
+		const run = { startedAt: now - 30 * MINUTE, lastHeartbeatAt: now - 16 * MINUTE };
+
+		expect(isRunTimedOut(run, now, 15 * MINUTE)).toBe(true);
+	});
+});
+
+describe("acceptsRunUpdates", () => {
+	test("takes updates while the run is running", () => {
+		expect(acceptsRunUpdates({ status: "running" })).toBe(true);
+	});
+
+	test("ignores a late completion once the janitor timed the run out", () => {
+		expect(acceptsRunUpdates({ status: "timed_out" })).toBe(false);
+		expect(acceptsRunUpdates({ status: "success" })).toBe(false);
+		expect(acceptsRunUpdates(null)).toBe(false);
+	});
+});
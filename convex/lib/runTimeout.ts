@@ -0,0 +1,47 @@
+/**
+ * Liveness rules for `syncState` runs.
+ *
+ * Sync actions update `lastHeartbeatAt` while they work. A run that is still
+ * `running` but has not sent a heartbeat (or, for older rows, started) within
+ * the timeout is treated as dead and marked `timed_out` by the janitor.
+ */
+
+/** How often a running sync writes its heartbeat. */
+export const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Default timeout. Convex actions are killed after 10 minutes, so a run that
+ * has been silent for longer than this can no longer be alive.
+ */
+export const DEFAULT_SYNC_RUN_TIMEOUT_MS = 15 * 60 * 1000;
+
+/**
+ * Resolve the timeout from the `SYNC_RUN_TIMEOUT_MINUTES` setting.
+ * Falls back to the default when unset or not a positive number.
+ */
+export function getSyncRunTimeoutMs(minutesSetting: string | undefined): number {
+	if (!minutesSetting) return DEFAULT_SYNC_RUN_TIMEOUT_MS;
+
+	const minutes = Number(minutesSetting);
+	if (!Number.isFinite(minutes) || minutes <= 0) return DEFAULT_SYNC_RUN_TIMEOUT_MS;
+	return minutes * 60 * 1000;
+}
+
+/** Check whether a running sync has gone silent for longer than the timeout. */
+export function isRunTimedOut(
+	run: { startedAt: number; lastHeartbeatAt?: number },
+	now: number,
+	timeoutMs: number,
+): boolean {
+	const lastSignOfLife = run.lastHeartbeatAt ?? run.startedAt;
+	return now - lastSignOfLife > timeoutMs;
+}
+
+/**
+ * Check whether a run still takes progress and results from its action. Once
+ * the janitor has marked it `timed_out` (or it finished), late writes from the
+ * action are ignored so they cannot overwrite the outcome.
+ */
+export function acceptsRunUpdates<T extends { status: string }>(run: T | null): run is T {
+	return run?.status === "running";
+}
@@ -0,0 +1,31 @@
+import { describe, expect, test } from "bun:test";
+import { planStaleRepair } from "./staleMappings";
+
+describe("planStaleRepair", () => {
+	test("relinks the record with the same number by default", () => {
+		expect(planStaleRepair(undefined, "customer", 10, { id: 20 })).toEqual({
+			action: "relink",
+			tripletexId: 20,
+			message: "Tripletex customer 10 is gone; linked to customer 20 with the same number",
+		});
+	});
+
+	test("flags the mapping when relinking finds nothing", () => {
+		expect(planStaleRepair("relink", "product", 10, null)).toEqual({
+			action: "flag",
+			message: "Tripletex product 10 is gone and no product has the same number",
+		});
+	});
+
+	test("recreates only when nothing can be relinked", () => {
+		expect(planStaleRepair("recreate", "product", 10, { id: 20 }).action).toBe("relink");
+		expect(planStaleRepair("recreate", "product", 10, {}).action).toBe("recreate");
+	});
+
+	test("only flags under the flag policy", () => {
+		expect(planStaleRepair("flag", "customer", 10, { id: 20 })).toEqual({
+			action: "flag",
+			message: "Tripletex customer 10 is gone; the mapping is flagged for review",
+		});
+	});
+});
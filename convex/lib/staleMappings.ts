@@ -0,0 +1,46 @@
+/**
+ * Repair of mappings whose Tripletex record was deleted or merged away.
+ *
+ * Tripletex answers 404 (or 410) for a record that no longer exists. Sync then
+ * marks the mapping stale and, for customers and products, repairs it by the
+ * org's policy: link the record that now carries the same number, create a new
+ * one when there is none (`recreate` only), or leave the mapping flagged for
+ * someone to look at. Invoices are booked documents and are only ever flagged.
+ */
+import type { StaleMappingPolicy } from "../validators";
+
+export const DEFAULT_STALE_MAPPING_POLICY: StaleMappingPolicy = "relink";
+
+export type StaleRepair =
+	| { action: "relink"; tripletexId: number; message: string }
+	| { action: "recreate"; message: string }
+	| { action: "flag"; message: string };
+
+/**
+ * Decide how to repair a stale mapping. `match` is the Tripletex record found
+ * by the entity's number, if any.
+ */
+export function planStaleRepair(
+	policy: StaleMappingPolicy | undefined,
+	entity: "customer" | "product",
+	staleId: number,
+	match: { id?: number } | null,
+): StaleRepair {
+	const gone = `Tripletex ${entity} ${staleId} is gone`;
+	const effective = policy ?? DEFAULT_STALE_MAPPING_POLICY;
+
+	if (effective === "flag") {
+		return { action: "flag", message: `${gone}; the mapping is flagged for review` };
+	}
+	if (match?.id !== undefined) {
+		return {
+			action: "relink",
+			tripletexId: match.id,
+			message: `${gone}; linked to ${entity} ${match.id} with the same number`,
+		};
+	}
+	if (effective === "recreate") {
+		return { action: "recreate", message: `${gone}; a new ${entity} is created` };
+	}
+	return { action: "flag", message: `${gone} and no ${entity} has the same number` };
+}
@@ -0,0 +1,20 @@
+import { describe, expect, test } from "bun:test";
+import { itemsAfterCursor } from "./syncCursor";
+
+const page = [{ id: 10 }, { id: 11 }, { id: 12 }];
+const getId = (item: { id: number }) => item.id;
+
+describe("itemsAfterCursor", () => {
+	test("returns the whole page for a page-level cursor", () => {
+		expect(itemsAfterCursor(page, { pageNo: 3 }, getId)).toEqual(page);
+	});
+
+	test("returns the records after the last handled one", () => {
+		expect(itemsAfterCursor(page, { pageNo: 3, lastRubicId: 11 }, getId)).toEqual([{ id: 12 }]);
+		expect(itemsAfterCursor(page, { pageNo: 3, lastRubicId: 12 }, getId)).toEqual([]);
+	});
+
+	test("re-reads the page when the last handled record is not on it", () => {
+		expect(itemsAfterCursor(page, { pageNo: 3, lastRubicId: 99 }, getId)).toEqual(page);
+	});
+});
@@ -0,0 +1,22 @@
+/**
+ * Cursor helpers for chunked syncs that page through Rubic and checkpoint
+ * their position on the `syncState` run.
+ */
+import type { SyncCursor } from "../validators";
+
+/**
+ * Return the records of a page that come after the cursor's last handled record.
+ * If the cursor has no last record, or it is no longer on the page (the page
+ * shifted since the checkpoint), the whole page is returned; already-mapped
+ * records are skipped by the sync itself, so re-reading is safe.
+ */
+export function itemsAfterCursor<T>(
+	items: T[],
+	cursor: SyncCursor,
+	getId: (item: T) => number,
+): T[] {
+	if (cursor.lastRubicId === undefined) return items;
+
+	const index = items.findIndex((item) => getId(item) === cursor.lastRubicId);
+	return index === -1 ? items : items.slice(index + 1);
+}
@@ -0,0 +1,61 @@
+import { describe, expect, test } from "bun:test";
+import { categorizeSyncError, isCredentialRejection, sanitizeSyncErrorMessage } from "./syncErrors";
+
+describe("categorizeSyncError", () => {
+	test("classifies errors from the API clients", () => {
+		expect(categorizeSyncError(new Error("Tripletex API error: 422 Unprocessable Entity"))).toBe(
+			"tripletex_api",
+		);
+		expect(categorizeSyncError(new Error("Rubic API error: 500 Internal Server Error"))).toBe(
+			"rubic_api",
+		);
+	});
+
+	test("falls back to internal for anything else", () => {
+		expect(categorizeSyncError(new Error("Failed to create order: no ID returned"))).toBe(
+			"internal",
+		);
+		expect(categorizeSyncError("boom")).toBe("internal");
+	});
+});
+
+describe("sanitizeSyncErrorMessage", () => {
+	test("keeps short client messages intact", () => {
+		expect(sanitizeSyncErrorMessage(new Error("Tripletex API error: 404 Not Found"))).toBe(
+			"Tripletex API error: 404 Not Found",
+		);
+	});
+
+	test("masks e-mail addresses and long opaque tokens", () => {
+		const message = sanitizeSyncErrorMessage(
+			"Invalid token eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9abcdef for ola@example.com",
+		);
+
+		expect(message).toBe("Invalid token [redacted] for [email]");
+	});
+
+	test("collapses whitespace and truncates long messages", () => {
+		const message = sanitizeSyncErrorMessage(`line one\n\n  line two ${"x ".repeat(400)}`);
+
+		expect(message.startsWith("line one line two")).toBe(true);
+		expect(message.length).toBeLessThanOrEqual(300);
+		expect(message.endsWith("…")).toBe(true);
+	});
+});
+
+describe("isCredentialRejection", () => {
+	test("recognizes 401 and 403 from either provider", () => {
+		expect(isCredentialRejection(new Error("Tripletex API error: 401 Unauthorized"))).toBe(true);
+		expect(isCredentialRejection(new Error("Rubic API error: 403 Forbidden"))).toBe(true);
+		expect(isCredentialRejection(new Error("Tripletex session creation failed: 401"))).toBe(true);
+	});
+
+	test("ignores outages, rate limits and network errors", () => {
+		expect(isCredentialRejection(new Error("Tripletex API error: 503 Service Unavailable"))).toBe(
+			false,
+		);
+		expect(isCredentialRejection(new Error("Rubic API error: 429 Too Many Requests"))).toBe(false);
+		expect(isCredentialRejection(new Error("Tripletex session creation failed: 500"))).toBe(false);
+		expect(isCredentialRejection(new TypeError("fetch failed"))).toBe(false);
+	});
+});
@@ -0,0 +1,47 @@
+/**
+ * Helpers for turning per-record sync failures into rows that are safe to
+ * store in `syncErrors` and show in the UI.
+ */
+import type { SyncErrorCategory } from "../validators";
+
+/** Maximum length of a stored error message. */
+const MAX_MESSAGE_LENGTH = 300;
+
+/**
+ * Classify an error thrown while syncing a single record.
+ * Relies on the message prefixes produced by our own Rubic/Tripletex clients.
+ */
+export function categorizeSyncError(error: unknown): SyncErrorCategory {
+	const message = error instanceof Error ? error.message : String(error);
+
+	if (message.startsWith("Tripletex")) return "tripletex_api";
+	if (message.startsWith("Rubic")) return "rubic_api";
+	return "internal";
+}
+
+/**
+ * Produce a message that is safe to persist and display.
+ * Long opaque strings (tokens, keys, hashes) are redacted, e-mail addresses are
+ * masked, and the result is truncated to a fixed length.
+ */
+export function sanitizeSyncErrorMessage(error: unknown): string {
+	const raw = error instanceof Error ? error.message : String(error);
+
+	const sanitized = raw
+		.replace(/[\w.+-]+@[\w-]+\.[\w.-]+/g, "[email]")
+		.replace(/[A-Za-z0-9+/_=-]{32,}/g, "[redacted]")
+		.replace(/\s+/g, " ")
+		.trim();
+
+	if (sanitized.length <= MAX_MESSAGE_LENGTH) return sanitized;
+	return `${sanitized.slice(0, MAX_MESSAGE_LENGTH - 1)}…`;
+}
+
+/**
+ * Whether a provider refused the credentials themselves (HTTP 401/403), as
+ * opposed to being unreachable, rate limited or failing on its side.
+ */
+export function isCredentialRejection(error: unknown): boolean {
+	const message = error instanceof Error ? error.message : String(error);
+	return /(?:API error|session creation failed): 40[13]\b/.test(message);
+}
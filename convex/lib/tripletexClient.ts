@@ -2,28 +2,44 @@
  * Tripletex API client for use in Convex actions.
  * Mirrors src/clients/tripletex.ts but is self-contained within the convex/ directory.
  */
+import { HttpClient, TRIPLETEX_RATE_LIMIT_HEADERS } from "./http";
 
 export interface TripletexClientConfig {
 	baseUrl: string;
 	consumerToken: string;
 	employeeToken: string;
+	/** Called once when Tripletex rejects the tokens (HTTP 401). */
+	onUnauthorized?: () => Promise<void>;
 }
 
 export interface TripletexCustomer {
 	id?: number;
 	version?: number;
 	name: string;
+	organizationNumber?: string;
 	customerNumber?: number;
 	isCustomer?: boolean;
+	isPrivateIndividual?: boolean;
 	email?: string;
 	invoiceEmail?: string;
 	phoneNumberMobile?: string;
-	postalAddress?: {
-		addressLine1?: string;
-		addressLine2?: string;
-		postalCode?: string;
-		city?: string;
-	};
+	postalAddress?: TripletexAddress;
+	physicalAddress?: TripletexAddress;
+}
+
+export interface TripletexAddress {
+	addressLine1?: string;
+	addressLine2?: string;
+	postalCode?: string;
+	city?: string;
+	country?: { id: number };
+}
+
+export interface TripletexCountry {
+	id: number;
+	isoAlpha2Code?: string;
+	isoAlpha3Code?: string;
+	name?: string;
 }
 
 export interface TripletexProduct {
@@ -34,6 +50,8 @@ export interface TripletexProduct {
 	description?: string;
 	priceExcludingVatCurrency?: number;
 	isInactive?: boolean;
+	vatType?: { id: number };
+	department?: { id: number };
 }
 
 export interface TripletexOrder {
@@ -42,6 +60,7 @@ export interface TripletexOrder {
 	deliveryDate: string;
 	orderDate?: string;
 	orderLines?: TripletexOrderLine[];
+	department?: { id: number };
 }
 
 export interface TripletexOrderLine {
@@ -50,17 +69,78 @@ export interface TripletexOrderLine {
 	count?: number;
 	unitPriceExcludingVatCurrency?: number;
 	discount?: number;
+	vatType?: { id: number };
+}
+
+export interface TripletexVatType {
+	id: number;
+	number?: string;
+	name?: string;
+	percentage?: number;
 }
 
 export interface TripletexInvoice {
 	id?: number;
 	version?: number;
 	invoiceNumber?: number;
+	invoiceDate?: string;
+	/** Gross amount in NOK. */
+	amount?: number;
+	amountOutstanding?: number;
+	isCreditNote?: boolean;
+	/** Id of the credited invoice, on a credit note. */
+	creditedInvoice?: number;
+	orders?: { id: number }[];
 }
 
-export interface TripletexPayment {
-	amount: number;
+/** Query params of `PUT /invoice/{id}/:payment`; the endpoint takes no body. */
+export interface TripletexPaymentRegistration {
 	paymentDate: string;
+	paymentTypeId: number;
+	paidAmount: number;
+}
+
+export interface TripletexPaymentType {
+	id: number;
+	description?: string;
+}
+
+export interface TripletexAccount {
+	id: number;
+	number: number;
+	name?: string;
+}
+
+export interface TripletexPosting {
+	row: number;
+	date: string;
+	description?: string;
+	account: { id: number };
+	amountGross: number;
+	amountGrossCurrency: number;
+}
+
+export interface TripletexVoucher {
+	id?: number;
+	date: string;
+	description: string;
+	postings: TripletexPosting[];
+}
+
+/** A non-2xx response from the Tripletex API. */
+export class TripletexApiError extends Error {
+	constructor(
+		readonly status: number,
+		statusText: string,
+	) {
+		super(`Tripletex API error: ${status} ${statusText}`);
+		this.name = "TripletexApiError";
+	}
+}
+
+/** Whether Tripletex reported the requested record as deleted or unknown (404/410). */
+export function isTripletexRecordGone(error: unknown): boolean {
+	return error instanceof TripletexApiError && (error.status === 404 || error.status === 410);
 }
 
 interface SingleResponse<T> {
@@ -80,11 +160,15 @@ export class TripletexClient {
 	private employeeToken: string;
 	private sessionToken: string | null = null;
 	private sessionExpiresAt: Date | null = null;
+	private http: HttpClient;
+	private onUnauthorized?: () => Promise<void>;
 
 	constructor(config: TripletexClientConfig) {
 		this.baseUrl = config.baseUrl.replace(/\/$/, "");
 		this.consumerToken = config.consumerToken;
 		this.employeeToken = config.employeeToken;
+		this.onUnauthorized = config.onUnauthorized;
+		this.http = new HttpClient({ name: "Tripletex", rateLimit: TRIPLETEX_RATE_LIMIT_HEADERS });
 	}
 
 	private async ensureSession(): Promise<string> {
@@ -101,12 +185,15 @@ export class TripletexClient {
 		url.searchParams.set("employeeToken", this.employeeToken);
 		url.searchParams.set("expirationDate", expirationStr);
 
-		const response = await fetch(url.toString(), {
+		// Creating a spare session is harmless, so this PUT may be retried
+		const response = await this.http.request(url.toString(), {
 			method: "PUT",
 			headers: { "Content-Type": "application/json" },
+			idempotent: true,
 		});
 
 		if (!response.ok) {
+			await this.reportUnauthorized(response.status);
 			throw new Error(`Tripletex session creation failed: ${response.status}`);
 		}
 
@@ -120,7 +207,7 @@ export class TripletexClient {
 	private async request<T>(
 		method: string,
 		path: string,
-		options?: { params?: Record<string, string>; body?: unknown },
+		options?: { params?: Record<string, string>; body?: unknown; idempotent?: boolean },
 	): Promise<T> {
 		const token = await this.ensureSession();
 
@@ -140,19 +227,44 @@ export class TripletexClient {
 			headers["Content-Type"] = "application/json";
 		}
 
-		const response = await fetch(url.toString(), {
+		const response = await this.http.request(url.toString(), {
 			method,
 			headers,
 			body: options?.body ? JSON.stringify(options.body) : undefined,
+			idempotent: options?.idempotent,
 		});
 
 		if (!response.ok) {
-			throw new Error(`Tripletex API error: ${response.status} ${response.statusText}`);
+			await this.reportUnauthorized(response.status);
+			throw new TripletexApiError(response.status, response.statusText);
 		}
 
 		return response.json() as Promise<T>;
 	}
 
+	/** Page through a list endpoint with `from`/`count`. */
+	private async fetchAll<T>(path: string, params: Record<string, string>): Promise<T[]> {
+		const items: T[] = [];
+		const count = 1000;
+
+		for (let from = 0; ; from += count) {
+			const page = await this.request<ListResponse<T>>("GET", path, {
+				params: { ...params, from: from.toString(), count: count.toString() },
+			});
+			items.push(...page.values);
+			if (page.values.length < count) break;
+		}
+
+		return items;
+	}
+
+	private async reportUnauthorized(status: number): Promise<void> {
+		if (status !== 401 || !this.onUnauthorized) return;
+		const onUnauthorized = this.onUnauthorized;
+		this.onUnauthorized = undefined;
+		await onUnauthorized();
+	}
+
 	// --- Customer ---
 
 	async getCustomerByNumber(customerNumber: number): Promise<TripletexCustomer | null> {
@@ -165,6 +277,15 @@ export class TripletexClient {
 		return result.values[0] ?? null;
 	}
 
+	async getCustomer(id: number): Promise<SingleResponse<TripletexCustomer>> {
+		return this.request<SingleResponse<TripletexCustomer>>("GET", `/customer/${id}`);
+	}
+
+	async listCustomerIds(): Promise<number[]> {
+		const customers = await this.fetchAll<{ id: number }>("/customer", { fields: "id" });
+		return customers.map((c) => c.id);
+	}
+
 	async createCustomer(customer: TripletexCustomer): Promise<SingleResponse<TripletexCustomer>> {
 		return this.request<SingleResponse<TripletexCustomer>>("POST", "/customer", {
 			body: customer,
@@ -180,6 +301,14 @@ export class TripletexClient {
 		});
 	}
 
+	// --- Country ---
+
+	async getCountries(): Promise<ListResponse<TripletexCountry>> {
+		return this.request<ListResponse<TripletexCountry>>("GET", "/country", {
+			params: { fields: "id,isoAlpha2Code,isoAlpha3Code,name", count: "1000" },
+		});
+	}
+
 	// --- Product ---
 
 	async getProductByNumber(productNumber: string): Promise<TripletexProduct | null> {
@@ -189,6 +318,21 @@ export class TripletexClient {
 		return result.values[0] ?? null;
 	}
 
+	async getProduct(id: number): Promise<SingleResponse<TripletexProduct>> {
+		return this.request<SingleResponse<TripletexProduct>>("GET", `/product/${id}`);
+	}
+
+	async listProductIds(): Promise<number[]> {
+		const products = await this.fetchAll<{ id: number }>("/product", { fields: "id" });
+		return products.map((p) => p.id);
+	}
+
+	async listProductNumbers(): Promise<{ id: number; number?: string; name?: string }[]> {
+		return this.fetchAll<{ id: number; number?: string; name?: string }>("/product", {
+			fields: "id,number,name",
+		});
+	}
+
 	async createProduct(product: TripletexProduct): Promise<SingleResponse<TripletexProduct>> {
 		return this.request<SingleResponse<TripletexProduct>>("POST", "/product", {
 			body: product,
@@ -223,14 +367,94 @@ export class TripletexClient {
 		);
 	}
 
+	/** All invoices dated from `invoiceDateFrom` up to, but excluding, `invoiceDateTo`. */
+	async searchInvoices(
+		invoiceDateFrom: string,
+		invoiceDateTo: string,
+	): Promise<TripletexInvoice[]> {
+		return this.fetchAll<TripletexInvoice>("/invoice", {
+			invoiceDateFrom,
+			invoiceDateTo,
+			fields: "id,invoiceNumber,invoiceDate,amount,amountOutstanding,isCreditNote",
+		});
+	}
+
+	/** Invoices of a date range with what links a credit to its origin. */
+	async searchCreditCandidates(
+		invoiceDateFrom: string,
+		invoiceDateTo: string,
+	): Promise<TripletexInvoice[]> {
+		return this.fetchAll<TripletexInvoice>("/invoice", {
+			invoiceDateFrom,
+			invoiceDateTo,
+			fields: "id,amount,isCreditNote,creditedInvoice,orders(id)",
+		});
+	}
+
+	async getInvoice(id: number): Promise<SingleResponse<TripletexInvoice>> {
+		return this.request<SingleResponse<TripletexInvoice>>("GET", `/invoice/${id}`);
+	}
+
+	/** Credit a whole invoice. Returns the credit note (itself an invoice). */
+	async createCreditNote(
+		invoiceId: number,
+		date: string,
+		comment: string,
+	): Promise<SingleResponse<TripletexInvoice>> {
+		// Repeating this PUT would credit the invoice twice
+		return this.request<SingleResponse<TripletexInvoice>>(
+			"PUT",
+			`/invoice/${invoiceId}/:createCreditNote`,
+			{
+				params: { date, comment, sendToCustomer: "false" },
+				idempotent: false,
+			},
+		);
+	}
+
 	// --- Payment ---
 
 	async registerPayment(
 		invoiceId: number,
-		payment: TripletexPayment,
-	): Promise<SingleResponse<TripletexPayment>> {
-		return this.request<SingleResponse<TripletexPayment>>("PUT", `/invoice/${invoiceId}/:payment`, {
-			body: payment,
+		payment: TripletexPaymentRegistration,
+	): Promise<SingleResponse<TripletexInvoice>> {
+		// Repeating this PUT would register the payment twice
+		return this.request<SingleResponse<TripletexInvoice>>("PUT", `/invoice/${invoiceId}/:payment`, {
+			params: {
+				paymentDate: payment.paymentDate,
+				paymentTypeId: payment.paymentTypeId.toString(),
+				paidAmount: payment.paidAmount.toString(),
+			},
+			idempotent: false,
+		});
+	}
+
+	async getPaymentTypes(): Promise<ListResponse<TripletexPaymentType>> {
+		return this.request<ListResponse<TripletexPaymentType>>("GET", "/invoice/paymentType", {
+			params: { fields: "id,description" },
+		});
+	}
+
+	// --- Ledger ---
+
+	async getAccountByNumber(accountNumber: number): Promise<TripletexAccount | null> {
+		const result = await this.request<ListResponse<TripletexAccount>>("GET", "/ledger/account", {
+			params: { number: accountNumber.toString(), fields: "id,number,name" },
+		});
+		return result.values[0] ?? null;
+	}
+
+	async createVoucher(voucher: TripletexVoucher): Promise<SingleResponse<TripletexVoucher>> {
+		return this.request<SingleResponse<TripletexVoucher>>("POST", "/ledger/voucher", {
+			body: voucher,
+		});
+	}
+
+	// --- VAT Types ---
+
+	async getVatTypes(): Promise<ListResponse<TripletexVatType>> {
+		return this.request<ListResponse<TripletexVatType>>("GET", "/ledger/vatType", {
+			params: { count: "1000", fields: "id,number,name,percentage" },
 		});
 	}
 
@@ -0,0 +1,36 @@
+import { describe, expect, test } from "bun:test";
+import { resolveVatTypeId, type VatRule } from "./vatMapping";
+
+describe("resolveVatTypeId", () => {
+	const rules: VatRule[] = [
+		{ rubicTaxCode: "exempt", tripletexVatTypeId: 6 },
+		{ rubicTaxPercent: 25, tripletexVatTypeId: 3 },
+		{ rubicTaxPercent: 0, tripletexVatTypeId: 5 },
+	];
+
+	test("matches tax codes case-insensitively", () => {
+		expect(resolveVatTypeId(rules, { taxCode: " EXEMPT " })).toBe(6);
+	});
+
+	test("prefers a tax code rule over a percentage rule", () => {
+		expect(resolveVatTypeId(rules, { taxCode: "Exempt", taxPercent: 0 })).toBe(6);
+	});
+
+	test("falls back to the percentage when the tax code has no rule", () => {
+		expect(resolveVatTypeId(rules, { taxCode: "HIGH", taxPercent: 25 })).toBe(3);
+	});
+
+	test("tolerates floating point percentages", () => {
+		expect(resolveVatTypeId(rules, { taxPercent: 25.0000001 })).toBe(3);
+	});
+
+	test("matches a zero percentage", () => {
+		expect(resolveVatTypeId(rules, { taxPercent: 0 })).toBe(5);
+	});
+
+	test("returns undefined when nothing matches", () => {
+		expect(resolveVatTypeId(rules, { taxCode: "HIGH", taxPercent: 15 })).toBeUndefined();
+		expect(resolveVatTypeId(rules, {})).toBeUndefined();
+		expect(resolveVatTypeId([], { taxPercent: 25 })).toBeUndefined();
+	});
+});
@@ -0,0 +1,49 @@
+/**
+ * Resolution of Tripletex VAT types from an org's VAT mapping rules.
+ *
+ * A rule maps either a Rubic tax code (from the product group) or a tax
+ * percentage (as charged on an invoice line) to a Tripletex vatType id.
+ * A tax code rule wins over a percentage rule. When nothing matches, the
+ * vatType is left unset and Tripletex falls back to the product default.
+ */
+
+export interface VatRule {
+	rubicTaxCode?: string;
+	rubicTaxPercent?: number;
+	tripletexVatTypeId: number;
+}
+
+export interface VatLookup {
+	taxCode?: string | null;
+	taxPercent?: number | null;
+}
+
+/** Percentages closer than this are treated as equal (Rubic sends floats). */
+const PERCENT_TOLERANCE = 0.001;
+
+function normalizeTaxCode(code: string): string {
+	return code.trim().toUpperCase();
+}
+
+/** Find the Tripletex vatType id for a Rubic tax code and/or percentage. */
+export function resolveVatTypeId(rules: VatRule[], lookup: VatLookup): number | undefined {
+	const taxCode = lookup.taxCode ? normalizeTaxCode(lookup.taxCode) : undefined;
+	if (taxCode) {
+		const byCode = rules.find(
+			(rule) => rule.rubicTaxCode !== undefined && normalizeTaxCode(rule.rubicTaxCode) === taxCode,
+		);
+		if (byCode) return byCode.tripletexVatTypeId;
+	}
+
+	const taxPercent = lookup.taxPercent;
+	if (taxPercent !== undefined && taxPercent !== null) {
+		const byPercent = rules.find(
+			(rule) =>
+				rule.rubicTaxPercent !== undefined &&
+				Math.abs(rule.rubicTaxPercent - taxPercent) < PERCENT_TOLERANCE,
+		);
+		if (byPercent) return byPercent.tripletexVatTypeId;
+	}
+
+	return undefined;
+}
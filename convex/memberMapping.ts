@@ -0,0 +1,86 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery, query } from "./_generated/server";
+import { requireOrgMembership } from "./lib/auth";
+import { rubicMemberType, tripletexEnv } from "./validators";
+
+/** List member mappings for an org and environment (requires membership). */
+export const list = query({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnv,
+		limit: v.optional(v.number()),
+	},
+	handler: async (ctx, args) => {
+		await requireOrgMembership(ctx, args.organizationId);
+
+		const limit = args.limit ?? 100;
+		return await ctx.db
+			.query("memberMapping")
+			.withIndex("by_org_and_env", (q) =>
+				q.eq("organizationId", args.organizationId).eq("tripletexEnv", args.tripletexEnv),
+			)
+			.take(limit);
+	},
+});
+
+/** Get a member mapping by member type and Rubic member number — internal only. */
+export const getByRubicMemberNo = internalQuery({
+	args: {
+		organizationId: v.id("organizations"),
+		memberType: rubicMemberType,
+		rubicMemberNo: v.number(),
+		tripletexEnv: tripletexEnv,
+	},
+	handler: async (ctx, args) => {
+		return await ctx.db
+			.query("memberMapping")
+			.withIndex("by_org_member_env", (q) =>
+				q
+					.eq("organizationId", args.organizationId)
+					.eq("memberType", args.memberType)
+					.eq("rubicMemberNo", args.rubicMemberNo)
+					.eq("tripletexEnv", args.tripletexEnv),
+			)
+			.unique();
+	},
+});
+
+/** Create or update a member mapping — internal only (used by sync). */
+export const upsert = internalMutation({
+	args: {
+		organizationId: v.id("organizations"),
+		memberType: rubicMemberType,
+		rubicMemberNo: v.number(),
+		tripletexEnv: tripletexEnv,
+		tripletexCustomerId: v.number(),
+		ledgerCustomerNo: v.optional(v.string()),
+		hash: v.optional(v.string()),
+	},
+	handler: async (ctx, args) => {
+		const existing = await ctx.db
+			.query("memberMapping")
+			.withIndex("by_org_member_env", (q) =>
+				q
+					.eq("organizationId", args.organizationId)
+					.eq("memberType", args.memberType)
+					.eq("rubicMemberNo", args.rubicMemberNo)
+					.eq("tripletexEnv", args.tripletexEnv),
+			)
+			.unique();
+
+		if (existing) {
+			await ctx.db.patch(existing._id, {
+				tripletexCustomerId: args.tripletexCustomerId,
+				ledgerCustomerNo: args.ledgerCustomerNo,
+				hash: args.hash,
+				lastSyncedAt: Date.now(),
+			});
+			return existing._id;
+		}
+
+		return await ctx.db.insert("memberMapping", {
+			...args,
+			lastSyncedAt: Date.now(),
+		});
+	},
+});
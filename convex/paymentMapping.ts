@@ -0,0 +1,133 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery, query } from "./_generated/server";
+import { requireOrgMembership } from "./lib/auth";
+import { tripletexEnv } from "./validators";
+
+/** List registered payments for an org and environment, newest first (requires membership). */
+export const list = query({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnv,
+		limit: v.optional(v.number()),
+	},
+	handler: async (ctx, args) => {
+		await requireOrgMembership(ctx, args.organizationId);
+
+		const limit = args.limit ?? 100;
+		return await ctx.db
+			.query("paymentMapping")
+			.withIndex("by_org_and_env", (q) =>
+				q.eq("organizationId", args.organizationId).eq("tripletexEnv", args.tripletexEnv),
+			)
+			.order("desc")
+			.take(limit);
+	},
+});
+
+/**
+ * Ids of the given Rubic invoice transactions that have a registered payment —
+ * internal only. Each id is an index lookup, so callers pass a bounded batch.
+ */
+export const listRegisteredIdsInternal = internalQuery({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnv,
+		rubicTransactionIds: v.array(v.number()),
+	},
+	handler: async (ctx, args) => {
+		const registered: number[] = [];
+		for (const rubicTransactionId of args.rubicTransactionIds) {
+			const payment = await ctx.db
+				.query("paymentMapping")
+				.withIndex("by_org_rubic_env", (q) =>
+					q
+						.eq("organizationId", args.organizationId)
+						.eq("rubicTransactionId", rubicTransactionId)
+						.eq("tripletexEnv", args.tripletexEnv),
+				)
+				.unique();
+			if (payment) registered.push(rubicTransactionId);
+		}
+		return registered;
+	},
+});
+
+/** Payments registered for one Rubic invoice — internal only (used by payment sync). */
+export const listByInvoiceInternal = internalQuery({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnv,
+		rubicInvoiceId: v.number(),
+	},
+	handler: async (ctx, args) => {
+		return await ctx.db
+			.query("paymentMapping")
+			.withIndex("by_org_env_invoice", (q) =>
+				q
+					.eq("organizationId", args.organizationId)
+					.eq("tripletexEnv", args.tripletexEnv)
+					.eq("rubicInvoiceId", args.rubicInvoiceId),
+			)
+			.collect();
+	},
+});
+
+/** Get the payment registered for a Rubic invoice transaction — internal only. */
+export const getByRubicTransactionId = internalQuery({
+	args: {
+		organizationId: v.id("organizations"),
+		rubicTransactionId: v.number(),
+		tripletexEnv: tripletexEnv,
+	},
+	handler: async (ctx, args) => {
+		return await ctx.db
+			.query("paymentMapping")
+			.withIndex("by_org_rubic_env", (q) =>
+				q
+					.eq("organizationId", args.organizationId)
+					.eq("rubicTransactionId", args.rubicTransactionId)
+					.eq("tripletexEnv", args.tripletexEnv),
+			)
+			.unique();
+	},
+});
+
+/** Record a payment registered in Tripletex — internal only (used by sync). */
+export const record = internalMutation({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnv,
+		rubicTransactionId: v.number(),
+		rubicInvoiceId: v.number(),
+		tripletexInvoiceId: v.number(),
+		amount: v.number(),
+		paymentDate: v.string(),
+		paymentTypeId: v.optional(v.number()),
+		fee: v.optional(v.number()),
+	},
+	handler: async (ctx, args) => {
+		const existing = await ctx.db
+			.query("paymentMapping")
+			.withIndex("by_org_rubic_env", (q) =>
+				q
+					.eq("organizationId", args.organizationId)
+					.eq("rubicTransactionId", args.rubicTransactionId)
+					.eq("tripletexEnv", args.tripletexEnv),
+			)
+			.unique();
+		if (existing) return existing._id;
+
+		return await ctx.db.insert("paymentMapping", { ...args, syncedAt: Date.now() });
+	},
+});
+
+/** Store the Tripletex voucher a payment's fee was posted on — internal only (used by sync). */
+export const setFeeVoucher = internalMutation({
+	args: {
+		paymentMappingId: v.id("paymentMapping"),
+		feeVoucherId: v.number(),
+	},
+	handler: async (ctx, args) => {
+		await ctx.db.patch(args.paymentMappingId, { feeVoucherId: args.feeVoucherId });
+	},
+});
@@ -0,0 +1,100 @@
+import { v } from "convex/values";
+import { internalQuery, mutation, query } from "./_generated/server";
+import { requireOrgMembership, requireOrgOperator } from "./lib/auth";
+import { normalizeTransactionTypeName } from "./lib/paymentTypes";
+import { tripletexEnv } from "./validators";
+
+/** List payment type mappings for an org and environment (requires membership). */
+export const list = query({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnv,
+	},
+	handler: async (ctx, args) => {
+		await requireOrgMembership(ctx, args.organizationId);
+
+		return await ctx.db
+			.query("paymentTypeMapping")
+			.withIndex("by_org_and_env", (q) =>
+				q.eq("organizationId", args.organizationId).eq("tripletexEnv", args.tripletexEnv),
+			)
+			.collect();
+	},
+});
+
+/** List payment type mappings for an org and environment — internal only (used by sync actions). */
+export const listInternal = internalQuery({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnv,
+	},
+	handler: async (ctx, args) => {
+		return await ctx.db
+			.query("paymentTypeMapping")
+			.withIndex("by_org_and_env", (q) =>
+				q.eq("organizationId", args.organizationId).eq("tripletexEnv", args.tripletexEnv),
+			)
+			.collect();
+	},
+});
+
+/**
+ * Create or update a payment type mapping (requires operator).
+ * An existing mapping for the same transaction type name (case-insensitive) is replaced.
+ */
+export const upsert = mutation({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnv,
+		rubicTransactionTypeName: v.string(),
+		tripletexPaymentTypeId: v.number(),
+		tripletexPaymentTypeName: v.string(),
+	},
+	handler: async (ctx, args) => {
+		await requireOrgOperator(ctx, args.organizationId);
+
+		const name = args.rubicTransactionTypeName.trim();
+		if (!name) throw new Error("Rubic transaction type is required");
+
+		const mappings = await ctx.db
+			.query("paymentTypeMapping")
+			.withIndex("by_org_and_env", (q) =>
+				q.eq("organizationId", args.organizationId).eq("tripletexEnv", args.tripletexEnv),
+			)
+			.collect();
+		const existing = mappings.find(
+			(mapping) =>
+				normalizeTransactionTypeName(mapping.rubicTransactionTypeName) ===
+				normalizeTransactionTypeName(name),
+		);
+
+		if (existing) {
+			await ctx.db.patch(existing._id, {
+				rubicTransactionTypeName: name,
+				tripletexPaymentTypeId: args.tripletexPaymentTypeId,
+				tripletexPaymentTypeName: args.tripletexPaymentTypeName,
+			});
+			return existing._id;
+		}
+
+		return await ctx.db.insert("paymentTypeMapping", {
+			organizationId: args.organizationId,
+			tripletexEnv: args.tripletexEnv,
+			rubicTransactionTypeName: name,
+			tripletexPaymentTypeId: args.tripletexPaymentTypeId,
+			tripletexPaymentTypeName: args.tripletexPaymentTypeName,
+		});
+	},
+});
+
+/** Remove a payment type mapping (requires operator). */
+export const remove = mutation({
+	args: { paymentTypeMappingId: v.id("paymentTypeMapping") },
+	handler: async (ctx, args) => {
+		const mapping = await ctx.db.get(args.paymentTypeMappingId);
+		if (!mapping) throw new Error("Payment type mapping not found");
+		await requireOrgOperator(ctx, mapping.organizationId);
+
+		await ctx.db.delete(args.paymentTypeMappingId);
+	},
+});
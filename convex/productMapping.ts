@@ -1,3 +1,4 @@
+import { paginationOptsValidator } from "convex/server";
 import { v } from "convex/values";
 import { internalMutation, internalQuery, query } from "./_generated/server";
 import { requireOrgMembership } from "./lib/auth";
@@ -41,6 +42,23 @@ export const listInternal = internalQuery({
 	},
 });
 
+/** One page of product mappings — internal only (used to walk every mapping). */
+export const listPageInternal = internalQuery({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnv,
+		paginationOpts: paginationOptsValidator,
+	},
+	handler: async (ctx, args) => {
+		return await ctx.db
+			.query("productMapping")
+			.withIndex("by_org_and_env", (q) =>
+				q.eq("organizationId", args.organizationId).eq("tripletexEnv", args.tripletexEnv),
+			)
+			.paginate(args.paginationOpts);
+	},
+});
+
 /** Get a specific product mapping by Rubic product code — internal only. */
 export const getByRubicCode = internalQuery({
 	args: {
@@ -86,6 +104,7 @@ export const upsert = internalMutation({
 				tripletexProductId: args.tripletexProductId,
 				hash: args.hash,
 				lastSyncedAt: Date.now(),
+				staleAt: undefined,
 			});
 			return existing._id;
 		}
@@ -100,3 +119,17 @@ export const upsert = internalMutation({
 		});
 	},
 });
+
+/**
+ * Flag mappings whose Tripletex product is gone, or clear the flag — internal
+ * only (used by sync and mapping verification).
+ */
+export const setStale = internalMutation({
+	args: { ids: v.array(v.id("productMapping")), stale: v.boolean() },
+	handler: async (ctx, args) => {
+		const staleAt = args.stale ? Date.now() : undefined;
+		for (const id of args.ids) {
+			await ctx.db.patch(id, { staleAt });
+		}
+	},
+});
@@ -0,0 +1,294 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery } from "./_generated/server";
+import { normalizeTransactionTypeName } from "./lib/paymentTypes";
+import type { EnvironmentConfig } from "./lib/promotion";
+import { pipelineStepPolicy, staleMappingPolicy, syncType, tripletexEnv } from "./validators";
+
+const tripletexRef = v.object({ id: v.number(), name: v.string() });
+
+/** Load an environment's promotable config — internal only (used by sync actions). */
+export const loadConfig = internalQuery({
+	args: { organizationId: v.id("organizations"), tripletexEnv: tripletexEnv },
+	handler: async (ctx, args): Promise<EnvironmentConfig> => {
+		const departmentMappings = await ctx.db
+			.query("departmentMapping")
+			.withIndex("by_org_and_env", (q) =>
+				q.eq("organizationId", args.organizationId).eq("tripletexEnv", args.tripletexEnv),
+			)
+			.collect();
+		const vatMappings = await ctx.db
+			.query("vatMapping")
+			.withIndex("by_org_and_env", (q) =>
+				q.eq("organizationId", args.organizationId).eq("tripletexEnv", args.tripletexEnv),
+			)
+			.collect();
+		const paymentTypeMappings = await ctx.db
+			.query("paymentTypeMapping")
+			.withIndex("by_org_and_env", (q) =>
+				q.eq("organizationId", args.organizationId).eq("tripletexEnv", args.tripletexEnv),
+			)
+			.collect();
+		const productMappings = await ctx.db
+			.query("productMapping")
+			.withIndex("by_org_and_env", (q) =>
+				q.eq("organizationId", args.organizationId).eq("tripletexEnv", args.tripletexEnv),
+			)
+			.collect();
+		const settings = await ctx.db
+			.query("syncSettings")
+			.withIndex("by_org_and_env", (q) =>
+				q.eq("organizationId", args.organizationId).eq("tripletexEnv", args.tripletexEnv),
+			)
+			.unique();
+		const schedules = await ctx.db
+			.query("integrationSchedules")
+			.withIndex("by_org", (q) => q.eq("organizationId", args.organizationId))
+			.collect();
+
+		return {
+			departmentMappings: departmentMappings.map((m) => ({
+				rubicDepartmentId: m.rubicDepartmentId,
+				rubicDepartmentName: m.rubicDepartmentName,
+				tripletexDepartmentId: m.tripletexDepartmentId,
+				tripletexDepartmentName: m.tripletexDepartmentName,
+			})),
+			vatMappings: vatMappings.map((m) => ({
+				rubicTaxCode: m.rubicTaxCode,
+				rubicTaxPercent: m.rubicTaxPercent,
+				tripletexVatTypeId: m.tripletexVatTypeId,
+				tripletexVatTypeName: m.tripletexVatTypeName,
+			})),
+			paymentTypeMappings: paymentTypeMappings.map((m) => ({
+				rubicTransactionTypeName: m.rubicTransactionTypeName,
+				tripletexPaymentTypeId: m.tripletexPaymentTypeId,
+				tripletexPaymentTypeName: m.tripletexPaymentTypeName,
+			})),
+			productMappings: productMappings.map((m) => ({
+				rubicProductCode: m.rubicProductCode,
+				tripletexProductId: m.tripletexProductId,
+			})),
+			settings: settings && {
+				useLedgerCustomerNo: settings.useLedgerCustomerNo,
+				strictInvoiceLines: settings.strictInvoiceLines,
+				fallbackDepartment: settings.fallbackDepartment,
+				requireDepartmentMapping: settings.requireDepartmentMapping,
+				paymentFeeVoucher: settings.paymentFeeVoucher,
+				defaultPaymentType: settings.defaultPaymentType,
+				fullSyncPolicy: settings.fullSyncPolicy,
+				staleMappingPolicy: settings.staleMappingPolicy,
+			},
+			schedules: schedules
+				.filter((s) => s.tripletexEnv === args.tripletexEnv)
+				.map((s) => ({
+					syncType: s.syncType,
+					cronExpression: s.cronExpression,
+					timezone: s.timezone,
+					isEnabled: s.isEnabled,
+				})),
+		};
+	},
+});
+
+/**
+ * Write a promotion plan's changes to production — internal only (used by
+ * the promotion action). Rows are matched the same way the plan matched them.
+ */
+export const applyToProduction = internalMutation({
+	args: {
+		organizationId: v.id("organizations"),
+		departmentMappings: v.array(
+			v.object({
+				rubicDepartmentId: v.number(),
+				rubicDepartmentName: v.string(),
+				tripletexDepartmentId: v.number(),
+				tripletexDepartmentName: v.string(),
+			}),
+		),
+		vatMappings: v.array(
+			v.object({
+				rubicTaxCode: v.optional(v.string()),
+				rubicTaxPercent: v.optional(v.number()),
+				tripletexVatTypeId: v.number(),
+				tripletexVatTypeName: v.string(),
+			}),
+		),
+		paymentTypeMappings: v.array(
+			v.object({
+				rubicTransactionTypeName: v.string(),
+				tripletexPaymentTypeId: v.number(),
+				tripletexPaymentTypeName: v.string(),
+			}),
+		),
+		productMappings: v.array(
+			v.object({ rubicProductCode: v.string(), tripletexProductId: v.number() }),
+		),
+		settings: v.union(
+			v.object({
+				useLedgerCustomerNo: v.optional(v.boolean()),
+				strictInvoiceLines: v.optional(v.boolean()),
+				fallbackDepartment: v.optional(tripletexRef),
+				requireDepartmentMapping: v.optional(v.boolean()),
+				paymentFeeVoucher: v.optional(
+					v.object({ expenseAccountNumber: v.number(), counterAccountNumber: v.number() }),
+				),
+				defaultPaymentType: v.optional(tripletexRef),
+				fullSyncPolicy: v.optional(
+					v.object({
+						customers: v.optional(pipelineStepPolicy),
+						products: v.optional(pipelineStepPolicy),
+						invoices: v.optional(pipelineStepPolicy),
+					}),
+				),
+				staleMappingPolicy: v.optional(staleMappingPolicy),
+			}),
+			v.null(),
+		),
+		schedules: v.array(
+			v.object({
+				syncType: syncType,
+				cronExpression: v.string(),
+				timezone: v.optional(v.string()),
+				isEnabled: v.boolean(),
+			}),
+		),
+	},
+	handler: async (ctx, args) => {
+		const org = args.organizationId;
+		const env = "production" as const;
+
+		for (const mapping of args.departmentMappings) {
+			const existing = await ctx.db
+				.query("departmentMapping")
+				.withIndex("by_org_rubic_env", (q) =>
+					q
+						.eq("organizationId", org)
+						.eq("rubicDepartmentId", mapping.rubicDepartmentId)
+						.eq("tripletexEnv", env),
+				)
+				.unique();
+			if (existing) {
+				await ctx.db.patch(existing._id, mapping);
+			} else {
+				await ctx.db.insert("departmentMapping", {
+					organizationId: org,
+					tripletexEnv: env,
+					...mapping,
+				});
+			}
+		}
+
+		const vatMappings = await ctx.db
+			.query("vatMapping")
+			.withIndex("by_org_and_env", (q) => q.eq("organizationId", org).eq("tripletexEnv", env))
+			.collect();
+		for (const mapping of args.vatMappings) {
+			const existing = vatMappings.find(
+				(m) =>
+					m.rubicTaxCode === mapping.rubicTaxCode && m.rubicTaxPercent === mapping.rubicTaxPercent,
+			);
+			if (existing) {
+				await ctx.db.patch(existing._id, {
+					tripletexVatTypeId: mapping.tripletexVatTypeId,
+					tripletexVatTypeName: mapping.tripletexVatTypeName,
+				});
+			} else {
+				await ctx.db.insert("vatMapping", { organizationId: org, tripletexEnv: env, ...mapping });
+			}
+		}
+
+		const paymentTypeMappings = await ctx.db
+			.query("paymentTypeMapping")
+			.withIndex("by_org_and_env", (q) => q.eq("organizationId", org).eq("tripletexEnv", env))
+			.collect();
+		for (const mapping of args.paymentTypeMappings) {
+			const typeName = normalizeTransactionTypeName(mapping.rubicTransactionTypeName);
+			const existing = paymentTypeMappings.find(
+				(m) => normalizeTransactionTypeName(m.rubicTransactionTypeName) === typeName,
+			);
+			if (existing) {
+				await ctx.db.patch(existing._id, mapping);
+			} else {
+				await ctx.db.insert("paymentTypeMapping", {
+					organizationId: org,
+					tripletexEnv: env,
+					...mapping,
+				});
+			}
+		}
+
+		for (const mapping of args.productMappings) {
+			const existing = await ctx.db
+				.query("productMapping")
+				.withIndex("by_org_rubic_env", (q) =>
+					q
+						.eq("organizationId", org)
+						.eq("rubicProductCode", mapping.rubicProductCode)
+						.eq("tripletexEnv", env),
+				)
+				.unique();
+			// No hash: the next product sync writes the Rubic product to the linked record
+			if (existing) {
+				await ctx.db.patch(existing._id, {
+					tripletexProductId: mapping.tripletexProductId,
+					hash: undefined,
+					staleAt: undefined,
+					lastSyncedAt: Date.now(),
+				});
+			} else {
+				await ctx.db.insert("productMapping", {
+					organizationId: org,
+					tripletexEnv: env,
+					...mapping,
+					lastSyncedAt: Date.now(),
+				});
+			}
+		}
+
+		if (args.settings) {
+			const existing = await ctx.db
+				.query("syncSettings")
+				.withIndex("by_org_and_env", (q) => q.eq("organizationId", org).eq("tripletexEnv", env))
+				.unique();
+			// Every promoted field is written, so settings unset in sandbox are cleared
+			const fields = {
+				useLedgerCustomerNo: args.settings.useLedgerCustomerNo,
+				strictInvoiceLines: args.settings.strictInvoiceLines,
+				fallbackDepartment: args.settings.fallbackDepartment,
+				requireDepartmentMapping: args.settings.requireDepartmentMapping,
+				paymentFeeVoucher: args.settings.paymentFeeVoucher,
+				defaultPaymentType: args.settings.defaultPaymentType,
+				fullSyncPolicy: args.settings.fullSyncPolicy,
+				staleMappingPolicy: args.settings.staleMappingPolicy,
+				updatedAt: Date.now(),
+			};
+			if (existing) {
+				await ctx.db.patch(existing._id, fields);
+			} else {
+				await ctx.db.insert("syncSettings", { organizationId: org, tripletexEnv: env, ...fields });
+			}
+		}
+
+		for (const schedule of args.schedules) {
+			const schedules = await ctx.db
+				.query("integrationSchedules")
+				.withIndex("by_org_and_type", (q) =>
+					q.eq("organizationId", org).eq("syncType", schedule.syncType),
+				)
+				.collect();
+			const existing = schedules.find((s) => s.tripletexEnv === env);
+			if (existing) {
+				await ctx.db.patch(existing._id, {
+					cronExpression: schedule.cronExpression,
+					timezone: schedule.timezone,
+					isEnabled: schedule.isEnabled,
+				});
+			} else {
+				await ctx.db.insert("integrationSchedules", {
+					organizationId: org,
+					tripletexEnv: env,
+					...schedule,
+				});
+			}
+		}
+	},
+});
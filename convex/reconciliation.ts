@@ -0,0 +1,90 @@
+import { v } from "convex/values";
+import { internalMutation, query } from "./_generated/server";
+import { requireOrgMembership } from "./lib/auth";
+import { reconciliationIssueKind, reconciliationSummary, tripletexEnv } from "./validators";
+
+/** List reconciliation reports for an org and environment, newest first (requires membership). */
+export const listReports = query({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnv,
+		limit: v.optional(v.number()),
+	},
+	handler: async (ctx, args) => {
+		await requireOrgMembership(ctx, args.organizationId);
+
+		const limit = args.limit ?? 20;
+		return await ctx.db
+			.query("reconciliationReports")
+			.withIndex("by_org_and_env", (q) =>
+				q.eq("organizationId", args.organizationId).eq("tripletexEnv", args.tripletexEnv),
+			)
+			.order("desc")
+			.take(limit);
+	},
+});
+
+/** List the issues of a reconciliation report (requires membership). */
+export const listIssues = query({
+	args: {
+		reportId: v.id("reconciliationReports"),
+		limit: v.optional(v.number()),
+	},
+	handler: async (ctx, args) => {
+		const report = await ctx.db.get(args.reportId);
+		if (!report) throw new Error("Reconciliation report not found");
+		await requireOrgMembership(ctx, report.organizationId);
+
+		const limit = args.limit ?? 1000;
+		return await ctx.db
+			.query("reconciliationIssues")
+			.withIndex("by_report", (q) => q.eq("reportId", args.reportId))
+			.take(limit);
+	},
+});
+
+/** Store a finished reconciliation report — internal only (used by sync). */
+export const createReport = internalMutation({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnv,
+		periodStart: v.string(),
+		periodEnd: v.string(),
+		summary: reconciliationSummary,
+		issueCount: v.number(),
+	},
+	handler: async (ctx, args) => {
+		return await ctx.db.insert("reconciliationReports", { ...args, createdAt: Date.now() });
+	},
+});
+
+/** Store a batch of issues for a reconciliation report — internal only (used by sync). */
+export const recordIssues = internalMutation({
+	args: {
+		reportId: v.id("reconciliationReports"),
+		issues: v.array(
+			v.object({
+				kind: reconciliationIssueKind,
+				rubicInvoiceId: v.optional(v.number()),
+				rubicInvoiceNumber: v.optional(v.number()),
+				rubicTransactionId: v.optional(v.number()),
+				tripletexInvoiceId: v.optional(v.number()),
+				rubicAmount: v.optional(v.number()),
+				tripletexAmount: v.optional(v.number()),
+				message: v.string(),
+			}),
+		),
+	},
+	handler: async (ctx, args) => {
+		const report = await ctx.db.get(args.reportId);
+		if (!report) throw new Error("Reconciliation report not found");
+
+		for (const issue of args.issues) {
+			await ctx.db.insert("reconciliationIssues", {
+				organizationId: report.organizationId,
+				reportId: args.reportId,
+				...issue,
+			});
+		}
+	},
+});
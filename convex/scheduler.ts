@@ -2,37 +2,29 @@
 
 import { internal } from "./_generated/api";
 import { internalAction } from "./_generated/server";
+import { DEFAULT_SCHEDULE_TIMEZONE, getNextCronTime } from "./lib/cron";
 
 /**
- * Parses a simple cron expression and checks if it should run now.
- * Supports: "* /N * * *" (every N minutes/hours) format.
- * For simplicity, we check if enough time has elapsed since lastScheduledAt.
+ * Determine whether a schedule is due to fire.
+ * The next fire time is computed from the last time the schedule was dispatched
+ * (or its creation time, for schedules that have never run) in the schedule's timezone.
  */
-function parseCronIntervalMs(cronExpression: string): number | null {
-	const parts = cronExpression.trim().split(/\s+/);
-	if (parts.length !== 5) return null;
-
-	const [minute, hour] = parts;
-
-	// Every N hours: "0 * /N * * *"
-	const hourMatch = hour?.match(/^\*\/(\d+)$/);
-	if (hourMatch) {
-		return Number.parseInt(hourMatch[1], 10) * 60 * 60 * 1000;
-	}
-
-	// Every N minutes: "* /N * * * *"
-	const minuteMatch = minute?.match(/^\*\/(\d+)$/);
-	if (minuteMatch) {
-		return Number.parseInt(minuteMatch[1], 10) * 60 * 1000;
-	}
-
-	// Every hour: "0 * * * *"
-	if (minute === "0" && hour === "*") {
-		return 60 * 60 * 1000;
-	}
-
-	// Default: check every interval the cron runs (fallback to 1 hour)
-	return 60 * 60 * 1000;
+function isScheduleDue(
+	schedule: {
+		cronExpression: string;
+		timezone?: string;
+		lastScheduledAt?: number;
+		_creationTime: number;
+	},
+	now: number,
+): boolean {
+	const since = schedule.lastScheduledAt ?? schedule._creationTime;
+	const nextRunAt = getNextCronTime(
+		schedule.cronExpression,
+		since,
+		schedule.timezone ?? DEFAULT_SCHEDULE_TIMEZONE,
+	);
+	return nextRunAt !== null && nextRunAt <= now;
 }
 
 /**
@@ -46,13 +38,17 @@ export const checkAndDispatch = internalAction({
 		const now = Date.now();
 
 		for (const schedule of schedules) {
-			const intervalMs = parseCronIntervalMs(schedule.cronExpression);
-			if (!intervalMs) continue;
-
-			const lastRun = schedule.lastScheduledAt ?? 0;
-			const elapsed = now - lastRun;
-
-			if (elapsed < intervalMs) continue;
+			let due: boolean;
+			try {
+				due = isScheduleDue(schedule, now);
+			} catch (error) {
+				console.error(
+					`Skipping schedule ${schedule._id} with invalid cron expression "${schedule.cronExpression}":`,
+					error instanceof Error ? error.message : String(error),
+				);
+				continue;
+			}
+			if (!due) continue;
 
 			// Mark as scheduled
 			await ctx.runMutation(internal.integrationSchedules.markScheduled, {
@@ -63,9 +59,11 @@ export const checkAndDispatch = internalAction({
 			const syncType = schedule.syncType;
 			const actionMap = {
 				customers: internal.sync.runCustomers,
+				members: internal.sync.runMembers,
 				products: internal.sync.runProducts,
 				invoices: internal.sync.runInvoices,
 				payments: internal.sync.runPayments,
+				full: internal.sync.runFull,
 			} as const;
 
 			const syncAction = actionMap[syncType as keyof typeof actionMap];
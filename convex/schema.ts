@@ -1,6 +1,32 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
-import { memberRole, providerType, syncStatus, syncType, tripletexEnv } from "./validators";
+import {
+	chunkedSyncType,
+	fieldMappingEntity,
+	fieldRule,
+	fullSyncStep,
+	invoiceSkipReason,
+	memberRole,
+	pipelineStepPolicy,
+	pipelineStepResult,
+	plannedActionType,
+	plannedFieldChange,
+	plannedOrderLine,
+	providerType,
+	reconciliationIssueKind,
+	reconciliationSummary,
+	rubicMemberType,
+	staleMappingPolicy,
+	syncCursor,
+	syncEntityType,
+	syncErrorCategory,
+	syncFailureReason,
+	syncItemOutcome,
+	syncRunMode,
+	syncStatus,
+	syncType,
+	tripletexEnv,
+} from "./validators";
 
 export default defineSchema({
 	// --- Users (JIT provisioned from Auth0) ---
@@ -81,10 +107,14 @@ export default defineSchema({
 		provider: providerType,
 		environment: tripletexEnv,
 		baseUrl: v.string(),
-		/** Encrypted JSON string containing provider-specific keys/tokens. */
+		/** Encrypted JSON string containing provider-specific keys/tokens (see lib/credentialCrypto). */
 		credentials: v.string(),
+		/** Master key version the credentials are encrypted with; absent on rows not yet migrated. */
+		keyVersion: v.optional(v.number()),
 		isEnabled: v.boolean(),
 		lastVerifiedAt: v.optional(v.number()),
+		/** Why the last verification failed (or a 401 during sync); cleared by a successful one. */
+		lastVerificationError: v.optional(v.string()),
 	})
 		.index("by_org", ["organizationId"])
 		.index("by_org_and_provider", ["organizationId", "provider"])
@@ -98,6 +128,8 @@ export default defineSchema({
 		tripletexEnv: tripletexEnv,
 		// Cron expression in standard format (e.g. "0 0 * * *" for daily)
 		cronExpression: v.string(),
+		// IANA timezone the cron expression is evaluated in (defaults to Europe/Oslo)
+		timezone: v.optional(v.string()),
 		isEnabled: v.boolean(),
 		lastScheduledAt: v.optional(v.number()),
 		lastCompletedAt: v.optional(v.number()),
@@ -120,6 +152,70 @@ export default defineSchema({
 		.index("by_org_and_env", ["organizationId", "tripletexEnv"])
 		.index("by_org_rubic_env", ["organizationId", "rubicDepartmentId", "tripletexEnv"]),
 
+	// --- VAT Mapping (Rubic tax code or percentage → Tripletex vatType) ---
+
+	vatMapping: defineTable({
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnv,
+		// Exactly one of the two is set; a tax code match wins over a percentage match
+		rubicTaxCode: v.optional(v.string()),
+		rubicTaxPercent: v.optional(v.number()),
+		tripletexVatTypeId: v.number(),
+		tripletexVatTypeName: v.string(),
+	}).index("by_org_and_env", ["organizationId", "tripletexEnv"]),
+
+	// --- Payment Type Mapping (Rubic transaction type → Tripletex payment type) ---
+
+	paymentTypeMapping: defineTable({
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnv,
+		// Matched case-insensitively against the transaction's transactionTypeName
+		rubicTransactionTypeName: v.string(),
+		tripletexPaymentTypeId: v.number(),
+		tripletexPaymentTypeName: v.string(),
+	}).index("by_org_and_env", ["organizationId", "tripletexEnv"]),
+
+	// --- Field Mappings (per-org declarative rules on top of the built-in mappers) ---
+
+	fieldMappings: defineTable({
+		organizationId: v.id("organizations"),
+		entity: fieldMappingEntity,
+		rules: v.array(fieldRule),
+		updatedAt: v.number(),
+	}).index("by_org_and_entity", ["organizationId", "entity"]),
+
+	// --- Sync Settings (per org, per Tripletex environment) ---
+
+	syncSettings: defineTable({
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnv,
+		// Send Rubic's ledgerCustomerNo (instead of customerNo) as the Tripletex customer number
+		useLedgerCustomerNo: v.optional(v.boolean()),
+		// Refuse to create an order when any invoice line lacks a product mapping
+		strictInvoiceLines: v.optional(v.boolean()),
+		// Tripletex department for records whose Rubic department is missing or unmapped
+		fallbackDepartment: v.optional(v.object({ id: v.number(), name: v.string() })),
+		// Refuse products and invoices whose Rubic department is not mapped (instead of the fallback)
+		requireDepartmentMapping: v.optional(v.boolean()),
+		// Post payment provider fees as expense vouchers between these Tripletex accounts
+		paymentFeeVoucher: v.optional(
+			v.object({ expenseAccountNumber: v.number(), counterAccountNumber: v.number() }),
+		),
+		// Tripletex payment type for transactions whose type has no payment type mapping
+		defaultPaymentType: v.optional(v.object({ id: v.number(), name: v.string() })),
+		// What the full sync pipeline does when a step fails (defaults in lib/pipeline.ts)
+		fullSyncPolicy: v.optional(
+			v.object({
+				customers: v.optional(pipelineStepPolicy),
+				products: v.optional(pipelineStepPolicy),
+				invoices: v.optional(pipelineStepPolicy),
+			}),
+		),
+		// Repair of customer/product mappings whose Tripletex record is gone (defaults to relink)
+		staleMappingPolicy: v.optional(staleMappingPolicy),
+		updatedAt: v.number(),
+	}).index("by_org_and_env", ["organizationId", "tripletexEnv"]),
+
 	// --- Sync State (run history) ---
 
 	syncState: defineTable({
@@ -129,15 +225,128 @@ export default defineSchema({
 		lastSyncAt: v.optional(v.number()),
 		status: syncStatus,
 		errorMessage: v.optional(v.string()),
+		// Why a failed run failed: the action threw, or the janitor found it dead
+		failureReason: v.optional(syncFailureReason),
 		recordsProcessed: v.number(),
 		recordsFailed: v.number(),
+		recordsSkipped: v.optional(v.number()),
 		startedAt: v.number(),
 		completedAt: v.optional(v.number()),
+		// Updated periodically by the running action so the janitor can tell slow runs from dead ones
+		lastHeartbeatAt: v.optional(v.number()),
+		// Backfill runs re-pull an explicit period and never move the incremental watermark
+		mode: v.optional(syncRunMode),
+		// Chunked runs (invoices, payments): fixed Rubic period and the checkpoint to continue from
+		windowStart: v.optional(v.number()),
+		windowEnd: v.optional(v.number()),
+		cursor: v.optional(syncCursor),
+		// Set when this run picks up the cursor of a run that failed or timed out
+		resumedFromRunId: v.optional(v.id("syncState")),
+		// Set on step runs started by a full sync pipeline run
+		parentRunId: v.optional(v.id("syncState")),
+		// Dry runs write nothing to Tripletex or the mappings; they store planned actions instead
+		dryRun: v.optional(v.boolean()),
+		// Full sync pipeline runs: steps still to run, results of finished steps, and the
+		// lease the pipeline holds until its last step has finished
+		pendingSteps: v.optional(v.array(fullSyncStep)),
+		stepResults: v.optional(v.array(pipelineStepResult)),
+		leaseId: v.optional(v.string()),
 	})
 		.index("by_org", ["organizationId"])
 		.index("by_org_and_type", ["organizationId", "syncType"])
 		.index("by_org_type_env", ["organizationId", "syncType", "tripletexEnv"])
-		.index("by_status", ["status"]),
+		.index("by_status", ["status"])
+		.index("by_parent", ["parentRunId"]),
+
+	// --- Sync Watermarks (incremental start point per org, sync type and environment) ---
+
+	syncWatermarks: defineTable({
+		organizationId: v.id("organizations"),
+		syncType: chunkedSyncType,
+		tripletexEnv: tripletexEnv,
+		// End of the last Rubic period whose records were all handled or queued for retry
+		watermark: v.number(),
+		// The run that last advanced the watermark
+		syncStateId: v.id("syncState"),
+		updatedAt: v.number(),
+	}).index("by_org_type_env", ["organizationId", "syncType", "tripletexEnv"]),
+
+	// --- Sync Locks (lease per org, sync type and environment) ---
+
+	syncLocks: defineTable({
+		organizationId: v.id("organizations"),
+		syncType: syncType,
+		tripletexEnv: tripletexEnv,
+		// Random token identifying the holder; only the holder can release the lease
+		leaseId: v.string(),
+		acquiredAt: v.number(),
+		// A lease past this time is stale (crashed action) and can be taken over
+		expiresAt: v.number(),
+	})
+		.index("by_org", ["organizationId"])
+		.index("by_org_type_env", ["organizationId", "syncType", "tripletexEnv"]),
+
+	// --- Sync Errors (per-record failures and skips for a sync run) ---
+
+	syncErrors: defineTable({
+		organizationId: v.id("organizations"),
+		syncStateId: v.id("syncState"),
+		entityType: syncEntityType,
+		// Rubic identifier of the record (customerNo, productCode, invoiceID, invoiceTransactionID)
+		rubicKey: v.string(),
+		tripletexId: v.optional(v.number()),
+		outcome: syncItemOutcome,
+		category: syncErrorCategory,
+		skipReason: v.optional(invoiceSkipReason),
+		/** Sanitized message safe to show in the UI (no tokens or raw response bodies). */
+		message: v.string(),
+		createdAt: v.number(),
+	})
+		.index("by_org", ["organizationId"])
+		.index("by_syncState", ["syncStateId"]),
+
+	// --- Planned Actions (what a dry run would do, per record) ---
+
+	syncPlannedActions: defineTable({
+		organizationId: v.id("organizations"),
+		syncStateId: v.id("syncState"),
+		entityType: syncEntityType,
+		rubicKey: v.string(),
+		// Customer/product name or invoice number, for display
+		label: v.optional(v.string()),
+		tripletexId: v.optional(v.number()),
+		action: plannedActionType,
+		changes: v.optional(v.array(plannedFieldChange)),
+		// Invoices: the order lines and total that would be sent
+		lines: v.optional(v.array(plannedOrderLine)),
+		amount: v.optional(v.number()),
+		message: v.optional(v.string()),
+		createdAt: v.number(),
+	}).index("by_syncState", ["syncStateId"]),
+
+	// --- Sync Retries (failed or skipped records re-attempted by later runs) ---
+
+	syncRetries: defineTable({
+		organizationId: v.id("organizations"),
+		syncType: chunkedSyncType,
+		tripletexEnv: tripletexEnv,
+		// Rubic invoiceID or invoiceTransactionID
+		rubicId: v.number(),
+		attempts: v.number(),
+		/** Sanitized message safe to show in the UI. */
+		lastError: v.string(),
+		firstFailedAt: v.number(),
+		lastAttemptAt: v.number(),
+		lastSyncStateId: v.id("syncState"),
+	})
+		.index("by_org_type_env", ["organizationId", "syncType", "tripletexEnv"])
+		.index("by_org_type_env_rubic", ["organizationId", "syncType", "tripletexEnv", "rubicId"])
+		.index("by_org_type_env_attempt", [
+			"organizationId",
+			"syncType",
+			"tripletexEnv",
+			"lastAttemptAt",
+		]),
 
 	// --- Customer Mapping ---
 
@@ -148,11 +357,29 @@ export default defineSchema({
 		tripletexCustomerId: v.number(),
 		lastSyncedAt: v.number(),
 		hash: v.optional(v.string()),
+		// When Tripletex reported the customer as deleted (404/410); cleared once repaired
+		staleAt: v.optional(v.number()),
 	})
 		.index("by_org", ["organizationId"])
 		.index("by_org_and_env", ["organizationId", "tripletexEnv"])
 		.index("by_org_rubic_env", ["organizationId", "rubicCustomerNo", "tripletexEnv"]),
 
+	// --- Member Mapping (Rubic person/company member → Tripletex customer) ---
+
+	memberMapping: defineTable({
+		organizationId: v.id("organizations"),
+		memberType: rubicMemberType,
+		rubicMemberNo: v.number(),
+		tripletexEnv: tripletexEnv,
+		tripletexCustomerId: v.number(),
+		// Set when the member was linked through its ledger customer number
+		ledgerCustomerNo: v.optional(v.string()),
+		lastSyncedAt: v.number(),
+		hash: v.optional(v.string()),
+	})
+		.index("by_org_and_env", ["organizationId", "tripletexEnv"])
+		.index("by_org_member_env", ["organizationId", "memberType", "rubicMemberNo", "tripletexEnv"]),
+
 	// --- Product Mapping ---
 
 	productMapping: defineTable({
@@ -162,6 +389,8 @@ export default defineSchema({
 		tripletexProductId: v.number(),
 		lastSyncedAt: v.number(),
 		hash: v.optional(v.string()),
+		// When Tripletex reported the product as deleted (404/410); cleared once repaired
+		staleAt: v.optional(v.number()),
 	})
 		.index("by_org", ["organizationId"])
 		.index("by_org_and_env", ["organizationId", "tripletexEnv"])
@@ -176,9 +405,103 @@ export default defineSchema({
 		rubicInvoiceNumber: v.number(),
 		tripletexInvoiceId: v.number(),
 		lastSyncedAt: v.number(),
+		// Set by the old single-payment flow; transactions of such invoices are not registered again
 		paymentSynced: v.boolean(),
+		// When Rubic's balance for the invoice reached zero
+		settledAt: v.optional(v.number()),
+		// Rubic product codes of lines left off the Tripletex order (non-strict mode)
+		droppedProductCodes: v.optional(v.array(v.string())),
+		// Gross amount credited in Rubic that has been mirrored to Tripletex
+		creditedAmount: v.optional(v.number()),
+		// When Tripletex reported the invoice as deleted (404/410); invoices are never recreated
+		staleAt: v.optional(v.number()),
+		// A credit being written to Tripletex; set before the (non-idempotent) requests and
+		// cleared when the credit note is recorded, so a retry finds the one already created
+		pendingCredit: v.optional(
+			v.object({
+				amount: v.number(),
+				full: v.boolean(),
+				creditDate: v.string(),
+				// Tripletex order of a partial credit, once created
+				orderId: v.optional(v.number()),
+			}),
+		),
+		// Tripletex credit notes created for this invoice, oldest first
+		creditNotes: v.optional(
+			v.array(
+				v.object({
+					tripletexInvoiceId: v.number(),
+					amount: v.number(),
+					// true: credit note of the whole invoice; false: separate negative invoice
+					full: v.boolean(),
+					createdAt: v.number(),
+				}),
+			),
+		),
 	})
 		.index("by_org", ["organizationId"])
+		.index("by_org_and_env", ["organizationId", "tripletexEnv"])
+		.index("by_org_rubic_env", ["organizationId", "rubicInvoiceId", "tripletexEnv"])
+		.index("by_org_env_tripletex", ["organizationId", "tripletexEnv", "tripletexInvoiceId"]),
+
+	// --- Payment Mapping (one row per registered Rubic invoice transaction) ---
+
+	paymentMapping: defineTable({
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnv,
+		rubicTransactionId: v.number(),
+		rubicInvoiceId: v.number(),
+		tripletexInvoiceId: v.number(),
+		amount: v.number(),
+		paymentDate: v.string(),
+		paymentTypeId: v.optional(v.number()),
+		// Gross payment provider fee and the Tripletex voucher it was posted on (if enabled)
+		fee: v.optional(v.number()),
+		feeVoucherId: v.optional(v.number()),
+		syncedAt: v.number(),
+	})
+		.index("by_org_and_env", ["organizationId", "tripletexEnv"])
+		.index("by_org_rubic_env", ["organizationId", "rubicTransactionId", "tripletexEnv"])
+		.index("by_org_env_invoice", ["organizationId", "tripletexEnv", "rubicInvoiceId"]),
+
+	// --- Invoice Skips (invoices not yet synced, with the reason why) ---
+
+	invoiceSkips: defineTable({
+		organizationId: v.id("organizations"),
+		rubicInvoiceId: v.number(),
+		tripletexEnv: tripletexEnv,
+		rubicInvoiceNumber: v.number(),
+		reason: invoiceSkipReason,
+		details: v.string(),
+		syncStateId: v.id("syncState"),
+		lastSeenAt: v.number(),
+	})
 		.index("by_org_and_env", ["organizationId", "tripletexEnv"])
 		.index("by_org_rubic_env", ["organizationId", "rubicInvoiceId", "tripletexEnv"]),
+
+	// --- Reconciliation Reports (Rubic vs Tripletex comparison over a period) ---
+
+	reconciliationReports: defineTable({
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnv,
+		// Invoice/payment dates covered, both inclusive (YYYY-MM-DD)
+		periodStart: v.string(),
+		periodEnd: v.string(),
+		summary: reconciliationSummary,
+		issueCount: v.number(),
+		createdAt: v.number(),
+	}).index("by_org_and_env", ["organizationId", "tripletexEnv"]),
+
+	reconciliationIssues: defineTable({
+		organizationId: v.id("organizations"),
+		reportId: v.id("reconciliationReports"),
+		kind: reconciliationIssueKind,
+		rubicInvoiceId: v.optional(v.number()),
+		rubicInvoiceNumber: v.optional(v.number()),
+		rubicTransactionId: v.optional(v.number()),
+		tripletexInvoiceId: v.optional(v.number()),
+		rubicAmount: v.optional(v.number()),
+		tripletexAmount: v.optional(v.number()),
+		message: v.string(),
+	}).index("by_report", ["reportId"]),
 });
@@ -1,38 +1,169 @@
 "use node";
 
-import type { GenericActionCtx } from "convex/server";
+import type { GenericActionCtx, PaginationOptions, PaginationResult } from "convex/server";
 import { v } from "convex/values";
 import { internal } from "./_generated/api";
-import type { DataModel, Id } from "./_generated/dataModel";
+import type { DataModel, Doc, Id } from "./_generated/dataModel";
 import { internalAction } from "./_generated/server";
+import { createCountryResolver } from "./lib/countries";
 import {
+	decryptCredentials,
+	encryptCredentials,
+	loadCredentialKeyring,
+} from "./lib/credentialCrypto";
+import {
+	checkCreditsUntil,
+	findCreatedCredit,
+	getAverageTaxPercent,
+	mapPartialCreditToTripletexOrder,
+	planCredit,
+} from "./lib/creditNotes";
+import {
+	type DepartmentPolicy,
+	resolveDepartment,
+	resolveInvoiceDepartment,
+} from "./lib/departments";
+import { diffFields, type PlannedAction, summarizeOrderLines } from "./lib/dryRun";
+import {
+	type CustomerMappingOptions,
 	computeCustomerHash,
+	computeMemberHash,
 	computeProductHash,
+	findUnmappedInvoiceLines,
+	getCustomerNumber,
 	mapRubicCustomerToTripletex,
 	mapRubicInvoiceToTripletexOrder,
+	mapRubicMemberToTripletex,
 	mapRubicProductToTripletex,
+	type RubicMemberRecord,
 } from "./lib/mappers";
-import { RubicClient } from "./lib/rubicClient";
-import { TripletexClient, type TripletexCustomer } from "./lib/tripletexClient";
-import { tripletexEnv as tripletexEnvValidator } from "./validators";
+import {
+	buildPaymentFeeVoucher,
+	type FeeVoucherAccounts,
+	getGrossPaymentFee,
+} from "./lib/paymentFees";
+import { resolvePaymentTypeId } from "./lib/paymentTypes";
+import {
+	FULL_SYNC_STEPS,
+	type FullSyncStep,
+	type PipelineStepResult,
+	planPipelineAdvance,
+	resolveFullSyncPolicy,
+	summarizePipelineFailures,
+} from "./lib/pipeline";
+import {
+	hashPromotionPlan,
+	type PromotionChange,
+	type PromotionPlan,
+	planPromotion,
+	type TripletexCatalog,
+} from "./lib/promotion";
+import { getLegacyPaidAmount, reconcile } from "./lib/reconciliation";
+import {
+	RubicClient,
+	type RubicInvoice,
+	type RubicInvoiceTransaction,
+	type RubicProductTaxCode,
+} from "./lib/rubicClient";
+import { HEARTBEAT_INTERVAL_MS } from "./lib/runTimeout";
+import { planStaleRepair } from "./lib/staleMappings";
+import { itemsAfterCursor } from "./lib/syncCursor";
+import {
+	categorizeSyncError,
+	isCredentialRejection,
+	sanitizeSyncErrorMessage,
+} from "./lib/syncErrors";
+import {
+	isTripletexRecordGone,
+	TripletexClient,
+	type TripletexCustomer,
+	type TripletexInvoice,
+} from "./lib/tripletexClient";
+import { validateBaseUrl } from "./lib/urlValidation";
+import { resolveVatTypeId } from "./lib/vatMapping";
+import {
+	chunkedSyncType as chunkedSyncTypeValidator,
+	type FieldMappingEntity,
+	type FieldRule,
+	type InvoiceSkipReason,
+	type ProviderType,
+	providerType as providerTypeValidator,
+	type SyncCursor,
+	type SyncEntityType,
+	type SyncErrorCategory,
+	type SyncItemOutcome,
+	type SyncType,
+	type TripletexEnv,
+	tripletexEnv as tripletexEnvValidator,
+} from "./validators";
 
 // --- Helpers ---
 
+interface RubicSecret {
+	apiKey: string;
+	organizationId: number;
+}
+
+interface TripletexSecret {
+	consumerToken: string;
+	employeeToken: string;
+}
+
 interface CredentialPair {
-	rubic: { baseUrl: string; apiKey: string; organizationId: number };
-	tripletex: { baseUrl: string; consumerToken: string; employeeToken: string };
+	rubic: { baseUrl: string } & RubicSecret;
+	tripletex: { baseUrl: string; onUnauthorized: () => Promise<void> } & TripletexSecret;
+}
+
+/**
+ * Decrypt the secret JSON of a stored credential row. Rows saved before
+ * credentials were encrypted hold plain JSON until `reencryptCredentials`
+ * has migrated them.
+ */
+async function decryptSecret(
+	cred: Pick<Doc<"apiCredentials">, "credentials" | "keyVersion">,
+): Promise<string> {
+	return cred.keyVersion === undefined
+		? cred.credentials
+		: await decryptCredentials(cred.credentials, loadCredentialKeyring());
+}
+
+async function readSecret<T>(cred: Pick<Doc<"apiCredentials">, "credentials" | "keyVersion">) {
+	return JSON.parse(await decryptSecret(cred)) as T;
+}
+
+/** Flag Tripletex credentials that were rejected mid-sync. Best-effort. */
+async function flagRejectedCredentials(
+	ctx: Pick<GenericActionCtx<DataModel>, "runMutation">,
+	credentialId: Id<"apiCredentials">,
+): Promise<void> {
+	try {
+		await ctx.runMutation(internal.apiCredentials.markVerificationFailed, {
+			credentialId,
+			error: "Tripletex rejected the credentials (HTTP 401) during a sync",
+		});
+	} catch (error) {
+		console.error(
+			"Failed to flag rejected Tripletex credentials:",
+			error instanceof Error ? error.message : String(error),
+		);
+	}
 }
 
 async function getCredentials(
-	ctx: Pick<GenericActionCtx<DataModel>, "runQuery">,
+	ctx: Pick<GenericActionCtx<DataModel>, "runQuery" | "runMutation">,
 	organizationId: Id<"organizations">,
 	tripletexEnv: "sandbox" | "production",
 ): Promise<CredentialPair> {
-	const rubicCred = await ctx.runQuery(internal.apiCredentials.getRubicCredentials, {
+	// Rubic credentials are paired by environment: a sandbox run reads Rubic test
+	const rubicCred = await ctx.runQuery(internal.apiCredentials.getForSync, {
 		organizationId,
+		provider: "rubic",
+		environment: tripletexEnv,
 	});
 	if (!rubicCred || !rubicCred.isEnabled) {
-		throw new Error("Rubic API credentials not configured or disabled for this organization");
+		throw new Error(
+			`Rubic ${tripletexEnv} credentials not configured or disabled for this organization`,
+		);
 	}
 
 	const tripletexCred = await ctx.runQuery(internal.apiCredentials.getForSync, {
@@ -46,8 +177,8 @@ async function getCredentials(
 		);
 	}
 
-	const rubicParsed = JSON.parse(rubicCred.credentials);
-	const tripletexParsed = JSON.parse(tripletexCred.credentials);
+	const rubicParsed = await readSecret<RubicSecret>(rubicCred);
+	const tripletexParsed = await readSecret<TripletexSecret>(tripletexCred);
 
 	return {
 		rubic: {
@@ -59,392 +190,2429 @@ async function getCredentials(
 			baseUrl: tripletexCred.baseUrl,
 			consumerToken: tripletexParsed.consumerToken,
 			employeeToken: tripletexParsed.employeeToken,
+			onUnauthorized: () => flagRejectedCredentials(ctx, tripletexCred._id),
 		},
 	};
 }
 
+interface SyncItemIssue {
+	entityType: SyncEntityType;
+	rubicKey: string;
+	tripletexId?: number;
+	outcome: SyncItemOutcome;
+	category: SyncErrorCategory;
+	skipReason?: InvoiceSkipReason;
+	message: string;
+}
+
+/** syncErrors category recorded for each invoice skip reason. */
+const INVOICE_SKIP_CATEGORY: Record<InvoiceSkipReason, SyncErrorCategory> = {
+	missing_customer_no: "missing_data",
+	customer_not_mapped: "not_mapped",
+	no_lines: "missing_data",
+	no_mapped_products: "not_mapped",
+	partial_lines_dropped: "not_mapped",
+	department_not_mapped: "not_mapped",
+};
+
+/** Build a `failed` issue from an error thrown while syncing a single record. */
+function failedIssue(
+	entityType: SyncEntityType,
+	rubicKey: string,
+	error: unknown,
+	tripletexId?: number,
+): SyncItemIssue {
+	return {
+		entityType,
+		rubicKey,
+		tripletexId,
+		outcome: "failed",
+		category: categorizeSyncError(error),
+		message: sanitizeSyncErrorMessage(error),
+	};
+}
+
+/**
+ * Record a failed or skipped record on the sync run.
+ * Best-effort: a failure to record never aborts the sync itself.
+ */
+async function recordSyncIssue(
+	ctx: Pick<GenericActionCtx<DataModel>, "runMutation">,
+	syncStateId: Id<"syncState">,
+	issue: SyncItemIssue,
+): Promise<void> {
+	try {
+		await ctx.runMutation(internal.syncErrors.record, { syncStateId, ...issue });
+	} catch (error) {
+		console.error(
+			`Failed to record sync issue for ${issue.entityType} ${issue.rubicKey}:`,
+			error instanceof Error ? error.message : String(error),
+		);
+	}
+}
+
+interface SyncLease {
+	leaseId: string;
+	/** Keep the lease when `fn` returns so a scheduled continuation can renew it. */
+	handOff: () => void;
+}
+
+/**
+ * Run `fn` while holding the sync lease for an org/syncType/env.
+ * Throws without running `fn` if another run holds an unexpired lease, so two
+ * runs never see the same records as unsynced and create duplicates.
+ * Pass the `leaseId` of a handed-off lease to renew it from a continuation.
+ */
+async function withSyncLock<T>(
+	ctx: Pick<GenericActionCtx<DataModel>, "runMutation">,
+	args: { organizationId: Id<"organizations">; tripletexEnv: TripletexEnv },
+	syncType: SyncType,
+	fn: (lease: SyncLease) => Promise<T>,
+	leaseId: string = crypto.randomUUID(),
+): Promise<T> {
+	const key = { organizationId: args.organizationId, syncType, tripletexEnv: args.tripletexEnv };
+	const lock = await ctx.runMutation(internal.syncLocks.acquire, { ...key, leaseId });
+	if (!lock.acquired) {
+		throw new Error(`A ${key.syncType} sync is already running for ${key.tripletexEnv}`);
+	}
+
+	let handedOff = false;
+	try {
+		return await fn({
+			leaseId,
+			handOff: () => {
+				handedOff = true;
+			},
+		});
+	} finally {
+		if (!handedOff) {
+			try {
+				await ctx.runMutation(internal.syncLocks.release, { ...key, leaseId });
+			} catch (error) {
+				// The lease expires on its own; don't mask the sync result
+				console.error(
+					`Failed to release ${key.syncType} lock:`,
+					error instanceof Error ? error.message : String(error),
+				);
+			}
+		}
+	}
+}
+
+interface SyncProgress {
+	cursor: SyncCursor;
+	recordsProcessed: number;
+	recordsFailed: number;
+	recordsSkipped?: number;
+}
+
+/**
+ * Create a throttled heartbeat for a sync run. Safe to call on every loop
+ * iteration; it writes at most once per HEARTBEAT_INTERVAL_MS. Best-effort.
+ * Chunked runs pass `getProgress` so each heartbeat also saves a checkpoint.
+ */
+function createHeartbeat(
+	ctx: Pick<GenericActionCtx<DataModel>, "runMutation">,
+	syncStateId: Id<"syncState">,
+	getProgress?: () => SyncProgress,
+): () => Promise<void> {
+	let lastBeatAt = Date.now();
+
+	return async () => {
+		const now = Date.now();
+		if (now - lastBeatAt < HEARTBEAT_INTERVAL_MS) return;
+		lastBeatAt = now;
+
+		try {
+			if (getProgress) {
+				await ctx.runMutation(internal.syncState.checkpoint, { syncStateId, ...getProgress() });
+			} else {
+				await ctx.runMutation(internal.syncState.heartbeat, { syncStateId });
+			}
+		} catch (error) {
+			console.error(
+				"Failed to record sync heartbeat:",
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+	};
+}
+
+/**
+ * Record a full sync step's outcome on its pipeline run and schedule what
+ * comes next. A step reported twice is only counted once.
+ */
+async function reportPipelineStep(
+	ctx: Pick<GenericActionCtx<DataModel>, "runMutation" | "scheduler">,
+	parentRunId: Id<"syncState">,
+	result: PipelineStepResult,
+): Promise<void> {
+	const recorded = await ctx.runMutation(internal.syncState.recordPipelineStep, {
+		parentRunId,
+		result,
+	});
+	if (recorded) {
+		await ctx.scheduler.runAfter(0, internal.sync.advancePipeline, { parentRunId });
+	}
+}
+
+/**
+ * Run a sync step, reporting to its pipeline run when it is part of one.
+ * Chunked steps that hand off to a continuation report once the run finishes.
+ */
+async function asPipelineStep<
+	T extends { processed: number; failed: number; skipped?: number; continued?: boolean },
+>(
+	ctx: Pick<GenericActionCtx<DataModel>, "runMutation" | "scheduler">,
+	parentRunId: Id<"syncState"> | undefined,
+	step: FullSyncStep,
+	fn: () => Promise<T>,
+): Promise<T> {
+	if (!parentRunId) return fn();
+
+	let result: T;
+	try {
+		result = await fn();
+	} catch (error) {
+		await reportPipelineStep(ctx, parentRunId, {
+			step,
+			status: "failed",
+			processed: 0,
+			failed: 0,
+			skipped: 0,
+			error: sanitizeSyncErrorMessage(error),
+		});
+		throw error;
+	}
+	if (!result.continued) {
+		await reportPipelineStep(ctx, parentRunId, {
+			step,
+			status: "success",
+			processed: result.processed,
+			failed: result.failed,
+			skipped: result.skipped ?? 0,
+		});
+	}
+	return result;
+}
+
 // =============================================================================
 // Internal implementations — called by scheduler and public wrappers
 // =============================================================================
 
+/** Number of planned actions buffered before they are written. */
+const PLAN_BATCH_SIZE = 100;
+
+interface SyncPlan {
+	add(action: PlannedAction): Promise<void>;
+	/** Write buffered actions; call before the run completes or hands off. */
+	flush(): Promise<void>;
+}
+
+/** Collect the planned actions of a dry run and store them in batches. */
+function createSyncPlan(
+	ctx: Pick<GenericActionCtx<DataModel>, "runMutation">,
+	syncStateId: Id<"syncState">,
+): SyncPlan {
+	let pending: PlannedAction[] = [];
+
+	const flush = async () => {
+		if (pending.length === 0) return;
+		const actions = pending;
+		pending = [];
+		await ctx.runMutation(internal.syncPlannedActions.recordBatch, { syncStateId, actions });
+	};
+
+	return {
+		add: async (action) => {
+			pending.push(action);
+			if (pending.length >= PLAN_BATCH_SIZE) await flush();
+		},
+		flush,
+	};
+}
+
+/** Load the department mapping, fallback and strictness for an org and environment. */
+async function loadDepartmentPolicy(
+	ctx: Pick<GenericActionCtx<DataModel>, "runQuery">,
+	organizationId: Id<"organizations">,
+	tripletexEnv: TripletexEnv,
+): Promise<DepartmentPolicy> {
+	const [mappings, settings] = await Promise.all([
+		ctx.runQuery(internal.departmentMapping.listInternal, { organizationId, tripletexEnv }),
+		ctx.runQuery(internal.syncSettings.getInternal, { organizationId, tripletexEnv }),
+	]);
+
+	return {
+		mappings: new Map(mappings.map((m) => [m.rubicDepartmentId, m.tripletexDepartmentId])),
+		fallbackDepartmentId: settings?.fallbackDepartment?.id,
+		requireMapping: settings?.requireDepartmentMapping ?? false,
+	};
+}
+
+/**
+ * Organization numbers of Rubic company members, keyed by ledger customer
+ * number. Best-effort: customers sync without org numbers when members can't
+ * be read.
+ */
+async function loadCompanyOrganizationNumbers(
+	rubicClient: RubicClient,
+): Promise<Map<string, string>> {
+	const organizationNumbers = new Map<string, string>();
+	try {
+		for (const company of await rubicClient.getCompanyMembers()) {
+			if (company.ledgerCustomerNo && company.registrationAuthorityOrganizationNumber) {
+				organizationNumbers.set(
+					company.ledgerCustomerNo,
+					company.registrationAuthorityOrganizationNumber,
+				);
+			}
+		}
+	} catch (error) {
+		console.warn(
+			"Failed to load Rubic company members for organization numbers:",
+			error instanceof Error ? error.message : String(error),
+		);
+	}
+	return organizationNumbers;
+}
+
+/** Load an org's field mapping rules for one entity (empty when not configured). */
+async function loadFieldRules(
+	ctx: Pick<GenericActionCtx<DataModel>, "runQuery">,
+	organizationId: Id<"organizations">,
+	entity: FieldMappingEntity,
+): Promise<FieldRule[]> {
+	const configs = await ctx.runQuery(internal.fieldMappings.listInternal, { organizationId });
+	return configs.find((config) => config.entity === entity)?.rules ?? [];
+}
+
 // --- Customer Sync (internal) ---
 
 export const runCustomers = internalAction({
 	args: {
 		organizationId: v.id("organizations"),
 		tripletexEnv: tripletexEnvValidator,
+		parentRunId: v.optional(v.id("syncState")),
+		// Fetch, map and diff only: nothing is written to Tripletex or the mappings
+		dryRun: v.optional(v.boolean()),
 	},
-	handler: async (ctx, args) => {
-		const creds = await getCredentials(ctx, args.organizationId, args.tripletexEnv);
-		const rubicClient = new RubicClient(creds.rubic);
-		const tripletexClient = new TripletexClient(creds.tripletex);
-
-		const syncStateId = await ctx.runMutation(internal.syncState.start, {
-			organizationId: args.organizationId,
-			syncType: "customers",
-			tripletexEnv: args.tripletexEnv,
-		});
-
-		let processed = 0;
-		let failed = 0;
-
-		try {
-			const rubicCustomers = await rubicClient.getCustomers();
+	handler: async (ctx, args) =>
+		asPipelineStep(ctx, args.parentRunId, "customers", () =>
+			withSyncLock(ctx, args, "customers", async () => {
+				const creds = await getCredentials(ctx, args.organizationId, args.tripletexEnv);
+				const rubicClient = new RubicClient(creds.rubic);
+				const tripletexClient = new TripletexClient(creds.tripletex);
+
+				const syncStateId = await ctx.runMutation(internal.syncState.start, {
+					organizationId: args.organizationId,
+					syncType: "customers",
+					tripletexEnv: args.tripletexEnv,
+					parentRunId: args.parentRunId,
+					dryRun: args.dryRun,
+				});
+				const heartbeat = createHeartbeat(ctx, syncStateId);
+				const dryRun = args.dryRun ?? false;
+				const plan = createSyncPlan(ctx, syncStateId);
 
-			for (const rubicCustomer of rubicCustomers) {
-				if (!rubicCustomer.customerNo) continue;
+				let processed = 0;
+				let failed = 0;
+				let skipped = 0;
 
 				try {
-					const customerNo = rubicCustomer.customerNo;
-					const newHash = await computeCustomerHash(rubicCustomer);
-
-					const existingMapping = await ctx.runQuery(internal.customerMapping.getByRubicNo, {
+					const rubicCustomers = await rubicClient.getCustomers();
+					const settings = await ctx.runQuery(internal.syncSettings.getInternal, {
 						organizationId: args.organizationId,
-						rubicCustomerNo: customerNo,
 						tripletexEnv: args.tripletexEnv,
 					});
-
-					let tripletexCustomerId: number;
-
-					if (existingMapping) {
-						if (existingMapping.hash === newHash) {
-							processed++;
+					const useLedgerCustomerNo = settings?.useLedgerCustomerNo ?? false;
+					const staleMappingPolicy = settings?.staleMappingPolicy;
+					const resolveCountryId = createCountryResolver(
+						(await tripletexClient.getCountries()).values,
+					);
+					const organizationNumbers = await loadCompanyOrganizationNumbers(rubicClient);
+					const fieldRules = await loadFieldRules(ctx, args.organizationId, "customer");
+
+					for (const rubicCustomer of rubicCustomers) {
+						await heartbeat();
+						if (!rubicCustomer.customerNo) {
+							await recordSyncIssue(ctx, syncStateId, {
+								entityType: "customer",
+								rubicKey: "-",
+								outcome: "skipped",
+								category: "missing_data",
+								message: sanitizeSyncErrorMessage(
+									`Customer "${rubicCustomer.customerName ?? "unknown"}" has no customer number`,
+								),
+							});
+							if (dryRun) {
+								await plan.add({
+									entityType: "customer",
+									rubicKey: "-",
+									label: rubicCustomer.customerName ?? undefined,
+									action: "skip",
+									message: "Customer has no customer number",
+								});
+							}
+							skipped++;
 							continue;
 						}
 
-						tripletexCustomerId = existingMapping.tripletexCustomerId;
-						const tripletexCustomer = mapRubicCustomerToTripletex(rubicCustomer);
-
-						const customerNumber = Number.parseInt(customerNo, 10);
-						let existingTtxCustomer: TripletexCustomer | null = null;
-						if (!Number.isNaN(customerNumber)) {
-							existingTtxCustomer = await tripletexClient.getCustomerByNumber(customerNumber);
-						}
-
-						if (existingTtxCustomer?.id === tripletexCustomerId && existingTtxCustomer.version) {
-							tripletexCustomer.id = existingTtxCustomer.id;
-							tripletexCustomer.version = existingTtxCustomer.version;
-						} else {
-							tripletexCustomer.id = tripletexCustomerId;
-						}
-
-						await tripletexClient.updateCustomer(tripletexCustomerId, tripletexCustomer);
-					} else {
-						const customerNumber = Number.parseInt(customerNo, 10);
-						let existingTtxCustomer: TripletexCustomer | null = null;
+						let knownTripletexId: number | undefined;
+
+						try {
+							const customerNo = rubicCustomer.customerNo;
+							const mappingOptions: CustomerMappingOptions = {
+								useLedgerCustomerNo,
+								countryId: resolveCountryId(rubicCustomer),
+								organizationNumber: organizationNumbers.get(
+									rubicCustomer.ledgerCustomerNo ?? customerNo,
+								),
+								fieldRules,
+							};
+							const customerNumber = getCustomerNumber(rubicCustomer, mappingOptions);
+							const newHash = await computeCustomerHash(rubicCustomer, mappingOptions);
+
+							const existingMapping = await ctx.runQuery(internal.customerMapping.getByRubicNo, {
+								organizationId: args.organizationId,
+								rubicCustomerNo: customerNo,
+								tripletexEnv: args.tripletexEnv,
+							});
+							knownTripletexId = existingMapping?.tripletexCustomerId;
+
+							let tripletexCustomerId: number;
+
+							if (existingMapping) {
+								const isStale = existingMapping.staleAt !== undefined;
+								if (!isStale && existingMapping.hash === newHash) {
+									if (dryRun) {
+										await plan.add({
+											entityType: "customer",
+											rubicKey: customerNo,
+											label: rubicCustomer.customerName ?? undefined,
+											tripletexId: existingMapping.tripletexCustomerId,
+											action: "unchanged",
+										});
+									}
+									processed++;
+									continue;
+								}
+
+								tripletexCustomerId = existingMapping.tripletexCustomerId;
+								const tripletexCustomer = mapRubicCustomerToTripletex(
+									rubicCustomer,
+									mappingOptions,
+								);
+
+								let existingTtxCustomer: TripletexCustomer | null = null;
+								if (customerNumber !== undefined) {
+									existingTtxCustomer = await tripletexClient.getCustomerByNumber(customerNumber);
+								}
+
+								if (dryRun) {
+									if (isStale) {
+										const repair = planStaleRepair(
+											staleMappingPolicy,
+											"customer",
+											tripletexCustomerId,
+											existingTtxCustomer,
+										);
+										await plan.add({
+											entityType: "customer",
+											rubicKey: customerNo,
+											label: tripletexCustomer.name,
+											tripletexId: repair.action === "relink" ? repair.tripletexId : undefined,
+											action:
+												repair.action === "relink"
+													? "link"
+													: repair.action === "recreate"
+														? "create"
+														: "skip",
+											changes:
+												repair.action === "recreate"
+													? diffFields(null, tripletexCustomer)
+													: undefined,
+											message: repair.message,
+										});
+										processed++;
+										continue;
+									}
+									const current =
+										existingTtxCustomer?.id === tripletexCustomerId ? existingTtxCustomer : null;
+									await plan.add({
+										entityType: "customer",
+										rubicKey: customerNo,
+										label: tripletexCustomer.name,
+										tripletexId: tripletexCustomerId,
+										action: "update",
+										changes: diffFields(current, tripletexCustomer),
+										message: current ? undefined : "Current Tripletex values could not be loaded",
+									});
+									processed++;
+									continue;
+								}
+
+								let gone = isStale;
+								if (!gone) {
+									if (
+										existingTtxCustomer?.id === tripletexCustomerId &&
+										existingTtxCustomer.version
+									) {
+										tripletexCustomer.id = existingTtxCustomer.id;
+										tripletexCustomer.version = existingTtxCustomer.version;
+									} else {
+										tripletexCustomer.id = tripletexCustomerId;
+									}
+
+									try {
+										await tripletexClient.updateCustomer(tripletexCustomerId, tripletexCustomer);
+									} catch (error) {
+										if (!isTripletexRecordGone(error)) throw error;
+										gone = true;
+										await ctx.runMutation(internal.customerMapping.setStale, {
+											ids: [existingMapping._id],
+											stale: true,
+										});
+									}
+								}
+
+								if (gone) {
+									const repair = planStaleRepair(
+										staleMappingPolicy,
+										"customer",
+										tripletexCustomerId,
+										existingTtxCustomer,
+									);
+									if (repair.action === "flag") {
+										await recordSyncIssue(ctx, syncStateId, {
+											entityType: "customer",
+											rubicKey: customerNo,
+											tripletexId: tripletexCustomerId,
+											outcome: "skipped",
+											category: "not_mapped",
+											message: repair.message,
+										});
+										skipped++;
+										continue;
+									}
+
+									if (repair.action === "relink") {
+										tripletexCustomerId = repair.tripletexId;
+										knownTripletexId = tripletexCustomerId;
+										await tripletexClient.updateCustomer(tripletexCustomerId, {
+											...tripletexCustomer,
+											id: tripletexCustomerId,
+											version: existingTtxCustomer?.version,
+										});
+									} else {
+										const createResponse = await tripletexClient.createCustomer({
+											...tripletexCustomer,
+											id: undefined,
+											version: undefined,
+										});
+										if (!createResponse.value.id) {
+											throw new Error("Failed to create customer: no ID returned");
+										}
+										tripletexCustomerId = createResponse.value.id;
+									}
+								}
+							} else {
+								let existingTtxCustomer: TripletexCustomer | null = null;
+
+								if (customerNumber !== undefined) {
+									existingTtxCustomer = await tripletexClient.getCustomerByNumber(customerNumber);
+								}
+
+								if (dryRun) {
+									const tripletexCustomer = mapRubicCustomerToTripletex(
+										rubicCustomer,
+										mappingOptions,
+									);
+									await plan.add({
+										entityType: "customer",
+										rubicKey: customerNo,
+										label: tripletexCustomer.name,
+										tripletexId: existingTtxCustomer?.id,
+										action: existingTtxCustomer?.id ? "link" : "create",
+										changes: existingTtxCustomer?.id
+											? undefined
+											: diffFields(null, tripletexCustomer),
+										message: existingTtxCustomer?.id
+											? `Customer number ${customerNumber} already exists in Tripletex`
+											: undefined,
+									});
+									processed++;
+									continue;
+								}
+
+								if (existingTtxCustomer?.id) {
+									tripletexCustomerId = existingTtxCustomer.id;
+								} else {
+									const tripletexCustomer = mapRubicCustomerToTripletex(
+										rubicCustomer,
+										mappingOptions,
+									);
+									const createResponse = await tripletexClient.createCustomer(tripletexCustomer);
+									if (!createResponse.value.id) {
+										throw new Error("Failed to create customer: no ID returned");
+									}
+									tripletexCustomerId = createResponse.value.id;
+								}
+							}
 
-						if (!Number.isNaN(customerNumber)) {
-							existingTtxCustomer = await tripletexClient.getCustomerByNumber(customerNumber);
-						}
+							await ctx.runMutation(internal.customerMapping.upsert, {
+								organizationId: args.organizationId,
+								rubicCustomerNo: customerNo,
+								tripletexEnv: args.tripletexEnv,
+								tripletexCustomerId,
+								hash: newHash,
+							});
 
-						if (existingTtxCustomer?.id) {
-							tripletexCustomerId = existingTtxCustomer.id;
-						} else {
-							const tripletexCustomer = mapRubicCustomerToTripletex(rubicCustomer);
-							const createResponse = await tripletexClient.createCustomer(tripletexCustomer);
-							if (!createResponse.value.id) {
-								throw new Error("Failed to create customer: no ID returned");
-							}
-							tripletexCustomerId = createResponse.value.id;
+							processed++;
+						} catch (error) {
+							failed++;
+							console.error(
+								`Failed to sync customer ${rubicCustomer.customerNo}:`,
+								error instanceof Error ? error.message : String(error),
+							);
+							await recordSyncIssue(
+								ctx,
+								syncStateId,
+								failedIssue("customer", rubicCustomer.customerNo, error, knownTripletexId),
+							);
 						}
 					}
 
-					await ctx.runMutation(internal.customerMapping.upsert, {
-						organizationId: args.organizationId,
-						rubicCustomerNo: customerNo,
-						tripletexEnv: args.tripletexEnv,
-						tripletexCustomerId,
-						hash: newHash,
+					await plan.flush();
+					await ctx.runMutation(internal.syncState.complete, {
+						syncStateId,
+						recordsProcessed: processed,
+						recordsFailed: failed,
+						recordsSkipped: skipped,
 					});
 
-					processed++;
+					return { processed, failed, skipped };
 				} catch (error) {
-					failed++;
-					console.error(
-						`Failed to sync customer ${rubicCustomer.customerNo}:`,
-						error instanceof Error ? error.message : String(error),
-					);
+					await ctx.runMutation(internal.syncState.fail, {
+						syncStateId,
+						errorMessage: error instanceof Error ? error.message : String(error),
+						recordsProcessed: processed,
+						recordsFailed: failed,
+						recordsSkipped: skipped,
+					});
+					throw error;
 				}
-			}
-
-			await ctx.runMutation(internal.syncState.complete, {
-				syncStateId,
-				recordsProcessed: processed,
-				recordsFailed: failed,
-			});
-
-			return { processed, failed };
-		} catch (error) {
-			await ctx.runMutation(internal.syncState.fail, {
-				syncStateId,
-				errorMessage: error instanceof Error ? error.message : String(error),
-				recordsProcessed: processed,
-				recordsFailed: failed,
-			});
-			throw error;
-		}
-	},
+			}),
+		),
 });
 
-// --- Product Sync (internal) ---
+// --- Member Sync (internal) ---
 
-export const runProducts = internalAction({
+export const runMembers = internalAction({
 	args: {
 		organizationId: v.id("organizations"),
 		tripletexEnv: tripletexEnvValidator,
+		// Fetch, map and diff only: nothing is written to Tripletex or the mappings
+		dryRun: v.optional(v.boolean()),
 	},
-	handler: async (ctx, args) => {
-		const creds = await getCredentials(ctx, args.organizationId, args.tripletexEnv);
-		const rubicClient = new RubicClient(creds.rubic);
-		const tripletexClient = new TripletexClient(creds.tripletex);
+	handler: async (ctx, args) =>
+		withSyncLock(ctx, args, "members", async () => {
+			const creds = await getCredentials(ctx, args.organizationId, args.tripletexEnv);
+			const rubicClient = new RubicClient(creds.rubic);
+			const tripletexClient = new TripletexClient(creds.tripletex);
 
-		const syncStateId = await ctx.runMutation(internal.syncState.start, {
-			organizationId: args.organizationId,
-			syncType: "products",
-			tripletexEnv: args.tripletexEnv,
-		});
+			const syncStateId = await ctx.runMutation(internal.syncState.start, {
+				organizationId: args.organizationId,
+				syncType: "members",
+				tripletexEnv: args.tripletexEnv,
+				dryRun: args.dryRun,
+			});
+			const heartbeat = createHeartbeat(ctx, syncStateId);
+			const dryRun = args.dryRun ?? false;
+			const plan = createSyncPlan(ctx, syncStateId);
 
-		let processed = 0;
-		let failed = 0;
+			let processed = 0;
+			let failed = 0;
+			let skipped = 0;
 
-		try {
-			const rubicProducts = await rubicClient.getProducts();
-			const validProducts = rubicProducts.filter(
-				(p) => p.productCode !== null && p.productCode !== undefined && p.productCode.trim() !== "",
-			);
+			try {
+				const [persons, companies] = await Promise.all([
+					rubicClient.getPersonMembers(),
+					rubicClient.getCompanyMembers(),
+				]);
+				const records: RubicMemberRecord[] = [
+					...persons.map((member) => ({ memberType: "person" as const, member })),
+					...companies.map((member) => ({ memberType: "company" as const, member })),
+				];
+
+				for (const record of records) {
+					await heartbeat();
+					const { member, memberType } = record;
+					const rubicKey = `${memberType}:${member.memberNo}`;
+					const tripletexCustomer = mapRubicMemberToTripletex(record);
+
+					if (!tripletexCustomer.name) {
+						await recordSyncIssue(ctx, syncStateId, {
+							entityType: "member",
+							rubicKey,
+							outcome: "skipped",
+							category: "missing_data",
+							message: `Member ${member.memberNo} has no name`,
+						});
+						if (dryRun) {
+							await plan.add({
+								entityType: "member",
+								rubicKey,
+								action: "skip",
+								message: "Member has no name",
+							});
+						}
+						skipped++;
+						continue;
+					}
 
-			for (const rubicProduct of validProducts) {
-				try {
-					// productCode is guaranteed non-null by the filter above
-					const productCode = rubicProduct.productCode as string;
-					const hash = await computeProductHash(rubicProduct);
+					let knownTripletexId: number | undefined;
 
-					const existingMapping = await ctx.runQuery(internal.productMapping.getByRubicCode, {
-						organizationId: args.organizationId,
-						rubicProductCode: productCode,
-						tripletexEnv: args.tripletexEnv,
-					});
+					try {
+						const newHash = await computeMemberHash(record);
 
-					if (existingMapping) {
-						if (existingMapping.hash === hash) {
+						const existingMapping = await ctx.runQuery(internal.memberMapping.getByRubicMemberNo, {
+							organizationId: args.organizationId,
+							memberType,
+							rubicMemberNo: member.memberNo,
+							tripletexEnv: args.tripletexEnv,
+						});
+						knownTripletexId = existingMapping?.tripletexCustomerId;
+
+						if (existingMapping && existingMapping.hash === newHash) {
+							if (dryRun) {
+								await plan.add({
+									entityType: "member",
+									rubicKey,
+									label: tripletexCustomer.name,
+									tripletexId: existingMapping.tripletexCustomerId,
+									action: "unchanged",
+								});
+							}
 							processed++;
 							continue;
 						}
 
-						const tripletexProduct = mapRubicProductToTripletex(rubicProduct);
-						await tripletexClient.updateProduct(existingMapping.tripletexProductId, {
-							...tripletexProduct,
-							id: existingMapping.tripletexProductId,
-						});
-
-						await ctx.runMutation(internal.productMapping.upsert, {
-							organizationId: args.organizationId,
-							rubicProductCode: productCode,
-							tripletexEnv: args.tripletexEnv,
-							tripletexProductId: existingMapping.tripletexProductId,
-							hash,
-						});
-					} else {
-						let tripletexProductId: number;
-
-						const existingTtxProduct = await tripletexClient.getProductByNumber(productCode);
-						if (existingTtxProduct?.id) {
-							tripletexProductId = existingTtxProduct.id;
-							await tripletexClient.updateProduct(tripletexProductId, {
-								...mapRubicProductToTripletex(rubicProduct),
-								id: tripletexProductId,
-								version: existingTtxProduct.version,
+						// Link to the customer the member already is: its own mapping, the Rubic
+						// customer with its ledger customer number, or a Tripletex customer
+						// with the same number
+						let tripletexCustomerId = existingMapping?.tripletexCustomerId;
+						let linkedVia: string | undefined;
+						if (tripletexCustomerId === undefined && member.ledgerCustomerNo) {
+							const customerMapping = await ctx.runQuery(internal.customerMapping.getByRubicNo, {
+								organizationId: args.organizationId,
+								rubicCustomerNo: member.ledgerCustomerNo,
+								tripletexEnv: args.tripletexEnv,
 							});
-						} else {
-							const createResponse = await tripletexClient.createProduct(
-								mapRubicProductToTripletex(rubicProduct),
+							tripletexCustomerId = customerMapping?.tripletexCustomerId;
+							if (tripletexCustomerId !== undefined) {
+								linkedVia = `Rubic customer ${member.ledgerCustomerNo}`;
+							}
+						}
+						if (tripletexCustomerId === undefined && tripletexCustomer.customerNumber) {
+							const byNumber = await tripletexClient.getCustomerByNumber(
+								tripletexCustomer.customerNumber,
 							);
+							tripletexCustomerId = byNumber?.id;
+							if (tripletexCustomerId !== undefined) {
+								linkedVia = `Tripletex customer number ${tripletexCustomer.customerNumber}`;
+							}
+						}
+						knownTripletexId = tripletexCustomerId;
+
+						if (tripletexCustomerId === undefined) {
+							if (dryRun) {
+								await plan.add({
+									entityType: "member",
+									rubicKey,
+									label: tripletexCustomer.name,
+									action: "create",
+									changes: diffFields(null, tripletexCustomer),
+								});
+								processed++;
+								continue;
+							}
+
+							const createResponse = await tripletexClient.createCustomer(tripletexCustomer);
 							if (!createResponse.value.id) {
-								throw new Error("Failed to create product: no ID returned");
+								throw new Error("Failed to create customer: no ID returned");
+							}
+							tripletexCustomerId = createResponse.value.id;
+						} else {
+							// Enrich the existing customer; its customer number stays as it is
+							const current = (await tripletexClient.getCustomer(tripletexCustomerId)).value;
+							const update: TripletexCustomer = {
+								...tripletexCustomer,
+								id: tripletexCustomerId,
+								version: current.version,
+								customerNumber: undefined,
+							};
+
+							if (dryRun) {
+								await plan.add({
+									entityType: "member",
+									rubicKey,
+									label: tripletexCustomer.name,
+									tripletexId: tripletexCustomerId,
+									action: existingMapping ? "update" : "link",
+									changes: diffFields(current, update),
+									message: linkedVia ? `Enriches ${linkedVia}` : undefined,
+								});
+								processed++;
+								continue;
 							}
-							tripletexProductId = createResponse.value.id;
+
+							await tripletexClient.updateCustomer(tripletexCustomerId, update);
 						}
 
-						await ctx.runMutation(internal.productMapping.upsert, {
+						await ctx.runMutation(internal.memberMapping.upsert, {
 							organizationId: args.organizationId,
-							rubicProductCode: productCode,
+							memberType,
+							rubicMemberNo: member.memberNo,
 							tripletexEnv: args.tripletexEnv,
-							tripletexProductId,
-							hash,
+							tripletexCustomerId,
+							ledgerCustomerNo: member.ledgerCustomerNo ?? undefined,
+							hash: newHash,
 						});
-					}
 
-					processed++;
-				} catch (error) {
-					failed++;
-					console.error(
-						`Failed to sync product ${rubicProduct.productCode}:`,
-						error instanceof Error ? error.message : String(error),
-					);
+						processed++;
+					} catch (error) {
+						failed++;
+						console.error(
+							`Failed to sync ${memberType} member ${member.memberNo}:`,
+							error instanceof Error ? error.message : String(error),
+						);
+						await recordSyncIssue(
+							ctx,
+							syncStateId,
+							failedIssue("member", rubicKey, error, knownTripletexId),
+						);
+					}
 				}
-			}
 
-			await ctx.runMutation(internal.syncState.complete, {
-				syncStateId,
-				recordsProcessed: processed,
-				recordsFailed: failed,
-			});
+				await plan.flush();
+				await ctx.runMutation(internal.syncState.complete, {
+					syncStateId,
+					recordsProcessed: processed,
+					recordsFailed: failed,
+					recordsSkipped: skipped,
+				});
 
-			return { processed, failed };
-		} catch (error) {
-			await ctx.runMutation(internal.syncState.fail, {
-				syncStateId,
-				errorMessage: error instanceof Error ? error.message : String(error),
-				recordsProcessed: processed,
-				recordsFailed: failed,
-			});
-			throw error;
-		}
-	},
+				return { processed, failed, skipped };
+			} catch (error) {
+				await ctx.runMutation(internal.syncState.fail, {
+					syncStateId,
+					errorMessage: error instanceof Error ? error.message : String(error),
+					recordsProcessed: processed,
+					recordsFailed: failed,
+					recordsSkipped: skipped,
+				});
+				throw error;
+			}
+		}),
 });
 
-// --- Invoice Sync (internal) ---
+// --- Product Sync (internal) ---
 
-export const runInvoices = internalAction({
+export const runProducts = internalAction({
 	args: {
 		organizationId: v.id("organizations"),
 		tripletexEnv: tripletexEnvValidator,
+		parentRunId: v.optional(v.id("syncState")),
+		// Fetch, map and diff only: nothing is written to Tripletex or the mappings
+		dryRun: v.optional(v.boolean()),
 	},
-	handler: async (ctx, args) => {
-		const creds = await getCredentials(ctx, args.organizationId, args.tripletexEnv);
-		const rubicClient = new RubicClient(creds.rubic);
-		const tripletexClient = new TripletexClient(creds.tripletex);
+	handler: async (ctx, args) =>
+		asPipelineStep(ctx, args.parentRunId, "products", () =>
+			withSyncLock(ctx, args, "products", async () => {
+				const creds = await getCredentials(ctx, args.organizationId, args.tripletexEnv);
+				const rubicClient = new RubicClient(creds.rubic);
+				const tripletexClient = new TripletexClient(creds.tripletex);
+
+				const syncStateId = await ctx.runMutation(internal.syncState.start, {
+					organizationId: args.organizationId,
+					syncType: "products",
+					tripletexEnv: args.tripletexEnv,
+					parentRunId: args.parentRunId,
+					dryRun: args.dryRun,
+				});
+				const heartbeat = createHeartbeat(ctx, syncStateId);
+				const dryRun = args.dryRun ?? false;
+				const plan = createSyncPlan(ctx, syncStateId);
+
+				let processed = 0;
+				let failed = 0;
+				let skipped = 0;
+
+				try {
+					const rubicProducts = await rubicClient.getProducts();
+					const validProducts = rubicProducts.filter(
+						(p) =>
+							p.productCode !== null && p.productCode !== undefined && p.productCode.trim() !== "",
+					);
+
+					// Products get their VAT type from their product group's tax code
+					const vatRules = await ctx.runQuery(internal.vatMapping.listInternal, {
+						organizationId: args.organizationId,
+						tripletexEnv: args.tripletexEnv,
+					});
+					const departmentPolicy = await loadDepartmentPolicy(
+						ctx,
+						args.organizationId,
+						args.tripletexEnv,
+					);
+					const fieldRules = await loadFieldRules(ctx, args.organizationId, "product");
+					const settings = await ctx.runQuery(internal.syncSettings.getInternal, {
+						organizationId: args.organizationId,
+						tripletexEnv: args.tripletexEnv,
+					});
+					const staleMappingPolicy = settings?.staleMappingPolicy;
+					const vatTypeByGroup = new Map<number, number>();
+					if (vatRules.length > 0) {
+						for (const group of await rubicClient.getProductGroups()) {
+							const vatTypeId = resolveVatTypeId(vatRules, {
+								taxCode: group.taxCode?.taxCode1,
+								taxPercent: group.taxCode?.taxPercent,
+							});
+							if (vatTypeId !== undefined) vatTypeByGroup.set(group.productGroupID, vatTypeId);
+						}
+					}
+
+					for (const rubicProduct of validProducts) {
+						await heartbeat();
+						let knownTripletexId: number | undefined;
+
+						try {
+							// productCode is guaranteed non-null by the filter above
+							const productCode = rubicProduct.productCode as string;
+							const department = resolveDepartment(departmentPolicy, rubicProduct.departmentID);
+							if (!department.ok) {
+								const message = `Rubic department ${department.unmappedDepartmentId} is not mapped to Tripletex`;
+								failed++;
+								if (dryRun) {
+									await plan.add({
+										entityType: "product",
+										rubicKey: productCode,
+										label: rubicProduct.productName ?? undefined,
+										action: "skip",
+										message,
+									});
+								}
+								await recordSyncIssue(ctx, syncStateId, {
+									entityType: "product",
+									rubicKey: productCode,
+									outcome: "failed",
+									category: "not_mapped",
+									message,
+								});
+								continue;
+							}
+							const mappingOptions = {
+								vatTypeId: vatTypeByGroup.get(rubicProduct.productGroupID),
+								departmentId: department.departmentId,
+								fieldRules,
+							};
+							const hash = await computeProductHash(rubicProduct, mappingOptions);
+
+							const existingMapping = await ctx.runQuery(internal.productMapping.getByRubicCode, {
+								organizationId: args.organizationId,
+								rubicProductCode: productCode,
+								tripletexEnv: args.tripletexEnv,
+							});
+							knownTripletexId = existingMapping?.tripletexProductId;
+
+							if (existingMapping) {
+								const isStale = existingMapping.staleAt !== undefined;
+								if (!isStale && existingMapping.hash === hash) {
+									if (dryRun) {
+										await plan.add({
+											entityType: "product",
+											rubicKey: productCode,
+											label: rubicProduct.productName ?? undefined,
+											tripletexId: existingMapping.tripletexProductId,
+											action: "unchanged",
+										});
+									}
+									processed++;
+									continue;
+								}
+
+								const tripletexProduct = mapRubicProductToTripletex(rubicProduct, mappingOptions);
+
+								if (dryRun) {
+									const existingTtxProduct = await tripletexClient.getProductByNumber(productCode);
+									if (isStale) {
+										const repair = planStaleRepair(
+											staleMappingPolicy,
+											"product",
+											existingMapping.tripletexProductId,
+											existingTtxProduct,
+										);
+										await plan.add({
+											entityType: "product",
+											rubicKey: productCode,
+											label: tripletexProduct.name,
+											tripletexId: repair.action === "relink" ? repair.tripletexId : undefined,
+											action:
+												repair.action === "relink"
+													? "update"
+													: repair.action === "recreate"
+														? "create"
+														: "skip",
+											changes:
+												repair.action === "flag"
+													? undefined
+													: diffFields(
+															repair.action === "relink" ? existingTtxProduct : null,
+															tripletexProduct,
+														),
+											message: repair.message,
+										});
+										processed++;
+										continue;
+									}
+									const current =
+										existingTtxProduct?.id === existingMapping.tripletexProductId
+											? existingTtxProduct
+											: null;
+									await plan.add({
+										entityType: "product",
+										rubicKey: productCode,
+										label: tripletexProduct.name,
+										tripletexId: existingMapping.tripletexProductId,
+										action: "update",
+										changes: diffFields(current, tripletexProduct),
+										message: current ? undefined : "Current Tripletex values could not be loaded",
+									});
+									processed++;
+									continue;
+								}
+
+								let tripletexProductId = existingMapping.tripletexProductId;
+								let gone = isStale;
+								if (!gone) {
+									try {
+										await tripletexClient.updateProduct(tripletexProductId, {
+											...tripletexProduct,
+											id: tripletexProductId,
+										});
+									} catch (error) {
+										if (!isTripletexRecordGone(error)) throw error;
+										gone = true;
+										await ctx.runMutation(internal.productMapping.setStale, {
+											ids: [existingMapping._id],
+											stale: true,
+										});
+									}
+								}
+
+								if (gone) {
+									// Products are linked and overwritten by number, as for new mappings
+									const existingTtxProduct = await tripletexClient.getProductByNumber(productCode);
+									const repair = planStaleRepair(
+										staleMappingPolicy,
+										"product",
+										tripletexProductId,
+										existingTtxProduct,
+									);
+									if (repair.action === "flag") {
+										await recordSyncIssue(ctx, syncStateId, {
+											entityType: "product",
+											rubicKey: productCode,
+											tripletexId: tripletexProductId,
+											outcome: "skipped",
+											category: "not_mapped",
+											message: repair.message,
+										});
+										skipped++;
+										continue;
+									}
+
+									if (repair.action === "relink") {
+										tripletexProductId = repair.tripletexId;
+										knownTripletexId = tripletexProductId;
+										await tripletexClient.updateProduct(tripletexProductId, {
+											...tripletexProduct,
+											id: tripletexProductId,
+											version: existingTtxProduct?.version,
+										});
+									} else {
+										const createResponse = await tripletexClient.createProduct(tripletexProduct);
+										if (!createResponse.value.id) {
+											throw new Error("Failed to create product: no ID returned");
+										}
+										tripletexProductId = createResponse.value.id;
+									}
+								}
+
+								await ctx.runMutation(internal.productMapping.upsert, {
+									organizationId: args.organizationId,
+									rubicProductCode: productCode,
+									tripletexEnv: args.tripletexEnv,
+									tripletexProductId,
+									hash,
+								});
+							} else {
+								let tripletexProductId: number;
+
+								const existingTtxProduct = await tripletexClient.getProductByNumber(productCode);
+
+								if (dryRun) {
+									const tripletexProduct = mapRubicProductToTripletex(rubicProduct, mappingOptions);
+									// An existing product with the same number is linked and overwritten
+									await plan.add({
+										entityType: "product",
+										rubicKey: productCode,
+										label: tripletexProduct.name,
+										tripletexId: existingTtxProduct?.id,
+										action: existingTtxProduct?.id ? "update" : "create",
+										changes: diffFields(existingTtxProduct, tripletexProduct),
+									});
+									processed++;
+									continue;
+								}
+
+								if (existingTtxProduct?.id) {
+									tripletexProductId = existingTtxProduct.id;
+									await tripletexClient.updateProduct(tripletexProductId, {
+										...mapRubicProductToTripletex(rubicProduct, mappingOptions),
+										id: tripletexProductId,
+										version: existingTtxProduct.version,
+									});
+								} else {
+									const createResponse = await tripletexClient.createProduct(
+										mapRubicProductToTripletex(rubicProduct, mappingOptions),
+									);
+									if (!createResponse.value.id) {
+										throw new Error("Failed to create product: no ID returned");
+									}
+									tripletexProductId = createResponse.value.id;
+								}
+
+								await ctx.runMutation(internal.productMapping.upsert, {
+									organizationId: args.organizationId,
+									rubicProductCode: productCode,
+									tripletexEnv: args.tripletexEnv,
+									tripletexProductId,
+									hash,
+								});
+							}
+
+							processed++;
+						} catch (error) {
+							failed++;
+							console.error(
+								`Failed to sync product ${rubicProduct.productCode}:`,
+								error instanceof Error ? error.message : String(error),
+							);
+							await recordSyncIssue(
+								ctx,
+								syncStateId,
+								failedIssue("product", rubicProduct.productCode ?? "-", error, knownTripletexId),
+							);
+						}
+					}
+
+					await plan.flush();
+					await ctx.runMutation(internal.syncState.complete, {
+						syncStateId,
+						recordsProcessed: processed,
+						recordsFailed: failed,
+						recordsSkipped: skipped,
+					});
+
+					return { processed, failed, skipped };
+				} catch (error) {
+					await ctx.runMutation(internal.syncState.fail, {
+						syncStateId,
+						errorMessage: error instanceof Error ? error.message : String(error),
+						recordsProcessed: processed,
+						recordsFailed: failed,
+						recordsSkipped: skipped,
+					});
+					throw error;
+				}
+			}),
+		),
+});
+
+// --- Chunked invoice/payment sync ---
+
+/** Rubic page size for chunked syncs; progress is checkpointed after every page. */
+const CHUNK_PAGE_SIZE = 200;
+
+/**
+ * How long one action invocation keeps fetching pages before handing off to a
+ * scheduled continuation. Well under the 10 minute Convex action limit.
+ */
+const CHUNK_TIME_BUDGET_MS = 4 * 60 * 1000;
+
+type ChunkCtx = Pick<GenericActionCtx<DataModel>, "runQuery" | "runMutation" | "scheduler">;
+
+interface ChunkedSyncResult {
+	processed: number;
+	failed: number;
+	skipped: number;
+	/** True when the run is not finished and a continuation has been scheduled. */
+	continued: boolean;
+}
 
-		const syncStateId = await ctx.runMutation(internal.syncState.start, {
+/**
+ * Start a chunked run. If the latest run of this type failed or timed out
+ * midway, pick up its period and cursor instead of starting over; otherwise
+ * open a new period from the watermark up to now. Dry runs always start a new
+ * period and are never resumed.
+ */
+async function startChunkedRun(
+	ctx: ChunkCtx,
+	args: {
+		organizationId: Id<"organizations">;
+		tripletexEnv: TripletexEnv;
+		parentRunId?: Id<"syncState">;
+		dryRun?: boolean;
+	},
+	syncType: "invoices" | "payments",
+): Promise<Id<"syncState">> {
+	const latest = await ctx.runQuery(internal.syncState.getLatestInternal, {
+		organizationId: args.organizationId,
+		syncType,
+		tripletexEnv: args.tripletexEnv,
+	});
+	const watermark = await ctx.runQuery(internal.syncWatermarks.getInternal, {
+		organizationId: args.organizationId,
+		syncType,
+		tripletexEnv: args.tripletexEnv,
+	});
+
+	if (
+		!args.dryRun &&
+		latest?.status === "failed" &&
+		latest.cursor &&
+		latest.windowEnd !== undefined
+	) {
+		return await ctx.runMutation(internal.syncState.start, {
 			organizationId: args.organizationId,
-			syncType: "invoices",
+			syncType,
 			tripletexEnv: args.tripletexEnv,
+			parentRunId: args.parentRunId,
+			mode: "incremental",
+			windowStart: latest.windowStart,
+			windowEnd: latest.windowEnd,
+			cursor: latest.cursor,
+			resumedFromRunId: latest._id,
 		});
+	}
 
-		let processed = 0;
-		let failed = 0;
+	return await ctx.runMutation(internal.syncState.start, {
+		organizationId: args.organizationId,
+		syncType,
+		tripletexEnv: args.tripletexEnv,
+		parentRunId: args.parentRunId,
+		mode: "incremental",
+		// Orgs that synced before watermarks existed fall back to the last run's lastSyncAt
+		windowStart: watermark?.watermark ?? latest?.lastSyncAt,
+		windowEnd: Date.now(),
+		cursor: { pageNo: 1 },
+		dryRun: args.dryRun,
+	});
+}
 
-		try {
-			const lastSync = await ctx.runQuery(internal.syncState.getLatestInternal, {
-				organizationId: args.organizationId,
-				syncType: "invoices",
-				tripletexEnv: args.tripletexEnv,
-			});
+/** Load a chunked run and check it is still running. */
+async function loadChunkedRun(ctx: ChunkCtx, syncStateId: Id<"syncState">) {
+	const run = await ctx.runQuery(internal.syncState.getInternal, { syncStateId });
+	if (!run) throw new Error(`Sync run ${syncStateId} not found`);
+	// The janitor may have failed the run while a continuation was waiting to start
+	if (run.status !== "running") throw new Error(`Sync run ${syncStateId} is no longer running`);
+	return run;
+}
 
-			const startPeriod = lastSync?.lastSyncAt ? new Date(lastSync.lastSyncAt) : undefined;
-			const endPeriod = new Date();
+/** Number of queued retries a run re-attempts; the rest wait for later runs. */
+const RETRY_BATCH_SIZE = 100;
+
+/**
+ * Queue a record that was not synced for retry, or drop it from the queue once
+ * it has been. `problem` is null when the record was synced. Only the record's
+ * id is queued: retries re-fetch it, so edits made in Rubic meanwhile apply.
+ * A queued record outside this run's retry batch that syncs anyway is dropped
+ * when its own retry comes up and finds nothing left to do.
+ */
+async function trackRetry(
+	ctx: ChunkCtx,
+	run: Doc<"syncState">,
+	syncType: "invoices" | "payments",
+	queued: Set<number>,
+	rubicId: number,
+	problem: string | null,
+): Promise<void> {
+	const key = {
+		organizationId: run.organizationId,
+		syncType,
+		tripletexEnv: run.tripletexEnv,
+		rubicId,
+	};
 
-			const rubicInvoices = await rubicClient.getInvoices(startPeriod, endPeriod);
+	if (problem === null) {
+		if (queued.delete(rubicId)) {
+			await ctx.runMutation(internal.syncRetries.resolve, key);
+		}
+		return;
+	}
 
-			const customerMappings = await ctx.runQuery(internal.customerMapping.listInternal, {
-				organizationId: args.organizationId,
-				tripletexEnv: args.tripletexEnv,
-				limit: 10000,
+	queued.add(rubicId);
+	await ctx.runMutation(internal.syncRetries.record, {
+		...key,
+		error: problem,
+		syncStateId: run._id,
+	});
+}
+
+/**
+ * Finish a chunked run whose period has been fully paged through. Incremental
+ * runs move the watermark to the end of their period: every record in it was
+ * either synced or is in the retry queue. Dry runs leave it alone.
+ */
+async function completeChunkedRun(
+	ctx: ChunkCtx,
+	run: Doc<"syncState">,
+	syncType: "invoices" | "payments",
+	counts: { recordsProcessed: number; recordsFailed: number; recordsSkipped: number },
+): Promise<void> {
+	if (run.mode !== "backfill" && !run.dryRun && run.windowEnd !== undefined) {
+		await ctx.runMutation(internal.syncWatermarks.advance, {
+			organizationId: run.organizationId,
+			syncType,
+			tripletexEnv: run.tripletexEnv,
+			watermark: run.windowEnd,
+			syncStateId: run._id,
+		});
+	}
+
+	await ctx.runMutation(internal.syncState.complete, {
+		syncStateId: run._id,
+		...counts,
+		lastSyncAt: run.windowEnd,
+	});
+}
+
+/** What invoice sync needs to know about an invoice already in Tripletex. */
+type MappedInvoice = Pick<
+	Doc<"invoiceMapping">,
+	"_id" | "tripletexInvoiceId" | "creditedAmount" | "settledAt" | "staleAt" | "pendingCredit"
+>;
+
+/** Rubic balances below this are rounding noise; the invoice counts as settled. */
+const SETTLED_BALANCE_TOLERANCE = 0.005;
+
+/**
+ * Process invoice pages of a run until the period is exhausted or the time
+ * budget runs out, in which case a continuation is scheduled with the lease.
+ * Incremental runs then re-attempt queued invoices from earlier periods.
+ */
+async function runInvoiceChunk(
+	ctx: ChunkCtx,
+	syncStateId: Id<"syncState">,
+	lease: SyncLease,
+): Promise<ChunkedSyncResult> {
+	const run = await loadChunkedRun(ctx, syncStateId);
+
+	let processed = run.recordsProcessed;
+	let failed = run.recordsFailed;
+	let skipped = run.recordsSkipped ?? 0;
+	let cursor: SyncCursor = run.cursor ?? { pageNo: 1 };
+
+	const progress = () => ({
+		cursor,
+		recordsProcessed: processed,
+		recordsFailed: failed,
+		recordsSkipped: skipped,
+	});
+	const heartbeat = createHeartbeat(ctx, syncStateId, progress);
+	const dryRun = run.dryRun ?? false;
+	const plan = createSyncPlan(ctx, syncStateId);
+
+	try {
+		const creds = await getCredentials(ctx, run.organizationId, run.tripletexEnv);
+		const rubicClient = new RubicClient(creds.rubic);
+		const tripletexClient = new TripletexClient(creds.tripletex);
+
+		const settings = await ctx.runQuery(internal.syncSettings.getInternal, {
+			organizationId: run.organizationId,
+			tripletexEnv: run.tripletexEnv,
+		});
+		const strictInvoiceLines = settings?.strictInvoiceLines ?? false;
+
+		const customerMappings = await ctx.runQuery(internal.customerMapping.listInternal, {
+			organizationId: run.organizationId,
+			tripletexEnv: run.tripletexEnv,
+			limit: 10000,
+		});
+		// Stale mappings point at deleted records and count as unmapped until repaired
+		const customerMap = new Map<string, number>();
+		for (const m of customerMappings) {
+			if (m.staleAt === undefined) customerMap.set(m.rubicCustomerNo, m.tripletexCustomerId);
+		}
+
+		const productMappings = await ctx.runQuery(internal.productMapping.listInternal, {
+			organizationId: run.organizationId,
+			tripletexEnv: run.tripletexEnv,
+			limit: 10000,
+		});
+		const productMap = new Map<string, number>();
+		for (const m of productMappings) {
+			if (m.staleAt === undefined) productMap.set(m.rubicProductCode, m.tripletexProductId);
+		}
+
+		const vatRules = await ctx.runQuery(internal.vatMapping.listInternal, {
+			organizationId: run.organizationId,
+			tripletexEnv: run.tripletexEnv,
+		});
+		const departmentPolicy = await loadDepartmentPolicy(ctx, run.organizationId, run.tripletexEnv);
+		const lineFieldRules = await loadFieldRules(ctx, run.organizationId, "invoiceLine");
+
+		const existingInvoiceMappings = await ctx.runQuery(internal.invoiceMapping.listInternal, {
+			organizationId: run.organizationId,
+			tripletexEnv: run.tripletexEnv,
+			limit: 10000,
+		});
+		const invoiceMappings = new Map<number, MappedInvoice>(
+			existingInvoiceMappings.map((m) => [m.rubicInvoiceId, m]),
+		);
+
+		const existingSkips = await ctx.runQuery(internal.invoiceSkips.listInternal, {
+			organizationId: run.organizationId,
+			tripletexEnv: run.tripletexEnv,
+		});
+		const skippedInvoiceIds = new Set(existingSkips.map((s) => s.rubicInvoiceId));
+
+		const retries = await ctx.runQuery(internal.syncRetries.listInternal, {
+			organizationId: run.organizationId,
+			syncType: "invoices",
+			tripletexEnv: run.tripletexEnv,
+			limit: RETRY_BATCH_SIZE,
+		});
+		const queuedInvoiceIds = new Set<number>(retries.map((r) => r.rubicId));
+		const attemptedInvoiceIds = new Set<number>();
+
+		/** Record a credit created in Tripletex on the invoice mapping. */
+		const recordCredit = async (
+			invoice: RubicInvoice,
+			mapping: MappedInvoice,
+			creditNoteId: number,
+			credit: { amount: number; full: boolean },
+		) => {
+			await ctx.runMutation(internal.invoiceMapping.recordCreditNote, {
+				invoiceMappingId: mapping._id,
+				tripletexInvoiceId: creditNoteId,
+				amount: credit.amount,
+				full: credit.full,
+			});
+			invoiceMappings.set(invoice.invoiceID, {
+				...mapping,
+				creditedAmount: (mapping.creditedAmount ?? 0) + credit.amount,
+				pendingCredit: undefined,
 			});
-			const customerMap = new Map<string, number>();
-			for (const m of customerMappings) {
-				customerMap.set(m.rubicCustomerNo, m.tripletexCustomerId);
+		};
+
+		/**
+		 * Mirror credits Rubic has made on an invoice that is already in Tripletex.
+		 * Returns false when there was nothing new to credit.
+		 */
+		const syncCredit = async (
+			invoice: RubicInvoice,
+			mapping: MappedInvoice,
+			label: string,
+		): Promise<boolean> => {
+			const credit = planCredit(invoice, mapping.creditedAmount ?? 0);
+			if (!credit) return false;
+
+			const description = `${credit.full ? "Full" : "Partial"} credit note of ${credit.amount.toFixed(2)}`;
+			if (mapping.staleAt !== undefined) {
+				// Invoices are booked documents: a deleted one is never recreated
+				const message = `Tripletex invoice ${mapping.tripletexInvoiceId} is gone; ${description.toLowerCase()} not created`;
+				if (!dryRun) throw new Error(message);
+				await plan.add({
+					entityType: "invoice",
+					rubicKey: String(invoice.invoiceID),
+					label,
+					tripletexId: mapping.tripletexInvoiceId,
+					action: "skip",
+					message,
+				});
+				return true;
+			}
+			if (dryRun) {
+				await plan.add({
+					entityType: "invoice",
+					rubicKey: String(invoice.invoiceID),
+					label,
+					tripletexId: mapping.tripletexInvoiceId,
+					action: "update",
+					amount: -credit.amount,
+					message: description,
+				});
+				return true;
 			}
 
-			const productMappings = await ctx.runQuery(internal.productMapping.listInternal, {
-				organizationId: args.organizationId,
-				tripletexEnv: args.tripletexEnv,
-				limit: 10000,
-			});
-			const productMap = new Map<string, number>();
-			for (const m of productMappings) {
-				productMap.set(m.rubicProductCode, m.tripletexProductId);
+			// An interrupted attempt may have created the credit without recording it
+			const pending = mapping.pendingCredit;
+			if (pending) {
+				const candidates = await tripletexClient.searchCreditCandidates(
+					pending.creditDate,
+					addDays(pending.creditDate, 1),
+				);
+				const createdId = findCreatedCredit(candidates, mapping.tripletexInvoiceId, pending);
+				if (createdId !== undefined) {
+					await recordCredit(invoice, mapping, createdId, pending);
+					return true;
+				}
 			}
 
-			const existingInvoiceMappings = await ctx.runQuery(internal.invoiceMapping.listInternal, {
-				organizationId: args.organizationId,
-				tripletexEnv: args.tripletexEnv,
-				limit: 10000,
+			// A partial credit order that was never invoiced is invoiced now rather than created again
+			const reuseOrderId =
+				pending && !pending.full && !credit.full && pending.amount === credit.amount
+					? pending.orderId
+					: undefined;
+			const creditDate =
+				reuseOrderId !== undefined && pending
+					? pending.creditDate
+					: new Date().toISOString().slice(0, 10);
+			await ctx.runMutation(internal.invoiceMapping.beginCredit, {
+				invoiceMappingId: mapping._id,
+				amount: credit.amount,
+				full: credit.full,
+				creditDate,
+				orderId: reuseOrderId,
 			});
-			const syncedInvoiceIds = new Set(existingInvoiceMappings.map((m) => m.rubicInvoiceId));
 
-			for (const invoice of rubicInvoices) {
+			let creditNoteId: number | undefined;
+			if (credit.full) {
 				try {
-					if (syncedInvoiceIds.has(invoice.invoiceID)) {
-						processed++;
-						continue;
-					}
-
+					const response = await tripletexClient.createCreditNote(
+						mapping.tripletexInvoiceId,
+						creditDate,
+						`Credited in Rubic (invoice ${invoice.invoiceNumber})`,
+					);
+					creditNoteId = response.value.id;
+				} catch (error) {
+					if (!isTripletexRecordGone(error)) throw error;
+					await ctx.runMutation(internal.invoiceMapping.setStale, {
+						ids: [mapping._id],
+						stale: true,
+					});
+					invoiceMappings.set(invoice.invoiceID, { ...mapping, staleAt: Date.now() });
+					throw new Error(`Tripletex invoice ${mapping.tripletexInvoiceId} is gone`);
+				}
+			} else {
+				let orderId = reuseOrderId;
+				if (orderId === undefined) {
 					const customerNo = invoice.customer.customerNo;
-					if (!customerNo) {
-						failed++;
-						continue;
+					const tripletexCustomerId = customerNo ? customerMap.get(customerNo) : undefined;
+					if (!tripletexCustomerId) {
+						throw new Error(`Customer ${customerNo ?? "(none)"} is not mapped to Tripletex`);
 					}
+					const department = resolveInvoiceDepartment(departmentPolicy, invoice.invoiceLines ?? []);
+					const order = mapPartialCreditToTripletexOrder(
+						invoice,
+						tripletexCustomerId,
+						credit.amount,
+						creditDate,
+						{
+							vatTypeId: resolveVatTypeId(vatRules, {
+								taxPercent: getAverageTaxPercent(invoice),
+							}),
+							departmentId: department.ok ? department.departmentId : undefined,
+						},
+					);
+					const orderResponse = await tripletexClient.createOrder(order);
+					orderId = orderResponse.value.id;
+					if (!orderId) {
+						throw new Error("Failed to create credit order: no ID returned");
+					}
+					await ctx.runMutation(internal.invoiceMapping.beginCredit, {
+						invoiceMappingId: mapping._id,
+						amount: credit.amount,
+						full: credit.full,
+						creditDate,
+						orderId,
+					});
+				}
+				const response = await tripletexClient.createInvoiceFromOrder(orderId, creditDate);
+				creditNoteId = response.value.id;
+			}
+			if (!creditNoteId) {
+				throw new Error("Failed to create credit note: no ID returned");
+			}
 
-					const tripletexCustomerId = customerMap.get(customerNo);
-					if (!tripletexCustomerId) {
-						failed++;
-						continue;
+			await recordCredit(invoice, mapping, creditNoteId, credit);
+			return true;
+		};
+
+		/** Sync one invoice. Returns why it was not synced, or null when it was. */
+		const syncInvoice = async (invoice: RubicInvoice): Promise<string | null> => {
+			try {
+				const label = `Invoice ${invoice.invoiceNumber}`;
+
+				const existingMapping = invoiceMappings.get(invoice.invoiceID);
+				if (existingMapping) {
+					const credited = await syncCredit(invoice, existingMapping, label);
+					if (
+						!dryRun &&
+						existingMapping.settledAt === undefined &&
+						invoice.balance < SETTLED_BALANCE_TOLERANCE
+					) {
+						await ctx.runMutation(internal.invoiceMapping.markSettled, {
+							invoiceMappingId: existingMapping._id,
+						});
+						invoiceMappings.set(invoice.invoiceID, { ...existingMapping, settledAt: Date.now() });
 					}
+					if (!credited && dryRun) {
+						await plan.add({
+							entityType: "invoice",
+							rubicKey: String(invoice.invoiceID),
+							label,
+							action: "unchanged",
+						});
+					}
+					processed++;
+					return null;
+				}
 
-					if (!invoice.invoiceLines || invoice.invoiceLines.length === 0) {
-						failed++;
-						continue;
+				const skipInvoice = async (reason: InvoiceSkipReason, details: string) => {
+					skipped++;
+					if (dryRun) {
+						await plan.add({
+							entityType: "invoice",
+							rubicKey: String(invoice.invoiceID),
+							label,
+							action: "skip",
+							message: details,
+						});
+					} else {
+						await ctx.runMutation(internal.invoiceSkips.upsert, {
+							organizationId: run.organizationId,
+							rubicInvoiceId: invoice.invoiceID,
+							tripletexEnv: run.tripletexEnv,
+							rubicInvoiceNumber: invoice.invoiceNumber,
+							reason,
+							details,
+							syncStateId,
+						});
 					}
+					await recordSyncIssue(ctx, syncStateId, {
+						entityType: "invoice",
+						rubicKey: String(invoice.invoiceID),
+						outcome: "skipped",
+						category: INVOICE_SKIP_CATEGORY[reason],
+						skipReason: reason,
+						message: details,
+					});
+					return details;
+				};
+
+				const customerNo = invoice.customer.customerNo;
+				if (!customerNo) {
+					return await skipInvoice(
+						"missing_customer_no",
+						"Invoice customer has no customer number",
+					);
+				}
 
-					const validLines = invoice.invoiceLines.filter(
-						(line) => line.productCode && productMap.has(line.productCode),
+				const tripletexCustomerId = customerMap.get(customerNo);
+				if (!tripletexCustomerId) {
+					return await skipInvoice(
+						"customer_not_mapped",
+						`Customer ${customerNo} is not mapped to Tripletex`,
 					);
-					if (validLines.length === 0) {
-						failed++;
-						continue;
-					}
+				}
 
-					const order = mapRubicInvoiceToTripletexOrder(invoice, tripletexCustomerId, productMap);
+				if (!invoice.invoiceLines || invoice.invoiceLines.length === 0) {
+					return await skipInvoice("no_lines", "Invoice has no lines");
+				}
 
-					const orderResponse = await tripletexClient.createOrder(order);
-					if (!orderResponse.value.id) {
-						throw new Error("Failed to create order: no ID returned");
-					}
+				const unmappedLines = findUnmappedInvoiceLines(invoice, productMap);
+				const droppedProductCodes = unmappedLines.map((line) => line.productCode ?? "(none)");
+				if (unmappedLines.length === invoice.invoiceLines.length) {
+					return await skipInvoice(
+						"no_mapped_products",
+						`None of the ${invoice.invoiceLines.length} invoice lines have a mapped product`,
+					);
+				}
+				if (unmappedLines.length > 0 && strictInvoiceLines) {
+					return await skipInvoice(
+						"partial_lines_dropped",
+						`${unmappedLines.length} of ${invoice.invoiceLines.length} lines have no mapped product (${droppedProductCodes.join(", ")})`,
+					);
+				}
 
-					const invoiceResponse = await tripletexClient.createInvoiceFromOrder(
-						orderResponse.value.id,
-						invoice.invoiceDate,
+				// Only lines that make it onto the order decide its department
+				const orderedLines = invoice.invoiceLines.filter((line) => !unmappedLines.includes(line));
+				const department = resolveInvoiceDepartment(departmentPolicy, orderedLines);
+				if (!department.ok) {
+					return await skipInvoice(
+						"department_not_mapped",
+						`Rubic department ${department.unmappedDepartmentId} is not mapped to Tripletex`,
 					);
-					if (!invoiceResponse.value.id) {
-						throw new Error("Failed to create invoice: no ID returned");
-					}
+				}
 
-					await ctx.runMutation(internal.invoiceMapping.upsert, {
-						organizationId: args.organizationId,
+				const order = mapRubicInvoiceToTripletexOrder(invoice, tripletexCustomerId, productMap, {
+					strict: strictInvoiceLines,
+					vatTypeForLine: (line) => resolveVatTypeId(vatRules, { taxPercent: line.taxPercentage }),
+					departmentId: department.departmentId,
+					lineFieldRules,
+				});
+
+				if (dryRun) {
+					const summary = summarizeOrderLines(order.orderLines);
+					await plan.add({
+						entityType: "invoice",
+						rubicKey: String(invoice.invoiceID),
+						label,
+						action: "create",
+						lines: summary.lines,
+						amount: summary.total,
+						message:
+							droppedProductCodes.length > 0
+								? `Lines without a mapped product are dropped (${droppedProductCodes.join(", ")})`
+								: undefined,
+					});
+					processed++;
+					return null;
+				}
+
+				const orderResponse = await tripletexClient.createOrder(order);
+				if (!orderResponse.value.id) {
+					throw new Error("Failed to create order: no ID returned");
+				}
+
+				const invoiceResponse = await tripletexClient.createInvoiceFromOrder(
+					orderResponse.value.id,
+					invoice.invoiceDate,
+				);
+				if (!invoiceResponse.value.id) {
+					throw new Error("Failed to create invoice: no ID returned");
+				}
+
+				const invoiceMappingId = await ctx.runMutation(internal.invoiceMapping.upsert, {
+					organizationId: run.organizationId,
+					rubicInvoiceId: invoice.invoiceID,
+					tripletexEnv: run.tripletexEnv,
+					rubicInvoiceNumber: invoice.invoiceNumber,
+					tripletexInvoiceId: invoiceResponse.value.id,
+					droppedProductCodes: droppedProductCodes.length > 0 ? droppedProductCodes : undefined,
+				});
+				const mapping: MappedInvoice = {
+					_id: invoiceMappingId,
+					tripletexInvoiceId: invoiceResponse.value.id,
+				};
+				invoiceMappings.set(invoice.invoiceID, mapping);
+
+				// An invoice credited before its first sync is created in full, then credited
+				await syncCredit(invoice, mapping, label);
+				if (invoice.balance < SETTLED_BALANCE_TOLERANCE) {
+					await ctx.runMutation(internal.invoiceMapping.markSettled, {
+						invoiceMappingId,
+					});
+				}
+
+				if (skippedInvoiceIds.has(invoice.invoiceID)) {
+					await ctx.runMutation(internal.invoiceSkips.clear, {
+						organizationId: run.organizationId,
 						rubicInvoiceId: invoice.invoiceID,
-						tripletexEnv: args.tripletexEnv,
-						rubicInvoiceNumber: invoice.invoiceNumber,
-						tripletexInvoiceId: invoiceResponse.value.id,
+						tripletexEnv: run.tripletexEnv,
 					});
+				}
 
-					processed++;
+				if (droppedProductCodes.length > 0) {
+					console.warn(
+						`Invoice ${invoice.invoiceID} synced without ${droppedProductCodes.length} unmapped line(s)`,
+					);
+				}
+
+				processed++;
+				return null;
+			} catch (error) {
+				failed++;
+				console.error(
+					`Failed to sync invoice ${invoice.invoiceID}:`,
+					error instanceof Error ? error.message : String(error),
+				);
+				const issue = failedIssue("invoice", String(invoice.invoiceID), error);
+				await recordSyncIssue(ctx, syncStateId, issue);
+				return issue.message;
+			}
+		};
+
+		const handleInvoice = async (invoice: RubicInvoice) => {
+			attemptedInvoiceIds.add(invoice.invoiceID);
+			const problem = await syncInvoice(invoice);
+			if (dryRun) return;
+			await trackRetry(ctx, run, "invoices", queuedInvoiceIds, invoice.invoiceID, problem);
+		};
+
+		const startPeriod = run.windowStart !== undefined ? new Date(run.windowStart) : undefined;
+		const endPeriod = new Date(run.windowEnd ?? Date.now());
+		const deadline = Date.now() + CHUNK_TIME_BUDGET_MS;
+
+		while (true) {
+			const page = await rubicClient.getInvoicesPage(
+				{ pageNo: cursor.pageNo, pageSize: CHUNK_PAGE_SIZE },
+				startPeriod,
+				endPeriod,
+			);
+
+			for (const invoice of itemsAfterCursor(page, cursor, (i) => i.invoiceID)) {
+				await heartbeat();
+				try {
+					await handleInvoice(invoice);
+				} finally {
+					cursor = { pageNo: cursor.pageNo, lastRubicId: invoice.invoiceID };
+				}
+			}
+
+			if (page.length < CHUNK_PAGE_SIZE) break;
+
+			cursor = { pageNo: cursor.pageNo + 1 };
+			await plan.flush();
+			await ctx.runMutation(internal.syncState.checkpoint, { syncStateId, ...progress() });
+
+			if (Date.now() >= deadline) {
+				await ctx.scheduler.runAfter(0, internal.sync.continueInvoices, {
+					syncStateId,
+					leaseId: lease.leaseId,
+				});
+				lease.handOff();
+				return { processed, failed, skipped, continued: true };
+			}
+		}
+
+		// Credits are dated when they are made, not on the invoice they credit: mapped
+		// invoices with Rubic activity in the window are checked for new credits too.
+		// A window without a start already covers every invoice.
+		const activeInvoiceIds = new Set(
+			startPeriod
+				? (await rubicClient.getInvoiceTransactions(startPeriod, endPeriod)).map((t) => t.invoiceID)
+				: [],
+		);
+		const creditChecks = [...activeInvoiceIds].filter(
+			(invoiceId) => invoiceMappings.has(invoiceId) && !attemptedInvoiceIds.has(invoiceId),
+		);
+		const uncheckedInvoiceIds = await checkCreditsUntil(
+			creditChecks,
+			deadline,
+			async (invoiceId) => {
+				const mapping = invoiceMappings.get(invoiceId);
+				if (!mapping) return;
+				attemptedInvoiceIds.add(invoiceId);
+				await heartbeat();
+				let problem: string | null = null;
+				try {
+					const invoice = await rubicClient.getInvoice(invoiceId);
+					if (invoice && (await syncCredit(invoice, mapping, `Invoice ${invoice.invoiceNumber}`))) {
+						processed++;
+					}
 				} catch (error) {
 					failed++;
 					console.error(
-						`Failed to sync invoice ${invoice.invoiceID}:`,
+						`Failed to sync credit for invoice ${invoiceId}:`,
 						error instanceof Error ? error.message : String(error),
 					);
+					const issue = failedIssue("invoice", String(invoiceId), error);
+					await recordSyncIssue(ctx, syncStateId, issue);
+					problem = issue.message;
+				}
+				// Queued on failure: the retry pass re-fetches the invoice, which syncs the credit
+				if (!dryRun) {
+					await trackRetry(ctx, run, "invoices", queuedInvoiceIds, invoiceId, problem);
 				}
+			},
+		);
+		// The watermark moves past this window, so invoices left unchecked wait in the queue
+		if (!dryRun) {
+			for (const invoiceId of uncheckedInvoiceIds) {
+				await trackRetry(
+					ctx,
+					run,
+					"invoices",
+					queuedInvoiceIds,
+					invoiceId,
+					"Credit check did not fit in the run's time budget",
+				);
 			}
+		}
 
-			await ctx.runMutation(internal.syncState.complete, {
-				syncStateId,
-				recordsProcessed: processed,
-				recordsFailed: failed,
+		if (run.mode !== "backfill") {
+			// Whatever does not fit in the remaining budget is retried by the next run
+			for (const retry of retries) {
+				if (Date.now() >= deadline) break;
+				if (retry.lastSyncStateId === syncStateId || attemptedInvoiceIds.has(retry.rubicId)) {
+					continue;
+				}
+				await heartbeat();
+				let invoice: RubicInvoice | null;
+				try {
+					invoice = await rubicClient.getInvoice(retry.rubicId);
+				} catch (error) {
+					// Stays queued for the next run
+					console.error(
+						`Failed to re-fetch invoice ${retry.rubicId} for retry:`,
+						error instanceof Error ? error.message : String(error),
+					);
+					continue;
+				}
+				if (invoice) {
+					await handleInvoice(invoice);
+				} else if (!dryRun) {
+					// Deleted in Rubic: nothing left to sync
+					await trackRetry(ctx, run, "invoices", queuedInvoiceIds, retry.rubicId, null);
+				}
+			}
+		}
+
+		await plan.flush();
+		await completeChunkedRun(ctx, run, "invoices", {
+			recordsProcessed: processed,
+			recordsFailed: failed,
+			recordsSkipped: skipped,
+		});
+
+		return { processed, failed, skipped, continued: false };
+	} catch (error) {
+		// The cursor is kept on the failed run so the next run resumes from here
+		await ctx.runMutation(internal.syncState.fail, {
+			syncStateId,
+			errorMessage: error instanceof Error ? error.message : String(error),
+			...progress(),
+		});
+		throw error;
+	}
+}
+
+/** Look up the Tripletex accounts configured for payment fee vouchers. */
+async function resolveFeeAccounts(
+	tripletexClient: TripletexClient,
+	accountNumbers: { expenseAccountNumber: number; counterAccountNumber: number },
+): Promise<FeeVoucherAccounts> {
+	const [expense, counter] = await Promise.all([
+		tripletexClient.getAccountByNumber(accountNumbers.expenseAccountNumber),
+		tripletexClient.getAccountByNumber(accountNumbers.counterAccountNumber),
+	]);
+	if (!expense) {
+		throw new Error(`Tripletex account ${accountNumbers.expenseAccountNumber} not found`);
+	}
+	if (!counter) {
+		throw new Error(`Tripletex account ${accountNumbers.counterAccountNumber} not found`);
+	}
+	return { expenseAccountId: expense.id, counterAccountId: counter.id };
+}
+
+/**
+ * Process payment transaction pages of a run; same chunking and retry queue as
+ * invoices. Payments for invoices that are not synced yet wait in the queue.
+ */
+async function runPaymentChunk(
+	ctx: ChunkCtx,
+	syncStateId: Id<"syncState">,
+	lease: SyncLease,
+): Promise<ChunkedSyncResult> {
+	const run = await loadChunkedRun(ctx, syncStateId);
+
+	let processed = run.recordsProcessed;
+	let failed = run.recordsFailed;
+	let skipped = run.recordsSkipped ?? 0;
+	let cursor: SyncCursor = run.cursor ?? { pageNo: 1 };
+
+	const progress = () => ({
+		cursor,
+		recordsProcessed: processed,
+		recordsFailed: failed,
+		recordsSkipped: skipped,
+	});
+	const heartbeat = createHeartbeat(ctx, syncStateId, progress);
+	const dryRun = run.dryRun ?? false;
+	const plan = createSyncPlan(ctx, syncStateId);
+
+	try {
+		const creds = await getCredentials(ctx, run.organizationId, run.tripletexEnv);
+		const rubicClient = new RubicClient(creds.rubic);
+		const tripletexClient = new TripletexClient(creds.tripletex);
+
+		const invoiceMappings = await ctx.runQuery(internal.invoiceMapping.listInternal, {
+			organizationId: run.organizationId,
+			tripletexEnv: run.tripletexEnv,
+			limit: 10000,
+		});
+		const invoiceMap = new Map<number, (typeof invoiceMappings)[number]>();
+		for (const m of invoiceMappings) {
+			invoiceMap.set(m.rubicInvoiceId, m);
+		}
+
+		const retries = await ctx.runQuery(internal.syncRetries.listInternal, {
+			organizationId: run.organizationId,
+			syncType: "payments",
+			tripletexEnv: run.tripletexEnv,
+			limit: RETRY_BATCH_SIZE,
+		});
+		const queuedTransactionIds = new Set<number>(retries.map((r) => r.rubicId));
+		const attemptedTransactionIds = new Set<number>();
+
+		const settings = await ctx.runQuery(internal.syncSettings.getInternal, {
+			organizationId: run.organizationId,
+			tripletexEnv: run.tripletexEnv,
+		});
+		const feeAccounts = settings?.paymentFeeVoucher
+			? await resolveFeeAccounts(tripletexClient, settings.paymentFeeVoucher)
+			: null;
+		const paymentTypeRules = await ctx.runQuery(internal.paymentTypeMapping.listInternal, {
+			organizationId: run.organizationId,
+			tripletexEnv: run.tripletexEnv,
+		});
+		const defaultPaymentTypeId = settings?.defaultPaymentType?.id;
+
+		/** Post a transaction's fee as an expense voucher and record it on its payment mapping. */
+		const postFeeVoucher = async (
+			transaction: RubicInvoiceTransaction,
+			accounts: FeeVoucherAccounts,
+			paymentMappingId: Id<"paymentMapping">,
+		) => {
+			const voucher = buildPaymentFeeVoucher(transaction, accounts);
+			if (!voucher) return;
+
+			const response = await tripletexClient.createVoucher(voucher);
+			if (!response.value.id) {
+				throw new Error("Failed to create fee voucher: no ID returned");
+			}
+			await ctx.runMutation(internal.paymentMapping.setFeeVoucher, {
+				paymentMappingId,
+				feeVoucherId: response.value.id,
 			});
+		};
 
-			return { processed, failed };
-		} catch (error) {
-			await ctx.runMutation(internal.syncState.fail, {
-				syncStateId,
-				errorMessage: error instanceof Error ? error.message : String(error),
-				recordsProcessed: processed,
-				recordsFailed: failed,
+		/** Mark the invoice settled once Rubic's balance reaches zero. Best-effort. */
+		const settleIfPaid = async (mapping: (typeof invoiceMappings)[number]) => {
+			try {
+				const invoice = await rubicClient.getInvoice(mapping.rubicInvoiceId);
+				if (!invoice || invoice.balance >= SETTLED_BALANCE_TOLERANCE) return;
+				await ctx.runMutation(internal.invoiceMapping.markSettled, {
+					invoiceMappingId: mapping._id,
+				});
+				invoiceMap.set(mapping.rubicInvoiceId, { ...mapping, settledAt: Date.now() });
+			} catch (error) {
+				console.error(
+					`Failed to check whether invoice ${mapping.rubicInvoiceId} is settled:`,
+					error instanceof Error ? error.message : String(error),
+				);
+			}
+		};
+
+		/** Sync one payment. Returns why it was not synced, or null when it was. */
+		const syncPayment = async (transaction: RubicInvoiceTransaction): Promise<string | null> => {
+			const mapping = invoiceMap.get(transaction.invoiceID);
+			const label = `Invoice ${transaction.invoiceNumber}`;
+
+			try {
+				if (!mapping) {
+					const message = `Invoice ${transaction.invoiceID} has not been synced to Tripletex yet`;
+					skipped++;
+					if (dryRun) {
+						await plan.add({
+							entityType: "payment",
+							rubicKey: String(transaction.invoiceTransactionID),
+							label,
+							action: "skip",
+							amount: transaction.paidAmount,
+							message,
+						});
+					}
+					await recordSyncIssue(ctx, syncStateId, {
+						entityType: "payment",
+						rubicKey: String(transaction.invoiceTransactionID),
+						outcome: "skipped",
+						category: "not_mapped",
+						message,
+					});
+					return message;
+				}
+				const fee = getGrossPaymentFee(transaction);
+
+				const existingPayment = await ctx.runQuery(
+					internal.paymentMapping.getByRubicTransactionId,
+					{
+						organizationId: run.organizationId,
+						rubicTransactionId: transaction.invoiceTransactionID,
+						tripletexEnv: run.tripletexEnv,
+					},
+				);
+				if (existingPayment) {
+					if (
+						!feeAccounts ||
+						fee <= 0 ||
+						existingPayment.fee === undefined ||
+						existingPayment.feeVoucherId !== undefined
+					) {
+						return null;
+					}
+					// The payment is registered but posting its fee failed last time
+					if (dryRun) {
+						await plan.add({
+							entityType: "payment",
+							rubicKey: String(transaction.invoiceTransactionID),
+							label,
+							tripletexId: mapping.tripletexInvoiceId,
+							action: "update",
+							amount: fee,
+							message: "Post payment fee voucher",
+						});
+					} else {
+						await postFeeVoucher(transaction, feeAccounts, existingPayment._id);
+					}
+					processed++;
+					return null;
+				}
+
+				/** Skip a payment whose Tripletex invoice is gone; it stays queued for retry. */
+				const skipStaleInvoice = async () => {
+					const message = `Tripletex invoice ${mapping.tripletexInvoiceId} is gone; the payment cannot be registered`;
+					skipped++;
+					if (dryRun) {
+						await plan.add({
+							entityType: "payment",
+							rubicKey: String(transaction.invoiceTransactionID),
+							label,
+							tripletexId: mapping.tripletexInvoiceId,
+							action: "skip",
+							amount: transaction.paidAmount,
+							message,
+						});
+					}
+					await recordSyncIssue(ctx, syncStateId, {
+						entityType: "payment",
+						rubicKey: String(transaction.invoiceTransactionID),
+						tripletexId: mapping.tripletexInvoiceId,
+						outcome: "skipped",
+						category: "not_mapped",
+						message,
+					});
+					return message;
+				};
+				if (mapping.staleAt !== undefined) return await skipStaleInvoice();
+
+				const markInvoiceGone = async () => {
+					await ctx.runMutation(internal.invoiceMapping.setStale, {
+						ids: [mapping._id],
+						stale: true,
+					});
+					invoiceMap.set(transaction.invoiceID, { ...mapping, staleAt: Date.now() });
+					return await skipStaleInvoice();
+				};
+
+				// The old single-payment flow registered one payment per invoice without a
+				// paymentMapping row. What Tripletex shows as paid beyond the recorded rows is
+				// that payment: a transaction it covers is recorded, not registered again.
+				if (mapping.paymentSynced) {
+					let tripletexInvoice: TripletexInvoice;
+					try {
+						tripletexInvoice = (await tripletexClient.getInvoice(mapping.tripletexInvoiceId)).value;
+					} catch (error) {
+						if (!isTripletexRecordGone(error)) throw error;
+						return await markInvoiceGone();
+					}
+					const recorded = await ctx.runQuery(internal.paymentMapping.listByInvoiceInternal, {
+						organizationId: run.organizationId,
+						tripletexEnv: run.tripletexEnv,
+						rubicInvoiceId: transaction.invoiceID,
+					});
+					const legacyPaid = getLegacyPaidAmount(tripletexInvoice, recorded);
+					if (transaction.paidAmount <= legacyPaid + SETTLED_BALANCE_TOLERANCE) {
+						if (dryRun) {
+							await plan.add({
+								entityType: "payment",
+								rubicKey: String(transaction.invoiceTransactionID),
+								label,
+								tripletexId: mapping.tripletexInvoiceId,
+								action: "link",
+								amount: transaction.paidAmount,
+								message: "Registered by the earlier single-payment flow",
+							});
+						} else {
+							// No fee: the old flow posted no fee vouchers
+							await ctx.runMutation(internal.paymentMapping.record, {
+								organizationId: run.organizationId,
+								tripletexEnv: run.tripletexEnv,
+								rubicTransactionId: transaction.invoiceTransactionID,
+								rubicInvoiceId: transaction.invoiceID,
+								tripletexInvoiceId: mapping.tripletexInvoiceId,
+								amount: transaction.paidAmount,
+								paymentDate: transaction.paymentDate,
+							});
+							if (mapping.settledAt === undefined) await settleIfPaid(mapping);
+						}
+						processed++;
+						return null;
+					}
+				}
+
+				const paymentTypeId = resolvePaymentTypeId(
+					paymentTypeRules,
+					defaultPaymentTypeId,
+					transaction.transactionTypeName,
+				);
+				if (paymentTypeId === undefined) {
+					const message = `No Tripletex payment type for transaction type "${transaction.transactionTypeName ?? "unknown"}"`;
+					skipped++;
+					if (dryRun) {
+						await plan.add({
+							entityType: "payment",
+							rubicKey: String(transaction.invoiceTransactionID),
+							label,
+							tripletexId: mapping.tripletexInvoiceId,
+							action: "skip",
+							amount: transaction.paidAmount,
+							message,
+						});
+					}
+					await recordSyncIssue(ctx, syncStateId, {
+						entityType: "payment",
+						rubicKey: String(transaction.invoiceTransactionID),
+						tripletexId: mapping.tripletexInvoiceId,
+						outcome: "skipped",
+						category: "not_mapped",
+						message,
+					});
+					return message;
+				}
+
+				if (dryRun) {
+					await plan.add({
+						entityType: "payment",
+						rubicKey: String(transaction.invoiceTransactionID),
+						label,
+						tripletexId: mapping.tripletexInvoiceId,
+						action: "create",
+						amount: transaction.paidAmount,
+						message:
+							feeAccounts && fee > 0
+								? `Payment dated ${transaction.paymentDate}, fee voucher of ${fee.toFixed(2)}`
+								: `Payment dated ${transaction.paymentDate}`,
+					});
+					processed++;
+					return null;
+				}
+
+				try {
+					await tripletexClient.registerPayment(mapping.tripletexInvoiceId, {
+						paymentDate: transaction.paymentDate.slice(0, 10),
+						paymentTypeId,
+						paidAmount: transaction.paidAmount,
+					});
+				} catch (error) {
+					if (!isTripletexRecordGone(error)) throw error;
+					return await markInvoiceGone();
+				}
+
+				// Recorded before the fee so a failed voucher never re-registers the payment
+				const paymentMappingId = await ctx.runMutation(internal.paymentMapping.record, {
+					organizationId: run.organizationId,
+					tripletexEnv: run.tripletexEnv,
+					rubicTransactionId: transaction.invoiceTransactionID,
+					rubicInvoiceId: transaction.invoiceID,
+					tripletexInvoiceId: mapping.tripletexInvoiceId,
+					amount: transaction.paidAmount,
+					paymentDate: transaction.paymentDate,
+					paymentTypeId,
+					fee: fee > 0 ? fee : undefined,
+				});
+				if (feeAccounts && fee > 0) {
+					await postFeeVoucher(transaction, feeAccounts, paymentMappingId);
+				}
+				if (mapping.settledAt === undefined) await settleIfPaid(mapping);
+
+				processed++;
+				return null;
+			} catch (error) {
+				failed++;
+				console.error(
+					`Failed to sync payment for transaction ${transaction.invoiceTransactionID}:`,
+					error instanceof Error ? error.message : String(error),
+				);
+				const issue = failedIssue(
+					"payment",
+					String(transaction.invoiceTransactionID),
+					error,
+					mapping?.tripletexInvoiceId,
+				);
+				await recordSyncIssue(ctx, syncStateId, issue);
+				return issue.message;
+			}
+		};
+
+		const handlePayment = async (transaction: RubicInvoiceTransaction) => {
+			attemptedTransactionIds.add(transaction.invoiceTransactionID);
+			const problem = await syncPayment(transaction);
+			if (dryRun) return;
+			await trackRetry(
+				ctx,
+				run,
+				"payments",
+				queuedTransactionIds,
+				transaction.invoiceTransactionID,
+				problem,
+			);
+		};
+
+		const startPeriod = run.windowStart !== undefined ? new Date(run.windowStart) : undefined;
+		const endPeriod = new Date(run.windowEnd ?? Date.now());
+		const deadline = Date.now() + CHUNK_TIME_BUDGET_MS;
+
+		while (true) {
+			const page = await rubicClient.getInvoiceTransactionsPage(
+				{ pageNo: cursor.pageNo, pageSize: CHUNK_PAGE_SIZE },
+				startPeriod,
+				endPeriod,
+			);
+
+			for (const transaction of itemsAfterCursor(page, cursor, (t) => t.invoiceTransactionID)) {
+				await heartbeat();
+				try {
+					await handlePayment(transaction);
+				} finally {
+					cursor = { pageNo: cursor.pageNo, lastRubicId: transaction.invoiceTransactionID };
+				}
+			}
+
+			if (page.length < CHUNK_PAGE_SIZE) break;
+
+			cursor = { pageNo: cursor.pageNo + 1 };
+			await plan.flush();
+			await ctx.runMutation(internal.syncState.checkpoint, { syncStateId, ...progress() });
+
+			if (Date.now() >= deadline) {
+				await ctx.scheduler.runAfter(0, internal.sync.continuePayments, {
+					syncStateId,
+					leaseId: lease.leaseId,
+				});
+				lease.handOff();
+				return { processed, failed, skipped, continued: true };
+			}
+		}
+
+		if (run.mode !== "backfill") {
+			// Whatever does not fit in the remaining budget is retried by the next run
+			for (const retry of retries) {
+				if (Date.now() >= deadline) break;
+				if (retry.lastSyncStateId === syncStateId || attemptedTransactionIds.has(retry.rubicId)) {
+					continue;
+				}
+				await heartbeat();
+				let transaction: RubicInvoiceTransaction | null;
+				try {
+					transaction = await rubicClient.getInvoiceTransaction(retry.rubicId);
+				} catch (error) {
+					// Stays queued for the next run
+					console.error(
+						`Failed to re-fetch transaction ${retry.rubicId} for retry:`,
+						error instanceof Error ? error.message : String(error),
+					);
+					continue;
+				}
+				if (transaction) {
+					await handlePayment(transaction);
+				} else if (!dryRun) {
+					// Deleted in Rubic: nothing left to sync
+					await trackRetry(ctx, run, "payments", queuedTransactionIds, retry.rubicId, null);
+				}
+			}
+		}
+
+		await plan.flush();
+		await completeChunkedRun(ctx, run, "payments", {
+			recordsProcessed: processed,
+			recordsFailed: failed,
+			recordsSkipped: skipped,
+		});
+
+		return { processed, failed, skipped, continued: false };
+	} catch (error) {
+		// The cursor is kept on the failed run so the next run resumes from here
+		await ctx.runMutation(internal.syncState.fail, {
+			syncStateId,
+			errorMessage: error instanceof Error ? error.message : String(error),
+			...progress(),
+		});
+		throw error;
+	}
+}
+
+/**
+ * Continue a chunked run from its checkpoint. Returns null when the run is no
+ * longer running (the janitor may have given up on it in the meantime).
+ */
+async function continueChunkedRun(
+	ctx: ChunkCtx,
+	args: { syncStateId: Id<"syncState">; leaseId: string },
+	syncType: "invoices" | "payments",
+): Promise<ChunkedSyncResult | null> {
+	const run = await ctx.runQuery(internal.syncState.getInternal, {
+		syncStateId: args.syncStateId,
+	});
+	if (!run || run.status !== "running") {
+		// A pipeline waiting on this step must still hear how it ended
+		if (run?.parentRunId) {
+			await reportPipelineStep(ctx, run.parentRunId, {
+				step: syncType,
+				status: run.status === "success" ? "success" : "failed",
+				processed: run.recordsProcessed,
+				failed: run.recordsFailed,
+				skipped: run.recordsSkipped ?? 0,
+				error: run.status === "success" ? undefined : run.errorMessage,
 			});
-			throw error;
 		}
+		return null;
+	}
+
+	const runChunk = syncType === "invoices" ? runInvoiceChunk : runPaymentChunk;
+	return asPipelineStep(ctx, run.parentRunId, syncType, () =>
+		withSyncLock(
+			ctx,
+			run,
+			syncType,
+			(lease) => runChunk(ctx, args.syncStateId, lease),
+			args.leaseId,
+		),
+	);
+}
+
+// --- Invoice Sync (internal) ---
+
+export const runInvoices = internalAction({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnvValidator,
+		parentRunId: v.optional(v.id("syncState")),
+		// Fetch, map and diff only: nothing is written to Tripletex, the mappings or the retry queue
+		dryRun: v.optional(v.boolean()),
+	},
+	handler: async (ctx, args): Promise<ChunkedSyncResult> =>
+		asPipelineStep(ctx, args.parentRunId, "invoices", () =>
+			withSyncLock(ctx, args, "invoices", async (lease) => {
+				const syncStateId = await startChunkedRun(ctx, args, "invoices");
+				return runInvoiceChunk(ctx, syncStateId, lease);
+			}),
+		),
+});
+
+/** Scheduled continuation of a chunked invoice run — renews the run's lease. */
+export const continueInvoices = internalAction({
+	args: {
+		syncStateId: v.id("syncState"),
+		leaseId: v.string(),
 	},
+	handler: async (ctx, args): Promise<ChunkedSyncResult | null> =>
+		continueChunkedRun(ctx, args, "invoices"),
 });
 
 // --- Payment Sync (internal) ---
@@ -453,83 +2621,256 @@ export const runPayments = internalAction({
 	args: {
 		organizationId: v.id("organizations"),
 		tripletexEnv: tripletexEnvValidator,
+		parentRunId: v.optional(v.id("syncState")),
+		// Fetch, map and diff only: nothing is written to Tripletex, the mappings or the retry queue
+		dryRun: v.optional(v.boolean()),
 	},
-	handler: async (ctx, args) => {
-		const creds = await getCredentials(ctx, args.organizationId, args.tripletexEnv);
-		const rubicClient = new RubicClient(creds.rubic);
-		const tripletexClient = new TripletexClient(creds.tripletex);
+	handler: async (ctx, args): Promise<ChunkedSyncResult> =>
+		asPipelineStep(ctx, args.parentRunId, "payments", () =>
+			withSyncLock(ctx, args, "payments", async (lease) => {
+				const syncStateId = await startChunkedRun(ctx, args, "payments");
+				return runPaymentChunk(ctx, syncStateId, lease);
+			}),
+		),
+});
 
-		const syncStateId = await ctx.runMutation(internal.syncState.start, {
-			organizationId: args.organizationId,
-			syncType: "payments",
-			tripletexEnv: args.tripletexEnv,
-		});
+/** Scheduled continuation of a chunked payment run — renews the run's lease. */
+export const continuePayments = internalAction({
+	args: {
+		syncStateId: v.id("syncState"),
+		leaseId: v.string(),
+	},
+	handler: async (ctx, args): Promise<ChunkedSyncResult | null> =>
+		continueChunkedRun(ctx, args, "payments"),
+});
 
-		let processed = 0;
-		let failed = 0;
+// --- Backfill (internal) ---
 
-		try {
-			const lastSync = await ctx.runQuery(internal.syncState.getLatestInternal, {
+/**
+ * Re-run invoice or payment sync over an explicit Rubic period, e.g. after
+ * fixing a mapping. Uses the same lock and chunking as the incremental syncs
+ * but never moves the incremental watermark.
+ */
+export const runBackfill = internalAction({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnvValidator,
+		syncType: chunkedSyncTypeValidator,
+		startPeriod: v.number(),
+		endPeriod: v.number(),
+	},
+	handler: async (ctx, args): Promise<ChunkedSyncResult> => {
+		if (args.startPeriod >= args.endPeriod) {
+			throw new Error("Backfill start must be before its end");
+		}
+
+		return withSyncLock(ctx, args, args.syncType, async (lease) => {
+			const syncStateId = await ctx.runMutation(internal.syncState.start, {
 				organizationId: args.organizationId,
-				syncType: "payments",
+				syncType: args.syncType,
 				tripletexEnv: args.tripletexEnv,
+				mode: "backfill",
+				windowStart: args.startPeriod,
+				windowEnd: args.endPeriod,
+				cursor: { pageNo: 1 },
 			});
 
-			const startPeriod = lastSync?.lastSyncAt ? new Date(lastSync.lastSyncAt) : undefined;
-			const endPeriod = new Date();
+			return args.syncType === "invoices"
+				? runInvoiceChunk(ctx, syncStateId, lease)
+				: runPaymentChunk(ctx, syncStateId, lease);
+		});
+	},
+});
 
-			const transactions = await rubicClient.getInvoiceTransactions(startPeriod, endPeriod);
+// --- Full Sync Pipeline (internal) ---
 
-			const unsyncedInvoices = await ctx.runQuery(internal.invoiceMapping.getUnsyncedPayments, {
+/**
+ * Start a full sync: customers → products → invoices → payments for one
+ * org/env. Records a parent `full` run in syncState and schedules the first
+ * step; each step records its own child run linked via `parentRunId` and runs
+ * in its own action. The parent run and its lease stay open until the last
+ * step has finished, including continuations of chunked steps.
+ */
+export const runFull = internalAction({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnvValidator,
+	},
+	handler: async (ctx, args): Promise<{ parentRunId: Id<"syncState"> }> =>
+		withSyncLock(ctx, args, "full", async (lease) => {
+			const parentRunId = await ctx.runMutation(internal.syncState.start, {
 				organizationId: args.organizationId,
+				syncType: "full",
 				tripletexEnv: args.tripletexEnv,
+				pendingSteps: [...FULL_SYNC_STEPS],
+				leaseId: lease.leaseId,
 			});
-			const invoiceMap = new Map<number, (typeof unsyncedInvoices)[number]>();
-			for (const m of unsyncedInvoices) {
-				invoiceMap.set(m.rubicInvoiceId, m);
-			}
+			await ctx.scheduler.runAfter(0, internal.sync.advancePipeline, { parentRunId });
+			lease.handOff();
+			return { parentRunId };
+		}),
+});
 
-			for (const transaction of transactions) {
-				try {
-					const mapping = invoiceMap.get(transaction.invoiceID);
-					if (!mapping) continue;
-					if (mapping.paymentSynced) continue;
+/**
+ * Run the next step of a full sync pipeline, or finish the pipeline when no
+ * step is left or a failed step halts the rest (its policy is "stop"; see
+ * lib/pipeline.ts for defaults). Scheduled by `runFull` and after every step.
+ */
+export const advancePipeline = internalAction({
+	args: { parentRunId: v.id("syncState") },
+	handler: async (ctx, args): Promise<void> => {
+		const parent = await ctx.runQuery(internal.syncState.getInternal, {
+			syncStateId: args.parentRunId,
+		});
+		// The janitor may have given up on the run in the meantime
+		if (!parent || parent.status !== "running") return;
 
-					await tripletexClient.registerPayment(mapping.tripletexInvoiceId, {
-						amount: transaction.paidAmount,
-						paymentDate: transaction.paymentDate,
-					});
+		const settings = await ctx.runQuery(internal.syncSettings.getInternal, {
+			organizationId: parent.organizationId,
+			tripletexEnv: parent.tripletexEnv,
+		});
+		const policy = resolveFullSyncPolicy(settings?.fullSyncPolicy);
+		const results = parent.stepResults ?? [];
+		const advance = planPipelineAdvance(results, parent.pendingSteps ?? [], policy);
+
+		if (advance.next) {
+			const stepActions = {
+				customers: internal.sync.runCustomers,
+				products: internal.sync.runProducts,
+				invoices: internal.sync.runInvoices,
+				payments: internal.sync.runPayments,
+			} as const;
+			await ctx.scheduler.runAfter(0, stepActions[advance.next], {
+				organizationId: parent.organizationId,
+				tripletexEnv: parent.tripletexEnv,
+				parentRunId: args.parentRunId,
+			});
+			return;
+		}
 
-					await ctx.runMutation(internal.invoiceMapping.markPaymentSynced, {
-						invoiceMappingId: mapping._id,
-					});
+		const steps: PipelineStepResult[] = [...results];
+		for (const step of advance.notRun) {
+			const notRun: PipelineStepResult = {
+				step,
+				status: "not_run",
+				processed: 0,
+				failed: 0,
+				skipped: 0,
+			};
+			await ctx.runMutation(internal.syncState.recordPipelineStep, {
+				parentRunId: args.parentRunId,
+				result: notRun,
+			});
+			steps.push(notRun);
+		}
 
-					processed++;
-				} catch (error) {
-					failed++;
-					console.error(
-						`Failed to sync payment for transaction ${transaction.invoiceTransactionID}:`,
-						error instanceof Error ? error.message : String(error),
-					);
-				}
+		const processed = steps.reduce((sum, s) => sum + s.processed, 0);
+		const failed = steps.reduce((sum, s) => sum + s.failed, 0);
+		const skipped = steps.reduce((sum, s) => sum + s.skipped, 0);
+
+		const failureSummary = summarizePipelineFailures(steps);
+		if (failureSummary) {
+			await ctx.runMutation(internal.syncState.fail, {
+				syncStateId: args.parentRunId,
+				errorMessage: failureSummary,
+				recordsProcessed: processed,
+				recordsFailed: failed,
+				recordsSkipped: skipped,
+			});
+		} else {
+			await ctx.runMutation(internal.syncState.complete, {
+				syncStateId: args.parentRunId,
+				recordsProcessed: processed,
+				recordsFailed: failed,
+				recordsSkipped: skipped,
+			});
+		}
+
+		if (parent.leaseId) {
+			await ctx.runMutation(internal.syncLocks.release, {
+				organizationId: parent.organizationId,
+				syncType: "full",
+				tripletexEnv: parent.tripletexEnv,
+				leaseId: parent.leaseId,
+			});
+		}
+	},
+});
+
+// --- Credential Storage (internal) ---
+
+/**
+ * Verify API credentials against the provider, then encrypt them with the
+ * current master key and store them. Credentials the provider rejects are
+ * not saved unless `skipVerification` is set ("save anyway").
+ */
+export const saveCredentials = internalAction({
+	args: {
+		organizationId: v.id("organizations"),
+		provider: providerTypeValidator,
+		environment: tripletexEnvValidator,
+		baseUrl: v.string(),
+		credentials: v.string(),
+		isEnabled: v.boolean(),
+		skipVerification: v.optional(v.boolean()),
+	},
+	handler: async (ctx, { skipVerification, ...args }) => {
+		validateBaseUrl(args.baseUrl, args.provider);
+
+		let verifiedAt: number | undefined;
+		if (!skipVerification) {
+			try {
+				await probeCredentials(args.provider, args.baseUrl, args.credentials);
+				verifiedAt = Date.now();
+			} catch (error) {
+				console.error(`${args.provider} credential verification failed:`, error);
+				return { success: false as const, error: sanitizeConnectionError(error) };
 			}
+		}
 
-			await ctx.runMutation(internal.syncState.complete, {
-				syncStateId,
-				recordsProcessed: processed,
-				recordsFailed: failed,
-			});
+		const { ciphertext, keyVersion } = await encryptCredentials(
+			args.credentials,
+			loadCredentialKeyring(),
+		);
+		const credentialId: Id<"apiCredentials"> = await ctx.runMutation(
+			internal.apiCredentials.upsert,
+			{ ...args, credentials: ciphertext, keyVersion, verifiedAt },
+		);
+		return { success: true as const, credentialId, verified: verifiedAt !== undefined };
+	},
+});
 
-			return { processed, failed };
-		} catch (error) {
-			await ctx.runMutation(internal.syncState.fail, {
-				syncStateId,
-				errorMessage: error instanceof Error ? error.message : String(error),
-				recordsProcessed: processed,
-				recordsFailed: failed,
+/**
+ * Encrypt every credential row that is not under the current master key yet:
+ * plain rows saved before encryption (migration) and rows under an older key
+ * version (rotation). Run `npx convex run sync:reencryptCredentials` once after
+ * deploying, and again after adding a key version to the keyring.
+ */
+export const reencryptCredentials = internalAction({
+	args: {},
+	handler: async (ctx) => {
+		const keyring = loadCredentialKeyring();
+		const rows = await ctx.runQuery(internal.apiCredentials.listForReencryption, {
+			keyVersion: keyring.currentVersion,
+		});
+
+		let reencrypted = 0;
+		for (const row of rows) {
+			const plaintext =
+				row.keyVersion === undefined
+					? row.credentials
+					: await decryptCredentials(row.credentials, keyring);
+			const { ciphertext, keyVersion } = await encryptCredentials(plaintext, keyring);
+			const updated = await ctx.runMutation(internal.apiCredentials.reencrypt, {
+				credentialId: row._id,
+				previousCredentials: row.credentials,
+				credentials: ciphertext,
+				keyVersion,
 			});
-			throw error;
+			if (updated) reencrypted++;
 		}
+
+		return { keyVersion: keyring.currentVersion, reencrypted, skipped: rows.length - reencrypted };
 	},
 });
 
@@ -563,6 +2904,36 @@ function sanitizeConnectionError(error: unknown): string {
 	return "Connection test failed. Please verify your credentials and try again.";
 }
 
+/**
+ * Probe a provider with a credential secret (JSON) and return a short status
+ * message. Throws the client's error when the provider rejects it.
+ */
+async function probeCredentials(
+	provider: ProviderType,
+	baseUrl: string,
+	secretJson: string,
+): Promise<string> {
+	if (provider === "rubic") {
+		const secret = JSON.parse(secretJson) as RubicSecret;
+		const client = new RubicClient({
+			baseUrl,
+			apiKey: secret.apiKey,
+			organizationId: secret.organizationId,
+		});
+		const customers = await client.getCustomers();
+		return `Connected. Found ${customers.length} customers.`;
+	}
+
+	const secret = JSON.parse(secretJson) as TripletexSecret;
+	const client = new TripletexClient({
+		baseUrl,
+		consumerToken: secret.consumerToken,
+		employeeToken: secret.employeeToken,
+	});
+	const departments = await client.getDepartments();
+	return `Connected. Found ${departments.values.length} departments.`;
+}
+
 export const testConnection = internalAction({
 	args: {
 		organizationId: v.id("organizations"),
@@ -570,78 +2941,494 @@ export const testConnection = internalAction({
 		environment: tripletexEnvValidator,
 	},
 	handler: async (ctx, args) => {
-		if (args.provider === "rubic") {
-			const rubicCred = await ctx.runQuery(internal.apiCredentials.getRubicCredentials, {
-				organizationId: args.organizationId,
-			});
-			if (!rubicCred) {
-				return { success: false, error: "Rubic credentials not configured" };
+		const cred = await ctx.runQuery(internal.apiCredentials.getForSync, args);
+		if (!cred) {
+			const name = args.provider === "rubic" ? "Rubic" : "Tripletex";
+			return { success: false, error: `${name} ${args.environment} credentials not configured` };
+		}
+
+		try {
+			const message = await probeCredentials(
+				cred.provider,
+				cred.baseUrl,
+				await decryptSecret(cred),
+			);
+			await ctx.runMutation(internal.apiCredentials.markVerified, { credentialId: cred._id });
+			return { success: true, message };
+		} catch (error) {
+			console.error(`${cred.provider} connection test failed:`, error);
+			const message = sanitizeConnectionError(error);
+			// Only a rejection says anything about the credentials; outages leave the state alone
+			if (isCredentialRejection(error)) {
+				await ctx.runMutation(internal.apiCredentials.markVerificationFailed, {
+					credentialId: cred._id,
+					error: message,
+				});
 			}
+			return { success: false, error: message };
+		}
+	},
+});
 
+// --- Credential Health Check (internal) ---
+
+/**
+ * Re-verify every enabled credential against its provider. Runs daily from
+ * `crons.ts`; 401/403 rejections are recorded in `lastVerificationError`,
+ * successes clear it and update `lastVerifiedAt`. Other failures (outages,
+ * rate limits, network errors) are only logged.
+ */
+export const checkCredentialHealth = internalAction({
+	args: {},
+	handler: async (ctx) => {
+		const creds = await ctx.runQuery(internal.apiCredentials.listEnabled, {});
+
+		let failed = 0;
+		let unreachable = 0;
+		for (const cred of creds) {
 			try {
-				const parsed = JSON.parse(rubicCred.credentials);
-				const client = new RubicClient({
-					baseUrl: rubicCred.baseUrl,
-					apiKey: parsed.apiKey,
-					organizationId: parsed.organizationId,
-				});
-				const customers = await client.getCustomers();
-				await ctx.runMutation(internal.apiCredentials.markVerified, {
-					credentialId: rubicCred._id,
-				});
-				return { success: true, message: `Connected. Found ${customers.length} customers.` };
+				await probeCredentials(cred.provider, cred.baseUrl, await decryptSecret(cred));
+				await ctx.runMutation(internal.apiCredentials.markVerified, { credentialId: cred._id });
 			} catch (error) {
-				console.error("Rubic connection test failed:", error);
-				return { success: false, error: sanitizeConnectionError(error) };
+				console.error(
+					`Credential health check failed for ${cred.provider} ${cred.environment} (org ${cred.organizationId}):`,
+					error instanceof Error ? error.message : String(error),
+				);
+				if (!isCredentialRejection(error)) {
+					unreachable++;
+					continue;
+				}
+				failed++;
+				await ctx.runMutation(internal.apiCredentials.markVerificationFailed, {
+					credentialId: cred._id,
+					error: sanitizeConnectionError(error),
+				});
 			}
 		}
 
-		// Tripletex
-		const tripletexCred = await ctx.runQuery(internal.apiCredentials.getForSync, {
+		return { checked: creds.length, failed, unreachable };
+	},
+});
+
+// --- Sandbox → Production Promotion (internal) ---
+
+/** Load the Tripletex records that promoted config refers to. */
+async function loadTripletexCatalog(
+	ctx: Pick<GenericActionCtx<DataModel>, "runQuery">,
+	organizationId: Id<"organizations">,
+	tripletexEnv: TripletexEnv,
+): Promise<TripletexCatalog> {
+	const tripletexCred = await ctx.runQuery(internal.apiCredentials.getForSync, {
+		organizationId,
+		provider: "tripletex",
+		environment: tripletexEnv,
+	});
+	if (!tripletexCred) throw new Error(`Tripletex ${tripletexEnv} credentials not configured`);
+
+	const parsed = await readSecret<TripletexSecret>(tripletexCred);
+	const client = new TripletexClient({
+		baseUrl: tripletexCred.baseUrl,
+		consumerToken: parsed.consumerToken,
+		employeeToken: parsed.employeeToken,
+	});
+
+	const departments = await client.getDepartments();
+	const vatTypes = await client.getVatTypes();
+	const paymentTypes = await client.getPaymentTypes();
+	const products = await client.listProductNumbers();
+	return {
+		departments: departments.values,
+		vatTypes: vatTypes.values,
+		paymentTypes: paymentTypes.values,
+		products,
+	};
+}
+
+async function buildPromotionPlan(
+	ctx: Pick<GenericActionCtx<DataModel>, "runQuery">,
+	organizationId: Id<"organizations">,
+): Promise<PromotionPlan> {
+	const sandbox = await ctx.runQuery(internal.promotion.loadConfig, {
+		organizationId,
+		tripletexEnv: "sandbox",
+	});
+	const production = await ctx.runQuery(internal.promotion.loadConfig, {
+		organizationId,
+		tripletexEnv: "production",
+	});
+
+	return planPromotion(
+		sandbox,
+		production,
+		await loadTripletexCatalog(ctx, organizationId, "sandbox"),
+		await loadTripletexCatalog(ctx, organizationId, "production"),
+	);
+}
+
+/**
+ * What promoting the sandbox config to production would change, with the
+ * hash that `promoteToProduction` checks. Writes nothing.
+ */
+export const planPromotionToProduction = internalAction({
+	args: { organizationId: v.id("organizations") },
+	handler: async (ctx, args): Promise<{ changes: PromotionChange[]; planHash: string }> => {
+		const plan = await buildPromotionPlan(ctx, args.organizationId);
+		return { changes: plan.changes, planHash: await hashPromotionPlan(plan) };
+	},
+});
+
+/**
+ * Copy the sandbox config to production. The plan is rebuilt from current
+ * data rather than trusted from the client, and must match the reviewed one;
+ * unresolved entries are skipped.
+ */
+export const promoteToProduction = internalAction({
+	args: { organizationId: v.id("organizations"), planHash: v.string() },
+	handler: async (ctx, args): Promise<PromotionChange[]> => {
+		const plan = await buildPromotionPlan(ctx, args.organizationId);
+		if ((await hashPromotionPlan(plan)) !== args.planHash) {
+			throw new Error(
+				"Sandbox or production changed since the review. Review the promotion again before promoting.",
+			);
+		}
+		await ctx.runMutation(internal.promotion.applyToProduction, {
 			organizationId: args.organizationId,
-			provider: "tripletex",
-			environment: args.environment,
+			...plan.writes,
 		});
-		if (!tripletexCred) {
-			return {
-				success: false,
-				error: `Tripletex ${args.environment} credentials not configured`,
-			};
+		return plan.changes;
+	},
+});
+
+// --- Reconciliation (internal) ---
+
+const PERIOD_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Number of reconciliation issues written per mutation. */
+const ISSUE_BATCH_SIZE = 100;
+
+/** Ids looked up per mapping query when reconciling. */
+const LOOKUP_BATCH_SIZE = 500;
+
+function addDays(date: string, days: number): string {
+	const next = new Date(`${date}T00:00:00Z`);
+	next.setUTCDate(next.getUTCDate() + days);
+	return next.toISOString().slice(0, 10);
+}
+
+/**
+ * Compare Rubic invoices, balances and payments of a period with the Tripletex
+ * invoices their mappings point at, and store the result as a report. Reads
+ * both APIs and writes nothing to either. Returns the report id.
+ */
+export const runReconciliation = internalAction({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnvValidator,
+		periodStart: v.string(),
+		periodEnd: v.string(),
+	},
+	handler: async (ctx, args): Promise<Id<"reconciliationReports">> => {
+		if (!PERIOD_DATE.test(args.periodStart) || !PERIOD_DATE.test(args.periodEnd)) {
+			throw new Error("Reconciliation period dates must be YYYY-MM-DD");
+		}
+		if (args.periodStart > args.periodEnd) {
+			throw new Error("Reconciliation start must not be after its end");
 		}
 
-		try {
-			const parsed = JSON.parse(tripletexCred.credentials);
-			const client = new TripletexClient({
-				baseUrl: tripletexCred.baseUrl,
-				consumerToken: parsed.consumerToken,
-				employeeToken: parsed.employeeToken,
+		const creds = await getCredentials(ctx, args.organizationId, args.tripletexEnv);
+		const rubicClient = new RubicClient(creds.rubic);
+		const tripletexClient = new TripletexClient(creds.tripletex);
+
+		const dayAfterEnd = addDays(args.periodEnd, 1);
+		const rubicStart = new Date(`${args.periodStart}T00:00:00Z`);
+		const rubicEnd = new Date(`${dayAfterEnd}T00:00:00Z`);
+		const rubicInvoices = await rubicClient.getInvoices(rubicStart, rubicEnd);
+		const rubicTransactions = await rubicClient.getInvoiceTransactions(rubicStart, rubicEnd);
+		const tripletexInvoices = await tripletexClient.searchInvoices(args.periodStart, dayAfterEnd);
+
+		// Only the mappings of this period's records, looked up by id in batches
+		const scope = { organizationId: args.organizationId, tripletexEnv: args.tripletexEnv };
+		const rubicInvoiceIds = [
+			...new Set([
+				...rubicInvoices.map((i) => i.invoiceID),
+				...rubicTransactions.map((t) => t.invoiceID),
+			]),
+		];
+		const tripletexInvoiceIds = tripletexInvoices.flatMap((i) =>
+			i.id === undefined ? [] : [i.id],
+		);
+		const mappingsById = new Map<Id<"invoiceMapping">, Doc<"invoiceMapping">>();
+		const lookups = Math.max(rubicInvoiceIds.length, tripletexInvoiceIds.length);
+		for (let i = 0; i < lookups; i += LOOKUP_BATCH_SIZE) {
+			const batch = await ctx.runQuery(internal.invoiceMapping.listByIdsInternal, {
+				...scope,
+				rubicInvoiceIds: rubicInvoiceIds.slice(i, i + LOOKUP_BATCH_SIZE),
+				tripletexInvoiceIds: tripletexInvoiceIds.slice(i, i + LOOKUP_BATCH_SIZE),
+			});
+			for (const mapping of batch) mappingsById.set(mapping._id, mapping);
+		}
+		const invoiceMappings = [...mappingsById.values()];
+		const transactionIds = rubicTransactions.map((t) => t.invoiceTransactionID);
+		const registeredTransactionIds = new Set<number>();
+		for (let i = 0; i < transactionIds.length; i += LOOKUP_BATCH_SIZE) {
+			const registered = await ctx.runQuery(internal.paymentMapping.listRegisteredIdsInternal, {
+				...scope,
+				rubicTransactionIds: transactionIds.slice(i, i + LOOKUP_BATCH_SIZE),
 			});
-			const departments = await client.getDepartments();
-			await ctx.runMutation(internal.apiCredentials.markVerified, {
-				credentialId: tripletexCred._id,
+			for (const id of registered) registeredTransactionIds.add(id);
+		}
+		const skips = await ctx.runQuery(internal.invoiceSkips.listInternal, {
+			organizationId: args.organizationId,
+			tripletexEnv: args.tripletexEnv,
+		});
+
+		const fetchTripletexInvoice = async (id: number) => {
+			try {
+				return (await tripletexClient.getInvoice(id)).value;
+			} catch (error) {
+				if (!isTripletexRecordGone(error)) throw error;
+				return null;
+			}
+		};
+		// A credit note can be dated after the period it credits, so fetch them by id
+		const creditNotes: TripletexInvoice[] = [];
+		for (const mapping of invoiceMappings) {
+			for (const note of mapping.creditNotes ?? []) {
+				const creditNote = await fetchTripletexInvoice(note.tripletexInvoiceId);
+				if (creditNote) creditNotes.push(creditNote);
+			}
+		}
+
+		// Invoices paid through the old single-payment flow, for their unrecorded transactions
+		const unregisteredInvoiceIds = new Set(
+			rubicTransactions
+				.filter((t) => !registeredTransactionIds.has(t.invoiceTransactionID))
+				.map((t) => t.invoiceID),
+		);
+		const legacyPaidAmounts = new Map<number, number>();
+		for (const mapping of invoiceMappings) {
+			if (!mapping.paymentSynced || !unregisteredInvoiceIds.has(mapping.rubicInvoiceId)) continue;
+			const tripletexInvoice = await fetchTripletexInvoice(mapping.tripletexInvoiceId);
+			if (!tripletexInvoice) continue;
+			const recorded = await ctx.runQuery(internal.paymentMapping.listByInvoiceInternal, {
+				...scope,
+				rubicInvoiceId: mapping.rubicInvoiceId,
 			});
-			return {
-				success: true,
-				message: `Connected. Found ${departments.values.length} departments.`,
-			};
+			legacyPaidAmounts.set(
+				mapping.rubicInvoiceId,
+				getLegacyPaidAmount(tripletexInvoice, recorded),
+			);
+		}
+
+		const { summary, issues } = reconcile({
+			periodStart: args.periodStart,
+			periodEnd: args.periodEnd,
+			rubicInvoices,
+			rubicTransactions,
+			invoiceMappings,
+			registeredTransactionIds,
+			tripletexInvoices,
+			creditNotes,
+			legacyPaidAmounts,
+			skipReasons: new Map(skips.map((s) => [s.rubicInvoiceId, s.details])),
+		});
+
+		const reportId = await ctx.runMutation(internal.reconciliation.createReport, {
+			organizationId: args.organizationId,
+			tripletexEnv: args.tripletexEnv,
+			periodStart: args.periodStart,
+			periodEnd: args.periodEnd,
+			summary,
+			issueCount: issues.length,
+		});
+		for (let i = 0; i < issues.length; i += ISSUE_BATCH_SIZE) {
+			await ctx.runMutation(internal.reconciliation.recordIssues, {
+				reportId,
+				issues: issues.slice(i, i + ISSUE_BATCH_SIZE),
+			});
+		}
+		return reportId;
+	},
+});
+
+// --- Mapping Verification (internal) ---
+
+/** Earliest invoice date searched when verifying invoice mappings. */
+const VERIFY_INVOICES_FROM = "2000-01-01";
+
+/** Mappings read per query while verifying. */
+const VERIFY_PAGE_SIZE = 1000;
+
+interface MappingCheck {
+	checked: number;
+	stale: number;
+}
+
+/** Read every mapping of a table, one page per query. */
+async function collectPages<T>(
+	loadPage: (paginationOpts: PaginationOptions) => Promise<PaginationResult<T>>,
+): Promise<T[]> {
+	const items: T[] = [];
+	let cursor: string | null = null;
+	for (;;) {
+		const page = await loadPage({ numItems: VERIFY_PAGE_SIZE, cursor });
+		items.push(...page.page);
+		if (page.isDone) return items;
+		cursor = page.continueCursor;
+	}
+}
+
+/**
+ * Find the mapped Tripletex ids that no longer exist. Ids missing from the
+ * bulk listing are confirmed one by one, so records the listing leaves out
+ * (inactive ones, say) are not taken for deleted.
+ */
+async function findGoneIds(
+	mappedIds: number[],
+	listedIds: number[],
+	fetchOne: (id: number) => Promise<unknown>,
+): Promise<Set<number>> {
+	const listed = new Set(listedIds);
+	const gone = new Set<number>();
+	for (const id of new Set(mappedIds)) {
+		if (listed.has(id)) continue;
+		try {
+			await fetchOne(id);
 		} catch (error) {
-			console.error("Tripletex connection test failed:", error);
-			return { success: false, error: sanitizeConnectionError(error) };
+			if (!isTripletexRecordGone(error)) throw error;
+			gone.add(id);
 		}
+	}
+	return gone;
+}
+
+/** Mappings whose stale flag should be set or cleared, given the gone ids. */
+function diffStaleFlags<T extends { _id: string; staleAt?: number }>(
+	mappings: T[],
+	gone: Set<number>,
+	tripletexId: (mapping: T) => number,
+) {
+	return {
+		newlyStale: mappings
+			.filter((m) => m.staleAt === undefined && gone.has(tripletexId(m)))
+			.map((m) => m._id),
+		restored: mappings
+			.filter((m) => m.staleAt !== undefined && !gone.has(tripletexId(m)))
+			.map((m) => m._id),
+		check: {
+			checked: mappings.length,
+			stale: mappings.filter((m) => gone.has(tripletexId(m))).length,
+		},
+	};
+}
+
+/**
+ * Check every customer, product and invoice mapping against Tripletex and
+ * flag those whose record is gone (clearing the flag on any that are back).
+ * Customers and products are repaired by the next sync, per the org's stale
+ * mapping policy; invoices stay flagged.
+ */
+export const verifyMappings = internalAction({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnvValidator,
+	},
+	handler: async (
+		ctx,
+		args,
+	): Promise<{ customers: MappingCheck; products: MappingCheck; invoices: MappingCheck }> => {
+		const creds = await getCredentials(ctx, args.organizationId, args.tripletexEnv);
+		const tripletexClient = new TripletexClient(creds.tripletex);
+		const scope = { organizationId: args.organizationId, tripletexEnv: args.tripletexEnv };
+
+		const customerMappings = await collectPages<Doc<"customerMapping">>((paginationOpts) =>
+			ctx.runQuery(internal.customerMapping.listPageInternal, { ...scope, paginationOpts }),
+		);
+		const goneCustomers = await findGoneIds(
+			customerMappings.map((m) => m.tripletexCustomerId),
+			await tripletexClient.listCustomerIds(),
+			(id) => tripletexClient.getCustomer(id),
+		);
+		const customers = diffStaleFlags<Doc<"customerMapping">>(
+			customerMappings,
+			goneCustomers,
+			(m) => m.tripletexCustomerId,
+		);
+		await ctx.runMutation(internal.customerMapping.setStale, {
+			ids: customers.newlyStale,
+			stale: true,
+		});
+		await ctx.runMutation(internal.customerMapping.setStale, {
+			ids: customers.restored,
+			stale: false,
+		});
+
+		const productMappings = await collectPages<Doc<"productMapping">>((paginationOpts) =>
+			ctx.runQuery(internal.productMapping.listPageInternal, { ...scope, paginationOpts }),
+		);
+		const goneProducts = await findGoneIds(
+			productMappings.map((m) => m.tripletexProductId),
+			await tripletexClient.listProductIds(),
+			(id) => tripletexClient.getProduct(id),
+		);
+		const products = diffStaleFlags<Doc<"productMapping">>(
+			productMappings,
+			goneProducts,
+			(m) => m.tripletexProductId,
+		);
+		await ctx.runMutation(internal.productMapping.setStale, {
+			ids: products.newlyStale,
+			stale: true,
+		});
+		await ctx.runMutation(internal.productMapping.setStale, {
+			ids: products.restored,
+			stale: false,
+		});
+
+		const invoiceMappings = await collectPages<Doc<"invoiceMapping">>((paginationOpts) =>
+			ctx.runQuery(internal.invoiceMapping.listPageInternal, { ...scope, paginationOpts }),
+		);
+		const tomorrow = addDays(new Date().toISOString().slice(0, 10), 1);
+		const listedInvoices = await tripletexClient.searchInvoices(VERIFY_INVOICES_FROM, tomorrow);
+		const goneInvoices = await findGoneIds(
+			invoiceMappings.map((m) => m.tripletexInvoiceId),
+			listedInvoices.flatMap((i) => (i.id === undefined ? [] : [i.id])),
+			(id) => tripletexClient.getInvoice(id),
+		);
+		const invoices = diffStaleFlags<Doc<"invoiceMapping">>(
+			invoiceMappings,
+			goneInvoices,
+			(m) => m.tripletexInvoiceId,
+		);
+		await ctx.runMutation(internal.invoiceMapping.setStale, {
+			ids: invoices.newlyStale,
+			stale: true,
+		});
+		await ctx.runMutation(internal.invoiceMapping.setStale, {
+			ids: invoices.restored,
+			stale: false,
+		});
+
+		return { customers: customers.check, products: products.check, invoices: invoices.check };
 	},
 });
 
 // --- Department Fetching (internal) ---
 
 export const fetchDepartmentsFromRubic = internalAction({
-	args: { organizationId: v.id("organizations") },
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnvValidator,
+	},
 	handler: async (ctx, args) => {
-		const rubicCred = await ctx.runQuery(internal.apiCredentials.getRubicCredentials, {
+		const rubicCred = await ctx.runQuery(internal.apiCredentials.getForSync, {
 			organizationId: args.organizationId,
+			provider: "rubic",
+			environment: args.tripletexEnv,
 		});
-		if (!rubicCred) throw new Error("Rubic credentials not configured");
+		if (!rubicCred) throw new Error(`Rubic ${args.tripletexEnv} credentials not configured`);
 
-		const parsed = JSON.parse(rubicCred.credentials);
+		const parsed = await readSecret<RubicSecret>(rubicCred);
 		const client = new RubicClient({
 			baseUrl: rubicCred.baseUrl,
 			apiKey: parsed.apiKey,
@@ -665,7 +3452,7 @@ export const fetchDepartmentsFromTripletex = internalAction({
 		});
 		if (!tripletexCred) throw new Error("Tripletex credentials not configured");
 
-		const parsed = JSON.parse(tripletexCred.credentials);
+		const parsed = await readSecret<TripletexSecret>(tripletexCred);
 		const client = new TripletexClient({
 			baseUrl: tripletexCred.baseUrl,
 			consumerToken: parsed.consumerToken,
@@ -677,6 +3464,90 @@ export const fetchDepartmentsFromTripletex = internalAction({
 	},
 });
 
+// --- VAT Type Fetching (internal) ---
+
+export const fetchVatTypesFromTripletex = internalAction({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnvValidator,
+	},
+	handler: async (ctx, args) => {
+		const tripletexCred = await ctx.runQuery(internal.apiCredentials.getForSync, {
+			organizationId: args.organizationId,
+			provider: "tripletex",
+			environment: args.tripletexEnv,
+		});
+		if (!tripletexCred) throw new Error("Tripletex credentials not configured");
+
+		const parsed = await readSecret<TripletexSecret>(tripletexCred);
+		const client = new TripletexClient({
+			baseUrl: tripletexCred.baseUrl,
+			consumerToken: parsed.consumerToken,
+			employeeToken: parsed.employeeToken,
+		});
+
+		const result = await client.getVatTypes();
+		return result.values;
+	},
+});
+
+// --- Payment Type Fetching (internal) ---
+
+export const fetchPaymentTypesFromTripletex = internalAction({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnvValidator,
+	},
+	handler: async (ctx, args) => {
+		const tripletexCred = await ctx.runQuery(internal.apiCredentials.getForSync, {
+			organizationId: args.organizationId,
+			provider: "tripletex",
+			environment: args.tripletexEnv,
+		});
+		if (!tripletexCred) throw new Error("Tripletex credentials not configured");
+
+		const parsed = await readSecret<TripletexSecret>(tripletexCred);
+		const client = new TripletexClient({
+			baseUrl: tripletexCred.baseUrl,
+			consumerToken: parsed.consumerToken,
+			employeeToken: parsed.employeeToken,
+		});
+
+		const result = await client.getPaymentTypes();
+		return result.values;
+	},
+});
+
+/** Distinct tax codes used by the org's Rubic product groups. */
+export const fetchTaxCodesFromRubic = internalAction({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnvValidator,
+	},
+	handler: async (ctx, args) => {
+		const rubicCred = await ctx.runQuery(internal.apiCredentials.getForSync, {
+			organizationId: args.organizationId,
+			provider: "rubic",
+			environment: args.tripletexEnv,
+		});
+		if (!rubicCred) throw new Error(`Rubic ${args.tripletexEnv} credentials not configured`);
+
+		const parsed = await readSecret<RubicSecret>(rubicCred);
+		const client = new RubicClient({
+			baseUrl: rubicCred.baseUrl,
+			apiKey: parsed.apiKey,
+			organizationId: parsed.organizationId,
+		});
+
+		const groups = await client.getProductGroups();
+		const taxCodes = new Map<number, RubicProductTaxCode>();
+		for (const group of groups) {
+			if (group.taxCode) taxCodes.set(group.taxCode.taxCodeID, group.taxCode);
+		}
+		return [...taxCodes.values()];
+	},
+});
+
 // =============================================================================
 // Public action wrappers have been moved to convex/syncPublic.ts to avoid
 // TypeScript "Type instantiation is excessively deep" errors (TS2589).
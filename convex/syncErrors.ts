@@ -0,0 +1,59 @@
+import { v } from "convex/values";
+import { internalMutation, query } from "./_generated/server";
+import { requireOrgMembership } from "./lib/auth";
+import {
+	invoiceSkipReason,
+	syncEntityType,
+	syncErrorCategory,
+	syncItemOutcome,
+} from "./validators";
+
+/** List the failed and skipped records of a sync run (requires membership). */
+export const listByRun = query({
+	args: {
+		syncStateId: v.id("syncState"),
+		limit: v.optional(v.number()),
+	},
+	handler: async (ctx, args) => {
+		const run = await ctx.db.get(args.syncStateId);
+		if (!run) throw new Error("Sync run not found");
+		await requireOrgMembership(ctx, run.organizationId);
+
+		const limit = args.limit ?? 500;
+		return await ctx.db
+			.query("syncErrors")
+			.withIndex("by_syncState", (q) => q.eq("syncStateId", args.syncStateId))
+			.take(limit);
+	},
+});
+
+/** Record a failed or skipped record for a sync run — internal only (used by sync). */
+export const record = internalMutation({
+	args: {
+		syncStateId: v.id("syncState"),
+		entityType: syncEntityType,
+		rubicKey: v.string(),
+		tripletexId: v.optional(v.number()),
+		outcome: syncItemOutcome,
+		category: syncErrorCategory,
+		skipReason: v.optional(invoiceSkipReason),
+		message: v.string(),
+	},
+	handler: async (ctx, args) => {
+		const run = await ctx.db.get(args.syncStateId);
+		if (!run) throw new Error("Sync run not found");
+
+		return await ctx.db.insert("syncErrors", {
+			organizationId: run.organizationId,
+			syncStateId: args.syncStateId,
+			entityType: args.entityType,
+			rubicKey: args.rubicKey,
+			tripletexId: args.tripletexId,
+			outcome: args.outcome,
+			category: args.category,
+			skipReason: args.skipReason,
+			message: args.message,
+			createdAt: Date.now(),
+		});
+	},
+});
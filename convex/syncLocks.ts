@@ -0,0 +1,131 @@
+import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import { internalMutation, type MutationCtx, query } from "./_generated/server";
+import { requireOrgMembership } from "./lib/auth";
+import { type SyncType, syncType, type TripletexEnv, tripletexEnv } from "./validators";
+
+/**
+ * Default lease length. Longer than the Convex action time limit (10 minutes),
+ * so a lease held by a crashed action always expires before it could be renewed.
+ */
+const DEFAULT_LEASE_MS = 15 * 60 * 1000;
+
+/** List unexpired sync locks for an org (requires membership). */
+export const listActive = query({
+	args: { organizationId: v.id("organizations") },
+	handler: async (ctx, args) => {
+		await requireOrgMembership(ctx, args.organizationId);
+
+		const now = Date.now();
+		const locks = await ctx.db
+			.query("syncLocks")
+			.withIndex("by_org", (q) => q.eq("organizationId", args.organizationId))
+			.collect();
+		return locks.filter((lock) => lock.expiresAt > now);
+	},
+});
+
+/**
+ * Try to acquire the lease for an org/syncType/env — internal only (used by sync actions).
+ * Succeeds when no lease exists, the existing lease has expired, or the caller
+ * already holds it (continuations of chunked runs renew their lease this way).
+ */
+export const acquire = internalMutation({
+	args: {
+		organizationId: v.id("organizations"),
+		syncType: syncType,
+		tripletexEnv: tripletexEnv,
+		leaseId: v.string(),
+		leaseMs: v.optional(v.number()),
+	},
+	handler: async (ctx, args) => {
+		const now = Date.now();
+		const expiresAt = now + (args.leaseMs ?? DEFAULT_LEASE_MS);
+
+		const existing = await ctx.db
+			.query("syncLocks")
+			.withIndex("by_org_type_env", (q) =>
+				q
+					.eq("organizationId", args.organizationId)
+					.eq("syncType", args.syncType)
+					.eq("tripletexEnv", args.tripletexEnv),
+			)
+			.unique();
+
+		if (existing && existing.expiresAt > now && existing.leaseId !== args.leaseId) {
+			return { acquired: false as const, expiresAt: existing.expiresAt };
+		}
+
+		if (existing?.leaseId === args.leaseId) {
+			await ctx.db.patch(existing._id, { expiresAt });
+		} else if (existing) {
+			console.warn(
+				`Taking over expired ${args.syncType} lock for org ${args.organizationId} (${args.tripletexEnv})`,
+			);
+			await ctx.db.patch(existing._id, { leaseId: args.leaseId, acquiredAt: now, expiresAt });
+		} else {
+			await ctx.db.insert("syncLocks", {
+				organizationId: args.organizationId,
+				syncType: args.syncType,
+				tripletexEnv: args.tripletexEnv,
+				leaseId: args.leaseId,
+				acquiredAt: now,
+				expiresAt,
+			});
+		}
+
+		return { acquired: true as const, expiresAt };
+	},
+});
+
+/**
+ * Release a lease — internal only (used by sync actions).
+ * A no-op if the lease has since been taken over by another holder.
+ */
+export const release = internalMutation({
+	args: {
+		organizationId: v.id("organizations"),
+		syncType: syncType,
+		tripletexEnv: tripletexEnv,
+		leaseId: v.string(),
+	},
+	handler: async (ctx, args) => {
+		const existing = await ctx.db
+			.query("syncLocks")
+			.withIndex("by_org_type_env", (q) =>
+				q
+					.eq("organizationId", args.organizationId)
+					.eq("syncType", args.syncType)
+					.eq("tripletexEnv", args.tripletexEnv),
+			)
+			.unique();
+
+		if (existing && existing.leaseId === args.leaseId) {
+			await ctx.db.delete(existing._id);
+		}
+	},
+});
+
+/**
+ * Extend a lease from within another mutation, if its holder still holds it.
+ * Used to keep a full sync pipeline's lease alive while one of its steps runs.
+ */
+export async function renewLease(
+	ctx: MutationCtx,
+	key: { organizationId: Id<"organizations">; syncType: SyncType; tripletexEnv: TripletexEnv },
+	leaseId: string,
+): Promise<void> {
+	const existing = await ctx.db
+		.query("syncLocks")
+		.withIndex("by_org_type_env", (q) =>
+			q
+				.eq("organizationId", key.organizationId)
+				.eq("syncType", key.syncType)
+				.eq("tripletexEnv", key.tripletexEnv),
+		)
+		.unique();
+
+	if (existing?.leaseId === leaseId) {
+		await ctx.db.patch(existing._id, { expiresAt: Date.now() + DEFAULT_LEASE_MS });
+	}
+}
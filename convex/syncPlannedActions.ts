@@ -0,0 +1,63 @@
+import { v } from "convex/values";
+import { internalMutation, query } from "./_generated/server";
+import { requireOrgMembership } from "./lib/auth";
+import {
+	plannedActionType,
+	plannedFieldChange,
+	plannedOrderLine,
+	syncEntityType,
+} from "./validators";
+
+/** List the planned actions of a dry run (requires membership). */
+export const listByRun = query({
+	args: {
+		syncStateId: v.id("syncState"),
+		limit: v.optional(v.number()),
+	},
+	handler: async (ctx, args) => {
+		const run = await ctx.db.get(args.syncStateId);
+		if (!run) throw new Error("Sync run not found");
+		await requireOrgMembership(ctx, run.organizationId);
+
+		const limit = args.limit ?? 1000;
+		return await ctx.db
+			.query("syncPlannedActions")
+			.withIndex("by_syncState", (q) => q.eq("syncStateId", args.syncStateId))
+			.take(limit);
+	},
+});
+
+/** Store a batch of planned actions for a dry run — internal only (used by sync). */
+export const recordBatch = internalMutation({
+	args: {
+		syncStateId: v.id("syncState"),
+		actions: v.array(
+			v.object({
+				entityType: syncEntityType,
+				rubicKey: v.string(),
+				label: v.optional(v.string()),
+				tripletexId: v.optional(v.number()),
+				action: plannedActionType,
+				changes: v.optional(v.array(plannedFieldChange)),
+				lines: v.optional(v.array(plannedOrderLine)),
+				amount: v.optional(v.number()),
+				message: v.optional(v.string()),
+			}),
+		),
+	},
+	handler: async (ctx, args) => {
+		const run = await ctx.db.get(args.syncStateId);
+		if (!run) throw new Error("Sync run not found");
+		if (!run.dryRun) throw new Error("Planned actions can only be recorded for dry runs");
+
+		const now = Date.now();
+		for (const action of args.actions) {
+			await ctx.db.insert("syncPlannedActions", {
+				organizationId: run.organizationId,
+				syncStateId: args.syncStateId,
+				...action,
+				createdAt: now,
+			});
+		}
+	},
+});
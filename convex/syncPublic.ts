@@ -17,7 +17,11 @@ import { api, internal } from "./_generated/api";
 import type { DataModel, Id } from "./_generated/dataModel";
 import type { ActionCtx } from "./_generated/server";
 import { action } from "./_generated/server";
-import { tripletexEnv as tripletexEnvValidator } from "./validators";
+import {
+	chunkedSyncType as chunkedSyncTypeValidator,
+	providerType as providerTypeValidator,
+	tripletexEnv as tripletexEnvValidator,
+} from "./validators";
 
 // ---------------------------------------------------------------------------
 // Auth helpers (action-level — no ctx.db, uses ctx.runQuery)
@@ -26,6 +30,9 @@ import { tripletexEnv as tripletexEnvValidator } from "./validators";
 /** Roles that can perform operational actions (trigger syncs, manage mappings/schedules). */
 const OPERATOR_ROLES = ["member", "admin", "owner"];
 
+/** Roles that can manage API credentials. */
+const ADMIN_ROLES = ["admin", "owner"];
+
 /**
  * Verify the caller is authenticated and a member of the organization.
  * Works in action context (no ctx.db) by using ctx.runQuery.
@@ -69,6 +76,21 @@ async function requireAuthAndOperator(
 	return result;
 }
 
+/**
+ * Verify the caller is authenticated and has admin-level access.
+ * Required for managing API credentials.
+ */
+async function requireAuthAndAdmin(
+	ctx: Pick<GenericActionCtx<DataModel>, "auth" | "runQuery">,
+	organizationId: Id<"organizations">,
+) {
+	const result = await requireAuthAndMembership(ctx, organizationId);
+	if (!ADMIN_ROLES.includes(result.membership.role)) {
+		throw new Error("Forbidden: you need admin access to perform this action.");
+	}
+	return result;
+}
+
 // ---------------------------------------------------------------------------
 // Pre-typed handler argument interfaces
 // ---------------------------------------------------------------------------
@@ -78,6 +100,18 @@ interface SyncArgs {
 	tripletexEnv: "sandbox" | "production";
 }
 
+interface RunSyncArgs extends SyncArgs {
+	dryRun?: boolean;
+}
+
+interface BackfillArgs {
+	organizationId: Id<"organizations">;
+	tripletexEnv: "sandbox" | "production";
+	syncType: "invoices" | "payments";
+	startPeriod: number;
+	endPeriod: number;
+}
+
 interface TestConnectionArgs {
 	organizationId: Id<"organizations">;
 	provider: "rubic" | "tripletex";
@@ -88,36 +122,96 @@ interface OrgOnlyArgs {
 	organizationId: Id<"organizations">;
 }
 
+interface PromoteArgs {
+	organizationId: Id<"organizations">;
+	planHash: string;
+}
+
+interface ReconciliationArgs extends SyncArgs {
+	periodStart: string;
+	periodEnd: string;
+}
+
+interface SaveCredentialsArgs {
+	organizationId: Id<"organizations">;
+	provider: "rubic" | "tripletex";
+	environment: "sandbox" | "production";
+	baseUrl: string;
+	credentials: string;
+	isEnabled: boolean;
+	skipVerification?: boolean;
+}
+
 // ---------------------------------------------------------------------------
 // Pre-typed handlers (explicit ActionCtx avoids deep type inference in action())
 // ---------------------------------------------------------------------------
 
-const runCustomersHandler = async (ctx: ActionCtx, args: SyncArgs) => {
+const runCustomersHandler = async (ctx: ActionCtx, args: RunSyncArgs) => {
 	await requireAuthAndOperator(ctx, args.organizationId);
 	return ctx.runAction(internal.sync.runCustomers, args);
 };
 
-const runProductsHandler = async (ctx: ActionCtx, args: SyncArgs) => {
+const runMembersHandler = async (ctx: ActionCtx, args: RunSyncArgs) => {
+	await requireAuthAndOperator(ctx, args.organizationId);
+	return ctx.runAction(internal.sync.runMembers, args);
+};
+
+const runProductsHandler = async (ctx: ActionCtx, args: RunSyncArgs) => {
 	await requireAuthAndOperator(ctx, args.organizationId);
 	return ctx.runAction(internal.sync.runProducts, args);
 };
 
-const runInvoicesHandler = async (ctx: ActionCtx, args: SyncArgs) => {
+const runInvoicesHandler = async (ctx: ActionCtx, args: RunSyncArgs) => {
 	await requireAuthAndOperator(ctx, args.organizationId);
 	return ctx.runAction(internal.sync.runInvoices, args);
 };
 
-const runPaymentsHandler = async (ctx: ActionCtx, args: SyncArgs) => {
+const runPaymentsHandler = async (ctx: ActionCtx, args: RunSyncArgs) => {
 	await requireAuthAndOperator(ctx, args.organizationId);
 	return ctx.runAction(internal.sync.runPayments, args);
 };
 
+const runFullHandler = async (ctx: ActionCtx, args: SyncArgs) => {
+	await requireAuthAndOperator(ctx, args.organizationId);
+	return ctx.runAction(internal.sync.runFull, args);
+};
+
+const runBackfillHandler = async (ctx: ActionCtx, args: BackfillArgs) => {
+	await requireAuthAndOperator(ctx, args.organizationId);
+	return ctx.runAction(internal.sync.runBackfill, args);
+};
+
 const testConnectionHandler = async (ctx: ActionCtx, args: TestConnectionArgs) => {
 	await requireAuthAndOperator(ctx, args.organizationId);
 	return ctx.runAction(internal.sync.testConnection, args);
 };
 
-const fetchDepartmentsFromRubicHandler = async (ctx: ActionCtx, args: OrgOnlyArgs) => {
+const saveCredentialsHandler = async (ctx: ActionCtx, args: SaveCredentialsArgs) => {
+	await requireAuthAndAdmin(ctx, args.organizationId);
+	return ctx.runAction(internal.sync.saveCredentials, args);
+};
+
+const planPromotionToProductionHandler = async (ctx: ActionCtx, args: OrgOnlyArgs) => {
+	await requireAuthAndOperator(ctx, args.organizationId);
+	return ctx.runAction(internal.sync.planPromotionToProduction, args);
+};
+
+const promoteToProductionHandler = async (ctx: ActionCtx, args: PromoteArgs) => {
+	await requireAuthAndOperator(ctx, args.organizationId);
+	return ctx.runAction(internal.sync.promoteToProduction, args);
+};
+
+const runReconciliationHandler = async (ctx: ActionCtx, args: ReconciliationArgs) => {
+	await requireAuthAndOperator(ctx, args.organizationId);
+	return ctx.runAction(internal.sync.runReconciliation, args);
+};
+
+const verifyMappingsHandler = async (ctx: ActionCtx, args: SyncArgs) => {
+	await requireAuthAndOperator(ctx, args.organizationId);
+	return ctx.runAction(internal.sync.verifyMappings, args);
+};
+
+const fetchDepartmentsFromRubicHandler = async (ctx: ActionCtx, args: SyncArgs) => {
 	await requireAuthAndMembership(ctx, args.organizationId);
 	return ctx.runAction(internal.sync.fetchDepartmentsFromRubic, args);
 };
@@ -127,6 +221,21 @@ const fetchDepartmentsFromTripletexHandler = async (ctx: ActionCtx, args: SyncAr
 	return ctx.runAction(internal.sync.fetchDepartmentsFromTripletex, args);
 };
 
+const fetchVatTypesFromTripletexHandler = async (ctx: ActionCtx, args: SyncArgs) => {
+	await requireAuthAndMembership(ctx, args.organizationId);
+	return ctx.runAction(internal.sync.fetchVatTypesFromTripletex, args);
+};
+
+const fetchPaymentTypesFromTripletexHandler = async (ctx: ActionCtx, args: SyncArgs) => {
+	await requireAuthAndMembership(ctx, args.organizationId);
+	return ctx.runAction(internal.sync.fetchPaymentTypesFromTripletex, args);
+};
+
+const fetchTaxCodesFromRubicHandler = async (ctx: ActionCtx, args: SyncArgs) => {
+	await requireAuthAndMembership(ctx, args.organizationId);
+	return ctx.runAction(internal.sync.fetchTaxCodesFromRubic, args);
+};
+
 // ---------------------------------------------------------------------------
 // Public sync actions (require operator role)
 // ---------------------------------------------------------------------------
@@ -136,26 +245,52 @@ const syncArgs = {
 	tripletexEnv: tripletexEnvValidator,
 };
 
+/** `dryRun: true` fetches, maps and diffs without writing to Tripletex. */
+const runSyncArgs = {
+	...syncArgs,
+	dryRun: v.optional(v.boolean()),
+};
+
 export const runCustomersPublic = action({
-	args: syncArgs,
+	args: runSyncArgs,
 	handler: runCustomersHandler,
 });
 
+export const runMembersPublic = action({
+	args: runSyncArgs,
+	handler: runMembersHandler,
+});
+
 export const runProductsPublic = action({
-	args: syncArgs,
+	args: runSyncArgs,
 	handler: runProductsHandler,
 });
 
 export const runInvoicesPublic = action({
-	args: syncArgs,
+	args: runSyncArgs,
 	handler: runInvoicesHandler,
 });
 
 export const runPaymentsPublic = action({
-	args: syncArgs,
+	args: runSyncArgs,
 	handler: runPaymentsHandler,
 });
 
+export const runFullPublic = action({
+	args: syncArgs,
+	handler: runFullHandler,
+});
+
+export const runBackfillPublic = action({
+	args: {
+		...syncArgs,
+		syncType: chunkedSyncTypeValidator,
+		startPeriod: v.number(),
+		endPeriod: v.number(),
+	},
+	handler: runBackfillHandler,
+});
+
 export const testConnectionPublic = action({
 	args: {
 		organizationId: v.id("organizations"),
@@ -165,12 +300,74 @@ export const testConnectionPublic = action({
 	handler: testConnectionHandler,
 });
 
+/**
+ * Compare Rubic with Tripletex over a period (dates `YYYY-MM-DD`, both
+ * inclusive) and store a reconciliation report. Returns the report id.
+ */
+export const runReconciliationPublic = action({
+	args: {
+		...syncArgs,
+		periodStart: v.string(),
+		periodEnd: v.string(),
+	},
+	handler: runReconciliationHandler,
+});
+
+/**
+ * Check every customer, product and invoice mapping against Tripletex and
+ * flag those whose record is gone.
+ */
+export const verifyMappingsPublic = action({
+	args: syncArgs,
+	handler: verifyMappingsHandler,
+});
+
+// ---------------------------------------------------------------------------
+// Public promotion actions (require operator)
+// ---------------------------------------------------------------------------
+
+/** Review what promoting the sandbox config to production would change. */
+export const planPromotionToProductionPublic = action({
+	args: { organizationId: v.id("organizations") },
+	handler: planPromotionToProductionHandler,
+});
+
+/** Copy sandbox mappings, settings and schedules to production, re-resolving Tripletex ids. */
+export const promoteToProductionPublic = action({
+	args: { organizationId: v.id("organizations"), planHash: v.string() },
+	handler: promoteToProductionHandler,
+});
+
+// ---------------------------------------------------------------------------
+// Public credential actions (require admin)
+// ---------------------------------------------------------------------------
+
+/**
+ * Verify, encrypt and store API credentials; the plain secret never reaches
+ * the database. Pass `skipVerification` to save credentials the provider rejects.
+ */
+export const saveCredentialsPublic = action({
+	args: {
+		organizationId: v.id("organizations"),
+		provider: providerTypeValidator,
+		environment: tripletexEnvValidator,
+		baseUrl: v.string(),
+		credentials: v.string(),
+		isEnabled: v.boolean(),
+		skipVerification: v.optional(v.boolean()),
+	},
+	handler: saveCredentialsHandler,
+});
+
 // ---------------------------------------------------------------------------
 // Public fetch actions (require membership — viewers can read)
 // ---------------------------------------------------------------------------
 
 export const fetchDepartmentsFromRubicPublic = action({
-	args: { organizationId: v.id("organizations") },
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnvValidator,
+	},
 	handler: fetchDepartmentsFromRubicHandler,
 });
 
@@ -181,3 +378,27 @@ export const fetchDepartmentsFromTripletexPublic = action({
 	},
 	handler: fetchDepartmentsFromTripletexHandler,
 });
+
+export const fetchVatTypesFromTripletexPublic = action({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnvValidator,
+	},
+	handler: fetchVatTypesFromTripletexHandler,
+});
+
+export const fetchPaymentTypesFromTripletexPublic = action({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnvValidator,
+	},
+	handler: fetchPaymentTypesFromTripletexHandler,
+});
+
+export const fetchTaxCodesFromRubicPublic = action({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnvValidator,
+	},
+	handler: fetchTaxCodesFromRubicHandler,
+});
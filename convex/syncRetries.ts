@@ -0,0 +1,126 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery, query } from "./_generated/server";
+import { requireOrgMembership } from "./lib/auth";
+import { chunkedSyncType, tripletexEnv } from "./validators";
+
+/** List queued retries for an org, sync type and environment (requires membership). */
+export const list = query({
+	args: {
+		organizationId: v.id("organizations"),
+		syncType: chunkedSyncType,
+		tripletexEnv: tripletexEnv,
+		limit: v.optional(v.number()),
+	},
+	handler: async (ctx, args) => {
+		await requireOrgMembership(ctx, args.organizationId);
+
+		const limit = args.limit ?? 100;
+		return await ctx.db
+			.query("syncRetries")
+			.withIndex("by_org_type_env", (q) =>
+				q
+					.eq("organizationId", args.organizationId)
+					.eq("syncType", args.syncType)
+					.eq("tripletexEnv", args.tripletexEnv),
+			)
+			.order("desc")
+			.take(limit);
+	},
+});
+
+/**
+ * List the queued retries attempted longest ago — internal only (used by sync actions).
+ * Every attempt moves a retry to the back, so successive runs work through the whole queue.
+ */
+export const listInternal = internalQuery({
+	args: {
+		organizationId: v.id("organizations"),
+		syncType: chunkedSyncType,
+		tripletexEnv: tripletexEnv,
+		limit: v.number(),
+	},
+	handler: async (ctx, args) => {
+		return await ctx.db
+			.query("syncRetries")
+			.withIndex("by_org_type_env_attempt", (q) =>
+				q
+					.eq("organizationId", args.organizationId)
+					.eq("syncType", args.syncType)
+					.eq("tripletexEnv", args.tripletexEnv),
+			)
+			.take(args.limit);
+	},
+});
+
+/** Queue a record that was not synced, or count another failed attempt — internal only. */
+export const record = internalMutation({
+	args: {
+		organizationId: v.id("organizations"),
+		syncType: chunkedSyncType,
+		tripletexEnv: tripletexEnv,
+		rubicId: v.number(),
+		error: v.string(),
+		syncStateId: v.id("syncState"),
+	},
+	handler: async (ctx, args) => {
+		const now = Date.now();
+		const existing = await ctx.db
+			.query("syncRetries")
+			.withIndex("by_org_type_env_rubic", (q) =>
+				q
+					.eq("organizationId", args.organizationId)
+					.eq("syncType", args.syncType)
+					.eq("tripletexEnv", args.tripletexEnv)
+					.eq("rubicId", args.rubicId),
+			)
+			.unique();
+
+		if (existing) {
+			await ctx.db.patch(existing._id, {
+				attempts: existing.attempts + 1,
+				lastError: args.error,
+				lastAttemptAt: now,
+				lastSyncStateId: args.syncStateId,
+			});
+			return existing._id;
+		}
+
+		return await ctx.db.insert("syncRetries", {
+			organizationId: args.organizationId,
+			syncType: args.syncType,
+			tripletexEnv: args.tripletexEnv,
+			rubicId: args.rubicId,
+			attempts: 1,
+			lastError: args.error,
+			firstFailedAt: now,
+			lastAttemptAt: now,
+			lastSyncStateId: args.syncStateId,
+		});
+	},
+});
+
+/** Drop a record from the retry queue once it has been synced — internal only. */
+export const resolve = internalMutation({
+	args: {
+		organizationId: v.id("organizations"),
+		syncType: chunkedSyncType,
+		tripletexEnv: tripletexEnv,
+		rubicId: v.number(),
+	},
+	handler: async (ctx, args) => {
+		const existing = await ctx.db
+			.query("syncRetries")
+			.withIndex("by_org_type_env_rubic", (q) =>
+				q
+					.eq("organizationId", args.organizationId)
+					.eq("syncType", args.syncType)
+					.eq("tripletexEnv", args.tripletexEnv)
+					.eq("rubicId", args.rubicId),
+			)
+			.unique();
+
+		if (existing) {
+			await ctx.db.delete(existing._id);
+		}
+	},
+});
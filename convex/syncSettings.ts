@@ -0,0 +1,117 @@
+import { v } from "convex/values";
+import { internalQuery, mutation, query } from "./_generated/server";
+import { requireOrgMembership, requireOrgOperator } from "./lib/auth";
+import { pipelineStepPolicy, staleMappingPolicy, tripletexEnv } from "./validators";
+
+/** Get sync settings for an org and environment (requires membership). */
+export const get = query({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnv,
+	},
+	handler: async (ctx, args) => {
+		await requireOrgMembership(ctx, args.organizationId);
+
+		return await ctx.db
+			.query("syncSettings")
+			.withIndex("by_org_and_env", (q) =>
+				q.eq("organizationId", args.organizationId).eq("tripletexEnv", args.tripletexEnv),
+			)
+			.unique();
+	},
+});
+
+/** Get sync settings — internal only (used by sync actions). */
+export const getInternal = internalQuery({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnv,
+	},
+	handler: async (ctx, args) => {
+		return await ctx.db
+			.query("syncSettings")
+			.withIndex("by_org_and_env", (q) =>
+				q.eq("organizationId", args.organizationId).eq("tripletexEnv", args.tripletexEnv),
+			)
+			.unique();
+	},
+});
+
+/**
+ * Create or update sync settings (requires operator).
+ * Only the fields passed are changed; omitted fields keep their current value.
+ * Pass `null` for `fallbackDepartment`, `paymentFeeVoucher` or `defaultPaymentType` to clear it.
+ */
+export const upsert = mutation({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnv,
+		strictInvoiceLines: v.optional(v.boolean()),
+		useLedgerCustomerNo: v.optional(v.boolean()),
+		fallbackDepartment: v.optional(
+			v.union(v.object({ id: v.number(), name: v.string() }), v.null()),
+		),
+		requireDepartmentMapping: v.optional(v.boolean()),
+		paymentFeeVoucher: v.optional(
+			v.union(
+				v.object({ expenseAccountNumber: v.number(), counterAccountNumber: v.number() }),
+				v.null(),
+			),
+		),
+		defaultPaymentType: v.optional(
+			v.union(v.object({ id: v.number(), name: v.string() }), v.null()),
+		),
+		fullSyncPolicy: v.optional(
+			v.object({
+				customers: v.optional(pipelineStepPolicy),
+				products: v.optional(pipelineStepPolicy),
+				invoices: v.optional(pipelineStepPolicy),
+			}),
+		),
+		staleMappingPolicy: v.optional(staleMappingPolicy),
+	},
+	handler: async (ctx, args) => {
+		await requireOrgOperator(ctx, args.organizationId);
+
+		const {
+			organizationId,
+			tripletexEnv: env,
+			fallbackDepartment,
+			paymentFeeVoucher,
+			defaultPaymentType,
+			...rest
+		} = args;
+		// null clears a setting; undefined leaves it unchanged
+		const fields = {
+			...rest,
+			...(fallbackDepartment !== undefined && {
+				fallbackDepartment: fallbackDepartment ?? undefined,
+			}),
+			...(paymentFeeVoucher !== undefined && {
+				paymentFeeVoucher: paymentFeeVoucher ?? undefined,
+			}),
+			...(defaultPaymentType !== undefined && {
+				defaultPaymentType: defaultPaymentType ?? undefined,
+			}),
+		};
+
+		const existing = await ctx.db
+			.query("syncSettings")
+			.withIndex("by_org_and_env", (q) =>
+				q.eq("organizationId", organizationId).eq("tripletexEnv", env),
+			)
+			.unique();
+
+		if (existing) {
+			await ctx.db.patch(existing._id, { ...fields, updatedAt: Date.now() });
+			return existing._id;
+		}
+
+		return await ctx.db.insert("syncSettings", {
+			organizationId,
+			tripletexEnv: env,
+			...fields,
+			updatedAt: Date.now(),
+		});
+	},
+});
@@ -1,7 +1,17 @@
 import { v } from "convex/values";
-import { internalMutation, internalQuery, query } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { internalMutation, internalQuery, type MutationCtx, query } from "./_generated/server";
 import { requireOrgMembership } from "./lib/auth";
-import { syncType, tripletexEnv } from "./validators";
+import { acceptsRunUpdates, getSyncRunTimeoutMs, isRunTimedOut } from "./lib/runTimeout";
+import { renewLease } from "./syncLocks";
+import {
+	fullSyncStep,
+	pipelineStepResult,
+	syncCursor,
+	syncRunMode,
+	syncType,
+	tripletexEnv,
+} from "./validators";
 
 /** List recent sync runs for an organization (requires membership). */
 export const list = query({
@@ -58,7 +68,25 @@ export const getRunning = query({
 	},
 });
 
-/** Get the latest sync run — internal only (used by sync actions). */
+/** List the step runs of a full sync pipeline run, oldest first (requires membership). */
+export const listChildren = query({
+	args: { parentRunId: v.id("syncState") },
+	handler: async (ctx, args) => {
+		const parent = await ctx.db.get(args.parentRunId);
+		if (!parent) throw new Error("Sync run not found");
+		await requireOrgMembership(ctx, parent.organizationId);
+
+		return await ctx.db
+			.query("syncState")
+			.withIndex("by_parent", (q) => q.eq("parentRunId", args.parentRunId))
+			.collect();
+	},
+});
+
+/**
+ * Get the latest incremental sync run — internal only (used by sync actions).
+ * Backfill and dry runs are ignored: they neither set nor resume the incremental watermark.
+ */
 export const getLatestInternal = internalQuery({
 	args: {
 		organizationId: v.id("organizations"),
@@ -66,7 +94,7 @@ export const getLatestInternal = internalQuery({
 		tripletexEnv: tripletexEnv,
 	},
 	handler: async (ctx, args) => {
-		return await ctx.db
+		const runs = ctx.db
 			.query("syncState")
 			.withIndex("by_org_type_env", (q) =>
 				q
@@ -74,8 +102,20 @@ export const getLatestInternal = internalQuery({
 					.eq("syncType", args.syncType)
 					.eq("tripletexEnv", args.tripletexEnv),
 			)
-			.order("desc")
-			.first();
+			.order("desc");
+
+		for await (const run of runs) {
+			if (run.mode !== "backfill" && !run.dryRun) return run;
+		}
+		return null;
+	},
+});
+
+/** Get a sync run by ID — internal only (used by sync continuations). */
+export const getInternal = internalQuery({
+	args: { syncStateId: v.id("syncState") },
+	handler: async (ctx, args) => {
+		return await ctx.db.get(args.syncStateId);
 	},
 });
 
@@ -85,6 +125,15 @@ export const start = internalMutation({
 		organizationId: v.id("organizations"),
 		syncType: syncType,
 		tripletexEnv: tripletexEnv,
+		parentRunId: v.optional(v.id("syncState")),
+		mode: v.optional(syncRunMode),
+		windowStart: v.optional(v.number()),
+		windowEnd: v.optional(v.number()),
+		cursor: v.optional(syncCursor),
+		resumedFromRunId: v.optional(v.id("syncState")),
+		dryRun: v.optional(v.boolean()),
+		pendingSteps: v.optional(v.array(fullSyncStep)),
+		leaseId: v.optional(v.string()),
 	},
 	handler: async (ctx, args) => {
 		return await ctx.db.insert("syncState", {
@@ -95,25 +144,101 @@ export const start = internalMutation({
 			recordsProcessed: 0,
 			recordsFailed: 0,
 			startedAt: Date.now(),
+			lastHeartbeatAt: Date.now(),
+			parentRunId: args.parentRunId,
+			mode: args.mode,
+			windowStart: args.windowStart,
+			windowEnd: args.windowEnd,
+			cursor: args.cursor,
+			resumedFromRunId: args.resumedFromRunId,
+			dryRun: args.dryRun,
+			pendingSteps: args.pendingSteps,
+			stepResults: args.pendingSteps ? [] : undefined,
+			leaseId: args.leaseId,
 		});
 	},
 });
 
-/** Mark a sync run as completed successfully — internal only. */
+/**
+ * Count a step run's sign of life for its pipeline run too, and renew the
+ * pipeline's lease, so neither expires while a long step is still working.
+ */
+async function keepParentAlive(ctx: MutationCtx, parentRunId: Id<"syncState"> | undefined) {
+	if (!parentRunId) return;
+	const parent = await ctx.db.get(parentRunId);
+	if (!parent || parent.status !== "running") return;
+
+	await ctx.db.patch(parentRunId, { lastHeartbeatAt: Date.now() });
+	if (parent.leaseId) {
+		await renewLease(
+			ctx,
+			{
+				organizationId: parent.organizationId,
+				syncType: parent.syncType,
+				tripletexEnv: parent.tripletexEnv,
+			},
+			parent.leaseId,
+		);
+	}
+}
+
+/**
+ * Save progress of a chunked run so it can continue (or be resumed) from here — internal only.
+ * Also counts as a heartbeat.
+ */
+export const checkpoint = internalMutation({
+	args: {
+		syncStateId: v.id("syncState"),
+		cursor: syncCursor,
+		recordsProcessed: v.number(),
+		recordsFailed: v.number(),
+		recordsSkipped: v.optional(v.number()),
+	},
+	handler: async (ctx, args) => {
+		const run = await ctx.db.get(args.syncStateId);
+		// Ignore late checkpoints from runs the janitor already gave up on
+		if (!acceptsRunUpdates(run)) return;
+
+		await ctx.db.patch(args.syncStateId, {
+			cursor: args.cursor,
+			recordsProcessed: args.recordsProcessed,
+			recordsFailed: args.recordsFailed,
+			recordsSkipped: args.recordsSkipped,
+			lastHeartbeatAt: Date.now(),
+		});
+		await keepParentAlive(ctx, run.parentRunId);
+	},
+});
+
+/**
+ * Mark a sync run as completed successfully — internal only.
+ * Chunked runs pass the end of their Rubic period as `lastSyncAt`, since
+ * records created while the run was in progress fall outside that period.
+ * Backfill and dry runs never get a `lastSyncAt`, so the incremental watermark stays put.
+ */
 export const complete = internalMutation({
 	args: {
 		syncStateId: v.id("syncState"),
 		recordsProcessed: v.number(),
 		recordsFailed: v.number(),
+		recordsSkipped: v.optional(v.number()),
+		lastSyncAt: v.optional(v.number()),
 	},
 	handler: async (ctx, args) => {
+		const run = await ctx.db.get(args.syncStateId);
+		if (!run) throw new Error("Sync run not found");
+		// A timed-out run keeps its outcome, and the watermark stays put
+		if (!acceptsRunUpdates(run)) return;
+
 		const now = Date.now();
 		await ctx.db.patch(args.syncStateId, {
 			status: "success",
 			recordsProcessed: args.recordsProcessed,
 			recordsFailed: args.recordsFailed,
+			recordsSkipped: args.recordsSkipped,
 			completedAt: now,
-			lastSyncAt: now,
+			lastSyncAt: run.mode === "backfill" || run.dryRun ? undefined : (args.lastSyncAt ?? now),
+			cursor: undefined,
 		});
 	},
 });
@@ -125,11 +250,14 @@ export const fail = internalMutation({
 		errorMessage: v.string(),
 		recordsProcessed: v.optional(v.number()),
 		recordsFailed: v.optional(v.number()),
+		recordsSkipped: v.optional(v.number()),
+		cursor: v.optional(syncCursor),
 	},
 	handler: async (ctx, args) => {
 		await ctx.db.patch(args.syncStateId, {
 			status: "failed",
 			errorMessage: args.errorMessage,
+			failureReason: "error",
 			completedAt: Date.now(),
 			...(args.recordsProcessed !== undefined && {
 				recordsProcessed: args.recordsProcessed,
@@ -137,6 +265,82 @@ export const fail = internalMutation({
 			...(args.recordsFailed !== undefined && {
 				recordsFailed: args.recordsFailed,
 			}),
+			...(args.recordsSkipped !== undefined && {
+				recordsSkipped: args.recordsSkipped,
+			}),
+			...(args.cursor !== undefined && { cursor: args.cursor }),
+		});
+	},
+});
+
+/** Record that a running sync is still alive — internal only (used by sync actions). */
+export const heartbeat = internalMutation({
+	args: { syncStateId: v.id("syncState") },
+	handler: async (ctx, args) => {
+		const run = await ctx.db.get(args.syncStateId);
+		// Ignore late heartbeats from runs the janitor already gave up on
+		if (!acceptsRunUpdates(run)) return;
+
+		await ctx.db.patch(args.syncStateId, { lastHeartbeatAt: Date.now() });
+		await keepParentAlive(ctx, run.parentRunId);
+	},
+});
+
+/**
+ * Record the outcome of a full sync pipeline step — internal only (used by sync).
+ * Steps report once they are finished, including chunked steps that ran on in
+ * continuations. Returns false when the step was not pending (already reported).
+ */
+export const recordPipelineStep = internalMutation({
+	args: {
+		parentRunId: v.id("syncState"),
+		result: pipelineStepResult,
+	},
+	handler: async (ctx, args) => {
+		const parent = await ctx.db.get(args.parentRunId);
+		if (!parent?.pendingSteps?.includes(args.result.step)) return false;
+
+		await ctx.db.patch(args.parentRunId, {
+			pendingSteps: parent.pendingSteps.filter((step) => step !== args.result.step),
+			stepResults: [...(parent.stepResults ?? []), args.result],
+			lastHeartbeatAt: Date.now(),
 		});
+		return true;
+	},
+});
+
+/**
+ * Mark running syncs with no recent heartbeat as failed (`timed_out`) — internal only.
+ * Called by the janitor cron. The timeout comes from the SYNC_RUN_TIMEOUT_MINUTES
+ * environment variable (default 15 minutes).
+ */
+export const recoverStuckRuns = internalMutation({
+	args: {},
+	handler: async (ctx) => {
+		const timeoutMs = getSyncRunTimeoutMs(process.env.SYNC_RUN_TIMEOUT_MINUTES);
+		const now = Date.now();
+
+		const running = await ctx.db
+			.query("syncState")
+			.withIndex("by_status", (q) => q.eq("status", "running"))
+			.collect();
+
+		let recovered = 0;
+		for (const run of running) {
+			if (!isRunTimedOut(run, now, timeoutMs)) continue;
+
+			await ctx.db.patch(run._id, {
+				status: "failed",
+				failureReason: "timed_out",
+				errorMessage: `Timed out: no progress for over ${Math.round(timeoutMs / 60000)} minutes`,
+				completedAt: now,
+			});
+			recovered++;
+		}
+
+		if (recovered > 0) {
+			console.warn(`Marked ${recovered} stuck sync run(s) as timed out`);
+		}
+		return { recovered };
 	},
 });
@@ -0,0 +1,85 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery, query } from "./_generated/server";
+import { requireOrgMembership } from "./lib/auth";
+import { chunkedSyncType, tripletexEnv } from "./validators";
+
+/** Get the incremental watermark for an org/syncType/env (requires membership). */
+export const get = query({
+	args: {
+		organizationId: v.id("organizations"),
+		syncType: chunkedSyncType,
+		tripletexEnv: tripletexEnv,
+	},
+	handler: async (ctx, args) => {
+		await requireOrgMembership(ctx, args.organizationId);
+
+		return await ctx.db
+			.query("syncWatermarks")
+			.withIndex("by_org_type_env", (q) =>
+				q
+					.eq("organizationId", args.organizationId)
+					.eq("syncType", args.syncType)
+					.eq("tripletexEnv", args.tripletexEnv),
+			)
+			.unique();
+	},
+});
+
+/** Get the incremental watermark — internal only (used by sync actions). */
+export const getInternal = internalQuery({
+	args: {
+		organizationId: v.id("organizations"),
+		syncType: chunkedSyncType,
+		tripletexEnv: tripletexEnv,
+	},
+	handler: async (ctx, args) => {
+		return await ctx.db
+			.query("syncWatermarks")
+			.withIndex("by_org_type_env", (q) =>
+				q
+					.eq("organizationId", args.organizationId)
+					.eq("syncType", args.syncType)
+					.eq("tripletexEnv", args.tripletexEnv),
+			)
+			.unique();
+	},
+});
+
+/**
+ * Move the watermark to the end of a fully processed period — internal only (used by sync).
+ * Only called once every record of the period was synced or queued for retry;
+ * never moves the watermark backwards.
+ */
+export const advance = internalMutation({
+	args: {
+		organizationId: v.id("organizations"),
+		syncType: chunkedSyncType,
+		tripletexEnv: tripletexEnv,
+		watermark: v.number(),
+		syncStateId: v.id("syncState"),
+	},
+	handler: async (ctx, args) => {
+		const existing = await ctx.db
+			.query("syncWatermarks")
+			.withIndex("by_org_type_env", (q) =>
+				q
+					.eq("organizationId", args.organizationId)
+					.eq("syncType", args.syncType)
+					.eq("tripletexEnv", args.tripletexEnv),
+			)
+			.unique();
+
+		if (!existing) {
+			return await ctx.db.insert("syncWatermarks", { ...args, updatedAt: Date.now() });
+		}
+
+		if (args.watermark > existing.watermark) {
+			await ctx.db.patch(existing._id, {
+				watermark: args.watermark,
+				syncStateId: args.syncStateId,
+				updatedAt: Date.now(),
+			});
+		}
+		return existing._id;
+	},
+});
@@ -4,17 +4,116 @@ import { v } from "convex/values";
 
 export const syncType = v.union(
 	v.literal("customers"),
+	v.literal("members"),
 	v.literal("products"),
 	v.literal("invoices"),
 	v.literal("payments"),
+	v.literal("full"),
 );
 
 export const syncStatus = v.union(v.literal("running"), v.literal("success"), v.literal("failed"));
 
+export const syncRunMode = v.union(v.literal("incremental"), v.literal("backfill"));
+
+export const chunkedSyncType = v.union(v.literal("invoices"), v.literal("payments"));
+
+export const syncFailureReason = v.union(v.literal("error"), v.literal("timed_out"));
+
 export const tripletexEnv = v.union(v.literal("sandbox"), v.literal("production"));
 
 export const providerType = v.union(v.literal("rubic"), v.literal("tripletex"));
 
+export const rubicMemberType = v.union(v.literal("person"), v.literal("company"));
+
+export const syncEntityType = v.union(
+	v.literal("customer"),
+	v.literal("member"),
+	v.literal("product"),
+	v.literal("invoice"),
+	v.literal("payment"),
+);
+
+export const syncItemOutcome = v.union(v.literal("failed"), v.literal("skipped"));
+
+export const syncErrorCategory = v.union(
+	v.literal("missing_data"),
+	v.literal("not_mapped"),
+	v.literal("rubic_api"),
+	v.literal("tripletex_api"),
+	v.literal("internal"),
+);
+
+export const invoiceSkipReason = v.union(
+	v.literal("missing_customer_no"),
+	v.literal("customer_not_mapped"),
+	v.literal("no_lines"),
+	v.literal("no_mapped_products"),
+	v.literal("partial_lines_dropped"),
+	v.literal("department_not_mapped"),
+);
+
+/** What a dry run would do with a record in Tripletex. */
+export const plannedActionType = v.union(
+	v.literal("create"),
+	v.literal("update"),
+	v.literal("link"),
+	v.literal("unchanged"),
+	v.literal("skip"),
+);
+
+/** One field a dry run would change on a Tripletex record (values rendered as strings). */
+export const plannedFieldChange = v.object({
+	field: v.string(),
+	from: v.optional(v.string()),
+	to: v.optional(v.string()),
+});
+
+/** One order line a dry run would send to Tripletex. */
+export const plannedOrderLine = v.object({
+	description: v.optional(v.string()),
+	productId: v.optional(v.number()),
+	count: v.number(),
+	unitPrice: v.number(),
+	discount: v.optional(v.number()),
+	amount: v.number(),
+});
+
+/** Resume point of a chunked sync run: the Rubic page and the last record handled on it. */
+export const syncCursor = v.object({
+	pageNo: v.number(),
+	lastRubicId: v.optional(v.number()),
+});
+
+export const pipelineStepPolicy = v.union(v.literal("stop"), v.literal("continue"));
+
+export const fullSyncStep = v.union(
+	v.literal("customers"),
+	v.literal("products"),
+	v.literal("invoices"),
+	v.literal("payments"),
+);
+
+/** Outcome of one step of a full sync pipeline run (mirrors `PipelineStepResult`). */
+export const pipelineStepResult = v.object({
+	step: fullSyncStep,
+	status: v.union(v.literal("success"), v.literal("failed"), v.literal("not_run")),
+	processed: v.number(),
+	failed: v.number(),
+	skipped: v.number(),
+	error: v.optional(v.string()),
+});
+
+/**
+ * What sync does with a customer or product mapping whose Tripletex record is
+ * gone: link the record with the same number, also create one if there is
+ * none, or only flag the mapping.
+ */
+export const staleMappingPolicy = v.union(
+	v.literal("relink"),
+	v.literal("recreate"),
+	v.literal("flag"),
+);
+
 export const memberRole = v.union(
 	v.literal("owner"),
 	v.literal("admin"),
@@ -23,13 +122,108 @@ export const memberRole = v.union(
 	v.literal("viewer"),
 );
 
+/** Entity a field mapping rule applies to. */
+export const fieldMappingEntity = v.union(
+	v.literal("customer"),
+	v.literal("product"),
+	v.literal("invoiceLine"),
+);
+
+export const fieldTransform = v.union(
+	v.literal("trim"),
+	v.literal("uppercase"),
+	v.literal("lowercase"),
+	v.literal("digitsOnly"),
+);
+
+/** One declarative field mapping rule (see lib/fieldMapping.ts). */
+export const fieldRule = v.object({
+	target: v.string(),
+	source: v.optional(v.string()),
+	template: v.optional(v.string()),
+	transforms: v.optional(v.array(fieldTransform)),
+	defaultValue: v.optional(v.string()),
+	omit: v.optional(v.boolean()),
+});
+
+/** A disagreement between Rubic and Tripletex found by a reconciliation. */
+export const reconciliationIssueKind = v.union(
+	v.literal("missing_invoice"),
+	v.literal("amount_mismatch"),
+	v.literal("balance_mismatch"),
+	v.literal("missing_payment"),
+	v.literal("orphan_mapping"),
+);
+
+/** Totals of a reconciliation report (gross amounts in NOK). */
+export const reconciliationSummary = v.object({
+	rubicInvoices: v.number(),
+	matchedInvoices: v.number(),
+	rubicGrossTotal: v.number(),
+	tripletexGrossTotal: v.number(),
+	rubicOpenBalance: v.number(),
+	tripletexOpenBalance: v.number(),
+	rubicPayments: v.number(),
+	rubicPaymentTotal: v.number(),
+	registeredPayments: v.number(),
+	registeredPaymentTotal: v.number(),
+});
+
 // --- Type exports ---
 
-export type SyncType = "customers" | "products" | "invoices" | "payments";
+export type SyncType = "customers" | "members" | "products" | "invoices" | "payments" | "full";
 export type SyncStatus = "running" | "success" | "failed";
+export type SyncRunMode = "incremental" | "backfill";
+export type ChunkedSyncType = "invoices" | "payments";
+export type SyncFailureReason = "error" | "timed_out";
 export type TripletexEnv = "sandbox" | "production";
 export type ProviderType = "rubic" | "tripletex";
+export type RubicMemberType = "person" | "company";
+export type SyncEntityType = "customer" | "member" | "product" | "invoice" | "payment";
+export type SyncItemOutcome = "failed" | "skipped";
+export type SyncErrorCategory =
+	| "missing_data"
+	| "not_mapped"
+	| "rubic_api"
+	| "tripletex_api"
+	| "internal";
+export type InvoiceSkipReason =
+	| "missing_customer_no"
+	| "customer_not_mapped"
+	| "no_lines"
+	| "no_mapped_products"
+	| "partial_lines_dropped"
+	| "department_not_mapped";
+export type SyncCursor = { pageNo: number; lastRubicId?: number };
+export type PlannedActionType = "create" | "update" | "link" | "unchanged" | "skip";
+export type PlannedFieldChange = { field: string; from?: string; to?: string };
+export type PlannedOrderLine = {
+	description?: string;
+	productId?: number;
+	count: number;
+	unitPrice: number;
+	discount?: number;
+	amount: number;
+};
+export type PipelineStepPolicy = "stop" | "continue";
+export type StaleMappingPolicy = "relink" | "recreate" | "flag";
 export type MemberRole = "owner" | "admin" | "member" | "billing" | "viewer";
+export type FieldMappingEntity = "customer" | "product" | "invoiceLine";
+export type FieldTransform = "trim" | "uppercase" | "lowercase" | "digitsOnly";
+export type FieldRule = {
+	target: string;
+	source?: string;
+	template?: string;
+	transforms?: FieldTransform[];
+	defaultValue?: string;
+	omit?: boolean;
+};
+export type ReconciliationIssueKind =
+	| "missing_invoice"
+	| "amount_mismatch"
+	| "balance_mismatch"
+	| "missing_payment"
+	| "orphan_mapping";
 
 /**
  * Role hierarchy for permission checks.
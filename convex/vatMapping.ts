@@ -0,0 +1,106 @@
+import { v } from "convex/values";
+import { internalQuery, mutation, query } from "./_generated/server";
+import { requireOrgMembership, requireOrgOperator } from "./lib/auth";
+import { tripletexEnv } from "./validators";
+
+/** List VAT mappings for an org and environment (requires membership). */
+export const list = query({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnv,
+	},
+	handler: async (ctx, args) => {
+		await requireOrgMembership(ctx, args.organizationId);
+
+		return await ctx.db
+			.query("vatMapping")
+			.withIndex("by_org_and_env", (q) =>
+				q.eq("organizationId", args.organizationId).eq("tripletexEnv", args.tripletexEnv),
+			)
+			.collect();
+	},
+});
+
+/** List VAT mappings for an org and environment — internal only (used by sync actions). */
+export const listInternal = internalQuery({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnv,
+	},
+	handler: async (ctx, args) => {
+		return await ctx.db
+			.query("vatMapping")
+			.withIndex("by_org_and_env", (q) =>
+				q.eq("organizationId", args.organizationId).eq("tripletexEnv", args.tripletexEnv),
+			)
+			.collect();
+	},
+});
+
+/**
+ * Create or update a VAT mapping (requires operator).
+ * A rule matches either a Rubic tax code or a tax percentage, never both;
+ * an existing rule for the same code or percentage is replaced.
+ */
+export const upsert = mutation({
+	args: {
+		organizationId: v.id("organizations"),
+		tripletexEnv: tripletexEnv,
+		rubicTaxCode: v.optional(v.string()),
+		rubicTaxPercent: v.optional(v.number()),
+		tripletexVatTypeId: v.number(),
+		tripletexVatTypeName: v.string(),
+	},
+	handler: async (ctx, args) => {
+		await requireOrgOperator(ctx, args.organizationId);
+
+		const taxCode = args.rubicTaxCode?.trim() || undefined;
+		if ((taxCode === undefined) === (args.rubicTaxPercent === undefined)) {
+			throw new Error("A VAT mapping needs either a Rubic tax code or a tax percentage");
+		}
+		if (args.rubicTaxPercent !== undefined && args.rubicTaxPercent < 0) {
+			throw new Error("Tax percentage cannot be negative");
+		}
+
+		const rules = await ctx.db
+			.query("vatMapping")
+			.withIndex("by_org_and_env", (q) =>
+				q.eq("organizationId", args.organizationId).eq("tripletexEnv", args.tripletexEnv),
+			)
+			.collect();
+		const existing = rules.find((rule) =>
+			taxCode !== undefined
+				? rule.rubicTaxCode?.toUpperCase() === taxCode.toUpperCase()
+				: rule.rubicTaxCode === undefined && rule.rubicTaxPercent === args.rubicTaxPercent,
+		);
+
+		if (existing) {
+			await ctx.db.patch(existing._id, {
+				tripletexVatTypeId: args.tripletexVatTypeId,
+				tripletexVatTypeName: args.tripletexVatTypeName,
+			});
+			return existing._id;
+		}
+
+		return await ctx.db.insert("vatMapping", {
+			organizationId: args.organizationId,
+			tripletexEnv: args.tripletexEnv,
+			rubicTaxCode: taxCode,
+			rubicTaxPercent: taxCode === undefined ? args.rubicTaxPercent : undefined,
+			tripletexVatTypeId: args.tripletexVatTypeId,
+			tripletexVatTypeName: args.tripletexVatTypeName,
+		});
+	},
+});
+
+/** Remove a VAT mapping (requires operator). */
+export const remove = mutation({
+	args: { vatMappingId: v.id("vatMapping") },
+	handler: async (ctx, args) => {
+		const mapping = await ctx.db.get(args.vatMappingId);
+		if (!mapping) throw new Error("VAT mapping not found");
+		await requireOrgOperator(ctx, mapping.organizationId);
+
+		await ctx.db.delete(args.vatMappingId);
+	},
+});
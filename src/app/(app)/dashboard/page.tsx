@@ -6,16 +6,19 @@ import {
 	ArrowLeftRight,
 	CheckCircle2,
 	Clock,
+	Contact,
 	CreditCard,
 	FileText,
 	Loader2,
 	Package,
 	Play,
 	Users,
+	Workflow,
 	XCircle,
 } from "lucide-react";
 import { useState } from "react";
 import { toast } from "sonner";
+import { CredentialHealthBanner } from "@/components/credential-health-banner";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -33,14 +36,16 @@ import type { Doc } from "../../../../convex/_generated/dataModel";
 
 const syncTypeConfig = {
 	customers: { label: "Customers", icon: Users, color: "bg-blue-500" },
+	members: { label: "Members", icon: Contact, color: "bg-sky-500" },
 	products: { label: "Products", icon: Package, color: "bg-emerald-500" },
 	invoices: { label: "Invoices", icon: FileText, color: "bg-amber-500" },
 	payments: { label: "Payments", icon: CreditCard, color: "bg-purple-500" },
+	full: { label: "Full Sync", icon: Workflow, color: "bg-slate-500" },
 } as const;
 
 type SyncType = keyof typeof syncTypeConfig;
 
-function StatusBadge({ status }: { status: string }) {
+function StatusBadge({ status, failureReason }: { status: string; failureReason?: string }) {
 	switch (status) {
 		case "success":
 			return (
@@ -59,7 +64,7 @@ function StatusBadge({ status }: { status: string }) {
 					className="bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20"
 				>
 					<XCircle className="mr-1 h-3 w-3" />
-					Failed
+					{failureReason === "timed_out" ? "Timed out" : "Failed"}
 				</Badge>
 			);
 		case "running":
@@ -114,14 +119,24 @@ function QuickSyncButton({
 }) {
 	const { organizationId } = useOrganization();
 	const [isRunning, setIsRunning] = useState(false);
+	const activeLocks = useQuery(
+		api.syncLocks.listActive,
+		organizationId ? { organizationId } : "skip",
+	);
+	const isLocked =
+		activeLocks?.some((l) => l.syncType === syncType && l.tripletexEnv === tripletexEnv) ?? false;
 	const runSync = useAction(
 		syncType === "customers"
 			? api.syncPublic.runCustomersPublic
-			: syncType === "products"
-				? api.syncPublic.runProductsPublic
-				: syncType === "invoices"
-					? api.syncPublic.runInvoicesPublic
-					: api.syncPublic.runPaymentsPublic,
+			: syncType === "members"
+				? api.syncPublic.runMembersPublic
+				: syncType === "products"
+					? api.syncPublic.runProductsPublic
+					: syncType === "invoices"
+						? api.syncPublic.runInvoicesPublic
+						: syncType === "payments"
+							? api.syncPublic.runPaymentsPublic
+							: api.syncPublic.runFullPublic,
 	);
 
 	const config = syncTypeConfig[syncType];
@@ -146,15 +161,17 @@ function QuickSyncButton({
 			variant="outline"
 			size="sm"
 			onClick={handleRun}
-			disabled={isRunning || !organizationId}
+			disabled={isRunning || isLocked || !organizationId}
 			className="gap-2"
+			title={isLocked ? "Already running" : undefined}
 		>
-			{isRunning ? (
+			{isRunning || isLocked ? (
 				<Loader2 className="h-3.5 w-3.5 animate-spin" />
 			) : (
 				<Play className="h-3.5 w-3.5" />
 			)}
 			{config.label}
+			{isLocked && !isRunning && " (already running)"}
 		</Button>
 	);
 }
@@ -219,6 +236,8 @@ export default function DashboardPage() {
 				<p className="text-muted-foreground">Integration dashboard overview</p>
 			</div>
 
+			<CredentialHealthBanner showSettingsLink />
+
 			{/* Stats cards */}
 			<div className="grid gap-4 md:grid-cols-4">
 				<Card>
@@ -336,7 +355,7 @@ export default function DashboardPage() {
 										</TableCell>
 										<TableCell className="font-medium capitalize">{run.syncType}</TableCell>
 										<TableCell>
-											<StatusBadge status={run.status} />
+											<StatusBadge status={run.status} failureReason={run.failureReason} />
 										</TableCell>
 										<TableCell className="text-muted-foreground">
 											{formatDate(run.startedAt)}
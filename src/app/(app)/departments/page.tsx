@@ -25,6 +25,7 @@ import {
 	SelectTrigger,
 	SelectValue,
 } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import {
 	Table,
 	TableBody,
@@ -49,6 +50,110 @@ interface TripletexDept {
 	number?: string;
 }
 
+const NO_FALLBACK = "none";
+
+function DepartmentSettingsCard({
+	env,
+	tripletexDepts,
+}: {
+	env: "sandbox" | "production";
+	tripletexDepts: TripletexDept[];
+}) {
+	const { organizationId } = useOrganization();
+
+	const settings = useQuery(
+		api.syncSettings.get,
+		organizationId ? { organizationId, tripletexEnv: env } : "skip",
+	);
+	const upsertSettings = useMutation(api.syncSettings.upsert);
+
+	const fallback = settings?.fallbackDepartment;
+	// Keep the saved fallback selectable before Tripletex departments are loaded
+	const fallbackOptions =
+		fallback && !tripletexDepts.some((d) => d.id === fallback.id)
+			? [{ id: fallback.id, name: fallback.name }, ...tripletexDepts]
+			: tripletexDepts;
+
+	const save = async (fields: {
+		fallbackDepartment?: { id: number; name: string } | null;
+		requireDepartmentMapping?: boolean;
+	}) => {
+		if (!organizationId) return;
+		try {
+			await upsertSettings({ organizationId, tripletexEnv: env, ...fields });
+		} catch (error) {
+			toast.error("Failed to update setting", {
+				description: error instanceof Error ? error.message : String(error),
+			});
+		}
+	};
+
+	const handleFallbackChange = async (value: string) => {
+		if (value === NO_FALLBACK) {
+			await save({ fallbackDepartment: null });
+			return;
+		}
+		const dept = fallbackOptions.find((d) => d.id.toString() === value);
+		if (!dept) return;
+		await save({ fallbackDepartment: { id: dept.id, name: dept.name ?? `Dept ${dept.id}` } });
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className="text-lg">Sync Behaviour</CardTitle>
+				<CardDescription>
+					Products get the department mapped from their Rubic department. Orders get the department
+					of their largest invoice line.
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				<div className="flex items-center justify-between gap-4">
+					<div>
+						<Label>Fallback department</Label>
+						<p className="text-sm text-muted-foreground">
+							Used when a Rubic department is missing or not mapped
+						</p>
+					</div>
+					<Select
+						value={fallback ? fallback.id.toString() : NO_FALLBACK}
+						onValueChange={(v) => v !== null && handleFallbackChange(v)}
+						disabled={settings === undefined}
+					>
+						<SelectTrigger className="w-[240px]">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectPositioner>
+							<SelectContent>
+								<SelectItem value={NO_FALLBACK}>No department</SelectItem>
+								{fallbackOptions.map((d) => (
+									<SelectItem key={d.id} value={d.id.toString()}>
+										{d.name ?? `Dept ${d.id}`}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</SelectPositioner>
+					</Select>
+				</div>
+				<div className="flex items-center justify-between gap-4">
+					<div>
+						<Label>Fail if unmapped</Label>
+						<p className="text-sm text-muted-foreground">
+							Don't sync products or invoices whose Rubic department has no mapping, instead of
+							using the fallback
+						</p>
+					</div>
+					<Switch
+						checked={settings?.requireDepartmentMapping ?? false}
+						onCheckedChange={(checked) => save({ requireDepartmentMapping: checked })}
+						disabled={settings === undefined}
+					/>
+				</div>
+			</CardContent>
+		</Card>
+	);
+}
+
 export default function DepartmentsPage() {
 	const { organizationId, isLoading: orgLoading } = useOrganization();
 	const [env, setEnv] = useState<"sandbox" | "production">("production");
@@ -74,7 +179,7 @@ export default function DepartmentsPage() {
 		if (!organizationId) return;
 		setLoadingRubic(true);
 		try {
-			const depts = await fetchRubicDepts({ organizationId });
+			const depts = await fetchRubicDepts({ organizationId, tripletexEnv: env });
 			setRubicDepts(depts as RubicDept[]);
 		} catch (error) {
 			console.error("Failed to fetch Rubic departments:", error);
@@ -208,6 +313,8 @@ export default function DepartmentsPage() {
 				</Button>
 			</div>
 
+			<DepartmentSettingsCard env={env} tripletexDepts={tripletexDepts} />
+
 			{/* Existing mappings */}
 			<Card>
 				<CardHeader>
@@ -0,0 +1,494 @@
+"use client";
+
+import { useMutation, useQuery } from "convex/react";
+import { Loader2, Plus, Shuffle, Trash2 } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectPositioner,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { useOrganization } from "@/hooks/use-organization";
+import { api } from "../../../../convex/_generated/api";
+import { FIELD_MAPPING_SOURCES, FIELD_MAPPING_TARGETS } from "../../../../convex/lib/fieldMapping";
+import type { FieldMappingEntity, FieldRule, FieldTransform } from "../../../../convex/validators";
+
+const entities: { value: FieldMappingEntity; label: string; description: string }[] = [
+	{ value: "customer", label: "Customers", description: "Applied by customer sync" },
+	{ value: "product", label: "Products", description: "Applied by product sync" },
+	{
+		value: "invoiceLine",
+		label: "Invoice Lines",
+		description: "Applied to each order line by invoice sync",
+	},
+];
+
+const transforms: { value: FieldTransform; label: string }[] = [
+	{ value: "trim", label: "Trim" },
+	{ value: "uppercase", label: "Uppercase" },
+	{ value: "lowercase", label: "Lowercase" },
+	{ value: "digitsOnly", label: "Digits only" },
+];
+
+/** Sample Rubic records for the preview; editable on the page. */
+const sampleRecords: Record<FieldMappingEntity, object> = {
+	customer: {
+		customerNo: "1001",
+		customerType: 2,
+		customerTypeName: "Company",
+		customerName: "Nordmann Sportsklubb",
+		email: "post@nordmann.no",
+		countryCode: "NO",
+		mobile: "+4791234567",
+		address: "Storgata 1",
+		address2: null,
+		zipCode: "0155",
+		city: "Oslo",
+		countryName: "Norway",
+		ledgerCustomerNo: "20001",
+	},
+	product: {
+		productID: 10,
+		productCode: "PROD-001",
+		productName: "Annual Membership",
+		productDescription: "Full year membership fee",
+		productGroupID: 1,
+		departmentID: null,
+		price: 499,
+	},
+	invoiceLine: {
+		invoiceNumber: 5001,
+		invoiceDate: "2025-06-01",
+		dueDate: "2025-07-01",
+		productCode: "PROD-001",
+		productName: "Annual Membership",
+		productGroupName: "Memberships",
+		departmentName: null,
+		specification: "2025 season",
+		quantity: 1,
+		price: 499,
+		discount: 0,
+	},
+};
+
+type RuleMode = "source" | "template" | "constant" | "omit";
+
+interface DraftRule {
+	target: string;
+	mode: RuleMode;
+	/** Source field, template or constant, depending on the mode. */
+	value: string;
+	transforms: FieldTransform[];
+	defaultValue: string;
+}
+
+function toDraft(rule: FieldRule): DraftRule {
+	const mode: RuleMode = rule.omit
+		? "omit"
+		: rule.template !== undefined
+			? "template"
+			: rule.source !== undefined
+				? "source"
+				: "constant";
+	return {
+		target: rule.target,
+		mode,
+		value:
+			mode === "template"
+				? (rule.template ?? "")
+				: mode === "source"
+					? (rule.source ?? "")
+					: mode === "constant"
+						? (rule.defaultValue ?? "")
+						: "",
+		transforms: rule.transforms ?? [],
+		defaultValue: mode === "constant" ? "" : (rule.defaultValue ?? ""),
+	};
+}
+
+function toRule(draft: DraftRule): FieldRule {
+	switch (draft.mode) {
+		case "omit":
+			return { target: draft.target, omit: true };
+		case "constant":
+			return { target: draft.target, defaultValue: draft.value };
+		default:
+			return {
+				target: draft.target,
+				...(draft.mode === "source" ? { source: draft.value } : { template: draft.value }),
+				...(draft.transforms.length > 0 && { transforms: draft.transforms }),
+				...(draft.defaultValue !== "" && { defaultValue: draft.defaultValue }),
+			};
+	}
+}
+
+function isComplete(draft: DraftRule): boolean {
+	return draft.target !== "" && (draft.mode === "omit" || draft.value !== "");
+}
+
+function formatJson(value: unknown): string {
+	return JSON.stringify(value, null, 2);
+}
+
+function RuleEditor({
+	entity,
+	rule,
+	onChange,
+	onRemove,
+}: {
+	entity: FieldMappingEntity;
+	rule: DraftRule;
+	onChange: (rule: DraftRule) => void;
+	onRemove: () => void;
+}) {
+	const toggleTransform = (transform: FieldTransform) => {
+		onChange({
+			...rule,
+			transforms: rule.transforms.includes(transform)
+				? rule.transforms.filter((t) => t !== transform)
+				: [...rule.transforms, transform],
+		});
+	};
+
+	return (
+		<div className="space-y-3 rounded-lg border p-4">
+			<div className="grid grid-cols-[1fr_160px_1fr_auto] items-end gap-3">
+				<div className="space-y-2">
+					<Label>Tripletex field</Label>
+					<Select value={rule.target} onValueChange={(v) => v && onChange({ ...rule, target: v })}>
+						<SelectTrigger>
+							<SelectValue placeholder="Select field" />
+						</SelectTrigger>
+						<SelectPositioner>
+							<SelectContent>
+								{FIELD_MAPPING_TARGETS[entity].map((target) => (
+									<SelectItem key={target} value={target}>
+										{target}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</SelectPositioner>
+					</Select>
+				</div>
+				<div className="space-y-2">
+					<Label>Set from</Label>
+					<Select
+						value={rule.mode}
+						onValueChange={(v) => v && onChange({ ...rule, mode: v as RuleMode, value: "" })}
+					>
+						<SelectTrigger>
+							<SelectValue />
+						</SelectTrigger>
+						<SelectPositioner>
+							<SelectContent>
+								<SelectItem value="source">Rubic field</SelectItem>
+								<SelectItem value="template">Template</SelectItem>
+								<SelectItem value="constant">Fixed value</SelectItem>
+								<SelectItem value="omit">Leave unset</SelectItem>
+							</SelectContent>
+						</SelectPositioner>
+					</Select>
+				</div>
+				<div className="space-y-2">
+					{rule.mode === "source" && (
+						<>
+							<Label>Rubic field</Label>
+							<Select
+								value={rule.value}
+								onValueChange={(v) => v && onChange({ ...rule, value: v })}
+							>
+								<SelectTrigger>
+									<SelectValue placeholder="Select Rubic field" />
+								</SelectTrigger>
+								<SelectPositioner>
+									<SelectContent>
+										{FIELD_MAPPING_SOURCES[entity].map((source) => (
+											<SelectItem key={source} value={source}>
+												{source}
+											</SelectItem>
+										))}
+									</SelectContent>
+								</SelectPositioner>
+							</Select>
+						</>
+					)}
+					{rule.mode === "template" && (
+						<>
+							<Label>Template</Label>
+							<Input
+								value={rule.value}
+								onChange={(e) => onChange({ ...rule, value: e.target.value })}
+								placeholder={`e.g. {${FIELD_MAPPING_SOURCES[entity][0]}}`}
+							/>
+						</>
+					)}
+					{rule.mode === "constant" && (
+						<>
+							<Label>Value</Label>
+							<Input
+								value={rule.value}
+								onChange={(e) => onChange({ ...rule, value: e.target.value })}
+							/>
+						</>
+					)}
+				</div>
+				<Button
+					variant="ghost"
+					size="icon"
+					onClick={onRemove}
+					className="text-muted-foreground hover:text-destructive"
+				>
+					<Trash2 className="h-4 w-4" />
+				</Button>
+			</div>
+			{(rule.mode === "source" || rule.mode === "template") && (
+				<div className="grid grid-cols-[1fr_1fr] items-end gap-3">
+					<div className="space-y-2">
+						<Label>Transforms</Label>
+						<div className="flex flex-wrap gap-2">
+							{transforms.map((t) => (
+								<Button
+									key={t.value}
+									size="sm"
+									variant={rule.transforms.includes(t.value) ? "secondary" : "outline"}
+									onClick={() => toggleTransform(t.value)}
+								>
+									{t.label}
+								</Button>
+							))}
+						</div>
+					</div>
+					<div className="space-y-2">
+						<Label>Default when empty</Label>
+						<Input
+							value={rule.defaultValue}
+							onChange={(e) => onChange({ ...rule, defaultValue: e.target.value })}
+						/>
+					</div>
+				</div>
+			)}
+		</div>
+	);
+}
+
+function PreviewPanel({ entity, rules }: { entity: FieldMappingEntity; rules: FieldRule[] }) {
+	const { organizationId } = useOrganization();
+	const [sampleText, setSampleText] = useState(() => formatJson(sampleRecords[entity]));
+
+	useEffect(() => {
+		setSampleText(formatJson(sampleRecords[entity]));
+	}, [entity]);
+
+	const sample = useMemo(() => {
+		try {
+			return JSON.parse(sampleText) as unknown;
+		} catch {
+			return undefined;
+		}
+	}, [sampleText]);
+
+	const preview = useQuery(
+		api.fieldMappings.preview,
+		organizationId && sample !== undefined ? { organizationId, entity, rules, sample } : "skip",
+	);
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className="text-lg">Preview</CardTitle>
+				<CardDescription>
+					What sync would send to Tripletex for this sample Rubic record. Edit the sample to try
+					other values.
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="grid grid-cols-3 gap-4">
+				<div className="space-y-2">
+					<Label htmlFor="field-mapping-sample">Rubic record</Label>
+					<Textarea
+						id="field-mapping-sample"
+						className="min-h-80 font-mono text-xs"
+						value={sampleText}
+						onChange={(e) => setSampleText(e.target.value)}
+						aria-invalid={sample === undefined}
+					/>
+					{sample === undefined && <p className="text-xs text-destructive">Invalid JSON</p>}
+				</div>
+				{preview && "error" in preview ? (
+					<div className="col-span-2 text-sm text-destructive">{preview.error}</div>
+				) : (
+					<>
+						<div className="space-y-2">
+							<Label>Built-in mapping</Label>
+							<pre className="min-h-80 overflow-auto rounded-md border bg-muted/40 p-3 text-xs">
+								{preview ? formatJson(preview.builtIn) : "…"}
+							</pre>
+						</div>
+						<div className="space-y-2">
+							<Label>With your rules</Label>
+							<pre className="min-h-80 overflow-auto rounded-md border bg-muted/40 p-3 text-xs">
+								{preview ? formatJson(preview.mapped) : "…"}
+							</pre>
+						</div>
+					</>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
+
+export default function FieldMappingPage() {
+	const { organizationId, isLoading: orgLoading } = useOrganization();
+	const [entity, setEntity] = useState<FieldMappingEntity>("customer");
+	const [drafts, setDrafts] = useState<DraftRule[]>([]);
+	const [isSaving, setIsSaving] = useState(false);
+
+	const configs = useQuery(api.fieldMappings.list, organizationId ? { organizationId } : "skip");
+	const saveRules = useMutation(api.fieldMappings.save);
+
+	const savedRules = useMemo(
+		() => configs?.find((c) => c.entity === entity)?.rules ?? [],
+		[configs, entity],
+	);
+
+	// Start from the saved rules whenever the entity or the stored config changes
+	useEffect(() => {
+		setDrafts(savedRules.map(toDraft));
+	}, [savedRules]);
+
+	const completeRules = drafts.filter(isComplete).map(toRule);
+	const isDirty = JSON.stringify(drafts.map(toRule)) !== JSON.stringify(savedRules);
+	const canSave = isDirty && drafts.every(isComplete);
+
+	const updateDraft = (index: number, draft: DraftRule) => {
+		setDrafts((current) => current.map((d, i) => (i === index ? draft : d)));
+	};
+
+	const handleSave = async () => {
+		if (!organizationId || !canSave) return;
+		setIsSaving(true);
+		try {
+			await saveRules({ organizationId, entity, rules: drafts.map(toRule) });
+			toast.success("Field mapping saved");
+		} catch (error) {
+			toast.error("Failed to save field mapping", {
+				description: error instanceof Error ? error.message : String(error),
+			});
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	if (orgLoading) {
+		return (
+			<div className="flex h-[50vh] items-center justify-center">
+				<Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+			</div>
+		);
+	}
+
+	if (!organizationId) {
+		return (
+			<div className="flex h-[50vh] flex-col items-center justify-center gap-4">
+				<Shuffle className="h-12 w-12 text-muted-foreground" />
+				<h2 className="text-xl font-semibold">No Organization Selected</h2>
+			</div>
+		);
+	}
+
+	return (
+		<div className="space-y-6">
+			<div>
+				<h1 className="text-2xl font-bold tracking-tight">Field Mapping</h1>
+				<p className="text-muted-foreground">
+					Override how Rubic fields are mapped to Tripletex for this organization
+				</p>
+			</div>
+
+			<Tabs value={entity} onValueChange={(v) => v && setEntity(v as FieldMappingEntity)}>
+				<TabsList>
+					{entities.map((e) => (
+						<TabsTrigger key={e.value} value={e.value}>
+							{e.label}
+							{configs?.some((c) => c.entity === e.value && c.rules.length > 0) && (
+								<Badge variant="secondary" className="ml-2">
+									{configs.find((c) => c.entity === e.value)?.rules.length}
+								</Badge>
+							)}
+						</TabsTrigger>
+					))}
+				</TabsList>
+			</Tabs>
+
+			<Card>
+				<CardHeader>
+					<div className="flex items-center justify-between">
+						<div>
+							<CardTitle className="text-lg">Rules</CardTitle>
+							<CardDescription>
+								{entities.find((e) => e.value === entity)?.description}. Fields without a rule keep
+								the built-in mapping.
+							</CardDescription>
+						</div>
+						<div className="flex gap-2">
+							<Button
+								variant="outline"
+								className="gap-2"
+								onClick={() =>
+									setDrafts((current) => [
+										...current,
+										{ target: "", mode: "source", value: "", transforms: [], defaultValue: "" },
+									])
+								}
+							>
+								<Plus className="h-4 w-4" />
+								Add Rule
+							</Button>
+							<Button
+								variant="outline"
+								onClick={() => setDrafts(savedRules.map(toDraft))}
+								disabled={!isDirty}
+							>
+								Reset
+							</Button>
+							<Button onClick={handleSave} disabled={!canSave || isSaving} className="gap-2">
+								{isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+								Save
+							</Button>
+						</div>
+					</div>
+				</CardHeader>
+				<CardContent className="space-y-3">
+					{drafts.length > 0 ? (
+						drafts.map((draft, index) => (
+							<RuleEditor
+								// biome-ignore lint/suspicious/noArrayIndexKey: drafts have no stable id until saved
+								key={index}
+								entity={entity}
+								rule={draft}
+								onChange={(d) => updateDraft(index, d)}
+								onRemove={() => setDrafts((current) => current.filter((_, i) => i !== index))}
+							/>
+						))
+					) : (
+						<p className="py-8 text-center text-muted-foreground">
+							No rules. The built-in mapping is used.
+						</p>
+					)}
+				</CardContent>
+			</Card>
+
+			<PreviewPanel entity={entity} rules={completeRules} />
+		</div>
+	);
+}
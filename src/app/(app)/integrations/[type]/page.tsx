@@ -1,24 +1,47 @@
 "use client";
 
-import { useAction, useQuery } from "convex/react";
+import { useAction, useMutation, useQuery } from "convex/react";
 import {
+	AlertTriangle,
 	ArrowLeft,
+	ArrowRight,
+	CalendarRange,
 	CheckCircle2,
+	Contact,
 	CreditCard,
 	FileText,
+	FlaskConical,
 	Loader2,
 	Package,
 	Play,
+	Plus,
+	Receipt,
+	RefreshCw,
+	ShieldCheck,
+	Trash2,
+	Unlink,
 	Users,
+	Workflow,
 	XCircle,
 } from "lucide-react";
 import Link from "next/link";
 import { useParams } from "next/navigation";
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { toast } from "sonner";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import {
 	Select,
 	SelectContent,
@@ -27,6 +50,7 @@ import {
 	SelectTrigger,
 	SelectValue,
 } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import {
 	Table,
 	TableBody,
@@ -38,12 +62,15 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useOrganization } from "@/hooks/use-organization";
 import { api } from "../../../../../convex/_generated/api";
+import type { Doc, Id } from "../../../../../convex/_generated/dataModel";
 
 const typeConfig = {
 	customers: { label: "Customers", icon: Users },
+	members: { label: "Members", icon: Contact },
 	products: { label: "Products", icon: Package },
 	invoices: { label: "Invoices", icon: FileText },
 	payments: { label: "Payments", icon: CreditCard },
+	full: { label: "Full", icon: Workflow },
 } as const;
 
 type SyncType = keyof typeof typeConfig;
@@ -58,7 +85,7 @@ function formatDate(timestamp: number | undefined | null): string {
 	});
 }
 
-function StatusBadge({ status }: { status: string }) {
+function StatusBadge({ status, failureReason }: { status: string; failureReason?: string }) {
 	switch (status) {
 		case "success":
 			return (
@@ -77,7 +104,7 @@ function StatusBadge({ status }: { status: string }) {
 					className="bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20"
 				>
 					<XCircle className="mr-1 h-3 w-3" />
-					Failed
+					{failureReason === "timed_out" ? "Timed out" : "Failed"}
 				</Badge>
 			);
 		case "running":
@@ -95,6 +122,329 @@ function StatusBadge({ status }: { status: string }) {
 	}
 }
 
+const errorCategoryLabels: Record<Doc<"syncErrors">["category"], string> = {
+	missing_data: "Missing data",
+	not_mapped: "Not mapped",
+	rubic_api: "Rubic API",
+	tripletex_api: "Tripletex API",
+	internal: "Internal",
+};
+
+const invoiceSkipReasonLabels: Record<Doc<"invoiceSkips">["reason"], string> = {
+	missing_customer_no: "Customer has no number",
+	customer_not_mapped: "Customer not mapped",
+	no_lines: "No invoice lines",
+	no_mapped_products: "No mapped products",
+	partial_lines_dropped: "Unmapped lines (strict mode)",
+	department_not_mapped: "Department not mapped",
+};
+
+function PipelineStepsTable({ parentRunId }: { parentRunId: Id<"syncState"> }) {
+	const steps = useQuery(api.syncState.listChildren, { parentRunId });
+
+	return (
+		<Table>
+			<TableHeader>
+				<TableRow>
+					<TableHead>Step</TableHead>
+					<TableHead>Status</TableHead>
+					<TableHead className="text-right">Processed</TableHead>
+					<TableHead className="text-right">Failed</TableHead>
+					<TableHead className="text-right">Skipped</TableHead>
+					<TableHead>Error</TableHead>
+				</TableRow>
+			</TableHeader>
+			<TableBody>
+				{steps === undefined ? (
+					<TableRow>
+						<TableCell colSpan={6} className="py-8 text-center">
+							<Loader2 className="mx-auto h-5 w-5 animate-spin text-muted-foreground" />
+						</TableCell>
+					</TableRow>
+				) : steps.length > 0 ? (
+					steps.map((step) => (
+						<TableRow key={step._id}>
+							<TableCell className="font-medium">
+								<Link href={`/integrations/${step.syncType}`} className="hover:underline">
+									{typeConfig[step.syncType].label}
+								</Link>
+							</TableCell>
+							<TableCell>
+								<StatusBadge status={step.status} failureReason={step.failureReason} />
+							</TableCell>
+							<TableCell className="text-right">{step.recordsProcessed}</TableCell>
+							<TableCell className="text-right">{step.recordsFailed}</TableCell>
+							<TableCell className="text-right">{step.recordsSkipped ?? 0}</TableCell>
+							<TableCell className="max-w-[240px] whitespace-normal text-sm text-red-500">
+								{step.errorMessage ?? "-"}
+							</TableCell>
+						</TableRow>
+					))
+				) : (
+					<TableRow>
+						<TableCell colSpan={6} className="py-8 text-center text-muted-foreground">
+							No steps have started for this run
+						</TableCell>
+					</TableRow>
+				)}
+			</TableBody>
+		</Table>
+	);
+}
+
+const plannedActionLabels: Record<Doc<"syncPlannedActions">["action"], string> = {
+	create: "Create",
+	update: "Update",
+	link: "Link existing",
+	unchanged: "Unchanged",
+	skip: "Skip",
+};
+
+const plannedActionClasses: Record<Doc<"syncPlannedActions">["action"], string> = {
+	create: "bg-emerald-500/10 text-emerald-600 dark:text-emerald-400 border-emerald-500/20",
+	update: "bg-blue-500/10 text-blue-600 dark:text-blue-400 border-blue-500/20",
+	link: "bg-blue-500/10 text-blue-600 dark:text-blue-400 border-blue-500/20",
+	unchanged: "",
+	skip: "bg-amber-500/10 text-amber-600 dark:text-amber-400 border-amber-500/20",
+};
+
+function formatAmount(amount: number): string {
+	return amount.toLocaleString("nb-NO", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function PlannedChanges({ action }: { action: Doc<"syncPlannedActions"> }) {
+	if (action.lines) {
+		return (
+			<div className="space-y-1 text-sm">
+				{action.lines.map((line, i) => (
+					<div key={`${line.productId}-${i}`} className="flex justify-between gap-4">
+						<span className="truncate">
+							{line.count} × {line.description ?? `Product ${line.productId ?? "-"}`} @{" "}
+							{formatAmount(line.unitPrice)}
+							{line.discount ? ` (−${line.discount}%)` : ""}
+						</span>
+						<span className="font-mono">{formatAmount(line.amount)}</span>
+					</div>
+				))}
+				{action.amount !== undefined && (
+					<div className="flex justify-between gap-4 border-t pt-1 font-medium">
+						<span>Total excl. VAT</span>
+						<span className="font-mono">{formatAmount(action.amount)}</span>
+					</div>
+				)}
+			</div>
+		);
+	}
+
+	if (action.changes && action.changes.length > 0) {
+		return (
+			<div className="space-y-1 text-sm">
+				{action.changes.map((change) => (
+					<div key={change.field}>
+						<span className="font-mono text-muted-foreground">{change.field}</span>:{" "}
+						{change.from !== undefined && (
+							<span className="text-red-600 line-through dark:text-red-400">{change.from}</span>
+						)}{" "}
+						<span className="text-emerald-600 dark:text-emerald-400">{change.to ?? "(empty)"}</span>
+					</div>
+				))}
+			</div>
+		);
+	}
+
+	if (action.amount !== undefined) {
+		return <span className="font-mono text-sm">{formatAmount(action.amount)}</span>;
+	}
+
+	return <span className="text-muted-foreground">-</span>;
+}
+
+function DryRunReport({ run }: { run: Doc<"syncState"> }) {
+	const [showUnchanged, setShowUnchanged] = useState(false);
+	const actions = useQuery(api.syncPlannedActions.listByRun, { syncStateId: run._id });
+
+	const counts = new Map<Doc<"syncPlannedActions">["action"], number>();
+	for (const action of actions ?? []) {
+		counts.set(action.action, (counts.get(action.action) ?? 0) + 1);
+	}
+	const visible = actions?.filter((a) => showUnchanged || a.action !== "unchanged");
+
+	return (
+		<div className="space-y-4">
+			<div className="flex flex-wrap items-center gap-2">
+				{(Object.keys(plannedActionLabels) as Doc<"syncPlannedActions">["action"][]).map(
+					(action) => (
+						<Badge key={action} variant="secondary" className={plannedActionClasses[action]}>
+							{plannedActionLabels[action]}: {counts.get(action) ?? 0}
+						</Badge>
+					),
+				)}
+				<div className="ml-auto flex items-center gap-2">
+					<Switch
+						id="show-unchanged"
+						checked={showUnchanged}
+						onCheckedChange={(checked) => setShowUnchanged(checked)}
+					/>
+					<Label htmlFor="show-unchanged" className="text-sm">
+						Show unchanged
+					</Label>
+				</div>
+			</div>
+			<Table>
+				<TableHeader>
+					<TableRow>
+						<TableHead>Action</TableHead>
+						<TableHead>Record</TableHead>
+						<TableHead>Tripletex ID</TableHead>
+						<TableHead>Changes</TableHead>
+						<TableHead>Note</TableHead>
+					</TableRow>
+				</TableHeader>
+				<TableBody>
+					{visible === undefined ? (
+						<TableRow>
+							<TableCell colSpan={5} className="py-8 text-center">
+								<Loader2 className="mx-auto h-5 w-5 animate-spin text-muted-foreground" />
+							</TableCell>
+						</TableRow>
+					) : visible.length > 0 ? (
+						visible.map((action) => (
+							<TableRow key={action._id}>
+								<TableCell>
+									<Badge variant="secondary" className={plannedActionClasses[action.action]}>
+										{plannedActionLabels[action.action]}
+									</Badge>
+								</TableCell>
+								<TableCell>
+									<div className="font-medium">{action.label ?? action.rubicKey}</div>
+									<div className="font-mono text-xs text-muted-foreground">{action.rubicKey}</div>
+								</TableCell>
+								<TableCell>{action.tripletexId ?? "-"}</TableCell>
+								<TableCell className="min-w-[240px] whitespace-normal">
+									<PlannedChanges action={action} />
+								</TableCell>
+								<TableCell className="max-w-[200px] whitespace-normal text-sm text-muted-foreground">
+									{action.message ?? "-"}
+								</TableCell>
+							</TableRow>
+						))
+					) : (
+						<TableRow>
+							<TableCell colSpan={5} className="py-8 text-center text-muted-foreground">
+								Nothing would change in Tripletex
+							</TableCell>
+						</TableRow>
+					)}
+				</TableBody>
+			</Table>
+		</div>
+	);
+}
+
+function RunIssuesDialog({
+	run,
+	onOpenChange,
+}: {
+	run: Doc<"syncState"> | null;
+	onOpenChange: (open: boolean) => void;
+}) {
+	const isPipelineRun = run?.syncType === "full";
+	const issues = useQuery(
+		api.syncErrors.listByRun,
+		run && !isPipelineRun && !run.dryRun ? { syncStateId: run._id } : "skip",
+	);
+
+	return (
+		<Dialog open={run !== null} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-3xl">
+				<DialogHeader>
+					<DialogTitle>{run?.dryRun ? "Dry Run Report" : "Run Details"}</DialogTitle>
+					<DialogDescription>
+						{run
+							? `Started ${formatDate(run.startedAt)} · ${run.recordsProcessed} processed, ${run.recordsFailed} failed, ${run.recordsSkipped ?? 0} skipped`
+							: ""}
+					</DialogDescription>
+				</DialogHeader>
+				<div className="max-h-[60vh] overflow-y-auto">
+					{run && isPipelineRun ? (
+						<PipelineStepsTable parentRunId={run._id} />
+					) : run?.dryRun ? (
+						<DryRunReport run={run} />
+					) : (
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Outcome</TableHead>
+									<TableHead>Rubic Key</TableHead>
+									<TableHead>Tripletex ID</TableHead>
+									<TableHead>Category</TableHead>
+									<TableHead>Message</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{issues === undefined ? (
+									<TableRow>
+										<TableCell colSpan={5} className="py-8 text-center">
+											<Loader2 className="mx-auto h-5 w-5 animate-spin text-muted-foreground" />
+										</TableCell>
+									</TableRow>
+								) : issues.length > 0 ? (
+									issues.map((issue) => (
+										<TableRow key={issue._id}>
+											<TableCell>
+												{issue.outcome === "failed" ? (
+													<Badge
+														variant="default"
+														className="bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20"
+													>
+														Failed
+													</Badge>
+												) : (
+													<Badge variant="secondary">Skipped</Badge>
+												)}
+											</TableCell>
+											<TableCell className="font-mono">{issue.rubicKey}</TableCell>
+											<TableCell>{issue.tripletexId ?? "-"}</TableCell>
+											<TableCell className="text-muted-foreground">
+												{issue.skipReason
+													? invoiceSkipReasonLabels[issue.skipReason]
+													: errorCategoryLabels[issue.category]}
+											</TableCell>
+											<TableCell className="max-w-[320px] whitespace-normal text-sm">
+												{issue.message}
+											</TableCell>
+										</TableRow>
+									))
+								) : (
+									<TableRow>
+										<TableCell colSpan={5} className="py-8 text-center text-muted-foreground">
+											No failed or skipped records in this run
+										</TableCell>
+									</TableRow>
+								)}
+							</TableBody>
+						</Table>
+					)}
+				</div>
+			</DialogContent>
+		</Dialog>
+	);
+}
+
+function StaleBadge({ staleAt }: { staleAt: number | undefined }) {
+	if (staleAt === undefined) return null;
+	return (
+		<Badge
+			variant="default"
+			className="ml-2 bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20"
+			title={`Not found in Tripletex since ${formatDate(staleAt)}`}
+		>
+			<Unlink className="mr-1 h-3 w-3" />
+			Stale
+		</Badge>
+	);
+}
+
 function MappingsTable({ type, env }: { type: SyncType; env: "sandbox" | "production" }) {
 	const { organizationId } = useOrganization();
 
@@ -103,6 +453,11 @@ function MappingsTable({ type, env }: { type: SyncType; env: "sandbox" | "produc
 		type === "customers" && organizationId ? { organizationId, tripletexEnv: env } : "skip",
 	);
 
+	const memberMappings = useQuery(
+		api.memberMapping.list,
+		type === "members" && organizationId ? { organizationId, tripletexEnv: env } : "skip",
+	);
+
 	const productMappings = useQuery(
 		api.productMapping.list,
 		type === "products" && organizationId ? { organizationId, tripletexEnv: env } : "skip",
@@ -113,6 +468,11 @@ function MappingsTable({ type, env }: { type: SyncType; env: "sandbox" | "produc
 		type === "invoices" && organizationId ? { organizationId, tripletexEnv: env } : "skip",
 	);
 
+	const paymentMappings = useQuery(
+		api.paymentMapping.list,
+		type === "payments" && organizationId ? { organizationId, tripletexEnv: env } : "skip",
+	);
+
 	if (type === "customers") {
 		return (
 			<Table>
@@ -129,7 +489,10 @@ function MappingsTable({ type, env }: { type: SyncType; env: "sandbox" | "produc
 						customerMappings.map((m) => (
 							<TableRow key={m._id}>
 								<TableCell className="font-mono">{m.rubicCustomerNo}</TableCell>
-								<TableCell>{m.tripletexCustomerId}</TableCell>
+								<TableCell>
+									{m.tripletexCustomerId}
+									<StaleBadge staleAt={m.staleAt} />
+								</TableCell>
 								<TableCell className="text-muted-foreground">
 									{formatDate(m.lastSyncedAt)}
 								</TableCell>
@@ -150,6 +513,51 @@ function MappingsTable({ type, env }: { type: SyncType; env: "sandbox" | "produc
 		);
 	}
 
+	if (type === "members") {
+		return (
+			<Table>
+				<TableHeader>
+					<TableRow>
+						<TableHead>Rubic Member No</TableHead>
+						<TableHead>Type</TableHead>
+						<TableHead>Ledger Customer No</TableHead>
+						<TableHead>Tripletex Customer ID</TableHead>
+						<TableHead>Last Synced</TableHead>
+						<TableHead>Hash</TableHead>
+					</TableRow>
+				</TableHeader>
+				<TableBody>
+					{memberMappings && memberMappings.length > 0 ? (
+						memberMappings.map((m) => (
+							<TableRow key={m._id}>
+								<TableCell className="font-mono">{m.rubicMemberNo}</TableCell>
+								<TableCell>
+									<Badge variant="outline">
+										{m.memberType === "person" ? "Person" : "Company"}
+									</Badge>
+								</TableCell>
+								<TableCell className="font-mono">{m.ledgerCustomerNo ?? "-"}</TableCell>
+								<TableCell>{m.tripletexCustomerId}</TableCell>
+								<TableCell className="text-muted-foreground">
+									{formatDate(m.lastSyncedAt)}
+								</TableCell>
+								<TableCell className="font-mono text-xs text-muted-foreground">
+									{m.hash?.slice(0, 12)}...
+								</TableCell>
+							</TableRow>
+						))
+					) : (
+						<TableRow>
+							<TableCell colSpan={6} className="py-8 text-center text-muted-foreground">
+								No member mappings yet
+							</TableCell>
+						</TableRow>
+					)}
+				</TableBody>
+			</Table>
+		);
+	}
+
 	if (type === "products") {
 		return (
 			<Table>
@@ -166,7 +574,10 @@ function MappingsTable({ type, env }: { type: SyncType; env: "sandbox" | "produc
 						productMappings.map((m) => (
 							<TableRow key={m._id}>
 								<TableCell className="font-mono">{m.rubicProductCode}</TableCell>
-								<TableCell>{m.tripletexProductId}</TableCell>
+								<TableCell>
+									{m.tripletexProductId}
+									<StaleBadge staleAt={m.staleAt} />
+								</TableCell>
 								<TableCell className="text-muted-foreground">
 									{formatDate(m.lastSyncedAt)}
 								</TableCell>
@@ -195,7 +606,9 @@ function MappingsTable({ type, env }: { type: SyncType; env: "sandbox" | "produc
 						<TableHead>Rubic Invoice ID</TableHead>
 						<TableHead>Rubic Invoice #</TableHead>
 						<TableHead>Tripletex Invoice ID</TableHead>
-						<TableHead>Payment Synced</TableHead>
+						<TableHead>Settled</TableHead>
+						<TableHead>Dropped Lines</TableHead>
+						<TableHead>Credited</TableHead>
 						<TableHead>Last Synced</TableHead>
 					</TableRow>
 				</TableHeader>
@@ -205,14 +618,47 @@ function MappingsTable({ type, env }: { type: SyncType; env: "sandbox" | "produc
 							<TableRow key={m._id}>
 								<TableCell>{m.rubicInvoiceId}</TableCell>
 								<TableCell>{m.rubicInvoiceNumber}</TableCell>
-								<TableCell>{m.tripletexInvoiceId}</TableCell>
 								<TableCell>
-									{m.paymentSynced ? (
+									{m.tripletexInvoiceId}
+									<StaleBadge staleAt={m.staleAt} />
+								</TableCell>
+								<TableCell>
+									{m.settledAt !== undefined || m.paymentSynced ? (
 										<CheckCircle2 className="h-4 w-4 text-emerald-500" />
 									) : (
 										<XCircle className="h-4 w-4 text-muted-foreground" />
 									)}
 								</TableCell>
+								<TableCell>
+									{m.droppedProductCodes && m.droppedProductCodes.length > 0 ? (
+										<Badge
+											variant="default"
+											className="bg-amber-500/10 text-amber-600 dark:text-amber-400 border-amber-500/20"
+											title={m.droppedProductCodes.join(", ")}
+										>
+											<AlertTriangle className="mr-1 h-3 w-3" />
+											{m.droppedProductCodes.length} dropped
+										</Badge>
+									) : (
+										"-"
+									)}
+								</TableCell>
+								<TableCell>
+									{m.creditNotes && m.creditNotes.length > 0 ? (
+										<span
+											title={m.creditNotes
+												.map(
+													(c) =>
+														`${c.full ? "Full" : "Partial"} credit note ${c.tripletexInvoiceId}: ${formatAmount(c.amount)}`,
+												)
+												.join("\n")}
+										>
+											{formatAmount(m.creditedAmount ?? 0)}
+										</span>
+									) : (
+										"-"
+									)}
+								</TableCell>
 								<TableCell className="text-muted-foreground">
 									{formatDate(m.lastSyncedAt)}
 								</TableCell>
@@ -220,7 +666,7 @@ function MappingsTable({ type, env }: { type: SyncType; env: "sandbox" | "produc
 						))
 					) : (
 						<TableRow>
-							<TableCell colSpan={5} className="py-8 text-center text-muted-foreground">
+							<TableCell colSpan={7} className="py-8 text-center text-muted-foreground">
 								No invoice mappings yet
 							</TableCell>
 						</TableRow>
@@ -231,8 +677,872 @@ function MappingsTable({ type, env }: { type: SyncType; env: "sandbox" | "produc
 	}
 
 	return (
-		<div className="py-8 text-center text-muted-foreground">
-			Payment mappings are tracked via invoice mappings.
+		<Table>
+			<TableHeader>
+				<TableRow>
+					<TableHead>Rubic Transaction ID</TableHead>
+					<TableHead>Rubic Invoice ID</TableHead>
+					<TableHead>Tripletex Invoice ID</TableHead>
+					<TableHead>Payment Date</TableHead>
+					<TableHead className="text-right">Amount</TableHead>
+					<TableHead className="text-right">Fee</TableHead>
+					<TableHead>Fee Voucher</TableHead>
+				</TableRow>
+			</TableHeader>
+			<TableBody>
+				{paymentMappings && paymentMappings.length > 0 ? (
+					paymentMappings.map((m) => (
+						<TableRow key={m._id}>
+							<TableCell>{m.rubicTransactionId}</TableCell>
+							<TableCell>{m.rubicInvoiceId}</TableCell>
+							<TableCell>{m.tripletexInvoiceId}</TableCell>
+							<TableCell className="text-muted-foreground">{m.paymentDate.slice(0, 10)}</TableCell>
+							<TableCell className="text-right">{formatAmount(m.amount)}</TableCell>
+							<TableCell className="text-right">
+								{m.fee !== undefined ? formatAmount(m.fee) : "-"}
+							</TableCell>
+							<TableCell>{m.feeVoucherId ?? "-"}</TableCell>
+						</TableRow>
+					))
+				) : (
+					<TableRow>
+						<TableCell colSpan={7} className="py-8 text-center text-muted-foreground">
+							No payments registered yet
+						</TableCell>
+					</TableRow>
+				)}
+			</TableBody>
+		</Table>
+	);
+}
+
+function SkippedInvoicesTable({ env }: { env: "sandbox" | "production" }) {
+	const { organizationId } = useOrganization();
+
+	const skips = useQuery(
+		api.invoiceSkips.list,
+		organizationId ? { organizationId, tripletexEnv: env } : "skip",
+	);
+
+	return (
+		<Table>
+			<TableHeader>
+				<TableRow>
+					<TableHead>Rubic Invoice ID</TableHead>
+					<TableHead>Rubic Invoice #</TableHead>
+					<TableHead>Reason</TableHead>
+					<TableHead>Details</TableHead>
+					<TableHead>Last Seen</TableHead>
+				</TableRow>
+			</TableHeader>
+			<TableBody>
+				{skips && skips.length > 0 ? (
+					skips.map((s) => (
+						<TableRow key={s._id}>
+							<TableCell>{s.rubicInvoiceId}</TableCell>
+							<TableCell>{s.rubicInvoiceNumber}</TableCell>
+							<TableCell>
+								<Badge variant="secondary">{invoiceSkipReasonLabels[s.reason]}</Badge>
+							</TableCell>
+							<TableCell className="max-w-[320px] whitespace-normal text-sm">{s.details}</TableCell>
+							<TableCell className="text-muted-foreground">{formatDate(s.lastSeenAt)}</TableCell>
+						</TableRow>
+					))
+				) : (
+					<TableRow>
+						<TableCell colSpan={5} className="py-8 text-center text-muted-foreground">
+							No skipped invoices
+						</TableCell>
+					</TableRow>
+				)}
+			</TableBody>
+		</Table>
+	);
+}
+
+function RetryQueueTable({
+	syncType,
+	env,
+}: {
+	syncType: "invoices" | "payments";
+	env: "sandbox" | "production";
+}) {
+	const { organizationId } = useOrganization();
+
+	const retries = useQuery(
+		api.syncRetries.list,
+		organizationId ? { organizationId, syncType, tripletexEnv: env } : "skip",
+	);
+
+	return (
+		<Table>
+			<TableHeader>
+				<TableRow>
+					<TableHead>
+						{syncType === "invoices" ? "Rubic Invoice ID" : "Rubic Transaction ID"}
+					</TableHead>
+					<TableHead>Attempts</TableHead>
+					<TableHead>Last Error</TableHead>
+					<TableHead>First Failed</TableHead>
+					<TableHead>Last Attempt</TableHead>
+				</TableRow>
+			</TableHeader>
+			<TableBody>
+				{retries && retries.length > 0 ? (
+					retries.map((r) => (
+						<TableRow key={r._id}>
+							<TableCell>{r.rubicId}</TableCell>
+							<TableCell>{r.attempts}</TableCell>
+							<TableCell className="max-w-[320px] whitespace-normal text-sm">
+								{r.lastError}
+							</TableCell>
+							<TableCell className="text-muted-foreground">{formatDate(r.firstFailedAt)}</TableCell>
+							<TableCell className="text-muted-foreground">{formatDate(r.lastAttemptAt)}</TableCell>
+						</TableRow>
+					))
+				) : (
+					<TableRow>
+						<TableCell colSpan={5} className="py-8 text-center text-muted-foreground">
+							Nothing waiting for retry
+						</TableCell>
+					</TableRow>
+				)}
+			</TableBody>
+		</Table>
+	);
+}
+
+function StrictLinesToggle({ env }: { env: "sandbox" | "production" }) {
+	const { organizationId } = useOrganization();
+
+	const settings = useQuery(
+		api.syncSettings.get,
+		organizationId ? { organizationId, tripletexEnv: env } : "skip",
+	);
+	const upsertSettings = useMutation(api.syncSettings.upsert);
+
+	const handleChange = async (checked: boolean) => {
+		if (!organizationId) return;
+		try {
+			await upsertSettings({ organizationId, tripletexEnv: env, strictInvoiceLines: checked });
+		} catch (error) {
+			toast.error("Failed to update setting", {
+				description: error instanceof Error ? error.message : String(error),
+			});
+		}
+	};
+
+	return (
+		<div
+			className="flex items-center gap-2"
+			title="Skip invoices with unmapped product lines instead of syncing the remaining lines"
+		>
+			<Switch
+				checked={settings?.strictInvoiceLines ?? false}
+				onCheckedChange={handleChange}
+				disabled={settings === undefined}
+			/>
+			<Label>Strict line mapping</Label>
+		</div>
+	);
+}
+
+function LedgerCustomerNoToggle({ env }: { env: "sandbox" | "production" }) {
+	const { organizationId } = useOrganization();
+
+	const settings = useQuery(
+		api.syncSettings.get,
+		organizationId ? { organizationId, tripletexEnv: env } : "skip",
+	);
+	const upsertSettings = useMutation(api.syncSettings.upsert);
+
+	const handleChange = async (checked: boolean) => {
+		if (!organizationId) return;
+		try {
+			await upsertSettings({ organizationId, tripletexEnv: env, useLedgerCustomerNo: checked });
+		} catch (error) {
+			toast.error("Failed to update setting", {
+				description: error instanceof Error ? error.message : String(error),
+			});
+		}
+	};
+
+	return (
+		<div
+			className="flex items-center gap-2"
+			title="Use Rubic's ledger customer number as the Tripletex customer number, falling back to the customer number"
+		>
+			<Switch
+				checked={settings?.useLedgerCustomerNo ?? false}
+				onCheckedChange={handleChange}
+				disabled={settings === undefined}
+			/>
+			<Label>Use ledger customer no.</Label>
+		</div>
+	);
+}
+
+function StaleMappingPolicySelect({ env }: { env: "sandbox" | "production" }) {
+	const { organizationId } = useOrganization();
+
+	const settings = useQuery(
+		api.syncSettings.get,
+		organizationId ? { organizationId, tripletexEnv: env } : "skip",
+	);
+	const upsertSettings = useMutation(api.syncSettings.upsert);
+
+	const handleChange = async (value: string) => {
+		if (!organizationId) return;
+		try {
+			await upsertSettings({
+				organizationId,
+				tripletexEnv: env,
+				staleMappingPolicy: value as "relink" | "recreate" | "flag",
+			});
+		} catch (error) {
+			toast.error("Failed to update setting", {
+				description: error instanceof Error ? error.message : String(error),
+			});
+		}
+	};
+
+	return (
+		<div
+			className="flex items-center gap-2"
+			title="What sync does when a mapped Tripletex record has been deleted or merged away"
+		>
+			<Label>Deleted in Tripletex</Label>
+			<Select
+				value={settings?.staleMappingPolicy ?? "relink"}
+				onValueChange={(v) => v && handleChange(v)}
+				disabled={settings === undefined}
+			>
+				<SelectTrigger className="w-[220px]">
+					<SelectValue />
+				</SelectTrigger>
+				<SelectPositioner>
+					<SelectContent>
+						<SelectItem value="relink">Relink by number</SelectItem>
+						<SelectItem value="recreate">Relink or recreate</SelectItem>
+						<SelectItem value="flag">Flag only</SelectItem>
+					</SelectContent>
+				</SelectPositioner>
+			</Select>
+		</div>
+	);
+}
+
+function VerifyMappingsButton({
+	env,
+	disabled,
+}: {
+	env: "sandbox" | "production";
+	disabled: boolean;
+}) {
+	const { organizationId } = useOrganization();
+	const [isVerifying, setIsVerifying] = useState(false);
+	const verifyMappings = useAction(api.syncPublic.verifyMappingsPublic);
+
+	const handleVerify = async () => {
+		if (!organizationId) return;
+		setIsVerifying(true);
+		try {
+			const result = await verifyMappings({ organizationId, tripletexEnv: env });
+			const stale = result.customers.stale + result.products.stale + result.invoices.stale;
+			toast.success(stale > 0 ? `${stale} stale mappings found` : "All mappings verified", {
+				description: `Customers ${result.customers.stale}/${result.customers.checked}, products ${result.products.stale}/${result.products.checked}, invoices ${result.invoices.stale}/${result.invoices.checked} stale`,
+			});
+		} catch (error) {
+			toast.error("Mapping verification failed", {
+				description: error instanceof Error ? error.message : String(error),
+			});
+		} finally {
+			setIsVerifying(false);
+		}
+	};
+
+	return (
+		<Button
+			variant="outline"
+			onClick={handleVerify}
+			disabled={disabled || isVerifying || !organizationId}
+			className="gap-2"
+			title="Check customer, product and invoice mappings against Tripletex"
+		>
+			{isVerifying ? (
+				<Loader2 className="h-4 w-4 animate-spin" />
+			) : (
+				<ShieldCheck className="h-4 w-4" />
+			)}
+			Verify Mappings
+		</Button>
+	);
+}
+
+const pipelineSteps = [
+	{ step: "customers", description: "Creates and updates Tripletex customers" },
+	{ step: "products", description: "Creates and updates Tripletex products" },
+	{ step: "invoices", description: "Needs customer and product mappings" },
+] as const;
+
+const defaultPipelinePolicy = {
+	customers: "stop",
+	products: "stop",
+	invoices: "continue",
+} as const;
+
+function PipelinePolicyTable({ env }: { env: "sandbox" | "production" }) {
+	const { organizationId } = useOrganization();
+
+	const settings = useQuery(
+		api.syncSettings.get,
+		organizationId ? { organizationId, tripletexEnv: env } : "skip",
+	);
+	const upsertSettings = useMutation(api.syncSettings.upsert);
+
+	const handleChange = async (step: keyof typeof defaultPipelinePolicy, value: string) => {
+		if (!organizationId) return;
+		try {
+			await upsertSettings({
+				organizationId,
+				tripletexEnv: env,
+				fullSyncPolicy: {
+					...settings?.fullSyncPolicy,
+					[step]: value as "stop" | "continue",
+				},
+			});
+		} catch (error) {
+			toast.error("Failed to update pipeline policy", {
+				description: error instanceof Error ? error.message : String(error),
+			});
+		}
+	};
+
+	return (
+		<Table>
+			<TableHeader>
+				<TableRow>
+					<TableHead>Step</TableHead>
+					<TableHead>Notes</TableHead>
+					<TableHead>If the step fails</TableHead>
+				</TableRow>
+			</TableHeader>
+			<TableBody>
+				{pipelineSteps.map(({ step, description }, index) => (
+					<TableRow key={step}>
+						<TableCell className="font-medium">
+							{index + 1}. {typeConfig[step].label}
+						</TableCell>
+						<TableCell className="text-muted-foreground">{description}</TableCell>
+						<TableCell>
+							<Select
+								value={settings?.fullSyncPolicy?.[step] ?? defaultPipelinePolicy[step]}
+								onValueChange={(v) => v && handleChange(step, v)}
+								disabled={settings === undefined}
+							>
+								<SelectTrigger className="w-[200px] h-8 text-xs">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectPositioner>
+									<SelectContent>
+										<SelectItem value="stop">Stop the pipeline</SelectItem>
+										<SelectItem value="continue">Continue with next step</SelectItem>
+									</SelectContent>
+								</SelectPositioner>
+							</Select>
+						</TableCell>
+					</TableRow>
+				))}
+				<TableRow>
+					<TableCell className="font-medium">4. {typeConfig.payments.label}</TableCell>
+					<TableCell className="text-muted-foreground">Needs invoice mappings</TableCell>
+					<TableCell className="text-muted-foreground">Last step</TableCell>
+				</TableRow>
+			</TableBody>
+		</Table>
+	);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function BackfillDialog({
+	syncType,
+	env,
+	disabled,
+}: {
+	syncType: "invoices" | "payments";
+	env: "sandbox" | "production";
+	disabled: boolean;
+}) {
+	const { organizationId } = useOrganization();
+	const [open, setOpen] = useState(false);
+	const [from, setFrom] = useState("");
+	const [to, setTo] = useState("");
+	const [isRunning, setIsRunning] = useState(false);
+
+	const runBackfill = useAction(api.syncPublic.runBackfillPublic);
+
+	const isValid = from !== "" && to !== "" && from <= to;
+
+	const handleRun = async () => {
+		if (!organizationId || !isValid) return;
+		setIsRunning(true);
+		try {
+			// Both dates are inclusive, in local time
+			const startPeriod = new Date(`${from}T00:00:00`).getTime();
+			const endPeriod = new Date(`${to}T00:00:00`).getTime() + DAY_MS;
+			const result = await runBackfill({
+				organizationId,
+				tripletexEnv: env,
+				syncType,
+				startPeriod,
+				endPeriod,
+			});
+			setOpen(false);
+			toast.success(
+				result.continued ? "Backfill is continuing in the background" : "Backfill finished",
+			);
+		} catch (error) {
+			console.error(`Backfill ${syncType} failed:`, error);
+			toast.error("Backfill failed", {
+				description: error instanceof Error ? error.message : String(error),
+			});
+		} finally {
+			setIsRunning(false);
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={setOpen}>
+			<DialogTrigger
+				render={
+					<Button variant="outline" className="gap-2" disabled={disabled || !organizationId} />
+				}
+			>
+				<CalendarRange className="h-4 w-4" />
+				Backfill
+			</DialogTrigger>
+			<DialogContent>
+				<DialogHeader>
+					<DialogTitle>Backfill {typeConfig[syncType].label}</DialogTitle>
+					<DialogDescription>
+						Re-run the {syncType === "invoices" ? "invoice" : "payment"} sync for {env} over a
+						specific period. Already synced records are left alone, and the regular incremental sync
+						is not affected.
+					</DialogDescription>
+				</DialogHeader>
+				<div className="grid grid-cols-2 gap-4 py-4">
+					<div className="space-y-2">
+						<Label htmlFor="backfill-from">From</Label>
+						<Input
+							id="backfill-from"
+							type="date"
+							value={from}
+							max={to || undefined}
+							onChange={(e) => setFrom(e.target.value)}
+						/>
+					</div>
+					<div className="space-y-2">
+						<Label htmlFor="backfill-to">To</Label>
+						<Input
+							id="backfill-to"
+							type="date"
+							value={to}
+							min={from || undefined}
+							onChange={(e) => setTo(e.target.value)}
+						/>
+					</div>
+				</div>
+				<DialogFooter>
+					<Button variant="outline" onClick={() => setOpen(false)}>
+						Cancel
+					</Button>
+					<Button onClick={handleRun} disabled={!isValid || isRunning} className="gap-2">
+						{isRunning && <Loader2 className="h-4 w-4 animate-spin" />}
+						Run Backfill
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
+
+function PaymentFeeDialog({ env }: { env: "sandbox" | "production" }) {
+	const { organizationId } = useOrganization();
+	const [open, setOpen] = useState(false);
+	const [enabled, setEnabled] = useState(false);
+	const [expenseAccount, setExpenseAccount] = useState("");
+	const [counterAccount, setCounterAccount] = useState("");
+	const [isSaving, setIsSaving] = useState(false);
+
+	const settings = useQuery(
+		api.syncSettings.get,
+		organizationId ? { organizationId, tripletexEnv: env } : "skip",
+	);
+	const upsertSettings = useMutation(api.syncSettings.upsert);
+
+	const handleOpenChange = (nextOpen: boolean) => {
+		if (nextOpen) {
+			const current = settings?.paymentFeeVoucher;
+			setEnabled(current !== undefined);
+			setExpenseAccount(current ? String(current.expenseAccountNumber) : "");
+			setCounterAccount(current ? String(current.counterAccountNumber) : "");
+		}
+		setOpen(nextOpen);
+	};
+
+	const isAccountNumber = (value: string) => /^\d+$/.test(value.trim());
+	const isValid = !enabled || (isAccountNumber(expenseAccount) && isAccountNumber(counterAccount));
+
+	const handleSave = async () => {
+		if (!organizationId || !isValid) return;
+		setIsSaving(true);
+		try {
+			await upsertSettings({
+				organizationId,
+				tripletexEnv: env,
+				paymentFeeVoucher: enabled
+					? {
+							expenseAccountNumber: Number(expenseAccount),
+							counterAccountNumber: Number(counterAccount),
+						}
+					: null,
+			});
+			setOpen(false);
+		} catch (error) {
+			toast.error("Failed to update setting", {
+				description: error instanceof Error ? error.message : String(error),
+			});
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={handleOpenChange}>
+			<DialogTrigger
+				render={
+					<Button
+						variant="outline"
+						className="gap-2"
+						disabled={!organizationId || settings === undefined}
+					/>
+				}
+			>
+				<Receipt className="h-4 w-4" />
+				Payment Fees
+				{settings?.paymentFeeVoucher && <Badge variant="secondary">On</Badge>}
+			</DialogTrigger>
+			<DialogContent>
+				<DialogHeader>
+					<DialogTitle>Payment Fees</DialogTitle>
+					<DialogDescription>
+						Post the fee a payment provider deducts from each transaction as a separate expense
+						voucher in Tripletex ({env}).
+					</DialogDescription>
+				</DialogHeader>
+				<div className="space-y-4 py-4">
+					<div className="flex items-center gap-2">
+						<Switch id="fee-enabled" checked={enabled} onCheckedChange={setEnabled} />
+						<Label htmlFor="fee-enabled">Post fee vouchers</Label>
+					</div>
+					<div className="grid grid-cols-2 gap-4">
+						<div className="space-y-2">
+							<Label htmlFor="fee-expense-account">Expense account</Label>
+							<Input
+								id="fee-expense-account"
+								inputMode="numeric"
+								placeholder="e.g. 7770"
+								value={expenseAccount}
+								disabled={!enabled}
+								onChange={(e) => setExpenseAccount(e.target.value)}
+							/>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor="fee-counter-account">Counter account</Label>
+							<Input
+								id="fee-counter-account"
+								inputMode="numeric"
+								placeholder="e.g. 1920"
+								value={counterAccount}
+								disabled={!enabled}
+								onChange={(e) => setCounterAccount(e.target.value)}
+							/>
+						</div>
+					</div>
+				</div>
+				<DialogFooter>
+					<Button variant="outline" onClick={() => setOpen(false)}>
+						Cancel
+					</Button>
+					<Button onClick={handleSave} disabled={!isValid || isSaving} className="gap-2">
+						{isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+						Save
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
+
+interface TripletexPaymentType {
+	id: number;
+	description?: string;
+}
+
+function formatPaymentType(paymentType: TripletexPaymentType): string {
+	return paymentType.description ?? `Payment type ${paymentType.id}`;
+}
+
+const NO_DEFAULT_PAYMENT_TYPE = "none";
+
+function PaymentTypesPanel({ env }: { env: "sandbox" | "production" }) {
+	const { organizationId } = useOrganization();
+	const [paymentTypes, setPaymentTypes] = useState<TripletexPaymentType[]>([]);
+	const [loadingTypes, setLoadingTypes] = useState(false);
+	const [addDialogOpen, setAddDialogOpen] = useState(false);
+	const [transactionType, setTransactionType] = useState("");
+	const [selectedType, setSelectedType] = useState("");
+
+	const settings = useQuery(
+		api.syncSettings.get,
+		organizationId ? { organizationId, tripletexEnv: env } : "skip",
+	);
+	const mappings = useQuery(
+		api.paymentTypeMapping.list,
+		organizationId ? { organizationId, tripletexEnv: env } : "skip",
+	);
+
+	const upsertSettings = useMutation(api.syncSettings.upsert);
+	const upsertMapping = useMutation(api.paymentTypeMapping.upsert);
+	const removeMapping = useMutation(api.paymentTypeMapping.remove);
+	const fetchPaymentTypes = useAction(api.syncPublic.fetchPaymentTypesFromTripletexPublic);
+
+	const loadPaymentTypes = useCallback(async () => {
+		if (!organizationId) return;
+		setLoadingTypes(true);
+		try {
+			const types = await fetchPaymentTypes({ organizationId, tripletexEnv: env });
+			setPaymentTypes(types as TripletexPaymentType[]);
+		} catch (error) {
+			console.error("Failed to fetch Tripletex payment types:", error);
+			setPaymentTypes([]);
+			toast.error("Failed to fetch Tripletex payment types", {
+				description: error instanceof Error ? error.message : String(error),
+			});
+		} finally {
+			setLoadingTypes(false);
+		}
+	}, [organizationId, env, fetchPaymentTypes]);
+
+	// Payment types differ per Tripletex company, so reload whenever the environment changes
+	useEffect(() => {
+		void loadPaymentTypes();
+	}, [loadPaymentTypes]);
+
+	const handleDefaultChange = async (value: string) => {
+		if (!organizationId) return;
+		const paymentType = paymentTypes.find((t) => t.id.toString() === value);
+		try {
+			await upsertSettings({
+				organizationId,
+				tripletexEnv: env,
+				defaultPaymentType: paymentType
+					? { id: paymentType.id, name: formatPaymentType(paymentType) }
+					: null,
+			});
+		} catch (error) {
+			toast.error("Failed to update setting", {
+				description: error instanceof Error ? error.message : String(error),
+			});
+		}
+	};
+
+	const resetDialog = () => {
+		setTransactionType("");
+		setSelectedType("");
+	};
+
+	const handleAddMapping = async () => {
+		if (!organizationId || !transactionType.trim() || !selectedType) return;
+
+		const paymentType = paymentTypes.find((t) => t.id.toString() === selectedType);
+		if (!paymentType) return;
+
+		try {
+			await upsertMapping({
+				organizationId,
+				tripletexEnv: env,
+				rubicTransactionTypeName: transactionType.trim(),
+				tripletexPaymentTypeId: paymentType.id,
+				tripletexPaymentTypeName: formatPaymentType(paymentType),
+			});
+			setAddDialogOpen(false);
+			resetDialog();
+		} catch (error) {
+			toast.error("Failed to save payment type mapping", {
+				description: error instanceof Error ? error.message : String(error),
+			});
+		}
+	};
+
+	const handleRemoveMapping = async (mappingId: Id<"paymentTypeMapping">) => {
+		await removeMapping({ paymentTypeMappingId: mappingId });
+	};
+
+	const defaultPaymentType = settings?.defaultPaymentType;
+
+	return (
+		<div className="space-y-4">
+			<div className="flex items-end gap-4">
+				<div className="space-y-2">
+					<Label>Default payment type</Label>
+					<Select
+						value={defaultPaymentType ? String(defaultPaymentType.id) : NO_DEFAULT_PAYMENT_TYPE}
+						onValueChange={(v) => v !== null && handleDefaultChange(v)}
+						disabled={settings === undefined || paymentTypes.length === 0}
+					>
+						<SelectTrigger className="w-[280px]">
+							<SelectValue>
+								{defaultPaymentType ? defaultPaymentType.name : "None (skip unmapped types)"}
+							</SelectValue>
+						</SelectTrigger>
+						<SelectPositioner>
+							<SelectContent>
+								<SelectItem value={NO_DEFAULT_PAYMENT_TYPE}>None (skip unmapped types)</SelectItem>
+								{paymentTypes.map((t) => (
+									<SelectItem key={t.id} value={t.id.toString()}>
+										{formatPaymentType(t)}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</SelectPositioner>
+					</Select>
+				</div>
+				<Button
+					variant="outline"
+					onClick={loadPaymentTypes}
+					disabled={loadingTypes}
+					className="gap-2"
+				>
+					{loadingTypes ? (
+						<Loader2 className="h-4 w-4 animate-spin" />
+					) : (
+						<RefreshCw className="h-4 w-4" />
+					)}
+					Refresh Tripletex Payment Types
+				</Button>
+				<Dialog
+					open={addDialogOpen}
+					onOpenChange={(open) => {
+						setAddDialogOpen(open);
+						if (!open) resetDialog();
+					}}
+				>
+					<DialogTrigger render={<Button className="gap-2" disabled={paymentTypes.length === 0} />}>
+						<Plus className="h-4 w-4" />
+						Add Mapping
+					</DialogTrigger>
+					<DialogContent>
+						<DialogHeader>
+							<DialogTitle>Add Payment Type Mapping</DialogTitle>
+							<DialogDescription>
+								Register Rubic transactions of this type with a Tripletex payment type ({env}).
+							</DialogDescription>
+						</DialogHeader>
+						<div className="space-y-4 py-4">
+							<div className="space-y-2">
+								<Label htmlFor="payment-transaction-type">Rubic transaction type</Label>
+								<Input
+									id="payment-transaction-type"
+									value={transactionType}
+									onChange={(e) => setTransactionType(e.target.value)}
+									placeholder="e.g. Vipps"
+								/>
+							</div>
+							<div className="flex justify-center">
+								<ArrowRight className="h-5 w-5 text-muted-foreground" />
+							</div>
+							<div className="space-y-2">
+								<Label>Tripletex payment type</Label>
+								<Select
+									value={selectedType}
+									onValueChange={(v) => v !== null && setSelectedType(v)}
+								>
+									<SelectTrigger>
+										<SelectValue placeholder="Select Tripletex payment type" />
+									</SelectTrigger>
+									<SelectPositioner>
+										<SelectContent>
+											{paymentTypes.map((t) => (
+												<SelectItem key={t.id} value={t.id.toString()}>
+													{formatPaymentType(t)}
+												</SelectItem>
+											))}
+										</SelectContent>
+									</SelectPositioner>
+								</Select>
+							</div>
+						</div>
+						<DialogFooter>
+							<Button variant="outline" onClick={() => setAddDialogOpen(false)}>
+								Cancel
+							</Button>
+							<Button
+								onClick={handleAddMapping}
+								disabled={!transactionType.trim() || !selectedType}
+							>
+								Add Mapping
+							</Button>
+						</DialogFooter>
+					</DialogContent>
+				</Dialog>
+			</div>
+
+			<Table>
+				<TableHeader>
+					<TableRow>
+						<TableHead>Rubic Transaction Type</TableHead>
+						<TableHead className="w-12" />
+						<TableHead>Tripletex Payment Type</TableHead>
+						<TableHead className="w-16" />
+					</TableRow>
+				</TableHeader>
+				<TableBody>
+					{mappings && mappings.length > 0 ? (
+						mappings.map((m) => (
+							<TableRow key={m._id}>
+								<TableCell className="font-medium">{m.rubicTransactionTypeName}</TableCell>
+								<TableCell>
+									<ArrowRight className="h-4 w-4 text-muted-foreground" />
+								</TableCell>
+								<TableCell>
+									<span className="font-medium">{m.tripletexPaymentTypeName}</span>
+									<span className="ml-2 text-xs text-muted-foreground">
+										ID: {m.tripletexPaymentTypeId}
+									</span>
+								</TableCell>
+								<TableCell>
+									<Button
+										variant="ghost"
+										size="icon"
+										onClick={() => handleRemoveMapping(m._id)}
+										className="text-muted-foreground hover:text-destructive"
+									>
+										<Trash2 className="h-4 w-4" />
+									</Button>
+								</TableCell>
+							</TableRow>
+						))
+					) : (
+						<TableRow>
+							<TableCell colSpan={4} className="text-center text-muted-foreground">
+								No payment type mappings. Transactions use the default payment type.
+							</TableCell>
+						</TableRow>
+					)}
+				</TableBody>
+			</Table>
 		</div>
 	);
 }
@@ -243,6 +1553,7 @@ export default function IntegrationDetailPage() {
 	const { organizationId, isLoading: orgLoading } = useOrganization();
 	const [env, setEnv] = useState<"sandbox" | "production">("production");
 	const [isRunning, setIsRunning] = useState(false);
+	const [selectedRun, setSelectedRun] = useState<Doc<"syncState"> | null>(null);
 
 	const config = typeConfig[type];
 
@@ -253,16 +1564,63 @@ export default function IntegrationDetailPage() {
 
 	const filteredRuns = syncRuns?.filter((r) => r.syncType === type && r.tripletexEnv === env);
 
+	const activeLocks = useQuery(
+		api.syncLocks.listActive,
+		organizationId ? { organizationId } : "skip",
+	);
+	const isLocked = activeLocks?.some((l) => l.syncType === type && l.tripletexEnv === env) ?? false;
+
+	const watermark = useQuery(
+		api.syncWatermarks.get,
+		organizationId && (type === "invoices" || type === "payments")
+			? { organizationId, syncType: type, tripletexEnv: env }
+			: "skip",
+	);
+
 	const runSync = useAction(
 		type === "customers"
 			? api.syncPublic.runCustomersPublic
-			: type === "products"
-				? api.syncPublic.runProductsPublic
-				: type === "invoices"
-					? api.syncPublic.runInvoicesPublic
-					: api.syncPublic.runPaymentsPublic,
+			: type === "members"
+				? api.syncPublic.runMembersPublic
+				: type === "products"
+					? api.syncPublic.runProductsPublic
+					: type === "invoices"
+						? api.syncPublic.runInvoicesPublic
+						: type === "payments"
+							? api.syncPublic.runPaymentsPublic
+							: api.syncPublic.runFullPublic,
 	);
 
+	const runDryRun = useAction(
+		type === "customers"
+			? api.syncPublic.runCustomersPublic
+			: type === "members"
+				? api.syncPublic.runMembersPublic
+				: type === "products"
+					? api.syncPublic.runProductsPublic
+					: type === "invoices"
+						? api.syncPublic.runInvoicesPublic
+						: api.syncPublic.runPaymentsPublic,
+	);
+
+	const handleDryRun = async () => {
+		if (!organizationId) return;
+		setIsRunning(true);
+		try {
+			await runDryRun({ organizationId, tripletexEnv: env, dryRun: true });
+			toast.success("Dry run finished", {
+				description: "Open it from the run history to see the planned changes.",
+			});
+		} catch (error) {
+			console.error(`Dry run of ${type} failed:`, error);
+			toast.error(`${type} dry run failed`, {
+				description: error instanceof Error ? error.message : String(error),
+			});
+		} finally {
+			setIsRunning(false);
+		}
+	};
+
 	const handleRun = async () => {
 		if (!organizationId) return;
 		setIsRunning(true);
@@ -326,36 +1684,132 @@ export default function IntegrationDetailPage() {
 						</SelectContent>
 					</SelectPositioner>
 				</Select>
-				<Button onClick={handleRun} disabled={isRunning || !organizationId} className="gap-2">
-					{isRunning ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
-					Run {config.label} Sync
+				<Button
+					onClick={handleRun}
+					disabled={isRunning || isLocked || !organizationId}
+					className="gap-2"
+				>
+					{isRunning || isLocked ? (
+						<Loader2 className="h-4 w-4 animate-spin" />
+					) : (
+						<Play className="h-4 w-4" />
+					)}
+					{isLocked && !isRunning ? "Already running" : `Run ${config.label} Sync`}
 				</Button>
+				{type !== "full" && (
+					<Button
+						variant="outline"
+						onClick={handleDryRun}
+						disabled={isRunning || isLocked || !organizationId}
+						className="gap-2"
+					>
+						<FlaskConical className="h-4 w-4" />
+						Dry Run
+					</Button>
+				)}
+				{(type === "invoices" || type === "payments") && (
+					<BackfillDialog syncType={type} env={env} disabled={isLocked} />
+				)}
+				{type === "payments" && <PaymentFeeDialog env={env} />}
+				{type === "invoices" && <StrictLinesToggle env={env} />}
+				{type === "customers" && <LedgerCustomerNoToggle env={env} />}
+				{(type === "customers" || type === "products" || type === "invoices") && (
+					<VerifyMappingsButton env={env} disabled={isLocked} />
+				)}
+				{(type === "customers" || type === "products") && <StaleMappingPolicySelect env={env} />}
 			</div>
 
 			<Tabs defaultValue="mappings">
 				<TabsList>
-					<TabsTrigger value="mappings">Mappings</TabsTrigger>
+					<TabsTrigger value="mappings">{type === "full" ? "Pipeline" : "Mappings"}</TabsTrigger>
+					{type === "invoices" && <TabsTrigger value="skipped">Skipped</TabsTrigger>}
+					{type === "payments" && <TabsTrigger value="payment-types">Payment Types</TabsTrigger>}
+					{(type === "invoices" || type === "payments") && (
+						<TabsTrigger value="retries">Retry Queue</TabsTrigger>
+					)}
 					<TabsTrigger value="history">Run History</TabsTrigger>
 				</TabsList>
 
 				<TabsContent value="mappings" className="mt-4">
-					<Card>
-						<CardHeader>
-							<CardTitle className="text-lg">{config.label} Mappings</CardTitle>
-							<CardDescription>
-								Current mappings between Rubic and Tripletex records
-							</CardDescription>
-						</CardHeader>
-						<CardContent>{organizationId && <MappingsTable type={type} env={env} />}</CardContent>
-					</Card>
+					{type === "full" ? (
+						<Card>
+							<CardHeader>
+								<CardTitle className="text-lg">Pipeline Steps</CardTitle>
+								<CardDescription>
+									Steps run in dependency order. Choose what happens when a step fails.
+								</CardDescription>
+							</CardHeader>
+							<CardContent>{organizationId && <PipelinePolicyTable env={env} />}</CardContent>
+						</Card>
+					) : (
+						<Card>
+							<CardHeader>
+								<CardTitle className="text-lg">{config.label} Mappings</CardTitle>
+								<CardDescription>
+									Current mappings between Rubic and Tripletex records
+								</CardDescription>
+							</CardHeader>
+							<CardContent>{organizationId && <MappingsTable type={type} env={env} />}</CardContent>
+						</Card>
+					)}
 				</TabsContent>
 
+				{type === "invoices" && (
+					<TabsContent value="skipped" className="mt-4">
+						<Card>
+							<CardHeader>
+								<CardTitle className="text-lg">Skipped Invoices</CardTitle>
+								<CardDescription>
+									Invoices that were not sent to Tripletex and why. Entries clear once the invoice
+									syncs.
+								</CardDescription>
+							</CardHeader>
+							<CardContent>{organizationId && <SkippedInvoicesTable env={env} />}</CardContent>
+						</Card>
+					</TabsContent>
+				)}
+
+				{type === "payments" && (
+					<TabsContent value="payment-types" className="mt-4">
+						<Card>
+							<CardHeader>
+								<CardTitle className="text-lg">Payment Types</CardTitle>
+								<CardDescription>
+									Tripletex payment type each Rubic transaction type is registered with.
+									Transactions without a mapping use the default, or are skipped when there is none.
+								</CardDescription>
+							</CardHeader>
+							<CardContent>{organizationId && <PaymentTypesPanel env={env} />}</CardContent>
+						</Card>
+					</TabsContent>
+				)}
+
+				{(type === "invoices" || type === "payments") && (
+					<TabsContent value="retries" className="mt-4">
+						<Card>
+							<CardHeader>
+								<CardTitle className="text-lg">Retry Queue</CardTitle>
+								<CardDescription>
+									Records that failed or were skipped. Every run re-attempts them until they sync.
+									{watermark && ` Incremental runs start from ${formatDate(watermark.watermark)}.`}
+								</CardDescription>
+							</CardHeader>
+							<CardContent>
+								{organizationId && <RetryQueueTable syncType={type} env={env} />}
+							</CardContent>
+						</Card>
+					</TabsContent>
+				)}
+
 				<TabsContent value="history" className="mt-4">
 					<Card>
 						<CardHeader>
 							<CardTitle className="text-lg">Run History</CardTitle>
 							<CardDescription>
-								Recent {config.label.toLowerCase()} sync runs for {env}
+								Recent {config.label.toLowerCase()} sync runs for {env}.{" "}
+								{type === "full"
+									? "Click a run to see its steps."
+									: "Click a run to see failed and skipped records, or the report of a dry run."}
 							</CardDescription>
 						</CardHeader>
 						<CardContent>
@@ -367,24 +1821,51 @@ export default function IntegrationDetailPage() {
 										<TableHead>Completed</TableHead>
 										<TableHead className="text-right">Processed</TableHead>
 										<TableHead className="text-right">Failed</TableHead>
+										<TableHead className="text-right">Skipped</TableHead>
 										<TableHead>Error</TableHead>
 									</TableRow>
 								</TableHeader>
 								<TableBody>
 									{filteredRuns && filteredRuns.length > 0 ? (
 										filteredRuns.map((run) => (
-											<TableRow key={run._id}>
+											<TableRow
+												key={run._id}
+												className="cursor-pointer"
+												onClick={() => setSelectedRun(run)}
+											>
 												<TableCell>
-													<StatusBadge status={run.status} />
+													<StatusBadge status={run.status} failureReason={run.failureReason} />
 												</TableCell>
 												<TableCell className="text-muted-foreground">
 													{formatDate(run.startedAt)}
 												</TableCell>
 												<TableCell className="text-muted-foreground">
-													{formatDate(run.completedAt)}
+													{run.status === "running" && run.cursor
+														? `In progress (page ${run.cursor.pageNo})`
+														: formatDate(run.completedAt)}
+													{run.mode === "backfill" && (
+														<Badge
+															variant="secondary"
+															className="ml-2"
+															title={`${formatDate(run.windowStart)} – ${formatDate(run.windowEnd)}`}
+														>
+															Backfill
+														</Badge>
+													)}
+													{run.dryRun && (
+														<Badge variant="secondary" className="ml-2">
+															Dry run
+														</Badge>
+													)}
+													{run.resumedFromRunId && (
+														<Badge variant="secondary" className="ml-2">
+															Resumed
+														</Badge>
+													)}
 												</TableCell>
 												<TableCell className="text-right">{run.recordsProcessed}</TableCell>
 												<TableCell className="text-right">{run.recordsFailed}</TableCell>
+												<TableCell className="text-right">{run.recordsSkipped ?? 0}</TableCell>
 												<TableCell
 													className="max-w-[200px] truncate text-red-500"
 													title={run.errorMessage ?? undefined}
@@ -395,7 +1876,7 @@ export default function IntegrationDetailPage() {
 										))
 									) : (
 										<TableRow>
-											<TableCell colSpan={6} className="py-8 text-center text-muted-foreground">
+											<TableCell colSpan={7} className="py-8 text-center text-muted-foreground">
 												No sync runs for this type and environment yet
 											</TableCell>
 										</TableRow>
@@ -406,6 +1887,8 @@ export default function IntegrationDetailPage() {
 					</Card>
 				</TabsContent>
 			</Tabs>
+
+			<RunIssuesDialog run={selectedRun} onOpenChange={(open) => !open && setSelectedRun(null)} />
 		</div>
 	);
 }
@@ -5,6 +5,7 @@ import {
 	ArrowLeftRight,
 	CheckCircle2,
 	Clock,
+	Contact,
 	CreditCard,
 	FileText,
 	Loader2,
@@ -12,6 +13,7 @@ import {
 	Play,
 	Settings,
 	Users,
+	Workflow,
 	XCircle,
 	Zap,
 } from "lucide-react";
@@ -52,6 +54,13 @@ const syncTypes = [
 		icon: Users,
 		defaultCron: "0 */6 * * *",
 	},
+	{
+		type: "members" as const,
+		label: "Members",
+		description: "Sync person and company members from Rubic to Tripletex customers",
+		icon: Contact,
+		defaultCron: "0 */6 * * *",
+	},
 	{
 		type: "products" as const,
 		label: "Products",
@@ -73,6 +82,13 @@ const syncTypes = [
 		icon: CreditCard,
 		defaultCron: "0 * * * *",
 	},
+	{
+		type: "full" as const,
+		label: "Full",
+		description: "Run customers, products, invoices and payments in dependency order",
+		icon: Workflow,
+		defaultCron: "0 2 * * *",
+	},
 ] as const;
 
 type SyncType = (typeof syncTypes)[number]["type"];
@@ -97,14 +113,21 @@ function ScheduleDialog({ syncType, defaultCron }: { syncType: SyncType; default
 
 	const handleSave = async () => {
 		if (!organizationId) return;
-		await upsertSchedule({
-			organizationId,
-			syncType,
-			tripletexEnv: env,
-			cronExpression: cron,
-			isEnabled: enabled,
-		});
-		setOpen(false);
+		try {
+			await upsertSchedule({
+				organizationId,
+				syncType,
+				tripletexEnv: env,
+				cronExpression: cron,
+				isEnabled: enabled,
+			});
+			setOpen(false);
+		} catch (error) {
+			console.error("Failed to save schedule:", error);
+			toast.error("Failed to save schedule", {
+				description: error instanceof Error ? error.message : String(error),
+			});
+		}
 	};
 
 	return (
@@ -145,7 +168,8 @@ function ScheduleDialog({ syncType, defaultCron }: { syncType: SyncType; default
 							placeholder="0 */6 * * *"
 						/>
 						<p className="text-xs text-muted-foreground">
-							Standard cron format: minute hour day month weekday
+							Standard cron format: minute hour day month weekday (e.g. "30 2 * * 1-5"), evaluated
+							in {existingSchedule?.timezone ?? "Europe/Oslo"} time
 						</p>
 					</div>
 					<div className="flex items-center justify-between">
@@ -175,14 +199,25 @@ function RunSyncButton({ syncType }: { syncType: SyncType }) {
 	const [isRunning, setIsRunning] = useState(false);
 	const [env, setEnv] = useState<"sandbox" | "production">("production");
 
+	const activeLocks = useQuery(
+		api.syncLocks.listActive,
+		organizationId ? { organizationId } : "skip",
+	);
+	const isLocked =
+		activeLocks?.some((l) => l.syncType === syncType && l.tripletexEnv === env) ?? false;
+
 	const runSync = useAction(
 		syncType === "customers"
 			? api.syncPublic.runCustomersPublic
-			: syncType === "products"
-				? api.syncPublic.runProductsPublic
-				: syncType === "invoices"
-					? api.syncPublic.runInvoicesPublic
-					: api.syncPublic.runPaymentsPublic,
+			: syncType === "members"
+				? api.syncPublic.runMembersPublic
+				: syncType === "products"
+					? api.syncPublic.runProductsPublic
+					: syncType === "invoices"
+						? api.syncPublic.runInvoicesPublic
+						: syncType === "payments"
+							? api.syncPublic.runPaymentsPublic
+							: api.syncPublic.runFullPublic,
 	);
 
 	const handleRun = async () => {
@@ -216,15 +251,15 @@ function RunSyncButton({ syncType }: { syncType: SyncType }) {
 			<Button
 				size="sm"
 				onClick={handleRun}
-				disabled={isRunning || !organizationId}
+				disabled={isRunning || isLocked || !organizationId}
 				className="gap-2"
 			>
-				{isRunning ? (
+				{isRunning || isLocked ? (
 					<Loader2 className="h-3.5 w-3.5 animate-spin" />
 				) : (
 					<Play className="h-3.5 w-3.5" />
 				)}
-				Run Now
+				{isLocked && !isRunning ? "Already running" : "Run Now"}
 			</Button>
 		</div>
 	);
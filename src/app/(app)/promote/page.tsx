@@ -0,0 +1,216 @@
+"use client";
+
+import { useAction } from "convex/react";
+import { ArrowRight, Loader2, RefreshCw, Rocket } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { useOrganization } from "@/hooks/use-organization";
+import { api } from "../../../../convex/_generated/api";
+import type { PromotionArea, PromotionChange } from "../../../../convex/lib/promotion";
+
+const areaLabels: Record<PromotionArea, string> = {
+	department: "Department mapping",
+	vat: "VAT mapping",
+	paymentType: "Payment type mapping",
+	product: "Product mapping",
+	setting: "Setting",
+	schedule: "Schedule",
+};
+
+const actionStyles: Record<PromotionChange["action"], string> = {
+	create: "bg-emerald-500/10 text-emerald-600 dark:text-emerald-400 border-emerald-500/20",
+	update: "bg-blue-500/10 text-blue-600 dark:text-blue-400 border-blue-500/20",
+	unchanged: "",
+	unresolved: "bg-amber-500/10 text-amber-600 dark:text-amber-400 border-amber-500/20",
+};
+
+export default function PromotePage() {
+	const { organizationId, isLoading: orgLoading } = useOrganization();
+	const [changes, setChanges] = useState<PromotionChange[] | null>(null);
+	const [planHash, setPlanHash] = useState<string | null>(null);
+	const [showUnchanged, setShowUnchanged] = useState(false);
+	const [reviewing, setReviewing] = useState(false);
+	const [promoting, setPromoting] = useState(false);
+
+	const planPromotion = useAction(api.syncPublic.planPromotionToProductionPublic);
+	const promote = useAction(api.syncPublic.promoteToProductionPublic);
+
+	const review = useCallback(async () => {
+		if (!organizationId) return;
+		setReviewing(true);
+		try {
+			const plan = await planPromotion({ organizationId });
+			setChanges(plan.changes);
+			setPlanHash(plan.planHash);
+		} catch (error) {
+			console.error("Failed to review promotion:", error);
+			toast.error("Failed to review promotion", {
+				description: error instanceof Error ? error.message : String(error),
+			});
+		} finally {
+			setReviewing(false);
+		}
+	}, [organizationId, planPromotion]);
+
+	useEffect(() => {
+		void review();
+	}, [review]);
+
+	const pending = changes?.filter((c) => c.action === "create" || c.action === "update") ?? [];
+	const unresolved = changes?.filter((c) => c.action === "unresolved") ?? [];
+	const visible = changes?.filter((c) => showUnchanged || c.action !== "unchanged") ?? [];
+
+	const handlePromote = async () => {
+		if (!organizationId || !planHash) return;
+		setPromoting(true);
+		try {
+			await promote({ organizationId, planHash });
+			toast.success("Sandbox configuration promoted to production");
+			await review();
+		} catch (error) {
+			console.error("Promotion failed:", error);
+			toast.error("Promotion failed", {
+				description: error instanceof Error ? error.message : String(error),
+			});
+			// The review may be out of date; show what promoting would do now
+			await review();
+		} finally {
+			setPromoting(false);
+		}
+	};
+
+	if (orgLoading) {
+		return (
+			<div className="flex h-[50vh] items-center justify-center">
+				<Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+			</div>
+		);
+	}
+
+	if (!organizationId) {
+		return (
+			<div className="flex h-[50vh] flex-col items-center justify-center gap-4">
+				<Rocket className="h-12 w-12 text-muted-foreground" />
+				<h2 className="text-xl font-semibold">No Organization Selected</h2>
+			</div>
+		);
+	}
+
+	return (
+		<div className="space-y-6">
+			<div className="flex items-start justify-between">
+				<div>
+					<h1 className="text-2xl font-bold tracking-tight">Promote to Production</h1>
+					<p className="text-muted-foreground">
+						Copy sandbox mappings, settings and schedules to production. Tripletex records are
+						matched in production by number or name, and new schedules start disabled.
+					</p>
+				</div>
+				<div className="flex items-center gap-2">
+					<Button variant="outline" onClick={review} disabled={reviewing} className="gap-2">
+						{reviewing ? (
+							<Loader2 className="h-4 w-4 animate-spin" />
+						) : (
+							<RefreshCw className="h-4 w-4" />
+						)}
+						Review Again
+					</Button>
+					<Button
+						onClick={handlePromote}
+						disabled={promoting || reviewing || pending.length === 0}
+						className="gap-2"
+					>
+						{promoting ? (
+							<Loader2 className="h-4 w-4 animate-spin" />
+						) : (
+							<Rocket className="h-4 w-4" />
+						)}
+						Promote {pending.length} {pending.length === 1 ? "Change" : "Changes"}
+					</Button>
+				</div>
+			</div>
+
+			<Card>
+				<CardHeader>
+					<div className="flex items-center justify-between">
+						<div>
+							<CardTitle className="text-lg">Review</CardTitle>
+							<CardDescription>
+								{changes
+									? `${pending.length} to apply, ${unresolved.length} not found in production. Production entries without a sandbox counterpart are kept.`
+									: "Loading sandbox and production configuration…"}
+							</CardDescription>
+						</div>
+						<Button variant="ghost" size="sm" onClick={() => setShowUnchanged((v) => !v)}>
+							{showUnchanged ? "Hide unchanged" : "Show unchanged"}
+						</Button>
+					</div>
+				</CardHeader>
+				<CardContent>
+					{visible.length > 0 ? (
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Area</TableHead>
+									<TableHead>Item</TableHead>
+									<TableHead>Change</TableHead>
+									<TableHead>Production now</TableHead>
+									<TableHead />
+									<TableHead>After promotion</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{visible.map((change) => (
+									<TableRow key={`${change.area}-${change.key}`}>
+										<TableCell className="text-muted-foreground">
+											{areaLabels[change.area]}
+										</TableCell>
+										<TableCell className="font-medium">{change.key}</TableCell>
+										<TableCell>
+											<Badge
+												variant={change.action === "unchanged" ? "secondary" : "outline"}
+												className={`capitalize ${actionStyles[change.action]}`}
+											>
+												{change.action}
+											</Badge>
+										</TableCell>
+										<TableCell className="text-muted-foreground">{change.from ?? "—"}</TableCell>
+										<TableCell>
+											<ArrowRight className="h-4 w-4 text-muted-foreground" />
+										</TableCell>
+										<TableCell>
+											{change.action === "unresolved" ? (
+												<span className="text-amber-600 dark:text-amber-400">{change.reason}</span>
+											) : (
+												change.to
+											)}
+										</TableCell>
+									</TableRow>
+								))}
+							</TableBody>
+						</Table>
+					) : (
+						<p className="py-8 text-center text-muted-foreground">
+							{reviewing
+								? "Comparing sandbox with production…"
+								: changes
+									? "Production already matches sandbox."
+									: "No review yet."}
+						</p>
+					)}
+				</CardContent>
+			</Card>
+		</div>
+	);
+}
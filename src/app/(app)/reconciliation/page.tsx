@@ -0,0 +1,413 @@
+"use client";
+
+import { useAction, useQuery } from "convex/react";
+import { Download, Loader2, Play, Scale } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectPositioner,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { useOrganization } from "@/hooks/use-organization";
+import { api } from "../../../../convex/_generated/api";
+import type { Doc, Id } from "../../../../convex/_generated/dataModel";
+import { reconciliationIssuesToCsv } from "../../../../convex/lib/reconciliation";
+import type { ReconciliationIssueKind } from "../../../../convex/validators";
+
+const kindLabels: Record<ReconciliationIssueKind, string> = {
+	missing_invoice: "Missing invoice",
+	amount_mismatch: "Amount mismatch",
+	balance_mismatch: "Balance mismatch",
+	missing_payment: "Missing payment",
+	orphan_mapping: "Orphan mapping",
+};
+
+const kindStyles: Record<ReconciliationIssueKind, string> = {
+	missing_invoice: "bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20",
+	amount_mismatch: "bg-amber-500/10 text-amber-600 dark:text-amber-400 border-amber-500/20",
+	balance_mismatch: "bg-amber-500/10 text-amber-600 dark:text-amber-400 border-amber-500/20",
+	missing_payment: "bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20",
+	orphan_mapping: "bg-blue-500/10 text-blue-600 dark:text-blue-400 border-blue-500/20",
+};
+
+function formatAmount(amount: number | undefined): string {
+	if (amount === undefined) return "—";
+	return amount.toLocaleString("nb-NO", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatDate(timestamp: number): string {
+	return new Date(timestamp).toLocaleString("en-US", {
+		month: "short",
+		day: "numeric",
+		hour: "2-digit",
+		minute: "2-digit",
+	});
+}
+
+/** First and last day of the previous calendar month, as `YYYY-MM-DD`. */
+function previousMonth(): { from: string; to: string } {
+	const now = new Date();
+	const first = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+	const last = new Date(now.getFullYear(), now.getMonth(), 0);
+	const format = (d: Date) =>
+		`${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+	return { from: format(first), to: format(last) };
+}
+
+export default function ReconciliationPage() {
+	const { organizationId, isLoading: orgLoading } = useOrganization();
+	const [env, setEnv] = useState<"sandbox" | "production">("production");
+	const [from, setFrom] = useState(() => previousMonth().from);
+	const [to, setTo] = useState(() => previousMonth().to);
+	const [isRunning, setIsRunning] = useState(false);
+	const [selectedReportId, setSelectedReportId] = useState<Id<"reconciliationReports"> | null>(
+		null,
+	);
+
+	const reports = useQuery(
+		api.reconciliation.listReports,
+		organizationId ? { organizationId, tripletexEnv: env } : "skip",
+	);
+	const runReconciliation = useAction(api.syncPublic.runReconciliationPublic);
+
+	// Show the newest report until another one is picked
+	const selectedReport =
+		reports?.find((r) => r._id === selectedReportId) ?? reports?.[0] ?? undefined;
+
+	const isValid = from !== "" && to !== "" && from <= to;
+
+	const handleRun = async () => {
+		if (!organizationId || !isValid) return;
+		setIsRunning(true);
+		try {
+			const reportId = await runReconciliation({
+				organizationId,
+				tripletexEnv: env,
+				periodStart: from,
+				periodEnd: to,
+			});
+			setSelectedReportId(reportId);
+			toast.success("Reconciliation finished");
+		} catch (error) {
+			console.error("Reconciliation failed:", error);
+			toast.error("Reconciliation failed", {
+				description: error instanceof Error ? error.message : String(error),
+			});
+		} finally {
+			setIsRunning(false);
+		}
+	};
+
+	if (orgLoading) {
+		return (
+			<div className="flex h-[50vh] items-center justify-center">
+				<Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+			</div>
+		);
+	}
+
+	if (!organizationId) {
+		return (
+			<div className="flex h-[50vh] flex-col items-center justify-center gap-4">
+				<Scale className="h-12 w-12 text-muted-foreground" />
+				<h2 className="text-xl font-semibold">No Organization Selected</h2>
+			</div>
+		);
+	}
+
+	return (
+		<div className="space-y-6">
+			<div className="flex items-start justify-between">
+				<div>
+					<h1 className="text-2xl font-bold tracking-tight">Reconciliation</h1>
+					<p className="text-muted-foreground">
+						Check that Rubic invoices, balances and payments agree with Tripletex
+					</p>
+				</div>
+				<Select
+					value={env}
+					onValueChange={(v) => {
+						if (!v) return;
+						setEnv(v as "sandbox" | "production");
+						setSelectedReportId(null);
+					}}
+				>
+					<SelectTrigger className="w-[160px]">
+						<SelectValue />
+					</SelectTrigger>
+					<SelectPositioner>
+						<SelectContent>
+							<SelectItem value="production">Production</SelectItem>
+							<SelectItem value="sandbox">Sandbox</SelectItem>
+						</SelectContent>
+					</SelectPositioner>
+				</Select>
+			</div>
+
+			<Card>
+				<CardHeader>
+					<CardTitle className="text-lg">Run Reconciliation</CardTitle>
+					<CardDescription>
+						Invoices are compared by invoice date and payments by payment date. Nothing is written
+						to Rubic or Tripletex.
+					</CardDescription>
+				</CardHeader>
+				<CardContent>
+					<div className="flex items-end gap-4">
+						<div className="space-y-2">
+							<Label htmlFor="reconciliation-from">From</Label>
+							<Input
+								id="reconciliation-from"
+								type="date"
+								value={from}
+								max={to || undefined}
+								onChange={(e) => setFrom(e.target.value)}
+							/>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor="reconciliation-to">To</Label>
+							<Input
+								id="reconciliation-to"
+								type="date"
+								value={to}
+								min={from || undefined}
+								onChange={(e) => setTo(e.target.value)}
+							/>
+						</div>
+						<Button onClick={handleRun} disabled={!isValid || isRunning} className="gap-2">
+							{isRunning ? (
+								<Loader2 className="h-4 w-4 animate-spin" />
+							) : (
+								<Play className="h-4 w-4" />
+							)}
+							Run
+						</Button>
+					</div>
+				</CardContent>
+			</Card>
+
+			<Card>
+				<CardHeader>
+					<CardTitle className="text-lg">Reports</CardTitle>
+					<CardDescription>Recent reconciliations for {env}</CardDescription>
+				</CardHeader>
+				<CardContent>
+					{reports === undefined ? (
+						<div className="flex justify-center py-8">
+							<Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+						</div>
+					) : reports.length === 0 ? (
+						<p className="py-8 text-center text-muted-foreground">No reconciliations yet.</p>
+					) : (
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Period</TableHead>
+									<TableHead>Run</TableHead>
+									<TableHead className="text-right">Invoices</TableHead>
+									<TableHead className="text-right">Issues</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{reports.map((report) => (
+									<TableRow
+										key={report._id}
+										onClick={() => setSelectedReportId(report._id)}
+										className={`cursor-pointer ${report._id === selectedReport?._id ? "bg-muted/50" : ""}`}
+									>
+										<TableCell className="font-medium">
+											{report.periodStart} – {report.periodEnd}
+										</TableCell>
+										<TableCell className="text-muted-foreground">
+											{formatDate(report.createdAt)}
+										</TableCell>
+										<TableCell className="text-right">{report.summary.rubicInvoices}</TableCell>
+										<TableCell className="text-right">
+											<Badge variant={report.issueCount > 0 ? "destructive" : "secondary"}>
+												{report.issueCount}
+											</Badge>
+										</TableCell>
+									</TableRow>
+								))}
+							</TableBody>
+						</Table>
+					)}
+				</CardContent>
+			</Card>
+
+			{selectedReport && <ReportDetails report={selectedReport} />}
+		</div>
+	);
+}
+
+function ReportDetails({ report }: { report: Doc<"reconciliationReports"> }) {
+	const [kind, setKind] = useState<ReconciliationIssueKind | "all">("all");
+
+	const issues = useQuery(api.reconciliation.listIssues, {
+		reportId: report._id,
+		limit: Math.max(report.issueCount, 1),
+	});
+
+	const visible = issues?.filter((i) => kind === "all" || i.kind === kind) ?? [];
+	const { summary } = report;
+
+	const handleExport = () => {
+		if (!issues) return;
+		const csv = reconciliationIssuesToCsv(visible);
+		const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+		const link = document.createElement("a");
+		link.href = url;
+		link.download = `reconciliation-${report.tripletexEnv}-${report.periodStart}-${report.periodEnd}.csv`;
+		link.click();
+		URL.revokeObjectURL(url);
+	};
+
+	const rows = [
+		{ label: "Invoices", rubic: summary.rubicInvoices, tripletex: summary.matchedInvoices },
+		{
+			label: "Gross total",
+			rubic: formatAmount(summary.rubicGrossTotal),
+			tripletex: formatAmount(summary.tripletexGrossTotal),
+		},
+		{
+			label: "Open balance",
+			rubic: formatAmount(summary.rubicOpenBalance),
+			tripletex: formatAmount(summary.tripletexOpenBalance),
+		},
+		{ label: "Payments", rubic: summary.rubicPayments, tripletex: summary.registeredPayments },
+		{
+			label: "Paid amount",
+			rubic: formatAmount(summary.rubicPaymentTotal),
+			tripletex: formatAmount(summary.registeredPaymentTotal),
+		},
+	];
+
+	return (
+		<Card>
+			<CardHeader>
+				<div className="flex items-center justify-between">
+					<div>
+						<CardTitle className="text-lg">
+							{report.periodStart} – {report.periodEnd}
+						</CardTitle>
+						<CardDescription>
+							Tripletex totals cover the invoices and payments mapped from Rubic
+						</CardDescription>
+					</div>
+					<div className="flex items-center gap-2">
+						<Select
+							value={kind}
+							onValueChange={(v) => v && setKind(v as ReconciliationIssueKind | "all")}
+						>
+							<SelectTrigger className="w-[180px]">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectPositioner>
+								<SelectContent>
+									<SelectItem value="all">All issues</SelectItem>
+									{(Object.keys(kindLabels) as ReconciliationIssueKind[]).map((k) => (
+										<SelectItem key={k} value={k}>
+											{kindLabels[k]}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</SelectPositioner>
+						</Select>
+						<Button
+							variant="outline"
+							size="sm"
+							onClick={handleExport}
+							disabled={visible.length === 0}
+							className="gap-2"
+						>
+							<Download className="h-4 w-4" />
+							Export CSV
+						</Button>
+					</div>
+				</div>
+			</CardHeader>
+			<CardContent className="space-y-6">
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead />
+							<TableHead className="text-right">Rubic</TableHead>
+							<TableHead className="text-right">Tripletex</TableHead>
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{rows.map((row) => (
+							<TableRow key={row.label}>
+								<TableCell className="font-medium">{row.label}</TableCell>
+								<TableCell className="text-right">{row.rubic}</TableCell>
+								<TableCell className="text-right">{row.tripletex}</TableCell>
+							</TableRow>
+						))}
+					</TableBody>
+				</Table>
+
+				{issues === undefined ? (
+					<div className="flex justify-center py-8">
+						<Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+					</div>
+				) : visible.length === 0 ? (
+					<p className="py-8 text-center text-muted-foreground">
+						{issues.length === 0
+							? "Rubic and Tripletex agree for this period."
+							: "No issues of this kind."}
+					</p>
+				) : (
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Issue</TableHead>
+								<TableHead>Rubic invoice</TableHead>
+								<TableHead>Tripletex invoice</TableHead>
+								<TableHead className="text-right">Rubic</TableHead>
+								<TableHead className="text-right">Tripletex</TableHead>
+								<TableHead>Details</TableHead>
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{visible.map((issue) => (
+								<TableRow key={issue._id}>
+									<TableCell>
+										<Badge variant="outline" className={kindStyles[issue.kind]}>
+											{kindLabels[issue.kind]}
+										</Badge>
+									</TableCell>
+									<TableCell className="font-medium">{issue.rubicInvoiceNumber ?? "—"}</TableCell>
+									<TableCell className="text-muted-foreground">
+										{issue.tripletexInvoiceId ?? "—"}
+									</TableCell>
+									<TableCell className="text-right">{formatAmount(issue.rubicAmount)}</TableCell>
+									<TableCell className="text-right">
+										{formatAmount(issue.tripletexAmount)}
+									</TableCell>
+									<TableCell className="text-muted-foreground">{issue.message}</TableCell>
+								</TableRow>
+							))}
+						</TableBody>
+					</Table>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
@@ -15,6 +15,7 @@ import {
 import Link from "next/link";
 import { useState } from "react";
 import { toast } from "sonner";
+import { CredentialHealthBanner } from "@/components/credential-health-banner";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -44,14 +45,21 @@ import { api } from "../../../../convex/_generated/api";
 
 // --- Rubic Credential Form ---
 
-function RubicCredentialForm() {
+/** Rubic test pairs with Tripletex sandbox, live Rubic with production. */
+function RubicCredentialForm({ defaultEnv }: { defaultEnv: "sandbox" | "production" }) {
 	const { organizationId } = useOrganization();
 	const [open, setOpen] = useState(false);
-	const [baseUrl, setBaseUrl] = useState("https://rubicexternalapitest.azurewebsites.net");
+	const [env, setEnv] = useState(defaultEnv);
+	const [baseUrl, setBaseUrl] = useState(
+		defaultEnv === "sandbox"
+			? "https://rubicexternalapitest.azurewebsites.net"
+			: "https://rubicexternalapi.azurewebsites.net",
+	);
 	const [apiKey, setApiKey] = useState("");
 	const [organizationIdField, setOrganizationIdField] = useState("");
 	const [enabled, setEnabled] = useState(true);
 	const [saving, setSaving] = useState(false);
+	const [verificationFailed, setVerificationFailed] = useState(false);
 	const [testing, setTesting] = useState(false);
 	const [testResult, setTestResult] = useState<{
 		success: boolean;
@@ -59,28 +67,40 @@ function RubicCredentialForm() {
 		error?: string;
 	} | null>(null);
 
-	const upsertCredentials = useMutation(api.apiCredentials.upsert);
+	const saveCredentials = useAction(api.syncPublic.saveCredentialsPublic);
 	const testConnection = useAction(api.syncPublic.testConnectionPublic);
 
 	const parsedOrgId = Number.parseInt(organizationIdField, 10);
 	const isOrgIdValid = organizationIdField.trim() !== "" && !Number.isNaN(parsedOrgId);
 
-	const handleSave = async () => {
+	const handleSave = async (skipVerification = false) => {
 		if (!organizationId || !isOrgIdValid) return;
 		setSaving(true);
+		setTestResult(null);
 		try {
-			await upsertCredentials({
+			const result = await saveCredentials({
 				organizationId,
 				provider: "rubic",
-				environment: "production",
+				environment: env,
 				baseUrl,
 				credentials: JSON.stringify({
 					apiKey,
 					organizationId: parsedOrgId,
 				}),
 				isEnabled: enabled,
+				skipVerification,
 			});
-			toast.success("Rubic credentials saved");
+			if (!result.success) {
+				setTestResult({ success: false, error: `Not saved. ${result.error}` });
+				setVerificationFailed(true);
+				return;
+			}
+			toast.success(
+				result.verified
+					? `Rubic ${env} credentials verified and saved`
+					: `Rubic ${env} credentials saved`,
+			);
+			setVerificationFailed(false);
 			setOpen(false);
 		} catch (error) {
 			console.error("Failed to save Rubic credentials:", error);
@@ -100,7 +120,7 @@ function RubicCredentialForm() {
 			const result = await testConnection({
 				organizationId,
 				provider: "rubic",
-				environment: "production",
+				environment: env,
 			});
 			setTestResult(result);
 		} catch (error) {
@@ -121,14 +141,30 @@ function RubicCredentialForm() {
 		<Dialog open={open} onOpenChange={setOpen}>
 			<DialogTrigger render={<Button variant="outline" size="sm" className="gap-2" />}>
 				<Plus className="h-4 w-4" />
-				Configure Rubic
+				Configure Rubic ({defaultEnv})
 			</DialogTrigger>
 			<DialogContent>
 				<DialogHeader>
 					<DialogTitle>Rubic API Credentials</DialogTitle>
-					<DialogDescription>Configure your Rubic API connection details.</DialogDescription>
+					<DialogDescription>
+						Configure the Rubic connection used by Tripletex {env} syncs.
+					</DialogDescription>
 				</DialogHeader>
 				<div className="space-y-4 py-4">
+					<div className="space-y-2">
+						<Label>Environment</Label>
+						<Select value={env} onValueChange={(v) => v && setEnv(v as "sandbox" | "production")}>
+							<SelectTrigger>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectPositioner>
+								<SelectContent>
+									<SelectItem value="production">Production</SelectItem>
+									<SelectItem value="sandbox">Sandbox</SelectItem>
+								</SelectContent>
+							</SelectPositioner>
+						</Select>
+					</div>
 					<div className="space-y-2">
 						<Label>Base URL</Label>
 						<Input value={baseUrl} onChange={(e) => setBaseUrl(e.target.value)} />
@@ -184,8 +220,17 @@ function RubicCredentialForm() {
 						)}
 						Test Connection
 					</Button>
+					{verificationFailed && (
+						<Button
+							variant="outline"
+							onClick={() => handleSave(true)}
+							disabled={saving || !isOrgIdValid || !apiKey}
+						>
+							Save Anyway
+						</Button>
+					)}
 					<Button
-						onClick={handleSave}
+						onClick={() => handleSave()}
 						disabled={saving || !isOrgIdValid || !apiKey}
 						className="gap-2"
 					>
@@ -211,6 +256,7 @@ function TripletexCredentialForm({ defaultEnv }: { defaultEnv: "sandbox" | "prod
 	const [employeeToken, setEmployeeToken] = useState("");
 	const [enabled, setEnabled] = useState(true);
 	const [saving, setSaving] = useState(false);
+	const [verificationFailed, setVerificationFailed] = useState(false);
 	const [testing, setTesting] = useState(false);
 	const [testResult, setTestResult] = useState<{
 		success: boolean;
@@ -218,22 +264,34 @@ function TripletexCredentialForm({ defaultEnv }: { defaultEnv: "sandbox" | "prod
 		error?: string;
 	} | null>(null);
 
-	const upsertCredentials = useMutation(api.apiCredentials.upsert);
+	const saveCredentials = useAction(api.syncPublic.saveCredentialsPublic);
 	const testConnection = useAction(api.syncPublic.testConnectionPublic);
 
-	const handleSave = async () => {
+	const handleSave = async (skipVerification = false) => {
 		if (!organizationId) return;
 		setSaving(true);
+		setTestResult(null);
 		try {
-			await upsertCredentials({
+			const result = await saveCredentials({
 				organizationId,
 				provider: "tripletex",
 				environment: env,
 				baseUrl,
 				credentials: JSON.stringify({ consumerToken, employeeToken }),
 				isEnabled: enabled,
+				skipVerification,
 			});
-			toast.success(`Tripletex ${env} credentials saved`);
+			if (!result.success) {
+				setTestResult({ success: false, error: `Not saved. ${result.error}` });
+				setVerificationFailed(true);
+				return;
+			}
+			toast.success(
+				result.verified
+					? `Tripletex ${env} credentials verified and saved`
+					: `Tripletex ${env} credentials saved`,
+			);
+			setVerificationFailed(false);
 			setOpen(false);
 		} catch (error) {
 			console.error("Failed to save Tripletex credentials:", error);
@@ -348,7 +406,12 @@ function TripletexCredentialForm({ defaultEnv }: { defaultEnv: "sandbox" | "prod
 						)}
 						Test Connection
 					</Button>
-					<Button onClick={handleSave} disabled={saving} className="gap-2">
+					{verificationFailed && (
+						<Button variant="outline" onClick={() => handleSave(true)} disabled={saving}>
+							Save Anyway
+						</Button>
+					)}
+					<Button onClick={() => handleSave()} disabled={saving} className="gap-2">
 						{saving && <Loader2 className="h-4 w-4 animate-spin" />}
 						Save
 					</Button>
@@ -397,6 +460,8 @@ export default function SettingsPage() {
 				<p className="text-muted-foreground">Manage API credentials and organization settings</p>
 			</div>
 
+			<CredentialHealthBanner />
+
 			<Tabs defaultValue="credentials">
 				<TabsList>
 					<TabsTrigger value="credentials" className="gap-2">
@@ -419,8 +484,9 @@ export default function SettingsPage() {
 										Manage your Rubic and Tripletex API connection settings
 									</CardDescription>
 								</div>
-								<div className="flex gap-2">
-									<RubicCredentialForm />
+								<div className="flex flex-wrap justify-end gap-2">
+									<RubicCredentialForm defaultEnv="production" />
+									<RubicCredentialForm defaultEnv="sandbox" />
 									<TripletexCredentialForm defaultEnv="production" />
 									<TripletexCredentialForm defaultEnv="sandbox" />
 								</div>
@@ -441,11 +507,9 @@ export default function SettingsPage() {
 												<div>
 													<div className="flex items-center gap-2">
 														<span className="font-medium capitalize">{cred.provider}</span>
-														{cred.provider === "tripletex" && (
-															<Badge variant="outline" className="capitalize">
-																{cred.environment}
-															</Badge>
-														)}
+														<Badge variant="outline" className="capitalize">
+															{cred.environment}
+														</Badge>
 													</div>
 													<p className="text-sm text-muted-foreground">{cred.baseUrl}</p>
 												</div>
@@ -459,6 +523,7 @@ export default function SettingsPage() {
 												) : (
 													<Badge variant="secondary">Disabled</Badge>
 												)}
+												{cred.lastVerificationError && <Badge variant="destructive">Invalid</Badge>}
 												{cred.lastVerifiedAt && (
 													<span className="text-xs text-muted-foreground">
 														Verified {new Date(cred.lastVerifiedAt).toLocaleDateString()}
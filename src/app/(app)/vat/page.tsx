@@ -0,0 +1,476 @@
+"use client";
+
+import { useAction, useMutation, useQuery } from "convex/react";
+import { ArrowRight, Loader2, Percent, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectPositioner,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { useOrganization } from "@/hooks/use-organization";
+import { api } from "../../../../convex/_generated/api";
+import type { Id } from "../../../../convex/_generated/dataModel";
+
+interface RubicTaxCode {
+	taxCodeID: number;
+	taxCode1: string | null;
+	taxCodeName: string | null;
+	taxPercent: number;
+}
+
+interface TripletexVatType {
+	id: number;
+	number?: string;
+	name?: string;
+	percentage?: number;
+}
+
+type MatchBy = "code" | "percent";
+
+function formatVatType(vatType: TripletexVatType): string {
+	const name = vatType.name ?? `VAT type ${vatType.id}`;
+	return vatType.number ? `${vatType.number} – ${name}` : name;
+}
+
+export default function VatPage() {
+	const { organizationId, isLoading: orgLoading } = useOrganization();
+	const [env, setEnv] = useState<"sandbox" | "production">("production");
+	const [vatTypes, setVatTypes] = useState<TripletexVatType[]>([]);
+	const [rubicTaxCodes, setRubicTaxCodes] = useState<RubicTaxCode[]>([]);
+	const [loadingVatTypes, setLoadingVatTypes] = useState(false);
+	const [loadingRubic, setLoadingRubic] = useState(false);
+	const [addDialogOpen, setAddDialogOpen] = useState(false);
+	const [matchBy, setMatchBy] = useState<MatchBy>("code");
+	const [taxCode, setTaxCode] = useState("");
+	const [taxPercent, setTaxPercent] = useState("");
+	const [selectedVatType, setSelectedVatType] = useState<string>("");
+
+	const mappings = useQuery(
+		api.vatMapping.list,
+		organizationId ? { organizationId, tripletexEnv: env } : "skip",
+	);
+
+	const upsertMapping = useMutation(api.vatMapping.upsert);
+	const removeMapping = useMutation(api.vatMapping.remove);
+	const fetchVatTypes = useAction(api.syncPublic.fetchVatTypesFromTripletexPublic);
+	const fetchRubicTaxCodes = useAction(api.syncPublic.fetchTaxCodesFromRubicPublic);
+
+	const loadVatTypes = useCallback(async () => {
+		if (!organizationId) return;
+		setLoadingVatTypes(true);
+		try {
+			const types = await fetchVatTypes({ organizationId, tripletexEnv: env });
+			setVatTypes(types as TripletexVatType[]);
+		} catch (error) {
+			console.error("Failed to fetch Tripletex VAT types:", error);
+			setVatTypes([]);
+			toast.error("Failed to fetch Tripletex VAT types", {
+				description: error instanceof Error ? error.message : String(error),
+			});
+		} finally {
+			setLoadingVatTypes(false);
+		}
+	}, [organizationId, env, fetchVatTypes]);
+
+	// VAT types differ per Tripletex company, so reload whenever the environment changes
+	useEffect(() => {
+		void loadVatTypes();
+	}, [loadVatTypes]);
+
+	const loadRubicTaxCodes = async () => {
+		if (!organizationId) return;
+		setLoadingRubic(true);
+		try {
+			const codes = await fetchRubicTaxCodes({ organizationId, tripletexEnv: env });
+			setRubicTaxCodes(codes as RubicTaxCode[]);
+		} catch (error) {
+			console.error("Failed to fetch Rubic tax codes:", error);
+			toast.error("Failed to fetch Rubic tax codes", {
+				description: error instanceof Error ? error.message : String(error),
+			});
+		} finally {
+			setLoadingRubic(false);
+		}
+	};
+
+	const resetDialog = () => {
+		setMatchBy("code");
+		setTaxCode("");
+		setTaxPercent("");
+		setSelectedVatType("");
+	};
+
+	const parsedPercent = taxPercent.trim() === "" ? Number.NaN : Number(taxPercent);
+	const ruleIsValid =
+		matchBy === "code"
+			? taxCode.trim() !== ""
+			: Number.isFinite(parsedPercent) && parsedPercent >= 0;
+
+	const handleAddMapping = async () => {
+		if (!organizationId || !selectedVatType || !ruleIsValid) return;
+
+		const vatType = vatTypes.find((t) => t.id.toString() === selectedVatType);
+		if (!vatType) return;
+
+		try {
+			await upsertMapping({
+				organizationId,
+				tripletexEnv: env,
+				rubicTaxCode: matchBy === "code" ? taxCode.trim() : undefined,
+				rubicTaxPercent: matchBy === "percent" ? parsedPercent : undefined,
+				tripletexVatTypeId: vatType.id,
+				tripletexVatTypeName: formatVatType(vatType),
+			});
+			setAddDialogOpen(false);
+			resetDialog();
+		} catch (error) {
+			toast.error("Failed to save VAT mapping", {
+				description: error instanceof Error ? error.message : String(error),
+			});
+		}
+	};
+
+	const handleRemoveMapping = async (mappingId: Id<"vatMapping">) => {
+		await removeMapping({ vatMappingId: mappingId });
+	};
+
+	if (orgLoading) {
+		return (
+			<div className="flex h-[50vh] items-center justify-center">
+				<Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+			</div>
+		);
+	}
+
+	if (!organizationId) {
+		return (
+			<div className="flex h-[50vh] flex-col items-center justify-center gap-4">
+				<Percent className="h-12 w-12 text-muted-foreground" />
+				<h2 className="text-xl font-semibold">No Organization Selected</h2>
+			</div>
+		);
+	}
+
+	return (
+		<div className="space-y-6">
+			<div className="flex items-start justify-between">
+				<div>
+					<h1 className="text-2xl font-bold tracking-tight">VAT Mapping</h1>
+					<p className="text-muted-foreground">
+						Map Rubic tax codes and percentages to Tripletex VAT types
+					</p>
+				</div>
+				<div className="flex items-center gap-2">
+					<Select value={env} onValueChange={(v) => v && setEnv(v as "sandbox" | "production")}>
+						<SelectTrigger className="w-[160px]">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectPositioner>
+							<SelectContent>
+								<SelectItem value="production">Production</SelectItem>
+								<SelectItem value="sandbox">Sandbox</SelectItem>
+							</SelectContent>
+						</SelectPositioner>
+					</Select>
+				</div>
+			</div>
+
+			<div className="flex gap-2">
+				<Button
+					variant="outline"
+					onClick={loadRubicTaxCodes}
+					disabled={loadingRubic}
+					className="gap-2"
+				>
+					{loadingRubic ? (
+						<Loader2 className="h-4 w-4 animate-spin" />
+					) : (
+						<RefreshCw className="h-4 w-4" />
+					)}
+					Load Rubic Tax Codes
+					{rubicTaxCodes.length > 0 && <Badge variant="secondary">{rubicTaxCodes.length}</Badge>}
+				</Button>
+				<Button
+					variant="outline"
+					onClick={loadVatTypes}
+					disabled={loadingVatTypes}
+					className="gap-2"
+				>
+					{loadingVatTypes ? (
+						<Loader2 className="h-4 w-4 animate-spin" />
+					) : (
+						<RefreshCw className="h-4 w-4" />
+					)}
+					Refresh Tripletex VAT Types
+				</Button>
+			</div>
+
+			{/* Existing mappings */}
+			<Card>
+				<CardHeader>
+					<div className="flex items-center justify-between">
+						<div>
+							<CardTitle className="text-lg">VAT Rules</CardTitle>
+							<CardDescription>
+								Tax code rules win over percentage rules. Products use their product group's tax
+								code; invoice lines use the charged percentage.
+							</CardDescription>
+						</div>
+						<Dialog
+							open={addDialogOpen}
+							onOpenChange={(open) => {
+								setAddDialogOpen(open);
+								if (!open) resetDialog();
+							}}
+						>
+							<DialogTrigger
+								render={<Button size="sm" className="gap-2" disabled={vatTypes.length === 0} />}
+							>
+								<Plus className="h-4 w-4" />
+								Add Rule
+							</DialogTrigger>
+							<DialogContent>
+								<DialogHeader>
+									<DialogTitle>Add VAT Rule</DialogTitle>
+									<DialogDescription>
+										Match a Rubic tax code or a tax percentage to a Tripletex VAT type.
+									</DialogDescription>
+								</DialogHeader>
+								<div className="space-y-4 py-4">
+									<div className="space-y-2">
+										<Label>Match by</Label>
+										<Select
+											value={matchBy}
+											onValueChange={(v) => v !== null && setMatchBy(v as MatchBy)}
+										>
+											<SelectTrigger>
+												<SelectValue />
+											</SelectTrigger>
+											<SelectPositioner>
+												<SelectContent>
+													<SelectItem value="code">Rubic tax code</SelectItem>
+													<SelectItem value="percent">Tax percentage</SelectItem>
+												</SelectContent>
+											</SelectPositioner>
+										</Select>
+									</div>
+									{matchBy === "code" ? (
+										<div className="space-y-2">
+											<Label htmlFor="vat-tax-code">Rubic tax code</Label>
+											{rubicTaxCodes.length > 0 ? (
+												<Select value={taxCode} onValueChange={(v) => v !== null && setTaxCode(v)}>
+													<SelectTrigger id="vat-tax-code">
+														<SelectValue placeholder="Select Rubic tax code" />
+													</SelectTrigger>
+													<SelectPositioner>
+														<SelectContent>
+															{rubicTaxCodes
+																.filter((c) => c.taxCode1)
+																.map((c) => (
+																	<SelectItem key={c.taxCodeID} value={c.taxCode1 ?? ""}>
+																		{c.taxCode1}
+																		{c.taxCodeName ? ` – ${c.taxCodeName}` : ""} ({c.taxPercent}%)
+																	</SelectItem>
+																))}
+														</SelectContent>
+													</SelectPositioner>
+												</Select>
+											) : (
+												<Input
+													id="vat-tax-code"
+													value={taxCode}
+													onChange={(e) => setTaxCode(e.target.value)}
+													placeholder="e.g. 3"
+												/>
+											)}
+										</div>
+									) : (
+										<div className="space-y-2">
+											<Label htmlFor="vat-tax-percent">Tax percentage</Label>
+											<Input
+												id="vat-tax-percent"
+												type="number"
+												min={0}
+												step="0.01"
+												value={taxPercent}
+												onChange={(e) => setTaxPercent(e.target.value)}
+												placeholder="e.g. 25"
+											/>
+										</div>
+									)}
+									<div className="flex justify-center">
+										<ArrowRight className="h-5 w-5 text-muted-foreground" />
+									</div>
+									<div className="space-y-2">
+										<Label>Tripletex VAT type</Label>
+										<Select
+											value={selectedVatType}
+											onValueChange={(v) => v !== null && setSelectedVatType(v)}
+										>
+											<SelectTrigger>
+												<SelectValue placeholder="Select Tripletex VAT type" />
+											</SelectTrigger>
+											<SelectPositioner>
+												<SelectContent>
+													{vatTypes.map((t) => (
+														<SelectItem key={t.id} value={t.id.toString()}>
+															{formatVatType(t)}
+															{t.percentage !== undefined ? ` (${t.percentage}%)` : ""}
+														</SelectItem>
+													))}
+												</SelectContent>
+											</SelectPositioner>
+										</Select>
+									</div>
+								</div>
+								<DialogFooter>
+									<Button variant="outline" onClick={() => setAddDialogOpen(false)}>
+										Cancel
+									</Button>
+									<Button onClick={handleAddMapping} disabled={!ruleIsValid || !selectedVatType}>
+										Add Rule
+									</Button>
+								</DialogFooter>
+							</DialogContent>
+						</Dialog>
+					</div>
+				</CardHeader>
+				<CardContent>
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Rubic</TableHead>
+								<TableHead className="w-12" />
+								<TableHead>Tripletex VAT Type</TableHead>
+								<TableHead className="w-16" />
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{mappings && mappings.length > 0 ? (
+								mappings.map((m) => (
+									<TableRow key={m._id}>
+										<TableCell>
+											{m.rubicTaxCode !== undefined ? (
+												<div>
+													<span className="font-medium">Tax code {m.rubicTaxCode}</span>
+												</div>
+											) : (
+												<div>
+													<span className="font-medium">{m.rubicTaxPercent}%</span>
+													<span className="ml-2 text-xs text-muted-foreground">any tax code</span>
+												</div>
+											)}
+										</TableCell>
+										<TableCell>
+											<ArrowRight className="h-4 w-4 text-muted-foreground" />
+										</TableCell>
+										<TableCell>
+											<div>
+												<span className="font-medium">{m.tripletexVatTypeName}</span>
+												<span className="ml-2 text-xs text-muted-foreground">
+													ID: {m.tripletexVatTypeId}
+												</span>
+											</div>
+										</TableCell>
+										<TableCell>
+											<Button
+												variant="ghost"
+												size="icon"
+												className="h-8 w-8 text-destructive"
+												onClick={() => handleRemoveMapping(m._id)}
+											>
+												<Trash2 className="h-4 w-4" />
+											</Button>
+										</TableCell>
+									</TableRow>
+								))
+							) : (
+								<TableRow>
+									<TableCell colSpan={4} className="py-8 text-center text-muted-foreground">
+										No VAT rules yet. Without a rule, Tripletex uses each product's default VAT
+										type.
+									</TableCell>
+								</TableRow>
+							)}
+						</TableBody>
+					</Table>
+				</CardContent>
+			</Card>
+
+			{/* Live Tripletex VAT types */}
+			<Card>
+				<CardHeader>
+					<CardTitle className="text-lg">Tripletex VAT Types</CardTitle>
+					<CardDescription>
+						{vatTypes.length} VAT type{vatTypes.length !== 1 ? "s" : ""} available in {env}
+					</CardDescription>
+				</CardHeader>
+				<CardContent>
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead className="w-20">ID</TableHead>
+								<TableHead className="w-20">Number</TableHead>
+								<TableHead>Name</TableHead>
+								<TableHead className="w-24 text-right">Rate</TableHead>
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{loadingVatTypes && vatTypes.length === 0 ? (
+								<TableRow>
+									<TableCell colSpan={4} className="py-8 text-center">
+										<Loader2 className="mx-auto h-5 w-5 animate-spin text-muted-foreground" />
+									</TableCell>
+								</TableRow>
+							) : vatTypes.length > 0 ? (
+								vatTypes.map((t) => (
+									<TableRow key={t.id}>
+										<TableCell className="font-mono text-xs">{t.id}</TableCell>
+										<TableCell>{t.number ?? "—"}</TableCell>
+										<TableCell>{t.name ?? "—"}</TableCell>
+										<TableCell className="text-right">
+											{t.percentage !== undefined ? `${t.percentage}%` : "—"}
+										</TableCell>
+									</TableRow>
+								))
+							) : (
+								<TableRow>
+									<TableCell colSpan={4} className="py-8 text-center text-muted-foreground">
+										No VAT types loaded. Check the Tripletex credentials for this environment.
+									</TableCell>
+								</TableRow>
+							)}
+						</TableBody>
+					</Table>
+				</CardContent>
+			</Card>
+		</div>
+	);
+}
@@ -143,6 +143,44 @@ describe("TripletexClient", () => {
 		});
 	});
 
+	test("registerPayment sends payment type and amount as query params", async () => {
+		let capturedUrl = "";
+		let capturedInit: RequestInit | undefined;
+
+		globalThis.fetch = mock(async (url: string | URL | Request, init?: RequestInit) => {
+			const urlStr = url.toString();
+
+			if (urlStr.includes("/token/session/:create")) {
+				return new Response(JSON.stringify({ value: { token: "test-token" } }), {
+					status: 200,
+					headers: { "Content-Type": "application/json" },
+				});
+			}
+
+			capturedUrl = urlStr;
+			capturedInit = init;
+
+			return new Response(JSON.stringify({ value: { id: 77 } }), {
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			});
+		}) as unknown as typeof fetch;
+
+		await client.registerPayment(77, {
+			paymentDate: "2025-06-10",
+			paymentTypeId: 3,
+			paidAmount: 499.5,
+		});
+
+		const url = new URL(capturedUrl);
+		expect(capturedInit?.method).toBe("PUT");
+		expect(url.pathname).toBe("/v2/invoice/77/:payment");
+		expect(url.searchParams.get("paymentDate")).toBe("2025-06-10");
+		expect(url.searchParams.get("paymentTypeId")).toBe("3");
+		expect(url.searchParams.get("paidAmount")).toBe("499.5");
+		expect(capturedInit?.body).toBeUndefined();
+	});
+
 	test("throws on API error", async () => {
 		globalThis.fetch = mock(async (url: string | URL | Request) => {
 			const urlStr = url.toString();
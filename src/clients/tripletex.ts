@@ -4,7 +4,8 @@ import type {
 	TripletexInvoice,
 	TripletexListResponse,
 	TripletexOrder,
-	TripletexPayment,
+	TripletexPaymentRegistration,
+	TripletexPaymentType,
 	TripletexProduct,
 	TripletexSingleResponse,
 } from "@/types/tripletex";
@@ -232,23 +233,24 @@ export class TripletexClient {
 
 	async registerPayment(
 		invoiceId: number,
-		payment: TripletexPayment,
-	): Promise<TripletexSingleResponse<TripletexPayment>> {
-		return this.request<TripletexSingleResponse<TripletexPayment>>(
+		payment: TripletexPaymentRegistration,
+	): Promise<TripletexSingleResponse<TripletexInvoice>> {
+		return this.request<TripletexSingleResponse<TripletexInvoice>>(
 			"PUT",
 			`/invoice/${invoiceId}/:payment`,
 			{
-				body: payment,
+				params: {
+					paymentDate: payment.paymentDate,
+					paymentTypeId: payment.paymentTypeId.toString(),
+					paidAmount: payment.paidAmount.toString(),
+				},
 			},
 		);
 	}
 
 	// --- Payment Type Endpoints ---
 
-	async getPaymentTypes(): Promise<TripletexListResponse<{ id: number; description: string }>> {
-		return this.request<TripletexListResponse<{ id: number; description: string }>>(
-			"GET",
-			"/invoice/paymentType",
-		);
+	async getPaymentTypes(): Promise<TripletexListResponse<TripletexPaymentType>> {
+		return this.request<TripletexListResponse<TripletexPaymentType>>("GET", "/invoice/paymentType");
 	}
 }
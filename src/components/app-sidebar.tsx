@@ -8,7 +8,11 @@ import {
 	LayoutDashboard,
 	LogOut,
 	Network,
+	Percent,
+	Rocket,
+	Scale,
 	Settings,
+	Shuffle,
 } from "lucide-react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
@@ -53,6 +57,26 @@ const navItems = [
 		href: "/departments",
 		icon: Network,
 	},
+	{
+		title: "VAT",
+		href: "/vat",
+		icon: Percent,
+	},
+	{
+		title: "Field Mapping",
+		href: "/field-mapping",
+		icon: Shuffle,
+	},
+	{
+		title: "Promote",
+		href: "/promote",
+		icon: Rocket,
+	},
+	{
+		title: "Reconciliation",
+		href: "/reconciliation",
+		icon: Scale,
+	},
 	{
 		title: "Settings",
 		href: "/settings",
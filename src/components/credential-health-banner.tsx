@@ -0,0 +1,49 @@
+"use client";
+
+import { useQuery } from "convex/react";
+import { AlertTriangle } from "lucide-react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { useOrganization } from "@/hooks/use-organization";
+import { api } from "../../convex/_generated/api";
+
+/**
+ * Warns about enabled API credentials whose last verification failed — from
+ * the daily health check, a connection test, or a 401 during a sync.
+ */
+export function CredentialHealthBanner({ showSettingsLink }: { showSettingsLink?: boolean }) {
+	const { organizationId } = useOrganization();
+	const credentials = useQuery(
+		api.apiCredentials.list,
+		organizationId ? { organizationId } : "skip",
+	);
+
+	const broken = credentials?.filter((c) => c.isEnabled && c.lastVerificationError) ?? [];
+	if (broken.length === 0) return null;
+
+	return (
+		<div className="flex items-start justify-between gap-4 rounded-lg border border-destructive/30 bg-destructive/10 p-4">
+			<div className="flex gap-3">
+				<AlertTriangle className="mt-0.5 h-5 w-5 shrink-0 text-destructive" />
+				<div className="space-y-1">
+					<p className="font-medium text-destructive">API credentials expired or invalid</p>
+					<ul className="space-y-1 text-sm text-muted-foreground">
+						{broken.map((cred) => (
+							<li key={cred._id}>
+								<span className="font-medium capitalize text-foreground">
+									{cred.provider} ({cred.environment})
+								</span>
+								: {cred.lastVerificationError}
+							</li>
+						))}
+					</ul>
+				</div>
+			</div>
+			{showSettingsLink && (
+				<Button variant="outline" size="sm" render={<Link href="/settings" />}>
+					Update credentials
+				</Button>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,78 @@
+import { describe, expect, test } from "bun:test";
+import { computeCustomerHash, mapRubicCustomerToTripletex } from "@/mappers/customer.mapper";
+import type { RubicCustomer } from "@/types/rubic";
+
+describe("Customer Mapper", () => {
+	const baseCustomer: RubicCustomer = {
+		customerNo: "1001",
+		customerType: 1,
+		customerTypeName: "Individual",
+		customerName: "Kari Nordmann",
+		email: "kari@example.no",
+		countryCode: "NO",
+		mobile: "+4791234567",
+		address: "Storgata 1",
+		address2: null,
+		zipCode: "0155",
+		city: "Oslo",
+		countryName: "Norway",
+		ledgerCustomerNo: "20001",
+	};
+
+	const company: RubicCustomer = {
+		...baseCustomer,
+		customerType: 2,
+		customerTypeName: "Company",
+		customerName: "Nordmann AS",
+	};
+
+	test("maps an individual with postal and physical address", () => {
+		const result = mapRubicCustomerToTripletex(baseCustomer, { countryId: 161 });
+
+		expect(result.name).toBe("Kari Nordmann");
+		expect(result.customerNumber).toBe(1001);
+		expect(result.isPrivateIndividual).toBe(true);
+		expect(result.postalAddress).toEqual({
+			addressLine1: "Storgata 1",
+			postalCode: "0155",
+			city: "Oslo",
+			country: { id: 161 },
+		});
+		expect(result.physicalAddress).toEqual(result.postalAddress);
+	});
+
+	test("maps a company with its organization number", () => {
+		const result = mapRubicCustomerToTripletex(company, { organizationNumber: "987 654 321" });
+
+		expect(result.isPrivateIndividual).toBe(false);
+		expect(result.organizationNumber).toBe("987654321");
+		expect(result.postalAddress?.country).toBeUndefined();
+	});
+
+	test("ignores organization numbers for individuals", () => {
+		const result = mapRubicCustomerToTripletex(baseCustomer, { organizationNumber: "987654321" });
+
+		expect(result.organizationNumber).toBeUndefined();
+	});
+
+	test("uses the ledger customer number when configured", () => {
+		expect(
+			mapRubicCustomerToTripletex(baseCustomer, { useLedgerCustomerNo: true }).customerNumber,
+		).toBe(20001);
+		expect(
+			mapRubicCustomerToTripletex(
+				{ ...baseCustomer, ledgerCustomerNo: null },
+				{ useLedgerCustomerNo: true },
+			).customerNumber,
+		).toBe(1001);
+	});
+
+	test("computeCustomerHash covers country, type and mapping options", () => {
+		const hash = computeCustomerHash(baseCustomer);
+
+		expect(computeCustomerHash({ ...baseCustomer, countryCode: "SE" })).not.toBe(hash);
+		expect(computeCustomerHash(company)).not.toBe(hash);
+		expect(computeCustomerHash(baseCustomer, { useLedgerCustomerNo: true })).not.toBe(hash);
+		expect(computeCustomerHash(baseCustomer, { countryId: 161 })).not.toBe(hash);
+	});
+});
@@ -2,21 +2,59 @@ import { createHash } from "node:crypto";
 import type { RubicCustomer } from "@/types/rubic";
 import type { TripletexAddress, TripletexCustomer } from "@/types/tripletex";
 
+/**
+ * Rubic customer type of private individuals; every other type is a company or organization.
+ */
+export const RUBIC_INDIVIDUAL_CUSTOMER_TYPE = 1;
+
+export interface CustomerMappingOptions {
+	/** Use Rubic's `ledgerCustomerNo` as the Tripletex customer number (falls back to `customerNo`). */
+	useLedgerCustomerNo?: boolean;
+	/** Tripletex country id resolved from the customer's country code or name. */
+	countryId?: number;
+	/** Organization number of a company customer (from its Rubic company member). */
+	organizationNumber?: string;
+}
+
+/**
+ * Tripletex customer number for a Rubic customer, or undefined when it is not numeric.
+ */
+export function getCustomerNumber(
+	customer: RubicCustomer,
+	options: CustomerMappingOptions = {},
+): number | undefined {
+	const number =
+		(options.useLedgerCustomerNo ? customer.ledgerCustomerNo : null) || customer.customerNo;
+	if (!number) {
+		return undefined;
+	}
+	const parsed = Number.parseInt(number, 10);
+	return Number.isNaN(parsed) ? undefined : parsed;
+}
+
 /**
  * Maps a Rubic CustomerDTO to a Tripletex Customer.
  */
-export function mapRubicCustomerToTripletex(customer: RubicCustomer): TripletexCustomer {
+export function mapRubicCustomerToTripletex(
+	customer: RubicCustomer,
+	options: CustomerMappingOptions = {},
+): TripletexCustomer {
+	const isIndividual = customer.customerType === RUBIC_INDIVIDUAL_CUSTOMER_TYPE;
 	const tripletexCustomer: TripletexCustomer = {
 		name: customer.customerName ?? "",
 		isCustomer: true,
+		isPrivateIndividual: isIndividual,
 	};
 
-	// Map customer number (parse to int if numeric)
-	if (customer.customerNo) {
-		const parsed = Number.parseInt(customer.customerNo, 10);
-		if (!Number.isNaN(parsed)) {
-			tripletexCustomer.customerNumber = parsed;
-		}
+	// Map customer number (ledger customer number when configured, parsed to int if numeric)
+	const customerNumber = getCustomerNumber(customer, options);
+	if (customerNumber !== undefined) {
+		tripletexCustomer.customerNumber = customerNumber;
+	}
+
+	// Map organization number for companies, without spaces
+	if (!isIndividual && options.organizationNumber) {
+		tripletexCustomer.organizationNumber = options.organizationNumber.replace(/\s/g, "");
 	}
 
 	// Map email to both email and invoiceEmail
@@ -30,7 +68,7 @@ export function mapRubicCustomerToTripletex(customer: RubicCustomer): TripletexC
 		tripletexCustomer.phoneNumberMobile = customer.mobile;
 	}
 
-	// Map address fields to postalAddress
+	// Map address fields to both postalAddress and physicalAddress (Rubic keeps a single address)
 	const hasAddress = customer.address || customer.address2 || customer.zipCode || customer.city;
 
 	if (hasAddress) {
@@ -47,7 +85,11 @@ export function mapRubicCustomerToTripletex(customer: RubicCustomer): TripletexC
 		if (customer.city) {
 			postalAddress.city = customer.city;
 		}
+		if (options.countryId !== undefined) {
+			postalAddress.country = { id: options.countryId };
+		}
 		tripletexCustomer.postalAddress = postalAddress;
+		tripletexCustomer.physicalAddress = { ...postalAddress };
 	}
 
 	return tripletexCustomer;
@@ -57,16 +99,26 @@ export function mapRubicCustomerToTripletex(customer: RubicCustomer): TripletexC
  * Computes a hash of key customer fields for change detection.
  * Uses SHA-256 and includes all fields that affect the Tripletex mapping.
  */
-export function computeCustomerHash(customer: RubicCustomer): string {
+export function computeCustomerHash(
+	customer: RubicCustomer,
+	options: CustomerMappingOptions = {},
+): string {
 	const keyFields = {
 		customerNo: customer.customerNo,
+		customerType: customer.customerType,
 		customerName: customer.customerName,
+		ledgerCustomerNo: customer.ledgerCustomerNo,
 		email: customer.email,
 		mobile: customer.mobile,
 		address: customer.address,
 		address2: customer.address2,
 		zipCode: customer.zipCode,
 		city: customer.city,
+		countryCode: customer.countryCode,
+		countryName: customer.countryName,
+		useLedgerCustomerNo: options.useLedgerCustomerNo ?? false,
+		countryId: options.countryId,
+		organizationNumber: options.organizationNumber,
 	};
 
 	const hash = createHash("sha256");
@@ -1,5 +1,8 @@
 import { describe, expect, test } from "bun:test";
-import { mapRubicInvoiceToTripletexOrder } from "@/mappers/invoice.mapper";
+import {
+	findUnmappedInvoiceLines,
+	mapRubicInvoiceToTripletexOrder,
+} from "@/mappers/invoice.mapper";
 import type { RubicInvoice, RubicInvoiceLine } from "@/types/rubic";
 
 function makeInvoice(overrides?: Partial<RubicInvoice>): RubicInvoice {
@@ -189,3 +192,97 @@ describe("Invoice Mapper", () => {
 		expect(order.orderLines).toBeUndefined();
 	});
 });
+
+describe("Invoice Mapper strict mode", () => {
+	const productMappings = new Map<string, number>([["PROD-001", 501]]);
+
+	test("findUnmappedInvoiceLines returns lines without a code or mapping", () => {
+		const invoice = makeInvoice({
+			invoiceLines: [
+				makeLine({ invoiceLineID: 1, productCode: "PROD-001" }),
+				makeLine({ invoiceLineID: 2, productCode: "UNKNOWN" }),
+				makeLine({ invoiceLineID: 3, productCode: null }),
+			],
+		});
+
+		const unmapped = findUnmappedInvoiceLines(invoice, productMappings);
+
+		expect(unmapped.map((l) => l.invoiceLineID)).toEqual([2, 3]);
+	});
+
+	test("findUnmappedInvoiceLines handles null invoiceLines", () => {
+		const invoice = makeInvoice({ invoiceLines: null });
+
+		expect(findUnmappedInvoiceLines(invoice, productMappings)).toEqual([]);
+	});
+
+	test("non-strict mode drops unmapped lines", () => {
+		const invoice = makeInvoice({
+			invoiceLines: [makeLine({ productCode: "PROD-001" }), makeLine({ productCode: "UNKNOWN" })],
+		});
+
+		const order = mapRubicInvoiceToTripletexOrder(invoice, 42, productMappings);
+
+		expect(order.orderLines).toHaveLength(1);
+	});
+
+	test("strict mode throws when any line would be dropped", () => {
+		const invoice = makeInvoice({
+			invoiceLines: [makeLine({ productCode: "PROD-001" }), makeLine({ productCode: "UNKNOWN" })],
+		});
+
+		expect(() =>
+			mapRubicInvoiceToTripletexOrder(invoice, 42, productMappings, { strict: true }),
+		).toThrow("1 line(s) without a mapped product");
+	});
+
+	test("strict mode maps invoices where every line is mapped", () => {
+		const invoice = makeInvoice({ invoiceLines: [makeLine({ productCode: "PROD-001" })] });
+
+		const order = mapRubicInvoiceToTripletexOrder(invoice, 42, productMappings, { strict: true });
+
+		expect(order.orderLines).toHaveLength(1);
+	});
+});
+
+describe("Invoice Mapper VAT types", () => {
+	const productMappings = new Map<string, number>([["PROD-001", 501]]);
+
+	test("sets vatType on lines the resolver maps", () => {
+		const invoice = makeInvoice({
+			invoiceLines: [
+				makeLine({ invoiceLineID: 1, taxPercentage: 25 }),
+				makeLine({ invoiceLineID: 2, taxPercentage: 0 }),
+			],
+		});
+
+		const order = mapRubicInvoiceToTripletexOrder(invoice, 42, productMappings, {
+			vatTypeForLine: (line) => (line.taxPercentage === 25 ? 3 : undefined),
+		});
+
+		expect(order.orderLines?.[0].vatType).toEqual({ id: 3 });
+		expect(order.orderLines?.[1].vatType).toBeUndefined();
+	});
+});
+
+describe("Invoice Mapper departments", () => {
+	const productMappings = new Map<string, number>([["PROD-001", 501]]);
+
+	test("sets the order department when given", () => {
+		const invoice = makeInvoice({ invoiceLines: [makeLine()] });
+
+		const order = mapRubicInvoiceToTripletexOrder(invoice, 42, productMappings, {
+			departmentId: 7,
+		});
+
+		expect(order.department).toEqual({ id: 7 });
+	});
+
+	test("leaves the department unset by default", () => {
+		const invoice = makeInvoice({ invoiceLines: [makeLine()] });
+
+		expect(
+			mapRubicInvoiceToTripletexOrder(invoice, 42, productMappings).department,
+		).toBeUndefined();
+	});
+});
@@ -1,6 +1,28 @@
-import type { RubicInvoice } from "@/types/rubic";
+import type { RubicInvoice, RubicInvoiceLine } from "@/types/rubic";
 import type { TripletexOrder, TripletexOrderLine } from "@/types/tripletex";
 
+export interface InvoiceMappingOptions {
+	/** Throw instead of dropping lines whose product is not mapped. */
+	strict?: boolean;
+	/** Tripletex vatType id for a line; lines without one use the product's default. */
+	vatTypeForLine?: (line: RubicInvoiceLine) => number | undefined;
+	/** Tripletex department id for the order. */
+	departmentId?: number;
+}
+
+/**
+ * Returns the invoice lines that would be left off the order:
+ * lines without a product code, or whose product code has no Tripletex mapping.
+ */
+export function findUnmappedInvoiceLines(
+	invoice: RubicInvoice,
+	productMappings: Map<string, number>,
+): RubicInvoiceLine[] {
+	return (invoice.invoiceLines ?? []).filter(
+		(line) => !line.productCode || !productMappings.has(line.productCode),
+	);
+}
+
 /**
  * Maps a Rubic Invoice to a Tripletex Order.
  * Invoices in Tripletex are created from orders, so we first create an order.
@@ -8,13 +30,27 @@ import type { TripletexOrder, TripletexOrderLine } from "@/types/tripletex";
  * @param invoice - The Rubic invoice to map
  * @param tripletexCustomerId - The Tripletex customer ID (from customer_mapping)
  * @param productMappings - Map of Rubic product codes to Tripletex product IDs
+ * @param options - Set `strict` to refuse mapping when any line would be dropped,
+ *   since a dropped line under-invoices the customer; `vatTypeForLine` sets each
+ *   line's Tripletex VAT type from the org's VAT mapping; `departmentId` sets the
+ *   order's Tripletex department
  * @returns A Tripletex Order ready to be created
  */
 export function mapRubicInvoiceToTripletexOrder(
 	invoice: RubicInvoice,
 	tripletexCustomerId: number,
 	productMappings: Map<string, number>,
+	options: InvoiceMappingOptions = {},
 ): TripletexOrder {
+	if (options.strict) {
+		const unmapped = findUnmappedInvoiceLines(invoice, productMappings);
+		if (unmapped.length > 0) {
+			throw new Error(
+				`Invoice ${invoice.invoiceID} has ${unmapped.length} line(s) without a mapped product`,
+			);
+		}
+	}
+
 	const orderLines: TripletexOrderLine[] = [];
 
 	// Map invoice lines to order lines
@@ -56,6 +92,11 @@ export function mapRubicInvoiceToTripletexOrder(
 				orderLine.discount = line.discount;
 			}
 
+			const vatTypeId = options.vatTypeForLine?.(line);
+			if (vatTypeId !== undefined) {
+				orderLine.vatType = { id: vatTypeId };
+			}
+
 			orderLines.push(orderLine);
 		}
 	}
@@ -68,5 +109,9 @@ export function mapRubicInvoiceToTripletexOrder(
 		orderLines: orderLines.length > 0 ? orderLines : undefined,
 	};
 
+	if (options.departmentId !== undefined) {
+		order.department = { id: options.departmentId };
+	}
+
 	return order;
 }
@@ -0,0 +1,91 @@
+import { describe, expect, test } from "bun:test";
+import { computeMemberHash, mapRubicMemberToTripletex } from "@/mappers/member.mapper";
+import type { RubicCompanyMember, RubicMember } from "@/types/rubic";
+
+describe("Member Mapper", () => {
+	const basePerson: RubicMember = {
+		id: 1,
+		personID: 101,
+		firstName: "Kari",
+		lastName: "Nordmann",
+		fullName: "Nordmann, Kari",
+		email: "kari@example.no",
+		alternateEmail: null,
+		countryCode: "NO",
+		mobile: "+4791234567",
+		address: "Storgata 1",
+		address2: null,
+		zipCode: "0155",
+		city: "Oslo",
+		countryName: "Norway",
+		memberNo: 2001,
+		ledgerCustomerNo: null,
+		memberStatus: 0,
+		created: "2024-01-01T00:00:00",
+		modified: null,
+	};
+
+	const baseCompany: RubicCompanyMember = {
+		companyID: 5,
+		companyName: "Nordmann AS",
+		registrationAuthorityOrganizationNumber: "987 654 321",
+		email: "post@nordmann.no",
+		alternateEmail: null,
+		countryCode: "NO",
+		mobile: null,
+		address: null,
+		address2: null,
+		zipCode: null,
+		city: null,
+		countryName: null,
+		memberNo: 3001,
+		ledgerCustomerNo: "10042",
+		memberStatus: 0,
+		created: "2024-01-01T00:00:00",
+		modified: null,
+	};
+
+	test("maps a person member as a private individual", () => {
+		const result = mapRubicMemberToTripletex({ memberType: "person", member: basePerson });
+
+		expect(result.name).toBe("Kari Nordmann");
+		expect(result.customerNumber).toBe(2001);
+		expect(result.isPrivateIndividual).toBe(true);
+		expect(result.invoiceEmail).toBe("kari@example.no");
+		expect(result.postalAddress).toEqual({
+			addressLine1: "Storgata 1",
+			postalCode: "0155",
+			city: "Oslo",
+		});
+		expect(result.organizationNumber).toBeUndefined();
+	});
+
+	test("falls back to the full name without first and last names", () => {
+		const person = { ...basePerson, firstName: null, lastName: " " };
+
+		expect(mapRubicMemberToTripletex({ memberType: "person", member: person }).name).toBe(
+			"Nordmann, Kari",
+		);
+	});
+
+	test("maps a company member with its organization number and ledger customer number", () => {
+		const result = mapRubicMemberToTripletex({ memberType: "company", member: baseCompany });
+
+		expect(result.name).toBe("Nordmann AS");
+		expect(result.organizationNumber).toBe("987654321");
+		expect(result.customerNumber).toBe(10042);
+		expect(result.isPrivateIndividual).toBe(false);
+		expect(result.postalAddress).toBeUndefined();
+	});
+
+	test("computeMemberHash changes when a mapped field changes", () => {
+		const hash = computeMemberHash({ memberType: "company", member: baseCompany });
+		const changed = computeMemberHash({
+			memberType: "company",
+			member: { ...baseCompany, registrationAuthorityOrganizationNumber: "912345678" },
+		});
+
+		expect(hash).toHaveLength(64);
+		expect(changed).not.toBe(hash);
+	});
+});
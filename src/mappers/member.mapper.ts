@@ -0,0 +1,118 @@
+import { createHash } from "node:crypto";
+import type { RubicCompanyMember, RubicMember } from "@/types/rubic";
+import type { TripletexAddress, TripletexCustomer } from "@/types/tripletex";
+
+export type RubicMemberRecord =
+	| { memberType: "person"; member: RubicMember }
+	| { memberType: "company"; member: RubicCompanyMember };
+
+/**
+ * Tripletex customer number for a member: its ledger customer number when that
+ * is numeric, otherwise its member number.
+ */
+export function getMemberCustomerNumber(member: RubicMember | RubicCompanyMember): number {
+	if (member.ledgerCustomerNo) {
+		const parsed = Number.parseInt(member.ledgerCustomerNo, 10);
+		if (!Number.isNaN(parsed)) {
+			return parsed;
+		}
+	}
+	return member.memberNo;
+}
+
+/**
+ * Display name of a person member; first and last name win over the full name.
+ */
+export function getPersonMemberName(member: RubicMember): string {
+	const name = [member.firstName, member.lastName]
+		.map((part) => part?.trim())
+		.filter(Boolean)
+		.join(" ");
+	return name || member.fullName?.trim() || "";
+}
+
+/**
+ * Maps a Rubic person or company member to a Tripletex Customer.
+ */
+export function mapRubicMemberToTripletex(record: RubicMemberRecord): TripletexCustomer {
+	const { member } = record;
+	const tripletexCustomer: TripletexCustomer = {
+		name:
+			record.memberType === "person"
+				? getPersonMemberName(record.member)
+				: (record.member.companyName ?? ""),
+		customerNumber: getMemberCustomerNumber(member),
+		isCustomer: true,
+		isPrivateIndividual: record.memberType === "person",
+	};
+
+	// Map the company's registration number (Brønnøysund) without spaces
+	if (record.memberType === "company" && record.member.registrationAuthorityOrganizationNumber) {
+		tripletexCustomer.organizationNumber =
+			record.member.registrationAuthorityOrganizationNumber.replace(/\s/g, "");
+	}
+
+	// Map email to both email and invoiceEmail
+	if (member.email) {
+		tripletexCustomer.email = member.email;
+		tripletexCustomer.invoiceEmail = member.email;
+	}
+
+	// Map mobile phone
+	if (member.mobile) {
+		tripletexCustomer.phoneNumberMobile = member.mobile;
+	}
+
+	// Map address fields to postalAddress
+	const hasAddress = member.address || member.address2 || member.zipCode || member.city;
+
+	if (hasAddress) {
+		const postalAddress: TripletexAddress = {};
+		if (member.address) {
+			postalAddress.addressLine1 = member.address;
+		}
+		if (member.address2) {
+			postalAddress.addressLine2 = member.address2;
+		}
+		if (member.zipCode) {
+			postalAddress.postalCode = member.zipCode;
+		}
+		if (member.city) {
+			postalAddress.city = member.city;
+		}
+		tripletexCustomer.postalAddress = postalAddress;
+	}
+
+	return tripletexCustomer;
+}
+
+/**
+ * Computes a hash of key member fields for change detection.
+ * Uses SHA-256 and includes all fields that affect the Tripletex mapping.
+ */
+export function computeMemberHash(record: RubicMemberRecord): string {
+	const { member } = record;
+	const keyFields = {
+		memberType: record.memberType,
+		memberNo: member.memberNo,
+		ledgerCustomerNo: member.ledgerCustomerNo,
+		firstName: record.memberType === "person" ? record.member.firstName : undefined,
+		lastName: record.memberType === "person" ? record.member.lastName : undefined,
+		fullName: record.memberType === "person" ? record.member.fullName : undefined,
+		companyName: record.memberType === "company" ? record.member.companyName : undefined,
+		organizationNumber:
+			record.memberType === "company"
+				? record.member.registrationAuthorityOrganizationNumber
+				: undefined,
+		email: member.email,
+		mobile: member.mobile,
+		address: member.address,
+		address2: member.address2,
+		zipCode: member.zipCode,
+		city: member.city,
+	};
+
+	const hash = createHash("sha256");
+	hash.update(JSON.stringify(keyFields));
+	return hash.digest("hex");
+}
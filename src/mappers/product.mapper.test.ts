@@ -50,6 +50,18 @@ describe("Product Mapper", () => {
 
 		expect(result.priceExcludingVatCurrency).toBe(0);
 	});
+
+	test("mapRubicProductToTripletex sets vatType only when mapped", () => {
+		expect(mapRubicProductToTripletex(baseProduct, { vatTypeId: 3 }).vatType).toEqual({ id: 3 });
+		expect(mapRubicProductToTripletex(baseProduct).vatType).toBeUndefined();
+	});
+
+	test("mapRubicProductToTripletex sets department only when mapped", () => {
+		const result = mapRubicProductToTripletex(baseProduct, { departmentId: 7 });
+
+		expect(result.department).toEqual({ id: 7 });
+		expect(mapRubicProductToTripletex(baseProduct).department).toBeUndefined();
+	});
 });
 
 describe("Product Hash", () => {
@@ -99,4 +111,18 @@ describe("Product Hash", () => {
 
 		expect(computeProductHash(baseProduct)).toBe(computeProductHash(modified));
 	});
+
+	test("computeProductHash changes when the mapped VAT type changes", () => {
+		const vat3 = computeProductHash(baseProduct, { vatTypeId: 3 });
+
+		expect(vat3).not.toBe(computeProductHash(baseProduct));
+		expect(vat3).not.toBe(computeProductHash(baseProduct, { vatTypeId: 31 }));
+	});
+
+	test("computeProductHash changes when the mapped department changes", () => {
+		const dept7 = computeProductHash(baseProduct, { departmentId: 7 });
+
+		expect(dept7).not.toBe(computeProductHash(baseProduct));
+		expect(dept7).not.toBe(computeProductHash(baseProduct, { departmentId: 8 }));
+	});
 });
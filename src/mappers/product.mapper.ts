@@ -2,30 +2,57 @@ import { createHash } from "node:crypto";
 import type { RubicProduct } from "@/types/rubic";
 import type { TripletexProduct } from "@/types/tripletex";
 
+export interface ProductMappingOptions {
+	/** Tripletex vatType id from the org's VAT mapping. */
+	vatTypeId?: number;
+	/** Tripletex department id from the org's department mapping. */
+	departmentId?: number;
+}
+
 /**
  * Maps a Rubic ProductDTO to a Tripletex Product.
+ * VAT type and department are only set when mapped; otherwise Tripletex keeps its defaults.
  */
-export function mapRubicProductToTripletex(product: RubicProduct): TripletexProduct {
-	return {
+export function mapRubicProductToTripletex(
+	product: RubicProduct,
+	options: ProductMappingOptions = {},
+): TripletexProduct {
+	const result: TripletexProduct = {
 		number: product.productCode ?? undefined,
 		name: product.productName ?? undefined,
 		description: product.productDescription ?? undefined,
 		priceExcludingVatCurrency: product.price,
 		isInactive: false,
 	};
+
+	if (options.vatTypeId !== undefined) {
+		result.vatType = { id: options.vatTypeId };
+	}
+	if (options.departmentId !== undefined) {
+		result.department = { id: options.departmentId };
+	}
+
+	return result;
 }
 
 /**
  * Computes a hash of key fields from a Rubic product for change detection.
- * The hash is based on: productCode, productName, productDescription, and price.
+ * The hash is based on: productCode, productName, productDescription, price,
+ * and the mapped VAT type and department when there are any (so existing hashes stay valid).
  */
-export function computeProductHash(product: RubicProduct): string {
-	const keyFields = [
+export function computeProductHash(
+	product: RubicProduct,
+	options: ProductMappingOptions = {},
+): string {
+	const fields = [
 		product.productCode ?? "",
 		product.productName ?? "",
 		product.productDescription ?? "",
 		product.price.toString(),
-	].join("|");
+	];
+	if (options.vatTypeId !== undefined) fields.push(`vat:${options.vatTypeId}`);
+	if (options.departmentId !== undefined) fields.push(`dept:${options.departmentId}`);
+	const keyFields = fields.join("|");
 
 	return createHash("sha256").update(keyFields).digest("hex");
 }
@@ -14,6 +14,7 @@ export interface TripletexCustomer {
 	customerNumber?: number;
 	isSupplier?: boolean;
 	isCustomer?: boolean;
+	isPrivateIndividual?: boolean;
 	isInactive?: boolean;
 	email?: string;
 	invoiceEmail?: string;
@@ -46,6 +47,7 @@ export interface TripletexProduct {
 	priceIncludingVatCurrency?: number;
 	isInactive?: boolean;
 	vatType?: TripletexVatType;
+	department?: { id: number };
 }
 
 export interface TripletexVatType {
@@ -73,6 +75,7 @@ export interface TripletexOrder {
 	deliveryDate: string;
 	orderDate?: string;
 	orderLines?: TripletexOrderLine[];
+	department?: { id: number };
 }
 
 export interface TripletexOrderLine {
@@ -94,6 +97,18 @@ export interface TripletexPayment {
 	paymentType?: { id: number };
 }
 
+/** Query params of `PUT /invoice/{id}/:payment`; the endpoint takes no body. */
+export interface TripletexPaymentRegistration {
+	paymentDate: string;
+	paymentTypeId: number;
+	paidAmount: number;
+}
+
+export interface TripletexPaymentType {
+	id: number;
+	description?: string;
+}
+
 export interface TripletexSessionToken {
 	consumerToken: string;
 	employeeToken: string;